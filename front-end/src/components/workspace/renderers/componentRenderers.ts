@@ -6,6 +6,7 @@
 
 import Konva from 'konva';
 import type { CircuitComponent } from '@/types/circuit';
+import { getLampParams, getLampSteadyPower } from '@/lib/simulation/LampModel';
 
 /**
  * 繪製電阻符號
@@ -72,6 +73,190 @@ export function drawResistor(group: Konva.Group, component: CircuitComponent) {
     group.add(label);
 }
 
+/**
+ * 繪製感測電阻共用的本體：選取高亮、引線、矩形電阻本體與端點
+ */
+function drawSensorBody(group: Konva.Group, component: CircuitComponent, highlightHeight: number) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -highlightHeight / 2,
+            width: 90,
+            height: highlightHeight,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 引線
+    for (const side of [-1, 1]) {
+        const lead = new Konva.Line({
+            points: [side * 40, 0, side * 20, 0],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        group.add(lead);
+    }
+
+    // 電阻本體
+    const body = new Konva.Rect({
+        x: -20,
+        y: -7,
+        width: 40,
+        height: 14,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    group.add(body);
+
+    // 端點
+    for (const x of [-40, 40]) {
+        group.add(new Konva.Circle({ x, y: 0, radius: 4, fill: '#4caf50', stroke: '#4caf50', strokeWidth: 1, name: 'port' }));
+    }
+
+    return strokeColor;
+}
+
+/**
+ * 繪製熱敏電阻符號：電阻本體加上帶折角的斜線，並標示 NTC (-t°) / PTC (+t°)
+ */
+export function drawThermistor(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = drawSensorBody(group, component, 40);
+
+    // 斜線 (下方水平折角表示非線性)
+    const slash = new Konva.Line({
+        points: [-24, 12, -16, 12, 16, -14],
+        stroke: strokeColor,
+        strokeWidth: 1.5,
+    });
+    group.add(slash);
+
+    const coefficient = new Konva.Text({
+        x: 18,
+        y: 6,
+        text: component.thermistorType === 'ptc' ? '+t°' : '-t°',
+        fontSize: 9,
+        fill: '#ff9800',
+    });
+    group.add(coefficient);
+
+    // 標籤
+    const label = new Konva.Text({
+        x: -15,
+        y: -30,
+        text: `${component.label}\n${component.value}${component.unit}`,
+        fontSize: 10,
+        fill: '#888888',
+        align: 'center',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製光敏電阻符號：電阻本體加上兩道射入的光線箭頭
+ */
+export function drawLDR(group: Konva.Group, component: CircuitComponent) {
+    drawSensorBody(group, component, 50);
+
+    // 射入本體的光線
+    for (const x of [-12, 0]) {
+        const ray = new Konva.Arrow({
+            points: [x - 10, -22, x, -10],
+            pointerLength: 4,
+            pointerWidth: 4,
+            stroke: '#ffeb3b',
+            fill: '#ffeb3b',
+            strokeWidth: 1.5,
+        });
+        group.add(ray);
+    }
+
+    // 標籤
+    const label = new Konva.Text({
+        x: 8,
+        y: -30,
+        text: `${component.label}\n${component.value}${component.unit}`,
+        fontSize: 10,
+        fill: '#888888',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製電位器符號
+ * 電阻本體加上由上方滑臂端點指向本體的箭頭，箭頭位置隨滑臂位置移動
+ */
+export function drawPotentiometer(group: Konva.Group, component: CircuitComponent) {
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -35,
+            width: 90,
+            height: 50,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+
+    // 電阻本體 (與電阻相同的鋸齒形狀)
+    const zigzag = new Konva.Line({
+        points: [-40, 0, -25, 0, -20, -8, -10, 8, 0, -8, 10, 8, 20, -8, 25, 0, 40, 0],
+        stroke: strokeColor,
+        strokeWidth: component.selected ? 3 : 2,
+        lineCap: 'round',
+        lineJoin: 'round',
+    });
+    group.add(zigzag);
+
+    // 滑臂：由上方端點水平移至目前位置，再以箭頭指向本體
+    const wiperX = -20 + 40 * (component.wiperPosition ?? 0.5);
+    const wiper = new Konva.Arrow({
+        points: [0, -30, 0, -20, wiperX, -20, wiperX, -10],
+        stroke: '#ffb300',
+        fill: '#ffb300',
+        strokeWidth: 2,
+        pointerLength: 5,
+        pointerWidth: 6,
+    });
+    group.add(wiper);
+
+    // 端點 (順序需與 componentDefinitions 一致：1、w、2)
+    const port1 = new Konva.Circle({ x: -40, y: 0, radius: 4, fill: '#4caf50', name: 'port' });
+    const portWiper = new Konva.Circle({ x: 0, y: -30, radius: 4, fill: '#ffb300', name: 'port' });
+    const port2 = new Konva.Circle({ x: 40, y: 0, radius: 4, fill: '#4caf50', name: 'port' });
+    group.add(port1, portWiper, port2);
+
+    // 標籤
+    const label = new Konva.Text({
+        x: -15,
+        y: 12,
+        text: `${component.value}${component.unit}`,
+        fontSize: 10,
+        fill: '#888888',
+        align: 'center',
+    });
+    group.add(label);
+}
+
 /**
  * 繪製電容符號
  */
@@ -281,6 +466,104 @@ export function drawDCSource(group: Konva.Group, component: CircuitComponent) {
     group.add(label);
 }
 
+/**
+ * 繪製電池 (長板為正極，右側電量條顯示荷電狀態)
+ */
+export function drawBattery(group: Konva.Group, component: CircuitComponent) {
+    const stroke = component.selected ? '#4caf50' : '#cccccc';
+    const soc = Math.min(1, Math.max(0, component.liveStateOfCharge ?? component.stateOfCharge ?? 1));
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -30,
+            y: -45,
+            width: 60,
+            height: 90,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 連接線
+    const topLine = new Konva.Line({
+        points: [0, -40, 0, -6],
+        stroke,
+        strokeWidth: 2,
+    });
+    const bottomLine = new Konva.Line({
+        points: [0, 6, 0, 40],
+        stroke,
+        strokeWidth: 2,
+    });
+
+    // 正極 (長板) / 負極 (短板)
+    const plusPlate = new Konva.Line({
+        points: [-14, -6, 14, -6],
+        stroke: '#ff5722',
+        strokeWidth: 3,
+    });
+    const minusPlate = new Konva.Line({
+        points: [-7, 6, 7, 6],
+        stroke: '#2196f3',
+        strokeWidth: 5,
+    });
+
+    // 電量條
+    const gaugeHeight = 24;
+    const gauge = new Konva.Rect({
+        x: 20,
+        y: -gaugeHeight / 2,
+        width: 8,
+        height: gaugeHeight,
+        stroke,
+        strokeWidth: 1,
+    });
+    const level = new Konva.Rect({
+        x: 21,
+        y: gaugeHeight / 2 - (gaugeHeight - 2) * soc - 1,
+        width: 6,
+        height: (gaugeHeight - 2) * soc,
+        fill: soc > 0.5 ? '#4caf50' : soc > 0.2 ? '#ffc107' : '#f44336',
+    });
+
+    group.add(topLine, bottomLine, plusPlate, minusPlate, gauge, level);
+
+    // 端點
+    const portPlus = new Konva.Circle({
+        x: 0,
+        y: -40,
+        radius: 4,
+        fill: '#ff5722',
+        name: 'port',
+    });
+    const portMinus = new Konva.Circle({
+        x: 0,
+        y: 40,
+        radius: 4,
+        fill: '#2196f3',
+        name: 'port',
+    });
+    group.add(portPlus, portMinus);
+
+    // 標籤 (電動勢與荷電狀態)
+    const label = new Konva.Text({
+        x: 32,
+        y: -14,
+        text: `${component.value}${component.unit}\n${Math.round(soc * 100)}%`,
+        fontSize: 11,
+        lineHeight: 1.3,
+        fill: '#ffeb3b',
+    });
+    group.add(label);
+}
+
 /**
  * 繪製 AC 電源
  */
@@ -362,20 +645,23 @@ export function drawACSource(group: Konva.Group, component: CircuitComponent) {
 }
 
 /**
- * 繪製 LED
+ * 繪製電流源 (DC / AC)
+ * 箭頭指向 + 端，表示電流自 + 端流出至外部電路；AC 電流源另加正弦符號
  */
-export function drawLED(group: Konva.Group, component: CircuitComponent) {
+export function drawCurrentSource(group: Konva.Group, component: CircuitComponent) {
+    const isAC = component.type === 'ac_current_source';
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const accentColor = isAC ? '#ab47bc' : '#ff9800';
+
     // 如果選取，添加高亮背景
     if (component.selected) {
-        const highlight = new Konva.Rect({
-            x: -45,
-            y: -30,
-            width: 90,
-            height: 60,
+        const highlight = new Konva.Circle({
+            x: 0,
+            y: 0,
+            radius: 50,
             fill: 'rgba(76, 175, 80, 0.1)',
             stroke: '#4caf50',
             strokeWidth: 2,
-            cornerRadius: 4,
             shadowColor: '#4caf50',
             shadowBlur: 10,
             shadowOpacity: 0.5,
@@ -383,54 +669,242 @@ export function drawLED(group: Konva.Group, component: CircuitComponent) {
         group.add(highlight);
     }
 
-    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
-    const strokeWidth = component.selected ? 3 : 2;
-
-    // 左側連線 (Anode)
-    const line1 = new Konva.Line({
-        points: [-40, 0, -10, 0],
+    // 圓形
+    const circle = new Konva.Circle({
+        x: 0,
+        y: 0,
+        radius: 18,
         stroke: strokeColor,
-        strokeWidth: strokeWidth,
+        strokeWidth: component.selected ? 3 : 2,
+        fill: 'transparent',
     });
 
-    // 右側連線 (Cathode)
-    const line2 = new Konva.Line({
-        points: [10, 0, 40, 0],
-        stroke: strokeColor,
-        strokeWidth: strokeWidth,
+    // 電流方向箭頭 (由 - 端指向 + 端)
+    const arrow = new Konva.Arrow({
+        points: isAC ? [-6, 11, -6, -11] : [0, 11, 0, -11],
+        stroke: accentColor,
+        fill: accentColor,
+        strokeWidth: 2,
+        pointerLength: 5,
+        pointerWidth: 6,
     });
+    group.add(circle, arrow);
 
-    // 三角形 (指向右)
-    const triangle = new Konva.Line({
-        points: [-10, -10, -10, 10, 10, 0],
-        closed: true,
+    if (isAC) {
+        const sine = new Konva.Line({
+            points: [0, 0, 2.5, -5, 5, 0, 7.5, 5, 10, 0],
+            stroke: accentColor,
+            strokeWidth: 2,
+            tension: 0.5,
+        });
+        group.add(sine);
+    }
+
+    // 連接線 - 調整為 4 格長度 (80px)
+    const topLine = new Konva.Line({
+        points: [0, -40, 0, -18],
         stroke: strokeColor,
-        strokeWidth: strokeWidth,
-        fill: 'transparent',
+        strokeWidth: 2,
     });
-
-    // 垂直擋板 (Cathode side)
-    const bar = new Konva.Line({
-        points: [10, -10, 10, 10],
+    const bottomLine = new Konva.Line({
+        points: [0, 18, 0, 40],
         stroke: strokeColor,
-        strokeWidth: strokeWidth,
+        strokeWidth: 2,
     });
+    group.add(topLine, bottomLine);
 
-    // 判斷是否導通 (假設電流 > 0.1mA 為導通)
-    // 如果沒有模擬數據 (current undefined)，預設不發光
-    const isConducting = component.current !== undefined && component.current > 0.0001;
+    // 端點
+    const portPlus = new Konva.Circle({
+        x: 0,
+        y: -40,
+        radius: 4,
+        fill: isAC ? accentColor : '#ff5722',
+        name: 'port',
+    });
+    const portMinus = new Konva.Circle({
+        x: 0,
+        y: 40,
+        radius: 4,
+        fill: isAC ? accentColor : '#2196f3',
+        name: 'port',
+    });
+    group.add(portPlus, portMinus);
 
-    // 根據 LED 顏色屬性決定發光顏色
-    // LED-001 規範：支援 Red, Green, Blue, White 顏色
-    const LED_COLORS: Record<string, string> = {
-        Red: '#ff4444',
-        Green: '#44ff44',
-        Blue: '#4488ff',
-        White: '#ffffff',
-    };
-    const arrowColor = component.ledColor ? (LED_COLORS[component.ledColor] ?? '#ffeb3b') : '#ffeb3b';
-    const arrowDates = [
-        { x: 0, y: -15 },
+    // 標籤
+    const label = new Konva.Text({
+        x: 25,
+        y: -8,
+        text: `${component.value}${component.unit}`,
+        fontSize: 11,
+        fill: '#ffeb3b',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製受控電源 (VCVS / VCCS / CCVS / CCCS)
+ * 菱形外框；電壓型標示 +/-，電流型以箭頭表示元件內部電流方向 (out+ → out-，同 SPICE G / F)
+ * VCVS / VCCS 左側另有控制端 c+ / c-
+ */
+export function drawControlledSource(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const accentColor = '#26a69a';
+    const isVoltageType = component.type === 'vcvs' || component.type === 'ccvs';
+    const hasControlPorts = component.type === 'vcvs' || component.type === 'vccs';
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Circle({
+            x: 0,
+            y: 0,
+            radius: 50,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 菱形
+    const diamond = new Konva.Line({
+        points: [0, -20, 20, 0, 0, 20, -20, 0],
+        closed: true,
+        stroke: strokeColor,
+        strokeWidth: component.selected ? 3 : 2,
+        fill: 'transparent',
+    });
+    group.add(diamond);
+
+    if (isVoltageType) {
+        // + / - 符號
+        const plus1 = new Konva.Line({ points: [0, -13, 0, -5], stroke: '#ff5722', strokeWidth: 2 });
+        const plus2 = new Konva.Line({ points: [-4, -9, 4, -9], stroke: '#ff5722', strokeWidth: 2 });
+        const minus = new Konva.Line({ points: [-4, 9, 4, 9], stroke: '#2196f3', strokeWidth: 2 });
+        group.add(plus1, plus2, minus);
+    } else {
+        // 電流方向箭頭
+        const arrow = new Konva.Arrow({
+            points: [0, -10, 0, 10],
+            stroke: accentColor,
+            fill: accentColor,
+            strokeWidth: 2,
+            pointerLength: 5,
+            pointerWidth: 6,
+        });
+        group.add(arrow);
+    }
+
+    // 輸出連接線
+    const topLine = new Konva.Line({ points: [0, -40, 0, -20], stroke: strokeColor, strokeWidth: 2 });
+    const bottomLine = new Konva.Line({ points: [0, 20, 0, 40], stroke: strokeColor, strokeWidth: 2 });
+    group.add(topLine, bottomLine);
+
+    // 端點 (順序需與 componentDefinitions 一致：+、-、c+、c-)
+    const portPlus = new Konva.Circle({ x: 0, y: -40, radius: 4, fill: '#ff5722', name: 'port' });
+    const portMinus = new Konva.Circle({ x: 0, y: 40, radius: 4, fill: '#2196f3', name: 'port' });
+    group.add(portPlus, portMinus);
+
+    if (hasControlPorts) {
+        // 控制端：由菱形左側引出
+        const controlLines = new Konva.Line({
+            points: [-40, -20, -28, -20, -28, 20, -40, 20],
+            stroke: strokeColor,
+            strokeWidth: 1,
+            dash: [3, 3],
+        });
+        const controlPlus = new Konva.Text({ x: -38, y: -34, text: '+', fontSize: 10, fill: '#ff5722' });
+        const controlMinus = new Konva.Text({ x: -38, y: 24, text: '−', fontSize: 10, fill: '#2196f3' });
+        group.add(controlLines, controlPlus, controlMinus);
+
+        const portCtrlPlus = new Konva.Circle({ x: -40, y: -20, radius: 4, fill: accentColor, name: 'port' });
+        const portCtrlMinus = new Konva.Circle({ x: -40, y: 20, radius: 4, fill: accentColor, name: 'port' });
+        group.add(portCtrlPlus, portCtrlMinus);
+    }
+
+    // 標籤
+    const label = new Konva.Text({
+        x: 25,
+        y: -8,
+        text: `${component.value}${component.unit}`,
+        fontSize: 11,
+        fill: '#ffeb3b',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製 LED
+ */
+export function drawLED(group: Konva.Group, component: CircuitComponent) {
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -30,
+            width: 90,
+            height: 60,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 左側連線 (Anode)
+    const line1 = new Konva.Line({
+        points: [-40, 0, -10, 0],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 右側連線 (Cathode)
+    const line2 = new Konva.Line({
+        points: [10, 0, 40, 0],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 三角形 (指向右)
+    const triangle = new Konva.Line({
+        points: [-10, -10, -10, 10, 10, 0],
+        closed: true,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        fill: 'transparent',
+    });
+
+    // 垂直擋板 (Cathode side)
+    const bar = new Konva.Line({
+        points: [10, -10, 10, 10],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 判斷是否導通 (假設電流 > 0.1mA 為導通)
+    // 如果沒有模擬數據 (current undefined)，預設不發光
+    const isConducting = component.current !== undefined && component.current > 0.0001;
+
+    // 根據 LED 顏色屬性決定發光顏色
+    // LED-001 規範：支援 Red, Green, Blue, White 顏色
+    const LED_COLORS: Record<string, string> = {
+        Red: '#ff4444',
+        Green: '#44ff44',
+        Blue: '#4488ff',
+        White: '#ffffff',
+    };
+    const arrowColor = component.ledColor ? (LED_COLORS[component.ledColor] ?? '#ffeb3b') : '#ffeb3b';
+    const arrowDates = [
+        { x: 0, y: -15 },
         { x: 10, y: -15 }
     ];
 
@@ -491,16 +965,17 @@ export function drawLED(group: Konva.Group, component: CircuitComponent) {
 }
 
 /**
- * 繪製通用元件
+ * 繪製燈泡符號：圓內打叉，燈絲發光亮度與消耗功率 / 額定功率成正比
+ * 功率由 current (同 LED) 依燈絲穩態電阻換算
  */
-export function drawGenericComponent(group: Konva.Group, component: CircuitComponent) {
+export function drawLamp(group: Konva.Group, component: CircuitComponent) {
     // 如果選取，添加高亮背景
     if (component.selected) {
         const highlight = new Konva.Rect({
             x: -45,
-            y: -20,
+            y: -25,
             width: 90,
-            height: 40,
+            height: 50,
             fill: 'rgba(76, 175, 80, 0.1)',
             stroke: '#4caf50',
             strokeWidth: 2,
@@ -512,70 +987,78 @@ export function drawGenericComponent(group: Konva.Group, component: CircuitCompo
         group.add(highlight);
     }
 
-    // 調整為 4 格長度 (80px)
-    const rect = new Konva.Rect({
-        x: -40,
-        y: -15,
-        width: 80,
-        height: 30,
-        stroke: component.selected ? '#4caf50' : '#666666',
-        strokeWidth: component.selected ? 3 : 2,
-        fill: 'transparent',
-        cornerRadius: 4,
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 亮度 = P / P_r (超過額定功率時不再更亮)；沒有模擬數據時不發光
+    const params = getLampParams(component);
+    const power = component.current !== undefined ? getLampSteadyPower(params, component.current) : 0;
+    const brightness = Math.min(1, power / params.ratedPower);
+
+    // 引線
+    for (const side of [-1, 1]) {
+        const lead = new Konva.Line({
+            points: [side * 40, 0, side * 15, 0],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        group.add(lead);
+    }
+
+    // 玻璃殼 (發光時填色並加上光暈)
+    const bulb = new Konva.Circle({
+        x: 0,
+        y: 0,
+        radius: 15,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        fill: `rgba(255, 214, 0, ${(0.85 * brightness).toFixed(3)})`,
+        name: 'lamp-bulb',
     });
+    if (brightness > 0.01) {
+        bulb.shadowColor('#ffd600');
+        bulb.shadowBlur(25 * brightness);
+        bulb.shadowOpacity(brightness);
+    }
+    group.add(bulb);
 
-    const text = new Konva.Text({
-        x: -20,
-        y: -6,
-        text: component.type.substring(0, 3).toUpperCase(),
-        fontSize: 12,
-        fill: '#888888',
+    // 燈絲 (X)
+    const d = 15 / Math.SQRT2;
+    const filament = new Konva.Line({
+        points: [-d, -d, d, d, 0, 0, d, -d, -d, d],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
     });
+    group.add(filament);
 
-    group.add(rect, text);
+    // 端點
+    for (const x of [-40, 40]) {
+        group.add(new Konva.Circle({ x, y: 0, radius: 4, fill: '#03a9f4', stroke: '#03a9f4', strokeWidth: 1, name: 'port' }));
+    }
 
-    // 通用端點
-    const port1 = new Konva.Circle({
-        x: -40,
-        y: 0,
-        radius: 4,
-        fill: '#4caf50',
-        name: 'port',
-    });
-    const port2 = new Konva.Circle({
-        x: 40,
-        y: 0,
-        radius: 4,
-        fill: '#4caf50',
-        name: 'port',
+    // 標籤 (額定電壓 / 功率)
+    const label = new Konva.Text({
+        x: -20,
+        y: -30,
+        text: `${params.ratedVoltage}V ${component.value}${component.unit}`,
+        fontSize: 10,
+        fill: '#ffeb3b',
     });
-    group.add(port1, port2);
+    group.add(label);
 }
 
 /**
- * 繪製AND邏輯閘
+ * 繪製稽納二極體
+ * 三角形指向陰極，陰極擋板兩端彎折 (Z 形)
  */
-export function drawANDGate(group: Konva.Group, component: CircuitComponent) {
-    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
-    const strokeWidth = component.selected ? 3 : 2;
-
-    // 判斷輸出狀態 (用於視覺回饋)
-    const outputHigh = component.logicOutput === true;
-    const inputAHigh = component.logicInputA === true;
-    const inputBHigh = component.logicInputB === true;
-
-    // 輸出顏色：HIGH 為亮綠色，LOW 為灰色
-    const outputColor = outputHigh ? '#00ff00' : '#ff5722';
-    const inputAColor = inputAHigh ? '#00bfff' : '#2196f3';
-    const inputBColor = inputBHigh ? '#00bfff' : '#2196f3';
-
+export function drawZener(group: Konva.Group, component: CircuitComponent) {
     // 如果選取，添加高亮背景
     if (component.selected) {
         const highlight = new Konva.Rect({
             x: -45,
-            y: -25,
+            y: -20,
             width: 90,
-            height: 50,
+            height: 40,
             fill: 'rgba(76, 175, 80, 0.1)',
             stroke: '#4caf50',
             strokeWidth: 2,
@@ -587,49 +1070,303 @@ export function drawANDGate(group: Konva.Group, component: CircuitComponent) {
         group.add(highlight);
     }
 
-    // AND閘的標準符號：左側平坦，右側圓弧
-    // 左側直線
-    const leftLine = new Konva.Line({
-        points: [-30, -20, -30, 20],
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 左側連線 (Anode)
+    const line1 = new Konva.Line({
+        points: [-40, 0, -10, 0],
         stroke: strokeColor,
         strokeWidth: strokeWidth,
     });
 
-    // 頂部和底部線
-    const topLine = new Konva.Line({
-        points: [-30, -20, 0, -20],
+    // 右側連線 (Cathode)
+    const line2 = new Konva.Line({
+        points: [10, 0, 40, 0],
         stroke: strokeColor,
         strokeWidth: strokeWidth,
     });
-    const bottomLine = new Konva.Line({
-        points: [-30, 20, 0, 20],
+
+    // 三角形 (指向右)
+    const triangle = new Konva.Line({
+        points: [-10, -10, -10, 10, 10, 0],
+        closed: true,
         stroke: strokeColor,
         strokeWidth: strokeWidth,
+        fill: 'transparent',
     });
 
-    // 右側圓弧
-    const arc = new Konva.Arc({
-        x: 0,
-        y: 0,
-        innerRadius: 0,
-        outerRadius: 20,
-        angle: 180,
-        rotation: -90,
+    // Z 形擋板 (Cathode side)
+    const bar = new Konva.Line({
+        points: [4, -14, 10, -10, 10, 10, 16, 14],
         stroke: strokeColor,
         strokeWidth: strokeWidth,
-        fill: 'transparent',
     });
 
-    group.add(leftLine, topLine, bottomLine, arc);
+    group.add(line1, line2, triangle, bar);
 
-    // 輸入端點 A (帶狀態顯示)
-    const portA = new Konva.Circle({
+    // 端點
+    const portAnode = new Konva.Circle({
         x: -40,
-        y: -10,
+        y: 0,
         radius: 4,
-        fill: inputAColor,
-        stroke: inputAColor,
-        strokeWidth: 1,
+        fill: '#ff5722', // Anode Red
+        name: 'port',
+    });
+    const portCathode = new Konva.Circle({
+        x: 40,
+        y: 0,
+        radius: 4,
+        fill: '#2196f3', // Cathode Blue
+        name: 'port',
+    });
+    group.add(portAnode, portCathode);
+
+    // 標籤 (崩潰電壓)
+    const label = new Konva.Text({
+        x: -15,
+        y: 18,
+        text: `${component.value}${component.unit}`,
+        fontSize: 11,
+        fill: '#ffeb3b',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製變壓器
+ * 左側一次繞組、右側二次繞組，中間雙線為鐵芯 (理想變壓器)，圓點為同名端
+ */
+export function drawTransformer(group: Konva.Group, component: CircuitComponent) {
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -38,
+            width: 90,
+            height: 76,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 繞組：各由三個半圓組成，凸面朝外
+    for (const side of [-1, 1]) {
+        for (let i = 0; i < 3; i++) {
+            const arc = new Konva.Arc({
+                x: side * 14,
+                y: -20 + i * 20,
+                innerRadius: 10,
+                outerRadius: 10,
+                angle: 180,
+                rotation: side < 0 ? 90 : -90,
+                stroke: strokeColor,
+                strokeWidth: strokeWidth,
+            });
+            group.add(arc);
+        }
+
+        // 引線：由繞組兩端連到端點
+        const leadTop = new Konva.Line({
+            points: [side * 40, -30, side * 14, -30],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        const leadBottom = new Konva.Line({
+            points: [side * 40, 30, side * 14, 30],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        group.add(leadTop, leadBottom);
+
+        // 同名端圓點
+        const dot = new Konva.Circle({
+            x: side * 8,
+            y: -26,
+            radius: 2.5,
+            fill: strokeColor,
+        });
+        group.add(dot);
+    }
+
+    // 鐵芯 (理想變壓器以實線表示，耦合電感以虛線表示)
+    for (const x of [-2, 2]) {
+        const core = new Konva.Line({
+            points: [x, -30, x, 30],
+            stroke: strokeColor,
+            strokeWidth: 1.5,
+            dash: component.transformerIdeal ? undefined : [4, 3],
+        });
+        group.add(core);
+    }
+
+    // 端點 (順序需與 componentDefinitions 一致：p1、p2、s1、s2)
+    const portP1 = new Konva.Circle({ x: -40, y: -30, radius: 4, fill: '#ff5722', name: 'port' });
+    const portP2 = new Konva.Circle({ x: -40, y: 30, radius: 4, fill: '#2196f3', name: 'port' });
+    const portS1 = new Konva.Circle({ x: 40, y: -30, radius: 4, fill: '#ff5722', name: 'port' });
+    const portS2 = new Konva.Circle({ x: 40, y: 30, radius: 4, fill: '#2196f3', name: 'port' });
+    group.add(portP1, portP2, portS1, portS2);
+
+    // 標籤 (匝數比)
+    const label = new Konva.Text({
+        x: -12,
+        y: 36,
+        text: `${component.value}${component.unit}`,
+        fontSize: 11,
+        fill: '#ffeb3b',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製通用元件
+ */
+export function drawGenericComponent(group: Konva.Group, component: CircuitComponent) {
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -20,
+            width: 90,
+            height: 40,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 調整為 4 格長度 (80px)
+    const rect = new Konva.Rect({
+        x: -40,
+        y: -15,
+        width: 80,
+        height: 30,
+        stroke: component.selected ? '#4caf50' : '#666666',
+        strokeWidth: component.selected ? 3 : 2,
+        fill: 'transparent',
+        cornerRadius: 4,
+    });
+
+    const text = new Konva.Text({
+        x: -20,
+        y: -6,
+        text: component.type.substring(0, 3).toUpperCase(),
+        fontSize: 12,
+        fill: '#888888',
+    });
+
+    group.add(rect, text);
+
+    // 通用端點
+    const port1 = new Konva.Circle({
+        x: -40,
+        y: 0,
+        radius: 4,
+        fill: '#4caf50',
+        name: 'port',
+    });
+    const port2 = new Konva.Circle({
+        x: 40,
+        y: 0,
+        radius: 4,
+        fill: '#4caf50',
+        name: 'port',
+    });
+    group.add(port1, port2);
+}
+
+/**
+ * 繪製AND邏輯閘
+ */
+export function drawANDGate(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 判斷輸出狀態 (用於視覺回饋)
+    const outputHigh = component.logicOutput === true;
+    const inputAHigh = component.logicInputA === true;
+    const inputBHigh = component.logicInputB === true;
+
+    // 輸出顏色：HIGH 為亮綠色，LOW 為灰色
+    const outputColor = outputHigh ? '#00ff00' : '#ff5722';
+    const inputAColor = inputAHigh ? '#00bfff' : '#2196f3';
+    const inputBColor = inputBHigh ? '#00bfff' : '#2196f3';
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -25,
+            width: 90,
+            height: 50,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // AND閘的標準符號：左側平坦，右側圓弧
+    // 左側直線
+    const leftLine = new Konva.Line({
+        points: [-30, -20, -30, 20],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 頂部和底部線
+    const topLine = new Konva.Line({
+        points: [-30, -20, 0, -20],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    const bottomLine = new Konva.Line({
+        points: [-30, 20, 0, 20],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 右側圓弧
+    const arc = new Konva.Arc({
+        x: 0,
+        y: 0,
+        innerRadius: 0,
+        outerRadius: 20,
+        angle: 180,
+        rotation: -90,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        fill: 'transparent',
+    });
+
+    group.add(leftLine, topLine, bottomLine, arc);
+
+    // 輸入端點 A (帶狀態顯示)
+    const portA = new Konva.Circle({
+        x: -40,
+        y: -10,
+        radius: 4,
+        fill: inputAColor,
+        stroke: inputAColor,
+        strokeWidth: 1,
         name: 'port',
     });
     // 輸入 A 狀態發光效果
@@ -949,36 +1686,1193 @@ export function drawSwitch(group: Konva.Group, component: CircuitComponent) {
 }
 
 /**
- * 根據元件類型繪製對應的圖形
+ * 繪製切換開關符號 (SPDT / DPDT)
+ * 端點順序需與元件定義一致：SPDT com、a、b；DPDT com1、a1、b1、com2、a2、b2
  */
-export function drawComponentShape(group: Konva.Group, component: CircuitComponent) {
-    switch (component.type) {
-        case 'resistor':
-            drawResistor(group, component);
-            break;
-        case 'capacitor':
-            drawCapacitor(group, component);
-            break;
-        case 'ground':
-            drawGround(group, component);
-            break;
-        case 'dc_source':
-            drawDCSource(group, component);
-            break;
-        case 'ac_source':
-            drawACSource(group, component);
-            break;
-        case 'led':
-            drawLED(group, component);
-            break;
-        case 'logic_and':
-            drawANDGate(group, component);
-            break;
-        case 'logic_or':
-            drawORGate(group, component);
-            break;
-        case 'switch':
-            drawSwitch(group, component);
+export function drawThrowSwitch(group: Konva.Group, component: CircuitComponent) {
+    const isDPDT = component.type === 'switch_dpdt';
+    const throwB = (component.switchThrow ?? 0) === 1;
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+    const halfHeight = isDPDT ? 38 : 28;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -halfHeight,
+            width: 90,
+            height: halfHeight * 2,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 各極：[com y, a y, b y]
+    const poles: Array<[number, number, number]> = isDPDT
+        ? [[-20, -30, -10], [20, 10, 30]]
+        : [[0, -20, 20]];
+
+    for (const [comY, aY, bY] of poles) {
+        const comLead = new Konva.Line({
+            points: [-40, comY, -15, comY],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        const comContact = new Konva.Circle({ x: -15, y: comY, radius: 3, fill: strokeColor });
+        group.add(comLead, comContact);
+
+        for (const y of [aY, bY]) {
+            const lead = new Konva.Line({
+                points: [15, y, 40, y],
+                stroke: strokeColor,
+                strokeWidth: strokeWidth,
+            });
+            const contact = new Konva.Circle({ x: 15, y: y, radius: 3, fill: strokeColor });
+            group.add(lead, contact);
+        }
+
+        // 可動臂 (接到目前的切換位置)
+        const arm = new Konva.Line({
+            points: [-15, comY, 13, throwB ? bY : aY],
+            stroke: '#4caf50',
+            strokeWidth: strokeWidth,
+            lineCap: 'round',
+        });
+        group.add(arm);
+    }
+
+    // DPDT 兩極連動 (虛線)
+    if (isDPDT) {
+        const linkage = new Konva.Line({
+            points: [0, throwB ? -14 : -26, 0, throwB ? 26 : 14],
+            stroke: strokeColor,
+            strokeWidth: 1,
+            dash: [3, 3],
+        });
+        group.add(linkage);
+    }
+
+    // 端點 (順序同元件定義)
+    const ports: Array<[number, number]> = poles.flatMap(([comY, aY, bY]) => [
+        [-40, comY] as [number, number],
+        [40, aY] as [number, number],
+        [40, bY] as [number, number],
+    ]);
+    for (const [x, y] of ports) {
+        group.add(new Konva.Circle({ x, y, radius: 4, fill: '#03a9f4', name: 'port' }));
+    }
+
+    // 標籤 (目前位置)
+    const label = new Konva.Text({
+        x: -30,
+        y: -halfHeight - 12,
+        text: `${component.label || 'SW'} ${throwB ? 'B' : 'A'}`,
+        fontSize: 10,
+        fill: '#4caf50',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製按鈕開關符號 (常開 NO / 常閉 NC)
+ * 按住時接點狀態與常態相反
+ */
+export function drawPushButton(group: Konva.Group, component: CircuitComponent) {
+    const isNC = component.type === 'push_button_nc';
+    const pressed = component.buttonPressed ?? false;
+    const isClosed = isNC ? !pressed : pressed;
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -28,
+            width: 90,
+            height: 56,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 兩側連接線與固定接點
+    for (const side of [-1, 1]) {
+        const lead = new Konva.Line({
+            points: [side * 40, 0, side * 15, 0],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        const contact = new Konva.Circle({ x: side * 15, y: 0, radius: 3, fill: strokeColor });
+        group.add(lead, contact);
+    }
+
+    // 可動橋：NO 常態在接點上方、NC 常態在接點下方貼合；閉合時貼在接點上
+    const bridgeY = isClosed ? (isNC ? 3 : -3) : (isNC ? 10 : -10);
+    const bridge = new Konva.Line({
+        points: [-18, bridgeY, 18, bridgeY],
+        stroke: isClosed ? '#4caf50' : '#ff9800',
+        strokeWidth: strokeWidth,
+        lineCap: 'round',
+    });
+    // 按鈕桿與按帽
+    const stem = new Konva.Line({
+        points: [0, bridgeY, 0, -20],
+        stroke: strokeColor,
+        strokeWidth: 1.5,
+    });
+    const cap = new Konva.Line({
+        points: [-8, -20, 8, -20],
+        stroke: pressed ? '#4caf50' : strokeColor,
+        strokeWidth: 3,
+        lineCap: 'round',
+    });
+    group.add(bridge, stem, cap);
+
+    // 端點
+    for (const x of [-40, 40]) {
+        group.add(new Konva.Circle({ x, y: 0, radius: 4, fill: '#03a9f4', stroke: '#03a9f4', strokeWidth: 1, name: 'port' }));
+    }
+
+    // 狀態指示標籤
+    const stateLabel = new Konva.Text({
+        x: -20,
+        y: 14,
+        text: `${component.label || 'PB'} ${isNC ? 'NC' : 'NO'}`,
+        fontSize: 10,
+        fill: isClosed ? '#4caf50' : '#ff9800',
+    });
+    group.add(stateLabel);
+}
+
+/**
+ * 繪製保險絲符號：外殼內的熔絲，熔斷後熔絲斷開並以紅色標示
+ */
+export function drawFuse(group: Konva.Group, component: CircuitComponent) {
+    const blown = component.liveFuseBlown ?? false;
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -20,
+            width: 90,
+            height: 40,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 引線
+    for (const side of [-1, 1]) {
+        const lead = new Konva.Line({
+            points: [side * 40, 0, side * 20, 0],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        group.add(lead);
+    }
+
+    // 外殼
+    const body = new Konva.Rect({
+        x: -20,
+        y: -8,
+        width: 40,
+        height: 16,
+        stroke: blown ? '#f44336' : strokeColor,
+        strokeWidth: strokeWidth,
+        cornerRadius: 3,
+    });
+    group.add(body);
+
+    // 熔絲：未熔斷為貫穿的細線，熔斷後中間斷開、兩端下垂
+    if (blown) {
+        const left = new Konva.Line({
+            points: [-20, 0, -6, 0, -3, 4],
+            stroke: '#f44336',
+            strokeWidth: 1.5,
+        });
+        const right = new Konva.Line({
+            points: [20, 0, 6, 0, 3, 4],
+            stroke: '#f44336',
+            strokeWidth: 1.5,
+        });
+        group.add(left, right);
+    } else {
+        const element = new Konva.Line({
+            points: [-20, 0, 20, 0],
+            stroke: strokeColor,
+            strokeWidth: 1.5,
+        });
+        group.add(element);
+    }
+
+    // 端點
+    for (const x of [-40, 40]) {
+        group.add(new Konva.Circle({ x, y: 0, radius: 4, fill: '#03a9f4', stroke: '#03a9f4', strokeWidth: 1, name: 'port' }));
+    }
+
+    // 標籤 (額定電流，熔斷時顯示 BLOWN)
+    const label = new Konva.Text({
+        x: -20,
+        y: -22,
+        text: blown ? 'BLOWN' : `${component.value}${component.unit}`,
+        fontSize: 10,
+        fill: blown ? '#f44336' : '#ffeb3b',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製繼電器符號：左側線圈、右側 SPDT 接點
+ * 端點順序需與元件定義一致：c1、c2、com、no、nc
+ */
+export function drawRelay(group: Konva.Group, component: CircuitComponent) {
+    // 接點位置僅在串流模擬中有吸合狀態，其餘時間顯示常態 (COM-NC)
+    const energized = component.liveRelayEnergized ?? false;
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -28,
+            width: 90,
+            height: 56,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 線圈：方框加對角線，引線連到 c1 / c2
+    const coil = new Konva.Rect({
+        x: -28,
+        y: -12,
+        width: 16,
+        height: 24,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    const coilDiagonal = new Konva.Line({
+        points: [-28, 12, -12, -12],
+        stroke: strokeColor,
+        strokeWidth: 1,
+    });
+    const coilLeads = new Konva.Line({
+        points: [-40, -20, -20, -20, -20, -12],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    const coilLeadsBottom = new Konva.Line({
+        points: [-40, 20, -20, 20, -20, 12],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    group.add(coil, coilDiagonal, coilLeads, coilLeadsBottom);
+
+    // 線圈與接點間的機械連動 (虛線)
+    const linkage = new Konva.Line({
+        points: [-12, 0, 14, 0],
+        stroke: strokeColor,
+        strokeWidth: 1,
+        dash: [3, 3],
+    });
+    group.add(linkage);
+
+    // 固定接點 NO (上) / NC (下) 與引線
+    for (const y of [-20, 20]) {
+        const lead = new Konva.Line({
+            points: [40, y, 24, y],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        const contact = new Konva.Circle({
+            x: 24,
+            y: y,
+            radius: 2.5,
+            fill: strokeColor,
+        });
+        group.add(lead, contact);
+    }
+
+    // 共點 COM 與可動臂 (吸合時接 NO，否則接 NC)
+    const comLead = new Konva.Line({
+        points: [40, 0, 32, 0],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    const arm = new Konva.Line({
+        points: energized ? [32, 0, 24, -18] : [32, 0, 24, 18],
+        stroke: energized ? '#4caf50' : '#ff9800',
+        strokeWidth: strokeWidth,
+        lineCap: 'round',
+    });
+    group.add(comLead, arm);
+
+    // 端點
+    const ports: Array<[number, number, string]> = [
+        [-40, -20, '#ff5722'],
+        [-40, 20, '#2196f3'],
+        [40, 0, '#03a9f4'],
+        [40, -20, '#03a9f4'],
+        [40, 20, '#03a9f4'],
+    ];
+    for (const [x, y, fill] of ports) {
+        group.add(new Konva.Circle({ x, y, radius: 4, fill, name: 'port' }));
+    }
+
+    // 標籤 (線圈電阻)
+    const label = new Konva.Text({
+        x: -30,
+        y: 26,
+        text: `${component.label || 'K'} ${component.value}${component.unit}`,
+        fontSize: 10,
+        fill: '#ffeb3b',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製直流馬達符號：圓形外殼內的轉子 (三支輻條)
+ * 轉子節點命名為 motor-rotor，串流模擬中由畫布動畫依轉速旋轉
+ */
+export function drawDcMotor(group: Konva.Group, component: CircuitComponent) {
+    // 轉速僅在串流模擬中存在
+    const speed = component.liveMotorSpeed;
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -25,
+            width: 90,
+            height: 50,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 引線
+    for (const side of [-1, 1]) {
+        const lead = new Konva.Line({
+            points: [side * 40, 0, side * 18, 0],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        });
+        group.add(lead);
+    }
+
+    // 外殼 (轉動時以藍色標示)
+    const spinning = speed !== undefined && Math.abs(speed) > 0.5;
+    const housing = new Konva.Circle({
+        x: 0,
+        y: 0,
+        radius: 18,
+        stroke: spinning ? '#29b6f6' : strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    group.add(housing);
+
+    // 轉子：輪轂加三支輻條
+    const rotor = new Konva.Group({ x: 0, y: 0, name: 'motor-rotor' });
+    for (let i = 0; i < 3; i++) {
+        const angle = (i * 2 * Math.PI) / 3;
+        rotor.add(new Konva.Line({
+            points: [0, 0, 12 * Math.cos(angle), 12 * Math.sin(angle)],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+            lineCap: 'round',
+        }));
+    }
+    rotor.add(new Konva.Circle({ x: 0, y: 0, radius: 3, fill: strokeColor }));
+    group.add(rotor);
+
+    // 極性標記
+    const plus = new Konva.Text({
+        x: -32,
+        y: -14,
+        text: '+',
+        fontSize: 12,
+        fill: strokeColor,
+    });
+    group.add(plus);
+
+    // 端點
+    for (const x of [-40, 40]) {
+        group.add(new Konva.Circle({ x, y: 0, radius: 4, fill: '#03a9f4', stroke: '#03a9f4', strokeWidth: 1, name: 'port' }));
+    }
+
+    // 標籤 (電樞電阻；模擬中加上轉速)
+    const label = new Konva.Text({
+        x: -30,
+        y: -32,
+        text: `${component.label || 'M'} ${component.value}${component.unit}`,
+        fontSize: 10,
+        fill: '#ffeb3b',
+    });
+    group.add(label);
+    if (speed !== undefined) {
+        const speedLabel = new Konva.Text({
+            x: -30,
+            y: 22,
+            text: `${speed.toFixed(1)} rad/s`,
+            fontSize: 10,
+            fill: '#29b6f6',
+        });
+        group.add(speedLabel);
+    }
+}
+
+/**
+ * 繪製 BJT 電晶體符號 (NPN / PNP)
+ * 端點順序需與元件定義一致：base、collector、emitter
+ */
+export function drawTransistor(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+    const isPNP = component.type === 'transistor_pnp';
+
+    // PNP 的集極在下、射極在上 (同元件定義)
+    const collectorY = isPNP ? 20 : -20;
+    const emitterY = isPNP ? -20 : 20;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -30,
+            y: -27,
+            width: 52,
+            height: 54,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 外圓
+    const body = new Konva.Circle({
+        x: 2,
+        y: 0,
+        radius: 18,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        fill: 'transparent',
+    });
+
+    // 基極引線與基極棒
+    const baseLead = new Konva.Line({
+        points: [-25, 0, -6, 0],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    const baseBar = new Konva.Line({
+        points: [-6, -11, -6, 11],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth + 1,
+    });
+
+    // 集極引線
+    const collectorLead = new Konva.Line({
+        points: [-6, Math.sign(collectorY) * 5, 15, collectorY],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 射極引線 (箭頭指示電流方向：NPN 向外、PNP 向內)
+    const emitterStart = { x: -6, y: Math.sign(emitterY) * 5 };
+    const emitterEnd = { x: 15, y: emitterY };
+    const emitterLead = new Konva.Arrow({
+        points: isPNP
+            ? [emitterEnd.x, emitterEnd.y, emitterStart.x, emitterStart.y]
+            : [emitterStart.x, emitterStart.y, emitterEnd.x, emitterEnd.y],
+        stroke: strokeColor,
+        fill: strokeColor,
+        strokeWidth: strokeWidth,
+        pointerLength: 6,
+        pointerWidth: 6,
+    });
+
+    group.add(body, baseLead, baseBar, collectorLead, emitterLead);
+
+    // 端點 (順序：base、collector、emitter)
+    const portPositions = [
+        { x: -25, y: 0 },
+        { x: 15, y: collectorY },
+        { x: 15, y: emitterY },
+    ];
+    for (const pos of portPositions) {
+        group.add(
+            new Konva.Circle({
+                x: pos.x,
+                y: pos.y,
+                radius: 4,
+                fill: '#4caf50',
+                name: 'port',
+            })
+        );
+    }
+
+    const label = new Konva.Text({
+        x: 22,
+        y: -6,
+        text: component.label || (isPNP ? 'PNP' : 'NPN'),
+        fontSize: 10,
+        fill: '#888888',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製增強型 MOSFET 符號 (NMOS / PMOS)
+ * 端點順序需與元件定義一致：gate、drain、source
+ */
+export function drawMOSFET(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+    const isPMOS = component.type === 'pmos';
+
+    // PMOS 的源極在上、汲極在下 (同元件定義)
+    const drainY = isPMOS ? 20 : -20;
+    const sourceY = isPMOS ? -20 : 20;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -30,
+            y: -27,
+            width: 52,
+            height: 54,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 閘極引線 (PMOS 以小圓圈表示反相) 與閘極板
+    const gateLeadEnd = isPMOS ? -14 : -10;
+    const gateLead = new Konva.Line({
+        points: [-25, 0, gateLeadEnd, 0],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    group.add(gateLead);
+    if (isPMOS) {
+        group.add(
+            new Konva.Circle({
+                x: -12,
+                y: 0,
+                radius: 2.5,
+                stroke: strokeColor,
+                strokeWidth: 1.5,
+            })
+        );
+    }
+    const gatePlate = new Konva.Line({
+        points: [-9, -12, -9, 12],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 增強型通道：三段不連續的通道線 (汲極、基體、源極)
+    const channelSegments = [-12, 0, 12].map(
+        (y) =>
+            new Konva.Line({
+                points: [-4, y - 4, -4, y + 4],
+                stroke: strokeColor,
+                strokeWidth: strokeWidth + 1,
+            })
+    );
+
+    // 汲極 / 源極引線
+    const drainLead = new Konva.Line({
+        points: [-4, Math.sign(drainY) * 12, 15, Math.sign(drainY) * 12, 15, drainY],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+    const sourceLead = new Konva.Line({
+        points: [-4, Math.sign(sourceY) * 12, 15, Math.sign(sourceY) * 12, 15, sourceY],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    // 基體箭頭 (NMOS 指向通道、PMOS 指離通道)，基體接至源極
+    const bodyArrow = new Konva.Arrow({
+        points: isPMOS ? [-3, 0, 12, 0] : [12, 0, -3, 0],
+        stroke: strokeColor,
+        fill: strokeColor,
+        strokeWidth: strokeWidth,
+        pointerLength: 5,
+        pointerWidth: 5,
+    });
+    const bodyTie = new Konva.Line({
+        points: [12, 0, 15, 0, 15, Math.sign(sourceY) * 12],
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+    });
+
+    group.add(gatePlate, ...channelSegments, drainLead, sourceLead, bodyArrow, bodyTie);
+
+    // 端點 (順序：gate、drain、source)
+    const portPositions = [
+        { x: -25, y: 0 },
+        { x: 15, y: drainY },
+        { x: 15, y: sourceY },
+    ];
+    for (const pos of portPositions) {
+        group.add(
+            new Konva.Circle({
+                x: pos.x,
+                y: pos.y,
+                radius: 4,
+                fill: '#4caf50',
+                name: 'port',
+            })
+        );
+    }
+
+    const label = new Konva.Text({
+        x: 20,
+        y: -6,
+        text: component.label || (isPMOS ? 'PMOS' : 'NMOS'),
+        fontSize: 10,
+        fill: '#888888',
+    });
+    group.add(label);
+}
+
+/**
+ * 繪製運算放大器符號
+ * 端點順序需與元件定義一致：+、-、out、V+、V-
+ */
+export function drawOpAmp(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -32,
+            width: 90,
+            height: 64,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 三角形本體
+    const body = new Konva.Line({
+        points: [-30, -30, -30, 30, 30, 0],
+        closed: true,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        fill: 'transparent',
+    });
+
+    // 引線：輸入、輸出、電源腳 (電源腳接到三角形斜邊)
+    const leads = [
+        [-40, -15, -30, -15],
+        [-40, 15, -30, 15],
+        [30, 0, 40, 0],
+        [0, -25, 0, -15],
+        [0, 25, 0, 15],
+    ].map(
+        (points) =>
+            new Konva.Line({
+                points,
+                stroke: strokeColor,
+                strokeWidth: strokeWidth,
+            })
+    );
+
+    // 輸入極性標示
+    const plusText = new Konva.Text({
+        x: -26,
+        y: -21,
+        text: '+',
+        fontSize: 12,
+        fill: '#888888',
+    });
+    const minusText = new Konva.Text({
+        x: -25,
+        y: 9,
+        text: '−',
+        fontSize: 12,
+        fill: '#888888',
+    });
+
+    group.add(body, ...leads, plusText, minusText);
+
+    // 端點 (順序：+、-、out、V+、V-)
+    const portPositions = [
+        { x: -40, y: -15 },
+        { x: -40, y: 15 },
+        { x: 40, y: 0 },
+        { x: 0, y: -25 },
+        { x: 0, y: 25 },
+    ];
+    for (const pos of portPositions) {
+        group.add(
+            new Konva.Circle({
+                x: pos.x,
+                y: pos.y,
+                radius: 4,
+                fill: '#4caf50',
+                name: 'port',
+            })
+        );
+    }
+
+    const label = new Konva.Text({
+        x: 8,
+        y: -38,
+        text: component.label || 'U',
+        fontSize: 10,
+        fill: '#888888',
+    });
+    group.add(label);
+}
+
+export function drawComparator(group: Konva.Group, component: CircuitComponent) {
+    const isSchmitt = component.type === 'schmitt_trigger';
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -32,
+            width: 90,
+            height: 64,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 三角形本體 (反相輸出時尖端加圓圈)
+    const inverted = component.invertOutput ?? false;
+    const body = new Konva.Line({
+        points: [-30, -30, -30, 30, inverted ? 22 : 30, 0],
+        closed: true,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        fill: 'transparent',
+    });
+    group.add(body);
+    if (inverted) {
+        group.add(
+            new Konva.Circle({
+                x: 26,
+                y: 0,
+                radius: 4,
+                stroke: strokeColor,
+                strokeWidth: strokeWidth,
+            })
+        );
+    }
+
+    // 遲滯曲線符號
+    const hysteresisLoop = new Konva.Line({
+        points: isSchmitt
+            ? [-20, 6, -8, 6, -8, -6, 2, -6, -4, -6, -4, 6]
+            : [-6, 6, -2, 6, -2, -6, 4, -6, 0, -6, 0, 6],
+        stroke: '#888888',
+        strokeWidth: 1,
+    });
+    group.add(hysteresisLoop);
+
+    // 引線與輸入極性標示
+    const inputs = isSchmitt ? [0] : [-15, 15];
+    for (const y of inputs) {
+        group.add(
+            new Konva.Line({
+                points: [-40, y, -30, y],
+                stroke: strokeColor,
+                strokeWidth: strokeWidth,
+            })
+        );
+    }
+    group.add(
+        new Konva.Line({
+            points: [30, 0, 40, 0],
+            stroke: strokeColor,
+            strokeWidth: strokeWidth,
+        })
+    );
+    if (!isSchmitt) {
+        group.add(
+            new Konva.Text({ x: -26, y: -21, text: '+', fontSize: 12, fill: '#888888' }),
+            new Konva.Text({ x: -25, y: 9, text: '−', fontSize: 12, fill: '#888888' })
+        );
+    }
+
+    // 端點 (比較器：+、-、out；施密特觸發器：in、out)
+    const portPositions = isSchmitt
+        ? [{ x: -40, y: 0 }, { x: 40, y: 0 }]
+        : [{ x: -40, y: -15 }, { x: -40, y: 15 }, { x: 40, y: 0 }];
+    for (const pos of portPositions) {
+        group.add(
+            new Konva.Circle({
+                x: pos.x,
+                y: pos.y,
+                radius: 4,
+                fill: '#4caf50',
+                name: 'port',
+            })
+        );
+    }
+
+    const label = new Konva.Text({
+        x: 8,
+        y: -38,
+        text: component.label || 'U',
+        fontSize: 10,
+        fill: '#888888',
+    });
+    group.add(label);
+}
+
+export function drawTimer555(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -55,
+            y: -65,
+            width: 110,
+            height: 130,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // IC 本體
+    const body = new Konva.Rect({
+        x: -30,
+        y: -40,
+        width: 60,
+        height: 80,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        cornerRadius: 2,
+    });
+    const title = new Konva.Text({
+        x: -30,
+        y: -6,
+        width: 60,
+        text: '555',
+        fontSize: 12,
+        fontStyle: 'bold',
+        align: 'center',
+        fill: strokeColor,
+    });
+    group.add(body, title);
+
+    // 端點 (順序同腳位 1 ~ 8：GND、TRIG、OUT、RESET、CTRL、THR、DIS、VCC)
+    // lead 為本體邊緣上的引線起點，text 為腳位名稱在本體內的位置
+    const pins = [
+        { x: 0, y: 60, lead: { x: 0, y: 40 }, name: 'GND', text: { x: -10, y: 28 } },
+        { x: -50, y: 20, lead: { x: -30, y: 20 }, name: 'TRIG', text: { x: -27, y: 16 } },
+        { x: 50, y: -20, lead: { x: 30, y: -20 }, name: 'OUT', text: { x: 11, y: -24 } },
+        { x: -15, y: -60, lead: { x: -15, y: -40 }, name: 'RST', text: { x: -24, y: -37 } },
+        { x: 50, y: 20, lead: { x: 30, y: 20 }, name: 'CV', text: { x: 16, y: 16 } },
+        { x: -50, y: 0, lead: { x: -30, y: 0 }, name: 'THR', text: { x: -27, y: -4 } },
+        { x: -50, y: -20, lead: { x: -30, y: -20 }, name: 'DIS', text: { x: -27, y: -24 } },
+        { x: 15, y: -60, lead: { x: 15, y: -40 }, name: 'VCC', text: { x: 6, y: -37 } },
+    ];
+    for (const pin of pins) {
+        group.add(
+            new Konva.Line({
+                points: [pin.x, pin.y, pin.lead.x, pin.lead.y],
+                stroke: strokeColor,
+                strokeWidth: strokeWidth,
+            }),
+            new Konva.Text({
+                x: pin.text.x,
+                y: pin.text.y,
+                text: pin.name,
+                fontSize: 7,
+                fill: '#888888',
+            })
+        );
+    }
+    for (const pin of pins) {
+        group.add(
+            new Konva.Circle({
+                x: pin.x,
+                y: pin.y,
+                radius: 4,
+                fill: '#4caf50',
+                name: 'port',
+            })
+        );
+    }
+
+    const label = new Konva.Text({
+        x: 34,
+        y: -52,
+        text: component.label || 'U',
+        fontSize: 10,
+        fill: '#888888',
+    });
+    group.add(label);
+}
+
+export function drawRegulator(group: Konva.Group, component: CircuitComponent) {
+    const strokeColor = component.selected ? '#4caf50' : '#cccccc';
+    const strokeWidth = component.selected ? 3 : 2;
+
+    // 如果選取，添加高亮背景
+    if (component.selected) {
+        const highlight = new Konva.Rect({
+            x: -45,
+            y: -22,
+            width: 90,
+            height: 57,
+            fill: 'rgba(76, 175, 80, 0.1)',
+            stroke: '#4caf50',
+            strokeWidth: 2,
+            cornerRadius: 4,
+            shadowColor: '#4caf50',
+            shadowBlur: 10,
+            shadowOpacity: 0.5,
+        });
+        group.add(highlight);
+    }
+
+    // 本體：標示輸出電壓
+    const body = new Konva.Rect({
+        x: -25,
+        y: -15,
+        width: 50,
+        height: 30,
+        stroke: strokeColor,
+        strokeWidth: strokeWidth,
+        cornerRadius: 2,
+    });
+    const title = new Konva.Text({
+        x: -25,
+        y: -6,
+        width: 50,
+        text: `${component.value ?? 5}V`,
+        fontSize: 11,
+        fontStyle: 'bold',
+        align: 'center',
+        fill: strokeColor,
+    });
+    group.add(body, title);
+
+    // 端點 (順序：IN、GND、OUT)
+    const pins = [
+        { x: -40, y: 0, lead: { x: -25, y: 0 }, name: 'IN', text: { x: -23, y: -13 } },
+        { x: 0, y: 30, lead: { x: 0, y: 15 }, name: 'GND', text: { x: -7, y: 7 } },
+        { x: 40, y: 0, lead: { x: 25, y: 0 }, name: 'OUT', text: { x: 10, y: -13 } },
+    ];
+    for (const pin of pins) {
+        group.add(
+            new Konva.Line({
+                points: [pin.x, pin.y, pin.lead.x, pin.lead.y],
+                stroke: strokeColor,
+                strokeWidth: strokeWidth,
+            }),
+            new Konva.Text({
+                x: pin.text.x,
+                y: pin.text.y,
+                text: pin.name,
+                fontSize: 6,
+                fill: '#888888',
+            })
+        );
+    }
+    for (const pin of pins) {
+        group.add(
+            new Konva.Circle({
+                x: pin.x,
+                y: pin.y,
+                radius: 4,
+                fill: '#4caf50',
+                name: 'port',
+            })
+        );
+    }
+
+    const label = new Konva.Text({
+        x: -25,
+        y: -28,
+        text: component.label || 'U',
+        fontSize: 10,
+        fill: '#888888',
+    });
+    group.add(label);
+}
+
+/**
+ * 根據元件類型繪製對應的圖形
+ */
+export function drawComponentShape(group: Konva.Group, component: CircuitComponent) {
+    switch (component.type) {
+        case 'resistor':
+            drawResistor(group, component);
+            break;
+        case 'potentiometer':
+            drawPotentiometer(group, component);
+            break;
+        case 'thermistor':
+            drawThermistor(group, component);
+            break;
+        case 'ldr':
+            drawLDR(group, component);
+            break;
+        case 'capacitor':
+            drawCapacitor(group, component);
+            break;
+        case 'ground':
+            drawGround(group, component);
+            break;
+        case 'dc_source':
+            drawDCSource(group, component);
+            break;
+        case 'battery':
+            drawBattery(group, component);
+            break;
+        case 'ac_source':
+            drawACSource(group, component);
+            break;
+        case 'current_source':
+        case 'ac_current_source':
+            drawCurrentSource(group, component);
+            break;
+        case 'vcvs':
+        case 'vccs':
+        case 'ccvs':
+        case 'cccs':
+            drawControlledSource(group, component);
+            break;
+        case 'transformer':
+            drawTransformer(group, component);
+            break;
+        case 'zener':
+            drawZener(group, component);
+            break;
+        case 'led':
+            drawLED(group, component);
+            break;
+        case 'lamp':
+            drawLamp(group, component);
+            break;
+        case 'logic_and':
+            drawANDGate(group, component);
+            break;
+        case 'logic_or':
+            drawORGate(group, component);
+            break;
+        case 'switch':
+            drawSwitch(group, component);
+            break;
+        case 'switch_spdt':
+        case 'switch_dpdt':
+            drawThrowSwitch(group, component);
+            break;
+        case 'push_button_no':
+        case 'push_button_nc':
+            drawPushButton(group, component);
+            break;
+        case 'fuse':
+            drawFuse(group, component);
+            break;
+        case 'relay':
+            drawRelay(group, component);
+            break;
+        case 'dc_motor':
+            drawDcMotor(group, component);
+            break;
+        case 'opamp':
+            drawOpAmp(group, component);
+            break;
+        case 'transistor_npn':
+        case 'transistor_pnp':
+            drawTransistor(group, component);
+            break;
+        case 'nmos':
+        case 'pmos':
+            drawMOSFET(group, component);
+            break;
+        case 'comparator':
+        case 'schmitt_trigger':
+            drawComparator(group, component);
+            break;
+        case 'timer555':
+            drawTimer555(group, component);
+            break;
+        case 'regulator':
+            drawRegulator(group, component);
             break;
         default:
             drawGenericComponent(group, component);
@@ -10,6 +10,8 @@
 
 import { ref, computed, onUnmounted } from 'vue';
 import { StreamingTransientSolver, type StreamingPoint } from '@/lib/simulation/StreamingTransientSolver';
+import type { SimulationEnvironment } from '@/lib/simulation/SimulationTypes';
+import { getMotorSpeedKey, getMotorTorqueKey } from '@/lib/simulation/MotorModel';
 import { useWaveformStore } from '@/stores/waveformStore';
 import type { CircuitComponent, Wire } from '@/types/circuit';
 import type { WaveformUnit, WaveformDataPoint } from '@/types/waveform';
@@ -26,6 +28,8 @@ export interface StreamingSimulationOptions {
   stepsPerFrame?: number;
   /** 最大保留點數 (預設: 7200) */
   maxPoints?: number;
+  /** 模擬環境 (環境溫度、光照度) */
+  environment?: SimulationEnvironment;
 }
 
 /**
@@ -40,8 +44,17 @@ export interface ProbeConfig {
   unit: WaveformUnit;
   /** 顏色 (可選) */
   color?: string;
-  /** 測量類型: 'current' | 'voltage' */
-  measureType: 'current' | 'voltage';
+  /** 測量類型: 'current' | 'voltage'，馬達另有 'speed' | 'torque' */
+  measureType: 'current' | 'voltage' | 'speed' | 'torque';
+}
+
+/**
+ * 探針對應的讀值鍵 (電流以元件 ID，馬達轉速 / 轉矩以衍生鍵值)
+ */
+function getProbeKey(probe: ProbeConfig): string {
+  if (probe.measureType === 'speed') return getMotorSpeedKey(probe.componentId);
+  if (probe.measureType === 'torque') return getMotorTorqueKey(probe.componentId);
+  return probe.componentId;
 }
 
 /**
@@ -70,6 +83,14 @@ export function useStreamingSimulation() {
   const timeScale = ref(1);
   const fps = ref(0);
   const error = ref<string | null>(null);
+  /** 電池荷電狀態 (元件ID → SoC 0 ~ 1)，隨最新模擬點更新 */
+  const batteryStateOfCharge = ref<Map<string, number>>(new Map());
+  /** 繼電器吸合狀態 (元件ID → 是否吸合)，隨最新模擬點更新 */
+  const relayEnergized = ref<Map<string, boolean>>(new Map());
+  /** 保險絲熔斷時間 (元件ID → 秒)，隨最新模擬點更新 */
+  const fuseBlownAt = ref<Map<string, number>>(new Map());
+  /** 馬達轉速 (元件ID → rad/s)，隨最新模擬點更新 */
+  const motorSpeed = ref<Map<string, number>>(new Map());
 
   // ========== 內部變數 ==========
 
@@ -78,7 +99,7 @@ export function useStreamingSimulation() {
   let lastFrameTime = 0;
   let frameCount = 0;
   let fpsUpdateTime = 0;
-  let probeIds: Map<string, string> = new Map(); // componentId -> probeId
+  let probeIds: Map<string, string> = new Map(); // probe key (componentId 或馬達衍生鍵值) -> probeId
   let effectiveTimeScale = 1; // 實際使用的時間縮放（平滑過渡用）
 
   const waveformStore = useWaveformStore();
@@ -112,7 +133,7 @@ export function useStreamingSimulation() {
     solver = new StreamingTransientSolver();
     const initResult = solver.initialize(components, wires, {
       timeStep: options.timeScale ? undefined : undefined,
-    });
+    }, options.environment);
 
     if (!initResult.success) {
       error.value = initResult.error ?? '初始化失敗';
@@ -140,7 +161,7 @@ export function useStreamingSimulation() {
         label: probeConfig.label,
         color: probeConfig.color,
       });
-      probeIds.set(probeConfig.componentId, probe.probeId);
+      probeIds.set(getProbeKey(probeConfig), probe.probeId);
     }
 
     // 重置狀態
@@ -210,6 +231,10 @@ export function useStreamingSimulation() {
     currentDisplayTime.value = 0;
     fps.value = 0;
     error.value = null;
+    batteryStateOfCharge.value = new Map();
+    relayEnergized.value = new Map();
+    fuseBlownAt.value = new Map();
+    motorSpeed.value = new Map();
   }
 
   /**
@@ -221,6 +246,10 @@ export function useStreamingSimulation() {
     solver.reset();
     currentSimTime.value = 0;
     currentDisplayTime.value = 0;
+    batteryStateOfCharge.value = new Map();
+    relayEnergized.value = new Map();
+    fuseBlownAt.value = new Map();
+    motorSpeed.value = new Map();
 
     // 清除波形資料但保留探針定義
     for (const probeId of probeIds.values()) {
@@ -237,6 +266,30 @@ export function useStreamingSimulation() {
     }
   }
 
+  /**
+   * 調整電位器滑臂位置，直接更新運行中求解器的印記（不重新啟動模擬）
+   */
+  function retunePotentiometer(component: CircuitComponent): boolean {
+    if (!solver) return false;
+    return solver.retunePotentiometer(component);
+  }
+
+  /**
+   * 切換開關或按住 / 放開按鈕，直接更新運行中求解器的接點狀態（不重新啟動模擬）
+   */
+  function retuneSwitch(component: CircuitComponent): boolean {
+    if (!solver) return false;
+    return solver.retuneSwitch(component);
+  }
+
+  /**
+   * 調整模擬環境，直接更新運行中求解器的感測元件電阻（不重新啟動模擬）
+   */
+  function retuneEnvironment(components: CircuitComponent[], environment: SimulationEnvironment): boolean {
+    if (!solver) return false;
+    return solver.retuneEnvironment(components, environment);
+  }
+
   /**
    * 單步執行（用於調試或手動控制）
    */
@@ -318,20 +371,28 @@ export function useStreamingSimulation() {
     const dataByProbe = new Map<string, WaveformDataPoint[]>();
 
     for (const point of points) {
+      // 使用顯示時間而非模擬時間
+      const displayTime = point.time / timeScale.value;
+      const collect = (key: string, value: number): void => {
+        const probeId = probeIds.get(key);
+        if (!probeId) return;
+        if (!dataByProbe.has(probeId)) {
+          dataByProbe.set(probeId, []);
+        }
+        dataByProbe.get(probeId)!.push({ time: displayTime, value });
+      };
+
       // 處理電流探針
       for (const [componentId, current] of point.branchCurrents) {
-        const probeId = probeIds.get(componentId);
-        if (probeId) {
-          if (!dataByProbe.has(probeId)) {
-            dataByProbe.set(probeId, []);
-          }
-          // 使用顯示時間而非模擬時間
-          const displayTime = point.time / timeScale.value;
-          dataByProbe.get(probeId)!.push({
-            time: displayTime,
-            value: current,
-          });
-        }
+        collect(componentId, current);
+      }
+
+      // 處理馬達轉速、轉矩探針
+      for (const [componentId, speed] of point.motorSpeed) {
+        collect(getMotorSpeedKey(componentId), speed);
+      }
+      for (const [componentId, torque] of point.motorTorque) {
+        collect(getMotorTorqueKey(componentId), torque);
       }
     }
 
@@ -341,6 +402,21 @@ export function useStreamingSimulation() {
         maxPoints: 7200, // 約 2 分鐘 @ 60fps
       });
     }
+
+    // 電池荷電狀態取最後一個模擬點
+    const lastPoint = points[points.length - 1];
+    if (lastPoint && lastPoint.stateOfCharge.size > 0) {
+      batteryStateOfCharge.value = lastPoint.stateOfCharge;
+    }
+    if (lastPoint && lastPoint.relayEnergized.size > 0) {
+      relayEnergized.value = lastPoint.relayEnergized;
+    }
+    if (lastPoint && lastPoint.fuseBlownAt.size !== fuseBlownAt.value.size) {
+      fuseBlownAt.value = lastPoint.fuseBlownAt;
+    }
+    if (lastPoint && lastPoint.motorSpeed.size > 0) {
+      motorSpeed.value = lastPoint.motorSpeed;
+    }
   }
 
   // ========== 生命週期 ==========
@@ -361,6 +437,10 @@ export function useStreamingSimulation() {
     timeScale,
     fps,
     error,
+    batteryStateOfCharge,
+    relayEnergized,
+    fuseBlownAt,
+    motorSpeed,
     formattedSimTime,
     formattedDisplayTime,
 
@@ -371,6 +451,9 @@ export function useStreamingSimulation() {
     stop,
     reset,
     setTimeScale,
+    retunePotentiometer,
+    retuneSwitch,
+    retuneEnvironment,
     stepOnce,
   };
 }
@@ -136,7 +136,7 @@ export function useWaveformViewer(
         const axes: YAxisConfig[] = [];
         let rightAxisCount = 0;
 
-        const units: WaveformUnit[] = ['V', 'A', 'W'];
+        const units: WaveformUnit[] = ['V', 'A', 'W', 'rad/s', 'N·m'];
 
         for (const unit of units) {
             const unitTraces = tracesByUnit.value.get(unit);
@@ -2,7 +2,7 @@
  * Component Definitions - 電路元件定義
  */
 
-import type { ComponentDefinition, ComponentType, WaveformType } from '@/types/circuit';
+import type { ComponentDefinition, ComponentType, PulseParams, PwlPoint, WaveformType } from '@/types/circuit';
 
 // AC 源預設屬性
 export const AC_SOURCE_DEFAULTS = {
@@ -11,6 +11,204 @@ export const AC_SOURCE_DEFAULTS = {
     waveformType: 'sine' as WaveformType,
 };
 
+// PULSE 波形預設參數 (0 → 5V、1 kHz、50% 工作週期)
+export const PULSE_DEFAULTS: PulseParams = {
+    initialValue: 0, // V
+    pulsedValue: 5, // V
+    delay: 0, // s
+    riseTime: 1e-6, // s
+    fallTime: 1e-6, // s
+    pulseWidth: 0.5e-3, // s
+    period: 1e-3, // s
+};
+
+// PWL 波形預設轉折點 (1 ms 上升至 5V，保持後於 4 ms 降回 0)
+export const PWL_DEFAULTS: PwlPoint[] = [
+    { time: 0, value: 0 },
+    { time: 1e-3, value: 5 },
+    { time: 3e-3, value: 5 },
+    { time: 4e-3, value: 0 },
+];
+
+// 運算放大器預設屬性 (類似 741 通用型運放)
+export const OPAMP_DEFAULTS = {
+    openLoopGain: 1e5, // V/V (100 dB)
+    gainBandwidth: 1e6, // Hz
+    slewRate: 0.5e6, // V/s (0.5 V/μs)
+};
+
+// BJT Ebers-Moll 模型預設參數 (類似 2N2222 / 2N2907 小訊號電晶體)
+export const BJT_DEFAULTS = {
+    betaF: 100,
+    betaR: 1,
+    saturationCurrent: 1e-14, // A
+    thermalVoltage: 0.025852, // V (300K)
+};
+
+// 二極體 Shockley 模型預設參數 (V_f 定義於參考電流下，換算 I_S)
+export const DIODE_DEFAULTS = {
+    emissionCoefficient: 1,
+    seriesResistance: 0.1, // Ω
+    referenceCurrent: 0.01, // A (V_f @ 10mA)
+    thermalVoltage: 0.025852, // V (300K)
+};
+
+// LED Shockley 模型預設參數 (LED_VF_DEFAULT 定義於 20mA)
+export const LED_DEFAULTS = {
+    emissionCoefficient: 2,
+    seriesResistance: 1, // Ω
+    referenceCurrent: 0.02, // A (V_f @ 20mA)
+    thermalVoltage: 0.025852, // V (300K)
+};
+
+// 稽納二極體預設參數 (V_z 定義於測試電流 I_ZT，類似 1N4733A 5.1V / 1W 以下小功率款)
+export const ZENER_DEFAULTS = {
+    breakdownVoltage: 5.1, // V (V_z @ I_ZT)
+    zenerResistance: 5, // Ω (R_z，兼作串聯電阻)
+    testCurrent: 0.005, // A (I_ZT)
+    forwardVoltage: 0.7, // V (V_f @ referenceCurrent)
+    emissionCoefficient: 1,
+    referenceCurrent: 0.01, // A
+    thermalVoltage: 0.025852, // V (300K)
+    powerRating: 0.5, // W (ZEN-001 預設額定功率)
+};
+
+// MOSFET Shichman-Hodges (level 1) 預設參數 (小訊號增強型 MOSFET，PMOS 取相同大小)
+export const MOSFET_DEFAULTS = {
+    thresholdVoltage: 1.0, // V (|V_th|)
+    transconductance: 1e-4, // A/V² (K_p = μ·C_ox)
+    channelLengthModulation: 0.02, // 1/V
+    widthLengthRatio: 10, // W/L
+};
+
+// 電位器預設參數 (展開為兩段電阻，每段保留端點接觸電阻)
+export const POTENTIOMETER_DEFAULTS = {
+    resistance: 10000, // Ω (總電阻)
+    wiperPosition: 0.5, // 0 ~ 1
+    endResistance: 0.1, // Ω (單段最小電阻)
+};
+
+// 模擬環境預設值 (所有環境感測元件共用)
+export const ENVIRONMENT_DEFAULTS = {
+    ambientTemperature: 25, // °C
+    lightLevel: 100, // lux (室內照明)
+};
+
+// 熱敏電阻預設參數 (10kΩ NTC，β = 3950K)
+export const THERMISTOR_DEFAULTS = {
+    resistance: 10000, // Ω (R_0 @ referenceTemperature)
+    beta: 3950, // K
+    referenceTemperature: 25, // °C
+    type: 'ntc' as const,
+};
+
+// 光敏電阻預設參數 (類似 GL5528：10 lux 時約 10kΩ)
+export const LDR_DEFAULTS = {
+    resistance: 10000, // Ω (R_ref @ referenceLightLevel)
+    gamma: 0.7, // log R 對 log lux 的斜率
+    referenceLightLevel: 10, // lux
+    darkResistance: 1e6, // Ω (全暗時的上限)
+};
+
+// 變壓器預設參數 (n = N1 / N2，非理想模型 L2 未設定時取 L1 / n²)
+export const TRANSFORMER_DEFAULTS = {
+    turnsRatio: 10, // 例：120V → 12V
+    primaryInductance: 1, // H (L1)
+    couplingCoefficient: 0.99, // k
+};
+
+// 電池預設參數 (9V 電池；容量刻意取小，使串流模擬中可觀察到放電)
+export const BATTERY_DEFAULTS = {
+    voltage: 9, // V (充飽時電動勢)
+    internalResistance: 1, // Ω
+    capacity: 1e-3, // Ah (1 mAh)
+    stateOfCharge: 1, // 0 ~ 1
+};
+
+// 保險絲預設參數 (1A 快熔型)
+export const FUSE_DEFAULTS = {
+    ratedCurrent: 1, // A (額定電流，低於此值不累積熱量)
+    meltingI2t: 0.5, // A²s (熔斷能量)
+    resistance: 0.05, // Ω (熔絲冷態電阻)
+    openResistance: 1e12, // Ω (熔斷後)
+};
+
+// 燈泡預設參數 (12V 5W 鎢絲燈泡，冷態電阻約為熱態的 1/10)
+export const LAMP_DEFAULTS = {
+    ratedPower: 5, // W (額定功率)
+    ratedVoltage: 12, // V (額定電壓，熱態電阻 = V² / P)
+    thermalTimeConstant: 0.05, // s (燈絲熱時間常數)
+    coldResistanceRatio: 0.1, // 冷態電阻 / 熱態電阻
+};
+
+// 開關接點電阻 (所有開關類型共用)
+export const SWITCH_DEFAULTS = {
+    closedResistance: 0.01, // Ω (閉合)
+    openResistance: 1e12, // Ω (斷開，漏電流趨近於零)
+};
+
+// 繼電器預設參數 (5V 小型繼電器，接點電阻同開關)
+export const RELAY_DEFAULTS = {
+    coilResistance: 100, // Ω
+    coilInductance: 0.1, // H
+    pullInCurrent: 0.035, // A
+    dropOutCurrent: 0.01, // A
+    contactResistance: 0.01, // Ω (閉合)
+    openResistance: 1e12, // Ω (斷開)
+};
+
+// 直流馬達預設參數 (12V 小型有刷馬達，無載轉速約 570 rad/s)
+export const MOTOR_DEFAULTS = {
+    armatureResistance: 2, // Ω (電樞電阻 R_a)
+    armatureInductance: 1e-3, // H (電樞電感 L_a)
+    backEmfConstant: 0.02, // V·s/rad (反電動勢常數 k，亦為轉矩常數 N·m/A)
+    inertia: 1e-5, // kg·m² (轉子與負載的轉動慣量 J)
+    friction: 1e-5, // N·m·s/rad (黏滯摩擦係數 B)
+    loadTorque: 0, // N·m (恆定負載轉矩，阻礙正轉)
+};
+
+// 比較器 / 施密特觸發器預設參數 (輸出電平同數位邏輯的 5V TTL 準位)
+export const COMPARATOR_DEFAULTS = {
+    hysteresis: 0.02, // V (比較器遲滯寬度，門檻為 V+ - V- = ±h/2)
+    outputHigh: 5, // V
+    outputLow: 0, // V
+    outputResistance: 100, // Ω (輸出級等效電阻)
+    inputResistance: 1e9, // Ω
+};
+
+// 邏輯閘輸入預設參數 (以 2.5V 門檻為中心的遲滯寬度，避免雜訊造成輸出抖動)
+export const LOGIC_GATE_DEFAULTS = {
+    inputHysteresis: 0.4, // V (門檻為 2.5V ± h/2)
+};
+
+// 施密特觸發器門檻 (以 2.5V 邏輯門檻為中心，遲滯 1V)
+export const SCHMITT_TRIGGER_DEFAULTS = {
+    upperThreshold: 3, // V (輸入上升越過時轉為高)
+    lowerThreshold: 2, // V (輸入下降越過時轉為低)
+};
+
+// 555 計時器預設參數 (類似 NE555 雙極型)
+export const TIMER555_DEFAULTS = {
+    dividerResistance: 5000, // Ω (內部分壓電阻，三段串聯)
+    outputResistance: 10, // Ω (輸出級等效電阻)
+    outputHighDrop: 1.7, // V (輸出高電位 = VCC - 此值)
+    dischargeResistance: 10, // Ω (放電電晶體導通)
+    openResistance: 1e12, // Ω (放電電晶體截止)
+    inputResistance: 1e9, // Ω (TRIG / THR / RESET 輸入)
+    resetThreshold: 0.7, // V (RESET 低於此值強制輸出低電位)
+};
+
+// 三端線性穩壓器預設參數 (類似 7805，TO-220 未加散熱片)
+export const REGULATOR_DEFAULTS = {
+    outputVoltage: 5, // V (V_set)
+    dropoutVoltage: 2, // V (輸入需高於 V_set + 此值才能穩壓)
+    currentLimit: 1.5, // A (輸出限流)
+    quiescentCurrent: 0.005, // A (I_q，由 in 流至 gnd)
+    powerRating: 2, // W (REG-001 預設額定消耗功率)
+    outputResistance: 0.01, // Ω (輸出級等效電阻，決定負載調整率)
+    leakageResistance: 1e9, // Ω (in / out 對 gnd)
+};
+
 export const componentDefinitions: ComponentDefinition[] = [
     // 電源
     {
@@ -24,6 +222,17 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: '-', offsetX: 0, offsetY: 40 },
         ],
     },
+    {
+        type: 'battery',
+        label: 'Battery',
+        icon: 'battery',
+        defaultValue: BATTERY_DEFAULTS.voltage,
+        defaultUnit: 'V',
+        ports: [
+            { name: '+', offsetX: 0, offsetY: -40 },
+            { name: '-', offsetX: 0, offsetY: 40 },
+        ],
+    },
     {
         type: 'ac_source',
         label: 'AC Source',
@@ -35,6 +244,77 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: '-', offsetX: 0, offsetY: 40 },
         ],
     },
+    {
+        type: 'current_source',
+        label: 'Current Source',
+        icon: 'current-source',
+        defaultValue: 0.01,
+        defaultUnit: 'A',
+        ports: [
+            { name: '+', offsetX: 0, offsetY: -40 },
+            { name: '-', offsetX: 0, offsetY: 40 },
+        ],
+    },
+    {
+        type: 'ac_current_source',
+        label: 'AC Current Source',
+        icon: 'ac-current-source',
+        defaultValue: 0.01,
+        defaultUnit: 'A',
+        ports: [
+            { name: '+', offsetX: 0, offsetY: -40 },
+            { name: '-', offsetX: 0, offsetY: 40 },
+        ],
+    },
+    // 受控電源 (增益 = value；CCVS / CCCS 由 controllingComponentId 指定控制電流)
+    {
+        type: 'vcvs',
+        label: 'VCVS',
+        icon: 'vcvs',
+        defaultValue: 2,
+        defaultUnit: 'V/V',
+        ports: [
+            { name: '+', offsetX: 0, offsetY: -40 },
+            { name: '-', offsetX: 0, offsetY: 40 },
+            { name: 'c+', offsetX: -40, offsetY: -20 },
+            { name: 'c-', offsetX: -40, offsetY: 20 },
+        ],
+    },
+    {
+        type: 'vccs',
+        label: 'VCCS',
+        icon: 'vccs',
+        defaultValue: 0.001,
+        defaultUnit: 'S',
+        ports: [
+            { name: '+', offsetX: 0, offsetY: -40 },
+            { name: '-', offsetX: 0, offsetY: 40 },
+            { name: 'c+', offsetX: -40, offsetY: -20 },
+            { name: 'c-', offsetX: -40, offsetY: 20 },
+        ],
+    },
+    {
+        type: 'ccvs',
+        label: 'CCVS',
+        icon: 'ccvs',
+        defaultValue: 1000,
+        defaultUnit: 'Ω',
+        ports: [
+            { name: '+', offsetX: 0, offsetY: -40 },
+            { name: '-', offsetX: 0, offsetY: 40 },
+        ],
+    },
+    {
+        type: 'cccs',
+        label: 'CCCS',
+        icon: 'cccs',
+        defaultValue: 10,
+        defaultUnit: 'A/A',
+        ports: [
+            { name: '+', offsetX: 0, offsetY: -40 },
+            { name: '-', offsetX: 0, offsetY: 40 },
+        ],
+    },
     // 被動元件
     {
         type: 'resistor',
@@ -47,6 +327,40 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: '2', offsetX: 40, offsetY: 0 },
         ],
     },
+    {
+        type: 'potentiometer',
+        label: 'Potentiometer',
+        icon: 'potentiometer',
+        defaultValue: POTENTIOMETER_DEFAULTS.resistance,
+        defaultUnit: 'Ω',
+        ports: [
+            { name: '1', offsetX: -40, offsetY: 0 },
+            { name: 'w', offsetX: 0, offsetY: -30 },
+            { name: '2', offsetX: 40, offsetY: 0 },
+        ],
+    },
+    {
+        type: 'thermistor',
+        label: 'Thermistor',
+        icon: 'thermistor',
+        defaultValue: THERMISTOR_DEFAULTS.resistance,
+        defaultUnit: 'Ω',
+        ports: [
+            { name: '1', offsetX: -40, offsetY: 0 },
+            { name: '2', offsetX: 40, offsetY: 0 },
+        ],
+    },
+    {
+        type: 'ldr',
+        label: 'LDR',
+        icon: 'ldr',
+        defaultValue: LDR_DEFAULTS.resistance,
+        defaultUnit: 'Ω',
+        ports: [
+            { name: '1', offsetX: -40, offsetY: 0 },
+            { name: '2', offsetX: 40, offsetY: 0 },
+        ],
+    },
     {
         type: 'capacitor',
         label: 'Capacitor',
@@ -69,6 +383,19 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: '2', offsetX: 40, offsetY: 0 },
         ],
     },
+    {
+        type: 'transformer',
+        label: 'Transformer',
+        icon: 'transformer',
+        defaultValue: TRANSFORMER_DEFAULTS.turnsRatio,
+        defaultUnit: ':1',
+        ports: [
+            { name: 'p1', offsetX: -40, offsetY: -30 },
+            { name: 'p2', offsetX: -40, offsetY: 30 },
+            { name: 's1', offsetX: 40, offsetY: -30 },
+            { name: 's2', offsetX: 40, offsetY: 30 },
+        ],
+    },
     // 接地
     {
         type: 'ground',
@@ -98,6 +425,17 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: 'cathode', offsetX: 40, offsetY: 0 },
         ],
     },
+    {
+        type: 'zener',
+        label: 'Zener Diode',
+        icon: 'zener',
+        defaultValue: 5.1,
+        defaultUnit: 'V',
+        ports: [
+            { name: 'anode', offsetX: -40, offsetY: 0 },
+            { name: 'cathode', offsetX: 40, offsetY: 0 },
+        ],
+    },
     {
         type: 'led',
         label: 'LED',
@@ -107,6 +445,17 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: 'cathode', offsetX: 40, offsetY: 0 },
         ],
     },
+    {
+        type: 'lamp',
+        label: 'Lamp',
+        icon: 'lamp',
+        defaultValue: LAMP_DEFAULTS.ratedPower,
+        defaultUnit: 'W',
+        ports: [
+            { name: '1', offsetX: -40, offsetY: 0 },
+            { name: '2', offsetX: 40, offsetY: 0 },
+        ],
+    },
     {
         type: 'transistor_npn',
         label: 'NPN Transistor',
@@ -127,6 +476,73 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: 'emitter', offsetX: 15, offsetY: -20 },
         ],
     },
+    {
+        type: 'nmos',
+        label: 'NMOS',
+        icon: 'nmos',
+        ports: [
+            { name: 'gate', offsetX: -25, offsetY: 0 },
+            { name: 'drain', offsetX: 15, offsetY: -20 },
+            { name: 'source', offsetX: 15, offsetY: 20 },
+        ],
+    },
+    {
+        type: 'pmos',
+        label: 'PMOS',
+        icon: 'pmos',
+        ports: [
+            { name: 'gate', offsetX: -25, offsetY: 0 },
+            { name: 'drain', offsetX: 15, offsetY: 20 },
+            { name: 'source', offsetX: 15, offsetY: -20 },
+        ],
+    },
+    {
+        type: 'comparator',
+        label: 'Comparator',
+        icon: 'comparator',
+        ports: [
+            { name: '+', offsetX: -40, offsetY: -15 },
+            { name: '-', offsetX: -40, offsetY: 15 },
+            { name: 'out', offsetX: 40, offsetY: 0 },
+        ],
+    },
+    {
+        type: 'schmitt_trigger',
+        label: 'Schmitt Trigger',
+        icon: 'schmitt-trigger',
+        ports: [
+            { name: 'in', offsetX: -40, offsetY: 0 },
+            { name: 'out', offsetX: 40, offsetY: 0 },
+        ],
+    },
+    {
+        type: 'timer555',
+        label: '555 Timer',
+        icon: 'timer555',
+        // 端點依 IC 腳位 1 ~ 8 排列
+        ports: [
+            { name: 'gnd', offsetX: 0, offsetY: 60 },
+            { name: 'trig', offsetX: -50, offsetY: 20 },
+            { name: 'out', offsetX: 50, offsetY: -20 },
+            { name: 'reset', offsetX: -15, offsetY: -60 },
+            { name: 'ctrl', offsetX: 50, offsetY: 20 },
+            { name: 'thr', offsetX: -50, offsetY: 0 },
+            { name: 'dis', offsetX: -50, offsetY: -20 },
+            { name: 'vcc', offsetX: 15, offsetY: -60 },
+        ],
+    },
+    {
+        type: 'regulator',
+        label: 'Voltage Regulator',
+        icon: 'regulator',
+        defaultValue: 5,
+        defaultUnit: 'V',
+        ports: [
+            { name: 'in', offsetX: -40, offsetY: 0 },
+            { name: 'gnd', offsetX: 0, offsetY: 30 },
+            { name: 'out', offsetX: 40, offsetY: 0 },
+        ],
+    },
     // 開關
     {
         type: 'switch',
@@ -137,6 +553,83 @@ export const componentDefinitions: ComponentDefinition[] = [
             { name: '2', offsetX: 40, offsetY: 0 },
         ],
     },
+    {
+        type: 'switch_spdt',
+        label: 'SPDT Switch',
+        icon: 'switch-spdt',
+        ports: [
+            { name: 'com', offsetX: -40, offsetY: 0 },
+            { name: 'a', offsetX: 40, offsetY: -20 },
+            { name: 'b', offsetX: 40, offsetY: 20 },
+        ],
+    },
+    {
+        type: 'switch_dpdt',
+        label: 'DPDT Switch',
+        icon: 'switch-dpdt',
+        ports: [
+            { name: 'com1', offsetX: -40, offsetY: -20 },
+            { name: 'a1', offsetX: 40, offsetY: -30 },
+            { name: 'b1', offsetX: 40, offsetY: -10 },
+            { name: 'com2', offsetX: -40, offsetY: 20 },
+            { name: 'a2', offsetX: 40, offsetY: 10 },
+            { name: 'b2', offsetX: 40, offsetY: 30 },
+        ],
+    },
+    {
+        type: 'push_button_no',
+        label: 'Push Button (NO)',
+        icon: 'push-button-no',
+        ports: [
+            { name: '1', offsetX: -40, offsetY: 0 },
+            { name: '2', offsetX: 40, offsetY: 0 },
+        ],
+    },
+    {
+        type: 'push_button_nc',
+        label: 'Push Button (NC)',
+        icon: 'push-button-nc',
+        ports: [
+            { name: '1', offsetX: -40, offsetY: 0 },
+            { name: '2', offsetX: 40, offsetY: 0 },
+        ],
+    },
+    {
+        type: 'fuse',
+        label: 'Fuse',
+        icon: 'fuse',
+        defaultValue: FUSE_DEFAULTS.ratedCurrent,
+        defaultUnit: 'A',
+        ports: [
+            { name: '1', offsetX: -40, offsetY: 0 },
+            { name: '2', offsetX: 40, offsetY: 0 },
+        ],
+    },
+    {
+        type: 'relay',
+        label: 'Relay',
+        icon: 'relay',
+        defaultValue: RELAY_DEFAULTS.coilResistance,
+        defaultUnit: 'Ω',
+        ports: [
+            { name: 'c1', offsetX: -40, offsetY: -20 },
+            { name: 'c2', offsetX: -40, offsetY: 20 },
+            { name: 'com', offsetX: 40, offsetY: 0 },
+            { name: 'no', offsetX: 40, offsetY: -20 },
+            { name: 'nc', offsetX: 40, offsetY: 20 },
+        ],
+    },
+    {
+        type: 'dc_motor',
+        label: 'DC Motor',
+        icon: 'dc-motor',
+        defaultValue: MOTOR_DEFAULTS.armatureResistance,
+        defaultUnit: 'Ω',
+        ports: [
+            { name: '+', offsetX: -40, offsetY: 0 },
+            { name: '-', offsetX: 40, offsetY: 0 },
+        ],
+    },
     // 測量儀器
     {
         type: 'ammeter',
@@ -193,17 +686,43 @@ export function getToolbarComponents(): ComponentDefinition[] {
     // 工具列顯示順序
     const toolbarOrder: ComponentType[] = [
         'dc_source',
+        'battery',
         'ac_source',
+        'current_source',
+        'ac_current_source',
+        'vcvs',
+        'vccs',
+        'ccvs',
+        'cccs',
         'resistor',
+        'potentiometer',
+        'thermistor',
+        'ldr',
         'capacitor',
         'inductor',
+        'transformer',
         'ground',
         'opamp',
+        'comparator',
+        'schmitt_trigger',
         'diode',
+        'zener',
         'led',
+        'lamp',
         'transistor_npn',
         'transistor_pnp',
+        'nmos',
+        'pmos',
+        'timer555',
+        'regulator',
         'switch',
+        'switch_spdt',
+        'switch_dpdt',
+        'push_button_no',
+        'push_button_nc',
+        'fuse',
+        'relay',
+        'dc_motor',
         'ammeter',
         'voltmeter',
         'logic_and',
@@ -12,26 +12,32 @@ import type {
   ImpedanceData,
   ResonanceInfo,
   ComponentStamp,
+  SimulationEnvironment,
 } from './SimulationTypes';
 import { CircuitGraph } from './CircuitGraph';
+import { MNASolver } from './MNASolver';
+import { isCurrentSource } from './StampUtils';
+import { validateControlledSources } from './ControlledSourceModel';
+import { isBattery } from './BatteryModel';
+import { withACSourceInfo } from './SourceModel';
+import { createComponentState, type ACDeviceContext } from './DeviceModel';
+import {
+  extractDeviceCurrentsAC,
+  linearizeDevices,
+  needsOperatingPoint,
+  stampDevicesAC,
+} from './DeviceRegistry';
 import {
-  createComplexMatrix,
   createComplexVector,
-  complexGaussianElimination,
-  addToMatrix,
-  addToVector,
+  ComplexSparseLUSolver,
+  ComplexSparseMatrixBuilder,
 } from './ComplexMatrix';
 import {
   complex,
-  fromPolar,
   add,
-  subtract,
-  multiply,
-  divide,
   magnitude,
   phase,
   phaseDegrees,
-  admittanceCapacitor,
   admittanceInductor,
   type Complex,
 } from './Complex';
@@ -41,6 +47,8 @@ import {
  */
 export class ACSweepSolver {
   private graph: CircuitGraph;
+  /** 複數稀疏線性求解器 (掃頻各頻率的矩陣結構相同，重用符號分解) */
+  private linearSolver = new ComplexSparseLUSolver();
 
   constructor() {
     this.graph = new CircuitGraph();
@@ -48,11 +56,13 @@ export class ACSweepSolver {
 
   /**
    * 執行 AC 掃頻分析
+   * @param environment 模擬環境 (環境溫度、光照度)
    */
   public solve(
     components: CircuitComponent[],
     wires: Wire[],
-    options: Partial<ACSweepOptions> = {}
+    options: Partial<ACSweepOptions> = {},
+    environment?: SimulationEnvironment
   ): ACSweepResult {
     // 合併預設選項
     const sweepOptions: ACSweepOptions = {
@@ -69,7 +79,8 @@ export class ACSweepSolver {
     }
 
     // 建立電路圖
-    this.graph.build(components, wires);
+    this.graph.build(components, wires, environment);
+    this.linearSolver.reset();
 
     const nodeCount = this.graph.getNodeCount();
     const vsCount = this.graph.getVoltageSourceCount();
@@ -84,7 +95,23 @@ export class ACSweepSolver {
     // 生成頻率點
     const frequencies = this.generateFrequencyPoints(sweepOptions);
     const frequencyPoints: ACFrequencyPoint[] = [];
-    const stamps = this.graph.getStamps();
+    const stamps = withACSourceInfo(this.graph.getStamps(), components);
+
+    // 非線性元件需要先求 DC 工作點再線性化
+    // (繼電器接點、燈絲溫度、555 正反器與穩壓器工作區亦維持 DC 工作點的狀態)
+    const state = createComponentState();
+    if (needsOperatingPoint(stamps)) {
+      const dcResult = new MNASolver().solve(components, wires, environment);
+      if (!dcResult.success) {
+        return this.createErrorResult(
+          `無法求得直流工作點: ${dcResult.error ?? '未知錯誤'}`,
+          sweepOptions
+        );
+      }
+      // 依本圖的節點索引還原 DC 解向量
+      const x = createVectorFromNodeVoltages(this.graph, dcResult.nodeVoltages);
+      linearizeDevices(stamps, { x, branchCurrents: dcResult.branchCurrents }, state);
+    }
 
     // 追蹤各元件的阻抗數據
     const impedanceDataMap = new Map<string, { magnitudes: number[]; phases: number[]; label: string }>();
@@ -103,13 +130,7 @@ export class ACSweepSolver {
     // 對每個頻率點進行分析
     for (const freq of frequencies) {
       const omega = 2 * Math.PI * freq;
-      const result = this.solveAtFrequency(
-        stamps,
-        nodeCount,
-        vsCount,
-        omega,
-        components
-      );
+      const result = this.solveAtFrequency(stamps, vsCount, { nodeCount, omega, state });
 
       if (!result) {
         return this.createErrorResult(
@@ -202,206 +223,33 @@ export class ACSweepSolver {
    */
   private solveAtFrequency(
     stamps: ComponentStamp[],
-    nodeCount: number,
     vsCount: number,
-    omega: number,
-    components: CircuitComponent[]
+    ctx: ACDeviceContext
   ): { nodeVoltages: Map<string, ACPhasor>; branchCurrents: Map<string, ACPhasor> } | null {
-    const matrixSize = nodeCount + vsCount;
-    const G = createComplexMatrix(matrixSize);
+    const matrixSize = ctx.nodeCount + vsCount;
+    const G = new ComplexSparseMatrixBuilder(matrixSize);
     const I = createComplexVector(matrixSize);
 
     // 加入元件印記
-    for (const stamp of stamps) {
-      this.addComplexStamp(G, I, stamp, nodeCount, omega, components);
-    }
+    stampDevicesAC(G, I, stamps, ctx);
 
     // 求解複數線性方程組
-    const x = complexGaussianElimination(G, I);
+    const x = this.linearSolver.solve(G, I);
 
     if (!x) {
       return null;
     }
 
     // 提取節點電壓相量
-    const nodeVoltages = this.extractNodeVoltagePhasors(x, nodeCount);
+    const nodeVoltages = this.extractNodeVoltagePhasors(x, ctx.nodeCount);
 
     // 提取支路電流相量
-    const branchCurrents = this.extractBranchCurrentPhasors(
-      x,
-      stamps,
-      nodeCount,
-      omega
-    );
-
-    return { nodeVoltages, branchCurrents };
-  }
-
-  /**
-   * 加入複數元件印記到 MNA 矩陣
-   */
-  private addComplexStamp(
-    G: Complex[][],
-    I: Complex[],
-    stamp: ComponentStamp,
-    nodeCount: number,
-    omega: number,
-    components: CircuitComponent[]
-  ): void {
-    const { type, node1Index, node2Index, value, currentVarIndex } = stamp;
-
-    switch (type) {
-      case 'resistor':
-        this.addResistorStamp(G, node1Index, node2Index, value);
-        break;
-
-      case 'capacitor':
-        this.addCapacitorStamp(G, node1Index, node2Index, value, omega);
-        break;
-
-      case 'inductor':
-        if (currentVarIndex !== undefined) {
-          this.addInductorStamp(G, I, node1Index, node2Index, value, omega, nodeCount + currentVarIndex);
-        }
-        break;
-
-      case 'dc_source':
-        // DC 源在 AC 分析中視為短路
-        if (currentVarIndex !== undefined) {
-          this.addVoltageSourceStamp(G, I, node1Index, node2Index, complex(0, 0), nodeCount + currentVarIndex);
-        }
-        break;
-
-      case 'ac_source': {
-        // AC 源：使用 V = V_peak * e^(j*phase)
-        if (currentVarIndex !== undefined) {
-          const comp = components.find(c => c.id === stamp.componentId);
-          const amplitude = value;
-          const phaseRad = comp?.phase ?? 0;
-          const voltage = fromPolar(amplitude, phaseRad);
-          this.addVoltageSourceStamp(G, I, node1Index, node2Index, voltage, nodeCount + currentVarIndex);
-        }
-        break;
-      }
-
-      case 'switch':
-      case 'ammeter':
-        // 小電阻
-        this.addResistorStamp(G, node1Index, node2Index, type === 'switch' ? 0.01 : 0.001);
-        break;
-
-      case 'voltmeter':
-        // 大電阻
-        this.addResistorStamp(G, node1Index, node2Index, 1e12);
-        break;
-
-      case 'diode':
-      case 'led':
-        // 簡化模型：AC 分析中使用小信號電阻
-        // 實際應該用線性化的二極體模型，這裡簡化為固定電阻
-        this.addResistorStamp(G, node1Index, node2Index, 100); // 假設 100Ω 動態電阻
-        if (currentVarIndex !== undefined) {
-          // 處理未使用的電流變數
-          const idx = nodeCount + currentVarIndex;
-          G[idx]![idx]! = complex(1, 0);
-          I[idx] = complex(0, 0);
-        }
-        break;
+    const branchCurrents = new Map<string, ACPhasor>();
+    for (const [id, current] of extractDeviceCurrentsAC(x, stamps, ctx)) {
+      branchCurrents.set(id, this.createPhasor(current));
     }
-  }
 
-  /**
-   * 加入電阻印記 (複數版本)
-   */
-  private addResistorStamp(
-    G: Complex[][],
-    n1: number,
-    n2: number,
-    resistance: number
-  ): void {
-    if (resistance <= 0) return;
-
-    const g = complex(1 / resistance, 0); // 純實數電導
-
-    if (n1 >= 0) addToMatrix(G, n1, n1, g);
-    if (n2 >= 0) addToMatrix(G, n2, n2, g);
-    if (n1 >= 0 && n2 >= 0) {
-      addToMatrix(G, n1, n2, complex(-g.re, 0));
-      addToMatrix(G, n2, n1, complex(-g.re, 0));
-    }
-  }
-
-  /**
-   * 加入電容印記
-   * Y_C = jωC
-   */
-  private addCapacitorStamp(
-    G: Complex[][],
-    n1: number,
-    n2: number,
-    capacitance: number,
-    omega: number
-  ): void {
-    const Y = admittanceCapacitor(capacitance, omega); // jωC
-
-    if (n1 >= 0) addToMatrix(G, n1, n1, Y);
-    if (n2 >= 0) addToMatrix(G, n2, n2, Y);
-    if (n1 >= 0 && n2 >= 0) {
-      const negY = complex(-Y.re, -Y.im);
-      addToMatrix(G, n1, n2, negY);
-      addToMatrix(G, n2, n1, negY);
-    }
-  }
-
-  /**
-   * 加入電感印記
-   * 使用電壓源模型：V = jωL * I
-   */
-  private addInductorStamp(
-    G: Complex[][],
-    I: Complex[],
-    n1: number,
-    n2: number,
-    inductance: number,
-    omega: number,
-    currentVarIndex: number
-  ): void {
-    // 電感方程：V(n1) - V(n2) = jωL * I_L
-    // 改寫為：V(n1) - V(n2) - jωL * I_L = 0
-
-    const jOmegaL = complex(0, omega * inductance);
-
-    // 電壓約束方程
-    if (n1 >= 0) addToMatrix(G, currentVarIndex, n1, complex(1, 0));
-    if (n2 >= 0) addToMatrix(G, currentVarIndex, n2, complex(-1, 0));
-    addToMatrix(G, currentVarIndex, currentVarIndex, complex(-jOmegaL.re, -jOmegaL.im));
-
-    // 節點電流貢獻
-    if (n1 >= 0) addToMatrix(G, n1, currentVarIndex, complex(1, 0));
-    if (n2 >= 0) addToMatrix(G, n2, currentVarIndex, complex(-1, 0));
-
-    // 右側為 0
-    I[currentVarIndex] = complex(0, 0);
-  }
-
-  /**
-   * 加入電壓源印記 (複數版本)
-   */
-  private addVoltageSourceStamp(
-    G: Complex[][],
-    I: Complex[],
-    n1: number,
-    n2: number,
-    voltage: Complex,
-    currentVarIndex: number
-  ): void {
-    if (n1 >= 0) addToMatrix(G, currentVarIndex, n1, complex(1, 0));
-    if (n2 >= 0) addToMatrix(G, currentVarIndex, n2, complex(-1, 0));
-
-    if (n1 >= 0) addToMatrix(G, n1, currentVarIndex, complex(1, 0));
-    if (n2 >= 0) addToMatrix(G, n2, currentVarIndex, complex(-1, 0));
-
-    I[currentVarIndex] = voltage;
+    return { nodeVoltages, branchCurrents };
   }
 
   /**
@@ -427,65 +275,6 @@ export class ACSweepSolver {
     return voltages;
   }
 
-  /**
-   * 提取支路電流相量
-   */
-  private extractBranchCurrentPhasors(
-    x: Complex[],
-    stamps: ComponentStamp[],
-    nodeCount: number,
-    omega: number
-  ): Map<string, ACPhasor> {
-    const currents = new Map<string, ACPhasor>();
-
-    for (const stamp of stamps) {
-      const { componentId, type, node1Index, node2Index, value, currentVarIndex } = stamp;
-
-      switch (type) {
-        case 'resistor': {
-          const v1 = node1Index >= 0 ? x[node1Index]! : complex(0, 0);
-          const v2 = node2Index >= 0 ? x[node2Index]! : complex(0, 0);
-          const vDiff = subtract(v1, v2);
-          const current = divide(vDiff, complex(value, 0));
-          currents.set(componentId, this.createPhasor(current));
-          break;
-        }
-
-        case 'capacitor': {
-          const v1 = node1Index >= 0 ? x[node1Index]! : complex(0, 0);
-          const v2 = node2Index >= 0 ? x[node2Index]! : complex(0, 0);
-          const vDiff = subtract(v1, v2);
-          // I = jωC * V
-          const Y = admittanceCapacitor(value, omega);
-          const current = multiply(Y, vDiff);
-          currents.set(componentId, this.createPhasor(current));
-          break;
-        }
-
-        case 'inductor':
-        case 'dc_source':
-        case 'ac_source':
-          if (currentVarIndex !== undefined) {
-            currents.set(componentId, this.createPhasor(x[nodeCount + currentVarIndex]!));
-          }
-          break;
-
-        case 'switch':
-        case 'ammeter': {
-          const v1 = node1Index >= 0 ? x[node1Index]! : complex(0, 0);
-          const v2 = node2Index >= 0 ? x[node2Index]! : complex(0, 0);
-          const vDiff = subtract(v1, v2);
-          const resistance = type === 'switch' ? 0.01 : 0.001;
-          const current = divide(vDiff, complex(resistance, 0));
-          currents.set(componentId, this.createPhasor(current));
-          break;
-        }
-      }
-    }
-
-    return currents;
-  }
-
   /**
    * 計算各元件的阻抗
    */
@@ -626,12 +415,18 @@ export class ACSweepSolver {
     }
 
     const hasPowerSource = components.some(
-      c => c.type === 'dc_source' || c.type === 'ac_source'
+      c => c.type === 'dc_source' || isBattery(c.type) || c.type === 'ac_source' || isCurrentSource(c.type)
     );
     if (!hasPowerSource) {
       return { valid: false, error: '電路缺少電源（DC/AC Source）' };
     }
 
+    // 檢查受控源的控制元件設定
+    const controlledSourceError = validateControlledSources(components);
+    if (controlledSourceError) {
+      return { valid: false, error: controlledSourceError };
+    }
+
     if (wires.length === 0) {
       return { valid: false, error: '電路元件未連接（無導線）' };
     }
@@ -668,8 +463,24 @@ export class ACSweepSolver {
 export function runACSweepAnalysis(
   components: CircuitComponent[],
   wires: Wire[],
-  options?: Partial<ACSweepOptions>
+  options?: Partial<ACSweepOptions>,
+  environment?: SimulationEnvironment
 ): ACSweepResult {
   const solver = new ACSweepSolver();
-  return solver.solve(components, wires, options);
+  return solver.solve(components, wires, options, environment);
+}
+
+/**
+ * 依電路圖節點索引，將 DC 節點電壓 (節點ID → 電壓) 轉為解向量
+ */
+function createVectorFromNodeVoltages(
+  graph: CircuitGraph,
+  nodeVoltages: Map<string, number>
+): number[] {
+  const x = new Array<number>(graph.getNodeCount()).fill(0);
+  for (const [nodeId, voltage] of nodeVoltages) {
+    const index = graph.getNodeIndex(nodeId);
+    if (index >= 0) x[index] = voltage;
+  }
+  return x;
 }
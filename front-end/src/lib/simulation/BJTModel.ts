@@ -0,0 +1,307 @@
+/**
+ * BJTModel.ts - 雙極性電晶體 Ebers-Moll 模型
+ *
+ * 端點順序 (同 componentDefinitions)：0 base、1 collector、2 emitter
+ *
+ * 模型說明 (傳輸型 Ebers-Moll，以 NPN 極性表示，PNP 將電壓與電流取反)：
+ *   I_F = I_S · (exp(V_BE / V_T) - 1)
+ *   I_R = I_S · (exp(V_BC / V_T) - 1)
+ *   I_C = I_F - I_R · (1 + 1/β_R)
+ *   I_B = I_F / β_F + I_R / β_R
+ *   I_E = -(I_C + I_B)
+ *
+ * DC / 瞬態以 Newton-Raphson 求解：每次迭代在目前工作點線性化，
+ * 以 Jacobian 電導 + 等效電流源加入矩陣；接面電壓經 pnjlim 限制避免發散。
+ * AC 掃頻使用 DC 工作點的 Jacobian，即混合 π 小訊號模型 (g_π、g_m、g_μ、g_o)。
+ */
+
+import type { ComponentStamp } from './SimulationTypes';
+import { nodeVoltage, stampConductance } from './StampUtils';
+import {
+  GMIN,
+  criticalVoltage,
+  junctionConverged,
+  junctionCurrent,
+  limitJunctionVoltage,
+} from './SemiconductorUtils';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { BJT_DEFAULTS } from '@/config/componentDefinitions';
+import type { DeviceModel } from './DeviceModel';
+
+/**
+ * BJT 工作點 (以元件本身極性表示的接面電壓)
+ */
+export interface BJTOperatingPoint {
+  /** 基射極接面電壓 (V) */
+  vbe: number;
+  /** 基集極接面電壓 (V) */
+  vbc: number;
+}
+
+/**
+ * 工作點線性化結果
+ */
+interface BJTLinearization {
+  /** 集極電流 (元件極性) */
+  ic: number;
+  /** 基極電流 (元件極性) */
+  ib: number;
+  /** ∂I_C/∂V_BE (即 g_m) */
+  dIcdVbe: number;
+  /** ∂I_C/∂V_BC */
+  dIcdVbc: number;
+  /** ∂I_B/∂V_BE (即 g_π) */
+  dIbdVbe: number;
+  /** ∂I_B/∂V_BC (即 g_μ) */
+  dIbdVbc: number;
+}
+
+/**
+ * 取得模型參數
+ */
+function getBJTParams(stamp: ComponentStamp): {
+  betaF: number;
+  betaR: number;
+  saturationCurrent: number;
+  thermalVoltage: number;
+} {
+  return {
+    betaF: stamp.betaF ?? BJT_DEFAULTS.betaF,
+    betaR: stamp.betaR ?? BJT_DEFAULTS.betaR,
+    saturationCurrent: stamp.saturationCurrent ?? BJT_DEFAULTS.saturationCurrent,
+    thermalVoltage: stamp.thermalVoltage ?? BJT_DEFAULTS.thermalVoltage,
+  };
+}
+
+/**
+ * 取得 BJT 各端點節點索引
+ */
+function getBJTNodes(stamp: ComponentStamp): { base: number; collector: number; emitter: number } {
+  const nodes = stamp.nodeIndices ?? [];
+  return {
+    base: nodes[0] ?? -1,
+    collector: nodes[1] ?? -1,
+    emitter: nodes[2] ?? -1,
+  };
+}
+
+/**
+ * 元件極性：NPN = +1，PNP = -1
+ */
+function getPolarity(stamp: ComponentStamp): number {
+  return stamp.type === 'transistor_pnp' ? -1 : 1;
+}
+
+/**
+ * 是否為 BJT 元件類型
+ */
+export function isBJT(type: string): boolean {
+  return type === 'transistor_npn' || type === 'transistor_pnp';
+}
+
+/**
+ * 初始工作點：基射極接面取臨界電壓 (假設導通)，基集極接面為 0
+ */
+export function initialBJTOperatingPoint(stamp: ComponentStamp): BJTOperatingPoint {
+  const { saturationCurrent, thermalVoltage } = getBJTParams(stamp);
+  return { vbe: criticalVoltage(saturationCurrent, thermalVoltage), vbc: 0 };
+}
+
+/**
+ * 在工作點計算電流與偏微分
+ */
+function linearizeBJT(stamp: ComponentStamp, op: BJTOperatingPoint): BJTLinearization {
+  const { betaF, betaR, saturationCurrent, thermalVoltage } = getBJTParams(stamp);
+  const forward = junctionCurrent(op.vbe, saturationCurrent, thermalVoltage);
+  const reverse = junctionCurrent(op.vbc, saturationCurrent, thermalVoltage);
+
+  return {
+    ic: forward.current - reverse.current * (1 + 1 / betaR),
+    ib: forward.current / betaF + reverse.current / betaR,
+    dIcdVbe: forward.conductance,
+    dIcdVbc: -reverse.conductance * (1 + 1 / betaR),
+    dIbdVbe: forward.conductance / betaF,
+    dIbdVbc: reverse.conductance / betaR,
+  };
+}
+
+/**
+ * 將 Jacobian 轉換為節點電壓的電導矩陣並逐項加入
+ * 流入集極電流 p·I_C 對節點電壓的偏微分 (p² = 1)：
+ *   ∂/∂V_B = ∂I_C/∂V_BE + ∂I_C/∂V_BC、∂/∂V_C = -∂I_C/∂V_BC、∂/∂V_E = -∂I_C/∂V_BE
+ */
+function stampJacobian(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  lin: BJTLinearization
+): void {
+  const { base, collector, emitter } = getBJTNodes(stamp);
+  const rows: { node: number; dVbe: number; dVbc: number }[] = [
+    { node: collector, dVbe: lin.dIcdVbe, dVbc: lin.dIcdVbc },
+    { node: base, dVbe: lin.dIbdVbe, dVbc: lin.dIbdVbc },
+    {
+      node: emitter,
+      dVbe: -(lin.dIcdVbe + lin.dIbdVbe),
+      dVbc: -(lin.dIcdVbc + lin.dIbdVbc),
+    },
+  ];
+
+  for (const { node, dVbe, dVbc } of rows) {
+    if (node < 0) continue;
+    if (base >= 0) add(node, base, dVbe + dVbc);
+    if (collector >= 0) add(node, collector, -dVbc);
+    if (emitter >= 0) add(node, emitter, -dVbe);
+  }
+}
+
+/**
+ * 加入 BJT 線性化印記 (DC / 瞬態 Newton-Raphson 迭代)
+ */
+export function stampBJT(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  op: BJTOperatingPoint
+): void {
+  const { base, collector, emitter } = getBJTNodes(stamp);
+  const polarity = getPolarity(stamp);
+  const lin = linearizeBJT(stamp, op);
+
+  stampJacobian((row, col, value) => G.add(row, col, value), stamp, lin);
+
+  // 等效電流源：I_eq = I(op) - J · V(op)，流入端點的電流需乘上極性
+  const icEq = polarity * (lin.ic - lin.dIcdVbe * op.vbe - lin.dIcdVbc * op.vbc);
+  const ibEq = polarity * (lin.ib - lin.dIbdVbe * op.vbe - lin.dIbdVbc * op.vbc);
+  if (collector >= 0) I[collector]! -= icEq;
+  if (base >= 0) I[base]! -= ibEq;
+  if (emitter >= 0) I[emitter]! += icEq + ibEq;
+
+  // 接面並聯 GMIN，避免截止時節點浮接
+  stampConductance(G, base, emitter, GMIN);
+  stampConductance(G, base, collector, GMIN);
+}
+
+/**
+ * 依本輪解更新工作點 (經 pnjlim 限制) 並判斷是否收斂
+ */
+export function updateBJTOperatingPoint(
+  x: number[],
+  stamp: ComponentStamp,
+  op: BJTOperatingPoint
+): { op: BJTOperatingPoint; converged: boolean } {
+  const { base, collector, emitter } = getBJTNodes(stamp);
+  const polarity = getPolarity(stamp);
+  const { saturationCurrent, thermalVoltage } = getBJTParams(stamp);
+  const vCrit = criticalVoltage(saturationCurrent, thermalVoltage);
+
+  const vb = nodeVoltage(x, base);
+  const vbeRaw = polarity * (vb - nodeVoltage(x, emitter));
+  const vbcRaw = polarity * (vb - nodeVoltage(x, collector));
+
+  const vbe = limitJunctionVoltage(vbeRaw, op.vbe, thermalVoltage, vCrit);
+  const vbc = limitJunctionVoltage(vbcRaw, op.vbc, thermalVoltage, vCrit);
+
+  const converged =
+    vbe === vbeRaw &&
+    vbc === vbcRaw &&
+    junctionConverged(vbe, op.vbe) &&
+    junctionConverged(vbc, op.vbc);
+
+  return { op: { vbe, vbc }, converged };
+}
+
+/**
+ * 由節點電壓直接求工作點 (不做限制，用於 AC 分析取 DC 偏壓點)
+ */
+export function getBJTOperatingPoint(x: number[], stamp: ComponentStamp): BJTOperatingPoint {
+  const { base, collector, emitter } = getBJTNodes(stamp);
+  const polarity = getPolarity(stamp);
+  const vb = nodeVoltage(x, base);
+  return {
+    vbe: polarity * (vb - nodeVoltage(x, emitter)),
+    vbc: polarity * (vb - nodeVoltage(x, collector)),
+  };
+}
+
+/**
+ * 集極電流 (流入集極為正；PNP 導通時為負)
+ */
+export function getBJTCollectorCurrent(stamp: ComponentStamp, op: BJTOperatingPoint): number {
+  return getPolarity(stamp) * linearizeBJT(stamp, op).ic;
+}
+
+/**
+ * 加入 BJT 混合 π 小訊號印記 (AC 掃頻)
+ * @param op DC 工作點
+ */
+export function stampBJTAC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp, op: BJTOperatingPoint): void {
+  const { base, collector, emitter } = getBJTNodes(stamp);
+  const lin = linearizeBJT(stamp, op);
+
+  stampJacobian((row, col, value) => G.add(row, col, complex(value, 0)), stamp, lin);
+
+  for (const [n1, n2] of [[base, emitter], [base, collector]] as const) {
+    if (n1 >= 0) G.add(n1, n1, complex(GMIN, 0));
+    if (n2 >= 0) G.add(n2, n2, complex(GMIN, 0));
+    if (n1 >= 0 && n2 >= 0) {
+      G.add(n1, n2, complex(-GMIN, 0));
+      G.add(n2, n1, complex(-GMIN, 0));
+    }
+  }
+}
+
+/**
+ * 小訊號集極電流相量 i_c = g_m·v_be + (∂I_C/∂V_BC)·v_bc (流入集極為正)
+ */
+export function getBJTCollectorCurrentAC(
+  x: Complex[],
+  stamp: ComponentStamp,
+  op: BJTOperatingPoint
+): Complex {
+  const { base, collector, emitter } = getBJTNodes(stamp);
+  const lin = linearizeBJT(stamp, op);
+  const zero = complex(0, 0);
+  const vb = base >= 0 ? x[base]! : zero;
+  const vc = collector >= 0 ? x[collector]! : zero;
+  const ve = emitter >= 0 ? x[emitter]! : zero;
+  // p² = 1：流入集極小訊號電流與極性無關
+  return complex(
+    lin.dIcdVbe * (vb.re - ve.re) + lin.dIcdVbc * (vb.re - vc.re),
+    lin.dIcdVbe * (vb.im - ve.im) + lin.dIcdVbc * (vb.im - vc.im)
+  );
+}
+
+/**
+ * BJT 元件模型：工作點跨迭代 / 時間步保留，支路電流回報集極電流
+ */
+export const bjtDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.bjtOperatingPoints.set(stamp.componentId, initialBJTOperatingPoint(stamp));
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampBJT(G, I, stamp, ctx.state.bjtOperatingPoints.get(stamp.componentId) ?? initialBJTOperatingPoint(stamp));
+  },
+  stampAC(G, _I, stamp, ctx) {
+    const op = ctx.state.bjtOperatingPoints.get(stamp.componentId);
+    if (op) stampBJTAC(G, stamp, op);
+  },
+  iterate(x, stamp, ctx) {
+    const op = ctx.state.bjtOperatingPoints.get(stamp.componentId) ?? initialBJTOperatingPoint(stamp);
+    const update = updateBJTOperatingPoint(x, stamp, op);
+    ctx.state.bjtOperatingPoints.set(stamp.componentId, update.op);
+    return !update.converged;
+  },
+  current(_x, stamp, ctx, currents) {
+    const op = ctx.state.bjtOperatingPoints.get(stamp.componentId);
+    if (op) currents.set(stamp.componentId, getBJTCollectorCurrent(stamp, op));
+  },
+  currentAC(x, stamp, ctx, currents) {
+    const op = ctx.state.bjtOperatingPoints.get(stamp.componentId);
+    if (op) currents.set(stamp.componentId, getBJTCollectorCurrentAC(x, stamp, op));
+  },
+  linearize(stamp, dc, state) {
+    state.bjtOperatingPoints.set(stamp.componentId, getBJTOperatingPoint(dc.x, stamp));
+  },
+};
@@ -0,0 +1,187 @@
+/**
+ * BatteryModel.ts - 電池 (內阻 + 隨荷電狀態變化的開路電壓)
+ *
+ * 端點順序 (同 dc_source)：0 正極 +、1 負極 -
+ *
+ * 等效電路：開路電壓 OCV(SoC) 串聯內阻 R_int，以一個額外電流變數 i 表示
+ * (方向同電壓源：由 + 端經電池內部流向 - 端，放電時 i < 0)：
+ *   v+ - v- - R_int·i = OCV(SoC)
+ *
+ * 荷電狀態 (SoC, 0 ~ 1) 由電池電流積分 (庫侖計數)：
+ *   SoC(t + dt) = SoC(t) + i·dt / (3600·Q)，Q 為容量 (Ah)
+ *
+ * value 為充飽 (SoC = 1) 時的電動勢，OCV 依正規化放電曲線隨 SoC 下降。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { BATTERY_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { branchVariableCurrent, type DeviceModel } from './DeviceModel';
+
+/**
+ * 電池模型參數
+ */
+export interface BatteryParams {
+  /** 充飽時的電動勢 (V) */
+  emf: number;
+  /** 內阻 (Ω) */
+  internalResistance: number;
+  /** 容量 (Ah) */
+  capacity: number;
+  /** 初始荷電狀態 (0 ~ 1) */
+  stateOfCharge: number;
+}
+
+/**
+ * 正規化放電曲線：[SoC, OCV / EMF]，兩點之間線性內插
+ * 兩端較陡、中段平緩，近似常見化學電池的放電特性
+ */
+const OCV_CURVE: ReadonlyArray<readonly [number, number]> = [
+  [0, 0.8],
+  [0.05, 0.86],
+  [0.1, 0.89],
+  [0.2, 0.92],
+  [0.4, 0.945],
+  [0.6, 0.96],
+  [0.8, 0.975],
+  [0.9, 0.985],
+  [1, 1],
+];
+
+/**
+ * 是否為電池
+ */
+export function isBattery(type: string): boolean {
+  return type === 'battery';
+}
+
+/**
+ * 由元件屬性取得電池參數 (未設定時取預設值)
+ */
+export function getBatteryParams(comp: CircuitComponent): BatteryParams {
+  return {
+    emf: comp.value ?? BATTERY_DEFAULTS.voltage,
+    internalResistance: Math.max(0, comp.internalResistance ?? BATTERY_DEFAULTS.internalResistance),
+    capacity: comp.batteryCapacity && comp.batteryCapacity > 0 ? comp.batteryCapacity : BATTERY_DEFAULTS.capacity,
+    stateOfCharge: clampStateOfCharge(comp.stateOfCharge ?? BATTERY_DEFAULTS.stateOfCharge),
+  };
+}
+
+/**
+ * 將荷電狀態限制於 0 ~ 1
+ */
+function clampStateOfCharge(soc: number): number {
+  return Math.min(1, Math.max(0, soc));
+}
+
+/**
+ * 開路電壓 OCV(SoC)
+ * @param emf 充飽時的電動勢 (V)
+ * @param soc 荷電狀態 (0 ~ 1)
+ */
+export function getOpenCircuitVoltage(emf: number, soc: number): number {
+  const s = clampStateOfCharge(soc);
+  for (let i = 1; i < OCV_CURVE.length; i++) {
+    const [s1, r1] = OCV_CURVE[i]!;
+    if (s <= s1) {
+      const [s0, r0] = OCV_CURVE[i - 1]!;
+      return emf * (r0 + ((r1 - r0) * (s - s0)) / (s1 - s0));
+    }
+  }
+  return emf;
+}
+
+/**
+ * 加入電池印記 (實數 / 複數矩陣共用的矩陣加法)
+ * 電壓項 (OCV 或 AC 分析的 0) 由呼叫端寫入右側向量
+ */
+function stampBatteryEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  if (stamp.currentVarIndex === undefined) return;
+  const { node1Index: n1, node2Index: n2 } = stamp;
+  const row = nodeCount + stamp.currentVarIndex;
+
+  // KCL：電池電流由 + 端流入、- 端流出
+  if (n1 >= 0) add(n1, row, 1);
+  if (n2 >= 0) add(n2, row, -1);
+
+  // v+ - v- - R_int·i = OCV
+  if (n1 >= 0) add(row, n1, 1);
+  if (n2 >= 0) add(row, n2, -1);
+  add(row, row, -(stamp.internalResistance ?? BATTERY_DEFAULTS.internalResistance));
+}
+
+/**
+ * 加入電池印記 (DC / 瞬態)
+ * @param soc 目前荷電狀態，決定開路電壓 (DC 分析取初始荷電狀態)
+ */
+export function stampBattery(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  soc: number = stamp.stateOfCharge ?? BATTERY_DEFAULTS.stateOfCharge
+): void {
+  if (stamp.currentVarIndex === undefined) return;
+  stampBatteryEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount);
+  I[nodeCount + stamp.currentVarIndex] = getOpenCircuitVoltage(stamp.value, soc);
+}
+
+/**
+ * 加入電池印記 (AC 掃頻)：電動勢為 DC，小訊號下僅剩內阻
+ */
+export function stampBatteryAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  if (stamp.currentVarIndex === undefined) return;
+  stampBatteryEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, nodeCount);
+  I[nodeCount + stamp.currentVarIndex] = complex(0, 0);
+}
+
+/**
+ * 以電池電流積分更新荷電狀態
+ * @param stamp 電池印記 (容量、初始荷電狀態)
+ * @param soc 目前荷電狀態 (未記錄時取初始值)
+ * @param current 電池電流 (A，+ → - 方向，放電為負)
+ * @param dt 時間步長 (s)
+ */
+export function updateStateOfCharge(
+  stamp: ComponentStamp,
+  soc: number | undefined,
+  current: number,
+  dt: number
+): number {
+  const capacity = stamp.batteryCapacity ?? BATTERY_DEFAULTS.capacity;
+  const previous = soc ?? stamp.stateOfCharge ?? BATTERY_DEFAULTS.stateOfCharge;
+  return clampStateOfCharge(previous + (current * dt) / (3600 * capacity));
+}
+
+/**
+ * 電池元件模型：開路電壓依荷電狀態，瞬態分析以電池電流積分荷電狀態
+ */
+export const batteryDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.batteryStateOfCharge.set(stamp.componentId, stamp.stateOfCharge ?? BATTERY_DEFAULTS.stateOfCharge);
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampBattery(G, I, stamp, ctx.nodeCount, ctx.state.batteryStateOfCharge.get(stamp.componentId));
+  },
+  stampAC(G, I, stamp, ctx) {
+    stampBatteryAC(G, I, stamp, ctx.nodeCount);
+  },
+  ...branchVariableCurrent,
+  updateState(_x, stamp, ctx, currents) {
+    const soc = ctx.state.batteryStateOfCharge.get(stamp.componentId);
+    const current = currents.get(stamp.componentId) ?? 0;
+    ctx.state.batteryStateOfCharge.set(stamp.componentId, updateStateOfCharge(stamp, soc, current, ctx.dt));
+  },
+};
@@ -4,9 +4,35 @@
  */
 
 import type { CircuitComponent, Wire } from '@/types/circuit';
-import type { CircuitNode, ComponentStamp } from './SimulationTypes';
+import type { CircuitNode, ComponentStamp, SimulationEnvironment } from './SimulationTypes';
 import { LED_VF_DEFAULT, type LEDColor } from './SimulationTypes';
 import { DigitalLogicSimulator } from './DigitalLogicSimulator';
+import { getDiodeModelParams } from './DiodeModel';
+import {
+  BATTERY_DEFAULTS,
+  ENVIRONMENT_DEFAULTS,
+  FUSE_DEFAULTS,
+  LAMP_DEFAULTS,
+  LDR_DEFAULTS,
+  MOTOR_DEFAULTS,
+  REGULATOR_DEFAULTS,
+  RELAY_DEFAULTS,
+  THERMISTOR_DEFAULTS,
+  TRANSFORMER_DEFAULTS,
+  ZENER_DEFAULTS,
+} from '@/config/componentDefinitions';
+import { isControlledVoltageSource, isCurrentControlledSource } from './ControlledSourceModel';
+import { getTransformerParams } from './TransformerModel';
+import { getBatteryParams } from './BatteryModel';
+import { getRelayParams } from './RelayModel';
+import { getMotorParams } from './MotorModel';
+import { getFuseParams } from './FuseModel';
+import { getLampParams } from './LampModel';
+import { getComparatorParams, isComparator } from './ComparatorModel';
+import { getRegulatorParams, isRegulator } from './RegulatorModel';
+import { getSensorResistance, isEnvironmentSensor } from './SensorModel';
+import { isSwitch } from './SwitchModel';
+import { getPotentiometerLowerId, getPotentiometerSegments, isPotentiometer } from './PotentiometerModel';
 
 /**
  * 電路圖類
@@ -17,12 +43,19 @@ export class CircuitGraph {
   private nodeIndexMap: Map<string, number> = new Map();
   private stamps: ComponentStamp[] = [];
   private voltageSourceCount = 0;
+  private environment: SimulationEnvironment = ENVIRONMENT_DEFAULTS;
 
   /**
    * 從元件和導線建立電路圖
+   * @param environment 模擬環境 (感測元件依此換算電阻)
    */
-  public build(components: CircuitComponent[], wires: Wire[]): void {
+  public build(
+    components: CircuitComponent[],
+    wires: Wire[],
+    environment: SimulationEnvironment = ENVIRONMENT_DEFAULTS
+  ): void {
     this.clear();
+    this.environment = environment;
 
     // 步驟 1: 建立 Union-Find 結構來追蹤連接的端點
     const portToNode = new Map<string, string>(); // portKey -> nodeId
@@ -103,11 +136,29 @@ export class CircuitGraph {
     for (const comp of components) {
       if (comp.type === 'ground') continue; // 接地不需要印記
 
+      // 電位器展開為兩個電阻印記
+      if (isPotentiometer(comp.type)) {
+        this.stamps.push(...this.createPotentiometerStamps(comp, portToNode));
+        continue;
+      }
+
       const stamp = this.createComponentStamp(comp, portToNode);
       if (stamp) {
         this.stamps.push(stamp);
       }
     }
+
+    // 步驟 7: CCVS / CCCS 取得控制元件的電流變數 (控制元件可能排在後面，需在印記建立後處理)
+    const controllingComponentIds = new Map(
+      components
+        .filter(c => isCurrentControlledSource(c.type))
+        .map(c => [c.id, c.controllingComponentId])
+    );
+    for (const stamp of this.stamps) {
+      const controllingId = controllingComponentIds.get(stamp.componentId);
+      if (!controllingId) continue;
+      stamp.controlCurrentVarIndex = this.stamps.find(s => s.componentId === controllingId)?.currentVarIndex;
+    }
   }
 
   /**
@@ -172,11 +223,148 @@ export class CircuitGraph {
       node1Index,
       node2Index,
       value,
+      nodeIndices: ports.map(port => this.resolvePortNodeIndex(comp.id, port.id, portToNode)),
     };
 
-    // 開關元件需要傳遞 switchClosed 狀態
-    if (comp.type === 'switch') {
+    // 開關類元件需要傳遞接點狀態 (閉合 / 切換位置 / 按下)
+    if (isSwitch(comp.type)) {
       stamp.switchClosed = comp.switchClosed ?? false;
+      stamp.switchThrow = comp.switchThrow ?? 0;
+      stamp.buttonPressed = comp.buttonPressed ?? false;
+    }
+
+    // 比較器 / 施密特觸發器：傳遞遲滯門檻與輸出電平，輸入判定狀態由求解器記錄
+    if (isComparator(comp.type)) {
+      const params = getComparatorParams(comp);
+      stamp.upperThreshold = params.upperThreshold;
+      stamp.lowerThreshold = params.lowerThreshold;
+      stamp.outputHigh = params.outputHigh;
+      stamp.outputLow = params.outputLow;
+      stamp.invertOutput = params.invertOutput;
+    }
+
+    // 穩壓器：value 為輸出電壓，工作區由求解器記錄
+    if (isRegulator(comp.type)) {
+      const params = getRegulatorParams(comp);
+      stamp.value = params.outputVoltage;
+      stamp.dropoutVoltage = params.dropoutVoltage;
+      stamp.currentLimit = params.currentLimit;
+      stamp.quiescentCurrent = params.quiescentCurrent;
+    }
+
+    // 運放：輸出視為電壓源 (額外電流變數)，電源腳需判斷是否有接線 (決定是否飽和)
+    if (comp.type === 'opamp') {
+      stamp.opampIdeal = comp.opampIdeal ?? false;
+      stamp.openLoopGain = comp.openLoopGain;
+      stamp.gainBandwidth = comp.gainBandwidth;
+      stamp.slewRate = comp.slewRate;
+      stamp.opampRailConnected = [
+        this.isPortConnected(comp.id, ports[3]?.id, portToNode),
+        this.isPortConnected(comp.id, ports[4]?.id, portToNode),
+      ];
+      stamp.currentVarIndex = this.voltageSourceCount++;
+    }
+
+    // 二極體 / LED：由 V_f 或明確參數求得 Shockley 模型參數
+    // 稽納二極體的 value 為崩潰電壓 V_z，順向特性取預設 V_f
+    if (comp.type === 'diode' || comp.type === 'led' || comp.type === 'zener') {
+      const forwardVoltage = comp.type === 'zener' ? ZENER_DEFAULTS.forwardVoltage : value;
+      const params = getDiodeModelParams(comp, forwardVoltage);
+      stamp.saturationCurrent = params.saturationCurrent;
+      stamp.emissionCoefficient = params.emissionCoefficient;
+      stamp.seriesResistance = params.seriesResistance;
+      if (comp.type === 'zener') {
+        stamp.breakdownVoltage = value;
+      }
+    }
+
+    // BJT：傳遞 Ebers-Moll 模型參數 (端點：base、collector、emitter)
+    if (comp.type === 'transistor_npn' || comp.type === 'transistor_pnp') {
+      stamp.betaF = comp.betaF;
+      stamp.betaR = comp.betaR;
+      stamp.saturationCurrent = comp.saturationCurrent;
+      stamp.thermalVoltage = comp.thermalVoltage;
+    }
+
+    // MOSFET：傳遞 Shichman-Hodges 模型參數 (端點：gate、drain、source)
+    if (comp.type === 'nmos' || comp.type === 'pmos') {
+      stamp.thresholdVoltage = comp.thresholdVoltage;
+      stamp.transconductance = comp.transconductance;
+      stamp.channelLengthModulation = comp.channelLengthModulation;
+      stamp.widthLengthRatio = comp.widthLengthRatio;
+    }
+
+    // 受控源：VCVS / VCCS 傳遞控制端節點，VCVS / CCVS 輸出視為電壓源
+    if (comp.type === 'vcvs' || comp.type === 'vccs') {
+      const nodeIndices = stamp.nodeIndices ?? [];
+      stamp.controlNodeIndices = [nodeIndices[2] ?? -1, nodeIndices[3] ?? -1];
+    }
+    if (isControlledVoltageSource(comp.type)) {
+      stamp.currentVarIndex = this.voltageSourceCount++;
+    }
+
+    // 變壓器：一、二次側繞組電流各需一個額外電流變數 (端點：p1、p2、s1、s2)
+    if (comp.type === 'transformer') {
+      const params = getTransformerParams(comp);
+      stamp.value = params.turnsRatio;
+      stamp.transformerIdeal = params.ideal;
+      stamp.primaryInductance = params.primaryInductance;
+      stamp.secondaryInductance = params.secondaryInductance;
+      stamp.couplingCoefficient = params.couplingCoefficient;
+      stamp.currentVarIndex = this.voltageSourceCount++;
+      stamp.secondaryCurrentVarIndex = this.voltageSourceCount++;
+    }
+
+    // 電池：開路電壓串聯內阻，以一個額外電流變數表示
+    if (comp.type === 'battery') {
+      const params = getBatteryParams(comp);
+      stamp.value = params.emf;
+      stamp.internalResistance = params.internalResistance;
+      stamp.batteryCapacity = params.capacity;
+      stamp.stateOfCharge = params.stateOfCharge;
+      stamp.currentVarIndex = this.voltageSourceCount++;
+    }
+
+    // 保險絲：value 為額定電流，熔斷狀態由瞬態求解器記錄
+    if (comp.type === 'fuse') {
+      const params = getFuseParams(comp);
+      stamp.value = params.ratedCurrent;
+      stamp.meltingI2t = params.meltingI2t;
+    }
+
+    // 熱敏電阻 / 光敏電阻：依模擬環境換算為固定電阻，求解器視為一般電阻
+    if (isEnvironmentSensor(comp.type)) {
+      stamp.value = getSensorResistance(comp, this.environment);
+    }
+
+    // 燈泡：value 為額定功率，燈絲溫度由求解器記錄
+    if (comp.type === 'lamp') {
+      const params = getLampParams(comp);
+      stamp.value = params.ratedPower;
+      stamp.ratedVoltage = params.ratedVoltage;
+      stamp.thermalTimeConstant = params.thermalTimeConstant;
+    }
+
+    // 繼電器：線圈電流需一個額外電流變數 (端點：c1、c2、com、no、nc)
+    if (comp.type === 'relay') {
+      const params = getRelayParams(comp);
+      stamp.value = params.coilResistance;
+      stamp.coilInductance = params.coilInductance;
+      stamp.pullInCurrent = params.pullInCurrent;
+      stamp.dropOutCurrent = params.dropOutCurrent;
+      stamp.currentVarIndex = this.voltageSourceCount++;
+    }
+
+    // 直流馬達：電樞電流需一個額外電流變數，轉速由求解器記錄
+    if (comp.type === 'dc_motor') {
+      const params = getMotorParams(comp);
+      stamp.value = params.armatureResistance;
+      stamp.armatureInductance = params.armatureInductance;
+      stamp.backEmfConstant = params.backEmfConstant;
+      stamp.inertia = params.inertia;
+      stamp.friction = params.friction;
+      stamp.loadTorque = params.loadTorque;
+      stamp.currentVarIndex = this.voltageSourceCount++;
     }
 
     // 邏輯閘需要特殊處理：輸出端口視為電壓源
@@ -199,13 +387,14 @@ export class CircuitGraph {
     }
 
     // 電壓源和電感需要額外的電流變數
-    // 二極體/LED 在改進的模型中也可能使用電壓源模型 (ON 狀態)
+    // 二極體/LED 以支路電流為變數 (串聯電阻不需內部節點)
     if (
       comp.type === 'dc_source' ||
       comp.type === 'ac_source' ||
       comp.type === 'inductor' ||
       comp.type === 'diode' ||
-      comp.type === 'led'
+      comp.type === 'led' ||
+      comp.type === 'zener'
     ) {
       stamp.currentVarIndex = this.voltageSourceCount++;
     }
@@ -213,18 +402,95 @@ export class CircuitGraph {
     return stamp;
   }
 
+  /**
+   * 電位器展開為兩個電阻印記：端點 1 → 滑臂 (上段)、滑臂 → 端點 2 (下段)
+   */
+  private createPotentiometerStamps(
+    comp: CircuitComponent,
+    portToNode: Map<string, string>
+  ): ComponentStamp[] {
+    const [end1, wiper, end2] = comp.ports;
+    if (!end1 || !wiper || !end2) return [];
+
+    const end1Index = this.resolvePortNodeIndex(comp.id, end1.id, portToNode);
+    const wiperIndex = this.resolvePortNodeIndex(comp.id, wiper.id, portToNode);
+    const end2Index = this.resolvePortNodeIndex(comp.id, end2.id, portToNode);
+    const [upper, lower] = getPotentiometerSegments(comp);
+
+    return [
+      {
+        componentId: comp.id,
+        type: 'resistor',
+        node1Index: end1Index,
+        node2Index: wiperIndex,
+        value: upper,
+        nodeIndices: [end1Index, wiperIndex],
+      },
+      {
+        componentId: getPotentiometerLowerId(comp.id),
+        type: 'resistor',
+        node1Index: wiperIndex,
+        node2Index: end2Index,
+        value: lower,
+        nodeIndices: [wiperIndex, end2Index],
+      },
+    ];
+  }
+
+  /**
+   * 取得端點所在節點的索引 (-1 表示接地)
+   */
+  private resolvePortNodeIndex(
+    componentId: string,
+    portId: string,
+    portToNode: Map<string, string>
+  ): number {
+    const nodeId = this.findRoot(portToNode, `${componentId}:${portId}`);
+    const node = this.nodes.get(nodeId);
+    return node?.isGround ? -1 : (this.nodeIndexMap.get(nodeId) ?? -1);
+  }
+
+  /**
+   * 端點是否連接到其他元件
+   */
+  private isPortConnected(
+    componentId: string,
+    portId: string | undefined,
+    portToNode: Map<string, string>
+  ): boolean {
+    if (portId === undefined) return false;
+    const nodeId = this.findRoot(portToNode, `${componentId}:${portId}`);
+    return (this.nodes.get(nodeId)?.connectedPorts.length ?? 0) > 1;
+  }
+
   /**
    * 取得元件的預設值
    */
   private getDefaultValue(type: string): number {
     switch (type) {
       case 'resistor': return 1000; // 1kΩ
+      case 'thermistor': return THERMISTOR_DEFAULTS.resistance; // 25°C 時電阻
+      case 'ldr': return LDR_DEFAULTS.resistance; // 10 lux 時電阻
       case 'dc_source': return 5; // 5V
+      case 'battery': return BATTERY_DEFAULTS.voltage; // 充飽時電動勢
       case 'ac_source': return 5; // 5V (RMS)
+      case 'current_source': return 0.01; // 10mA
+      case 'ac_current_source': return 0.01; // 10mA (峰值)
+      case 'vcvs': return 2; // μ = 2 V/V
+      case 'vccs': return 1e-3; // g_m = 1mS
+      case 'ccvs': return 1000; // r_m = 1kΩ
+      case 'cccs': return 10; // β = 10 A/A
       case 'capacitor': return 100e-6; // 100μF
       case 'inductor': return 10e-3; // 10mH
+      case 'transformer': return TRANSFORMER_DEFAULTS.turnsRatio; // 匝數比 n
+      case 'relay': return RELAY_DEFAULTS.coilResistance; // 線圈電阻
+      case 'dc_motor': return MOTOR_DEFAULTS.armatureResistance; // 電樞電阻
+      case 'fuse': return FUSE_DEFAULTS.ratedCurrent; // 額定電流
       case 'diode': return 0.7; // 順向電壓降
+      case 'lamp': return LAMP_DEFAULTS.ratedPower; // 額定功率
       case 'led': return 2.0; // LED 順向電壓降
+      case 'zener': return ZENER_DEFAULTS.breakdownVoltage; // 崩潰電壓 V_z
+      case 'regulator': return REGULATOR_DEFAULTS.outputVoltage; // 輸出電壓
       default: return 0;
     }
   }
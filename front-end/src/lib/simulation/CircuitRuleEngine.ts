@@ -1,6 +1,12 @@
 import type { CircuitComponent, Wire } from '@/types/circuit';
 import type { CircuitRuleViolation, CircuitRuleEngineOptions, RuleSeverity, DCSimulationResult } from './SimulationTypes';
 import { I_EMIT_MIN } from './SimulationTypes';
+import { FUSE_DEFAULTS, REGULATOR_DEFAULTS, ZENER_DEFAULTS } from '@/config/componentDefinitions';
+import { getPotentiometerSegments } from './PotentiometerModel';
+import { getRelayParams } from './RelayModel';
+import { getMotorParams } from './MotorModel';
+import { getLampHotResistance, getLampParams } from './LampModel';
+import { getSwitchContacts, isThrowSwitch } from './SwitchModel';
 
 /**
  * Unique identifier for an electrical node.
@@ -28,10 +34,17 @@ const DEFAULT_R_MIN_OHMS = 10; // CUR-001 Normative (overrideable)
 
 /**
  * Checks if the component type allows it to be treated as an ideal voltage source.
- * Includes DC and AC sources.
+ * Includes DC and AC sources, and batteries (internal resistance is ignored for rule checks).
  */
 function isIdealVoltageSourceType(type: CircuitComponent['type']): boolean {
-  return type === 'dc_source' || type === 'ac_source';
+  return type === 'dc_source' || type === 'battery' || type === 'ac_source';
+}
+
+/**
+ * Checks if the component type is an independent current source (DC or AC).
+ */
+function isCurrentSourceType(type: CircuitComponent['type']): boolean {
+  return type === 'current_source' || type === 'ac_current_source';
 }
 
 /**
@@ -57,9 +70,29 @@ function isLEDType(type: CircuitComponent['type']): boolean {
 
 /**
  * Checks if the component type is a non-linear device (Diode, LED, Transistor).
+ * The 555 timer is excluded: its VCC / GND pins are meant to sit directly on the supply.
  */
 function isNonLinearDeviceType(type: CircuitComponent['type']): boolean {
-  return type === 'diode' || type === 'led' || type === 'transistor_npn' || type === 'transistor_pnp';
+  return (
+    type === 'diode' ||
+    type === 'zener' ||
+    type === 'led' ||
+    type === 'transistor_npn' ||
+    type === 'transistor_pnp' ||
+    type === 'nmos' ||
+    type === 'pmos'
+  );
+}
+
+/**
+ * Returns the ports of a non-linear device that carry its main current.
+ * A MOSFET gate is insulated, so only the drain-source channel can short a source.
+ */
+function getCurrentPathPorts(component: CircuitComponent): CircuitComponent['ports'] {
+  if (component.type === 'nmos' || component.type === 'pmos') {
+    return component.ports.filter((port) => port.name !== 'gate');
+  }
+  return component.ports;
 }
 
 /**
@@ -71,9 +104,22 @@ function getEffectiveResistanceOhms(component: CircuitComponent): number | null
     case 'resistor':
       return component.value ?? 1000;
     case 'switch':
+    case 'push_button_no':
+    case 'push_button_nc':
       return 0.01;
     case 'ammeter':
       return 0.001;
+    case 'fuse':
+      return FUSE_DEFAULTS.resistance;
+    case 'lamp':
+      return getLampHotResistance(getLampParams(component));
+    case 'dc_motor':
+      // Back-EMF is zero at stall, so the armature resistance alone limits the inrush current
+      return getMotorParams(component).armatureResistance;
+    case 'thermistor':
+    case 'ldr':
+      // Environment-dependent; the nominal resistance still limits current like a resistor
+      return component.value ?? 10000;
     case 'voltmeter':
       return 1e12;
     default:
@@ -95,6 +141,13 @@ function isTwoTerminalIdealVoltageSource(component: CircuitComponent): component
   return isIdealVoltageSourceType(component.type) && isTwoTerminalComponent(component);
 }
 
+/**
+ * Checks if a component is a two-terminal independent current source.
+ */
+function isTwoTerminalCurrentSource(component: CircuitComponent): component is TwoTerminalComponent {
+  return isCurrentSourceType(component.type) && isTwoTerminalComponent(component);
+}
+
 /**
  * Checks if a component is a two-terminal LED.
  */
@@ -231,7 +284,7 @@ function isLogicGateType(type: CircuitComponent['type']): boolean {
 /**
  * Constructs graph edges representing components connecting electrical nodes.
  * For two-terminal components: creates a single edge between the two terminals.
- * For multi-terminal components (logic gates, op-amps): creates edges connecting
+ * For multi-terminal components (logic gates, op-amps, transistors, VCVS/VCCS): creates edges connecting
  * all terminals to enable path traversal through the component.
  */
 function buildComponentEdges(
@@ -260,10 +313,109 @@ function buildComponentEdges(
       continue;
     }
 
+    // Potentiometer: two resistive segments (1-wiper, wiper-2), matching the solver expansion
+    if (comp.type === 'potentiometer') {
+      const segments = getPotentiometerSegments(comp);
+      for (const [i, [a, b]] of ([[0, 1], [1, 2]] as const).entries()) {
+        const port1 = comp.ports[a];
+        const port2 = comp.ports[b];
+        if (!port1 || !port2) continue;
+        const n1 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port1.id);
+        const n2 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port2.id);
+        if (!n1 || !n2) continue;
+
+        edges.push({
+          componentId: comp.id,
+          type: comp.type,
+          n1,
+          n2,
+          effectiveResistanceOhms: segments[i]!,
+        });
+      }
+      continue;
+    }
+
+    // Transformer: primary (p1-p2) and secondary (s1-s2) windings are separate,
+    // galvanically isolated edges
+    if (comp.type === 'transformer') {
+      for (const [a, b] of [[0, 1], [2, 3]] as const) {
+        const port1 = comp.ports[a];
+        const port2 = comp.ports[b];
+        if (!port1 || !port2) continue;
+        const n1 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port1.id);
+        const n2 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port2.id);
+        if (!n1 || !n2) continue;
+
+        edges.push({
+          componentId: comp.id,
+          type: comp.type,
+          n1,
+          n2,
+          effectiveResistanceOhms: null,
+        });
+      }
+      continue;
+    }
+
+    // SPDT / DPDT: only the contacts closed at the current throw connect (a and b of
+    // one pole are never joined), unlike a plain switch which is checked as if closed
+    if (isThrowSwitch(comp.type)) {
+      for (const contact of getSwitchContacts(comp)) {
+        const port1 = comp.ports[contact.from];
+        const port2 = comp.ports[contact.to];
+        if (!contact.closed || !port1 || !port2) continue;
+        const n1 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port1.id);
+        const n2 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port2.id);
+        if (!n1 || !n2) continue;
+
+        edges.push({
+          componentId: comp.id,
+          type: comp.type,
+          n1,
+          n2,
+          effectiveResistanceOhms: 0.01,
+        });
+      }
+      continue;
+    }
+
+    // Relay: coil (c1-c2) is resistive; contacts (com-no, com-nc) switch at runtime,
+    // so they only provide connectivity, never a fixed 0Ω path
+    if (comp.type === 'relay') {
+      const coilResistance = getRelayParams(comp).coilResistance;
+      for (const [a, b] of [[0, 1], [2, 3], [2, 4]] as const) {
+        const port1 = comp.ports[a];
+        const port2 = comp.ports[b];
+        if (!port1 || !port2) continue;
+        const n1 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port1.id);
+        const n2 = getNodeIdForPort(rootToNodeId, findRoot, comp.id, port2.id);
+        if (!n1 || !n2) continue;
+
+        edges.push({
+          componentId: comp.id,
+          type: comp.type,
+          n1,
+          n2,
+          effectiveResistanceOhms: a === 0 ? coilResistance : null,
+        });
+      }
+      continue;
+    }
+
     // Handle multi-terminal components (logic gates, op-amps, etc.)
     // For topology checking, we treat multi-port components as having
     // internal connectivity between all ports (star topology from first port)
-    if (isLogicGateType(comp.type) || comp.type === 'opamp') {
+    if (
+      isLogicGateType(comp.type) ||
+      comp.type === 'opamp' ||
+      comp.type === 'comparator' ||
+      comp.type === 'schmitt_trigger' ||
+      comp.type === 'regulator' ||
+      comp.type === 'vcvs' ||
+      comp.type === 'vccs' ||
+      comp.type === 'timer555' ||
+      isNonLinearDeviceType(comp.type)
+    ) {
       const baseNode = getNodeIdForPort(rootToNodeId, findRoot, comp.id, comp.ports[0]!.id);
       if (!baseNode) continue;
 
@@ -548,6 +700,52 @@ export function evaluateCircuitDesignRules(
     }
   }
 
+  // PWR-003: Current source in series with an open circuit or an inductor cut-set.
+  // PWR-003: 電流源串聯開路或電感割集
+  for (const src of components.filter(isTwoTerminalCurrentSource)) {
+    const nPos = getNodeIdForPort(nodeBuild.rootToNodeId, findRoot, src.id, src.ports[0].id);
+    const nNeg = getNodeIdForPort(nodeBuild.rootToNodeId, findRoot, src.id, src.ports[1].id);
+    if (!nPos || !nNeg || nPos === nNeg) continue;
+
+    const reachable = bfsReachable(allAdj, nPos, src.id);
+    if (!reachable.has(nNeg)) {
+      addViolation(
+        violations,
+        'PWR-003',
+        'ERROR',
+        [src.id],
+        'Current source is in series with an open circuit (no path between + and - terminals).',
+        'Provide a return path for the current source, e.g. a load resistor across its terminals.'
+      );
+      continue;
+    }
+
+    // Remove inductors and current sources: if the terminals become disconnected,
+    // the source current is forced through a cut-set of inductors.
+    const nonInductiveAdj = buildAllComponentAdjacency(
+      edges.filter((e) => !isInductorType(e.type) && !isCurrentSourceType(e.type))
+    );
+    const nonInductiveReachable = bfsReachable(nonInductiveAdj, nPos);
+    if (nonInductiveReachable.has(nNeg)) continue;
+
+    const cutSetInductorIds = edges
+      .filter(
+        (e) =>
+          isInductorType(e.type) &&
+          nonInductiveReachable.has(e.n1) !== nonInductiveReachable.has(e.n2)
+      )
+      .map((e) => e.componentId);
+
+    addViolation(
+      violations,
+      'PWR-003',
+      'WARNING',
+      [src.id, ...cutSetInductorIds],
+      'Current source forms a cut-set with inductors (inductor current is forced by the source).',
+      'Add a parallel resistor across the current source or inductor to provide a non-inductive path.'
+    );
+  }
+
   // REA-001 / REA-002: Capacitor/Inductor connected directly to ideal voltage source (no series impedance).
   // REA-001 / REA-002: C/L 直接接理想電壓源（無串聯阻抗）
   for (const src of sources) {
@@ -664,7 +862,7 @@ export function evaluateCircuitDesignRules(
       if (comp.ports.length < 2) continue;
 
       const terminalGroups: number[] = [];
-      for (const port of comp.ports) {
+      for (const port of getCurrentPathPorts(comp)) {
         const node = getNodeIdForPort(nodeBuild.rootToNodeId, findRoot, comp.id, port.id);
         if (!node) continue;
         const g = zeroOhmGroup.get(node);
@@ -776,3 +974,88 @@ export function evaluateLED001Rule(
   return violations;
 }
 
+/**
+ * ZEN-001 規則評估（模擬後執行）
+ *
+ * 稽納二極體逆向崩潰時的功率 P_Z = V_z · |I_Z| 超過額定功率 (powerRating) 時觸發。
+ * 順向導通 (I > 0) 不列入判斷。
+ *
+ * 規則嚴重等級：WARNING
+ *
+ * @param components 電路元件列表
+ * @param simulationResult 模擬結果
+ */
+export function evaluateZEN001Rule(
+  components: CircuitComponent[],
+  simulationResult: DCSimulationResult
+): CircuitRuleViolation[] {
+  const violations: CircuitRuleViolation[] = [];
+
+  if (!simulationResult.success) {
+    return violations;
+  }
+
+  for (const zener of components.filter(c => c.type === 'zener')) {
+    const current = simulationResult.branchCurrents.get(zener.id);
+    if (current === undefined || current >= 0) continue;
+
+    const breakdownVoltage = zener.value ?? ZENER_DEFAULTS.breakdownVoltage;
+    const powerRating = zener.powerRating ?? ZENER_DEFAULTS.powerRating;
+    const power = breakdownVoltage * Math.abs(current);
+
+    if (power > powerRating) {
+      addViolation(
+        violations,
+        'ZEN-001',
+        'WARNING',
+        [zener.id],
+        `Zener "${zener.label || zener.id}" dissipates ${(power * 1000).toFixed(1)}mW (I_Z = ${(Math.abs(current) * 1000).toFixed(2)}mA), exceeding its ${(powerRating * 1000).toFixed(0)}mW rating.`,
+        'Increase the series resistor to limit zener current, or choose a zener with a higher power rating.'
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * REG-001 規則評估（模擬後執行）
+ *
+ * 穩壓器消耗功率 P = (V_in - V_out) · I_out + V_in · I_q 超過額定功率 (powerRating) 時觸發。
+ * 功率由 DC 求解器記錄於 dissipatedPower。
+ *
+ * 規則嚴重等級：WARNING
+ *
+ * @param components 電路元件列表
+ * @param simulationResult 模擬結果
+ */
+export function evaluateREG001Rule(
+  components: CircuitComponent[],
+  simulationResult: DCSimulationResult
+): CircuitRuleViolation[] {
+  const violations: CircuitRuleViolation[] = [];
+
+  if (!simulationResult.success) {
+    return violations;
+  }
+
+  for (const regulator of components.filter(c => c.type === 'regulator')) {
+    const power = simulationResult.dissipatedPower?.get(regulator.id);
+    if (power === undefined) continue;
+
+    const powerRating = regulator.powerRating ?? REGULATOR_DEFAULTS.powerRating;
+    if (power > powerRating) {
+      const current = simulationResult.branchCurrents.get(regulator.id) ?? 0;
+      addViolation(
+        violations,
+        'REG-001',
+        'WARNING',
+        [regulator.id],
+        `Regulator "${regulator.label || regulator.id}" dissipates ${power.toFixed(2)}W (I_out = ${(current * 1000).toFixed(1)}mA), exceeding its ${powerRating.toFixed(2)}W rating.`,
+        'Lower the input voltage (e.g. a pre-regulator or series resistor), reduce the load current, or add a heatsink and raise the rating.'
+      );
+    }
+  }
+
+  return violations;
+}
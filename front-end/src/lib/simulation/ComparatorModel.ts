@@ -0,0 +1,200 @@
+/**
+ * ComparatorModel.ts - 比較器與施密特觸發器 (具遲滯的類比 → 邏輯電平轉換)
+ *
+ * 端點順序 (同 componentDefinitions)：
+ *   comparator：0 +、1 -、2 out
+ *   schmitt_trigger：0 in、1 out
+ *
+ * 輸入量 v：比較器為 V+ - V-，施密特觸發器為 V_in (相對接地)
+ * 輸入判定狀態 s 具遲滯 (見 applyHysteresis)：
+ *   s = 0 時 v ≥ 上門檻 → s = 1；s = 1 時 v < 下門檻 → s = 0
+ *   比較器門檻為 ±hysteresis/2，施密特觸發器門檻為 V_T+ / V_T-
+ * 輸出級：out 經 R_out 接至輸出電平 (相對接地)，
+ *   s XOR invertOutput 為真時為 outputHigh，否則為 outputLow
+ * 輸入端各經 inputResistance 接地。
+ *
+ * s 由求解器於非線性迭代中更新，瞬態分析跨時間步保留 (ComponentState)，初始為 0。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { COMPARATOR_DEFAULTS, SCHMITT_TRIGGER_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { voltageReader, voltageReaderAC, type DeviceModel } from './DeviceModel';
+
+/**
+ * 比較器 / 施密特觸發器模型參數
+ */
+export interface ComparatorParams {
+  /** 輸入量越過此值時判定為高 (V) */
+  upperThreshold: number;
+  /** 輸入量低於此值時判定為低 (V)，不大於上門檻 */
+  lowerThreshold: number;
+  /** 高輸出電平 (V) */
+  outputHigh: number;
+  /** 低輸出電平 (V) */
+  outputLow: number;
+  /** 是否反相輸出 */
+  invertOutput: boolean;
+}
+
+/**
+ * 是否為比較器類元件 (比較器、施密特觸發器)
+ */
+export function isComparator(type: string): boolean {
+  return type === 'comparator' || type === 'schmitt_trigger';
+}
+
+/**
+ * 由元件屬性取得比較器參數 (未設定時取預設值)
+ */
+export function getComparatorParams(comp: CircuitComponent): ComparatorParams {
+  const outputs = {
+    outputHigh: comp.outputHigh ?? COMPARATOR_DEFAULTS.outputHigh,
+    outputLow: comp.outputLow ?? COMPARATOR_DEFAULTS.outputLow,
+    invertOutput: comp.invertOutput ?? false,
+  };
+
+  if (comp.type === 'schmitt_trigger') {
+    const upperThreshold = comp.upperThreshold ?? SCHMITT_TRIGGER_DEFAULTS.upperThreshold;
+    return {
+      upperThreshold,
+      lowerThreshold: Math.min(upperThreshold, comp.lowerThreshold ?? SCHMITT_TRIGGER_DEFAULTS.lowerThreshold),
+      ...outputs,
+    };
+  }
+
+  const hysteresis = Math.max(0, comp.hysteresis ?? COMPARATOR_DEFAULTS.hysteresis);
+  return { upperThreshold: hysteresis / 2, lowerThreshold: -hysteresis / 2, ...outputs };
+}
+
+/**
+ * 遲滯判定：依上一個狀態選擇門檻，避免輸入在門檻附近抖動時輸出來回切換
+ * @param high 上一個判定狀態
+ */
+export function applyHysteresis(value: number, high: boolean, lowerThreshold: number, upperThreshold: number): boolean {
+  return high ? value >= lowerThreshold : value >= upperThreshold;
+}
+
+/**
+ * 取得輸入 (+ / -) 與輸出端點的節點索引，施密特觸發器的 - 端為接地
+ */
+function getComparatorNodes(stamp: ComponentStamp): { plus: number; minus: number; out: number } {
+  const nodeIndices = stamp.nodeIndices ?? [];
+  if (stamp.type === 'schmitt_trigger') {
+    return { plus: stamp.node1Index, minus: -1, out: nodeIndices[1] ?? stamp.node2Index };
+  }
+  return { plus: stamp.node1Index, minus: stamp.node2Index, out: nodeIndices[2] ?? -1 };
+}
+
+/**
+ * 輸入判定狀態對應的輸出電平 (V)
+ */
+function getOutputLevel(stamp: ComponentStamp, high: boolean): number {
+  const level = high !== (stamp.invertOutput ?? false);
+  return level
+    ? (stamp.outputHigh ?? COMPARATOR_DEFAULTS.outputHigh)
+    : (stamp.outputLow ?? COMPARATOR_DEFAULTS.outputLow);
+}
+
+/**
+ * 以共用的矩陣加法加入輸入電阻與輸出電導 (實數 / 複數矩陣共用)
+ */
+function stampComparatorEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp
+): void {
+  const { plus, minus, out } = getComparatorNodes(stamp);
+  const gInput = 1 / COMPARATOR_DEFAULTS.inputResistance;
+  if (plus >= 0) add(plus, plus, gInput);
+  if (minus >= 0) add(minus, minus, gInput);
+  if (out >= 0) add(out, out, 1 / COMPARATOR_DEFAULTS.outputResistance);
+}
+
+/**
+ * 加入比較器印記 (DC / 瞬態)：輸出以 Norton 等效 (R_out 並聯 V_level / R_out) 表示
+ * @param high 輸入判定狀態
+ */
+export function stampComparator(G: SparseMatrixBuilder, I: number[], stamp: ComponentStamp, high: boolean): void {
+  stampComparatorEntries((row, col, value) => G.add(row, col, value), stamp);
+  const { out } = getComparatorNodes(stamp);
+  if (out >= 0) {
+    I[out]! += getOutputLevel(stamp, high) / COMPARATOR_DEFAULTS.outputResistance;
+  }
+}
+
+/**
+ * 加入比較器印記 (AC 掃頻)：輸出電平為定值，小訊號下僅剩輸出電阻
+ */
+export function stampComparatorAC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp): void {
+  stampComparatorEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp);
+}
+
+/**
+ * 依輸入量與遲滯門檻決定下一個輸入判定狀態
+ * @param voltageAt 由節點索引取得電壓 (接地為 0)
+ */
+export function updateComparatorState(
+  stamp: ComponentStamp,
+  high: boolean,
+  voltageAt: (node: number) => number
+): boolean {
+  const { plus, minus } = getComparatorNodes(stamp);
+  const lower = stamp.lowerThreshold ?? -COMPARATOR_DEFAULTS.hysteresis / 2;
+  const upper = stamp.upperThreshold ?? COMPARATOR_DEFAULTS.hysteresis / 2;
+  return applyHysteresis(voltageAt(plus) - voltageAt(minus), high, lower, upper);
+}
+
+/**
+ * 由節點電壓計算 out 端流出至外部電路的電流 (負值為灌入)
+ */
+export function getComparatorOutputCurrent(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => number,
+  high: boolean
+): number {
+  const vOut = voltageAt(getComparatorNodes(stamp).out);
+  return (getOutputLevel(stamp, high) - vOut) / COMPARATOR_DEFAULTS.outputResistance;
+}
+
+/**
+ * 由節點電壓相量計算 out 端的輸出電流相量 (輸出電平不含小訊號成分)
+ */
+export function getComparatorOutputCurrentAC(stamp: ComponentStamp, voltageAt: (node: number) => Complex): Complex {
+  const vOut = voltageAt(getComparatorNodes(stamp).out);
+  const gOut = 1 / COMPARATOR_DEFAULTS.outputResistance;
+  return complex(-vOut.re * gOut, -vOut.im * gOut);
+}
+
+/**
+ * 比較器 / 施密特觸發器元件模型：輸入判定狀態跨時間步保留 (初始為低)，每輪最多切換一次
+ */
+export const comparatorDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.comparatorHigh.set(stamp.componentId, false);
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampComparator(G, I, stamp, ctx.state.comparatorHigh.get(stamp.componentId) ?? false);
+  },
+  stampAC(G, _I, stamp) {
+    stampComparatorAC(G, stamp);
+  },
+  iterate(x, stamp, ctx) {
+    if (ctx.toggled.has(stamp.componentId)) return false;
+    const high = ctx.state.comparatorHigh.get(stamp.componentId) ?? false;
+    const next = updateComparatorState(stamp, high, voltageReader(x));
+    if (next === high) return false;
+    ctx.state.comparatorHigh.set(stamp.componentId, next);
+    ctx.toggled.add(stamp.componentId);
+    return true;
+  },
+  current(x, stamp, ctx, currents) {
+    const high = ctx.state.comparatorHigh.get(stamp.componentId) ?? false;
+    currents.set(stamp.componentId, getComparatorOutputCurrent(stamp, voltageReader(x), high));
+  },
+  currentAC(x, stamp, _ctx, currents) {
+    currents.set(stamp.componentId, getComparatorOutputCurrentAC(stamp, voltageReaderAC(x)));
+  },
+};
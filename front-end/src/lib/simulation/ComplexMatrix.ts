@@ -5,6 +5,7 @@
 
 import type { Complex } from './Complex';
 import { complex, magnitude, divide, subtract, multiply, negate, isZero, clone } from './Complex';
+import { SparseLUSolver, type SparseMatrix } from './Matrix';
 
 /**
  * 建立 n x n 複數零矩陣
@@ -224,6 +225,103 @@ export function complexLUSolve(
   return x;
 }
 
+// ============================================
+// 稀疏求解
+// ============================================
+
+/**
+ * 複數稀疏矩陣建構器 (AC 掃頻印記累加用，各列以 行 → 值 表儲存)
+ */
+export class ComplexSparseMatrixBuilder {
+  /** 矩陣維度 */
+  readonly n: number;
+  private readonly rows: Map<number, Complex>[];
+
+  constructor(n: number) {
+    this.n = n;
+    this.rows = Array.from({ length: n }, () => new Map<number, Complex>());
+  }
+
+  /**
+   * 累加 A[row][col] += value
+   */
+  add(row: number, col: number, value: Complex): void {
+    const entries = this.rows[row]!;
+    const existing = entries.get(col);
+    entries.set(col, existing ? complex(existing.re + value.re, existing.im + value.im) : clone(value));
+  }
+
+  /**
+   * 讀取 A[row][col] (未印記的元素為 0)
+   */
+  get(row: number, col: number): Complex {
+    return clone(this.rows[row]!.get(col) ?? complex(0, 0));
+  }
+
+  /**
+   * 第 row 列已印記的元素 (行索引遞增)
+   */
+  getRow(row: number): [number, Complex][] {
+    return [...this.rows[row]!].sort((a, b) => a[0] - b[0]);
+  }
+}
+
+/**
+ * 將複數方程組展開為 2n 維實數稀疏方程組
+ * 未知數交錯排列 (2j 為實部、2j + 1 為虛部)，每個複數元素 a + jb 展開為 [[a, -b], [b, a]]
+ * 實部或虛部任一非零即保留整個 2x2 區塊，使掃頻各頻率的結構一致以重用符號分解
+ */
+export function complexToRealSparse(A: Complex[][] | ComplexSparseMatrixBuilder): SparseMatrix {
+  const n = Array.isArray(A) ? A.length : A.n;
+  const rowPtr = new Int32Array(2 * n + 1);
+  const colIndex: number[] = [];
+  const values: number[] = [];
+
+  for (let i = 0; i < n; i++) {
+    const row = Array.isArray(A) ? A[i]!.map((value, j): [number, Complex] => [j, value]) : A.getRow(i);
+    const nonZero = row.filter(([, { re, im }]) => re !== 0 || im !== 0);
+    for (const [j, { re, im }] of nonZero) {
+      colIndex.push(2 * j, 2 * j + 1);
+      values.push(re, -im);
+    }
+    rowPtr[2 * i + 1] = colIndex.length;
+    for (const [j, { re, im }] of nonZero) {
+      colIndex.push(2 * j, 2 * j + 1);
+      values.push(im, re);
+    }
+    rowPtr[2 * i + 2] = colIndex.length;
+  }
+
+  return { n: 2 * n, rowPtr, colIndex: Int32Array.from(colIndex), values: Float64Array.from(values) };
+}
+
+/**
+ * 複數稀疏求解器：以實數展開重用 SparseLUSolver 的 Markowitz 排序與符號分解
+ */
+export class ComplexSparseLUSolver {
+  private readonly solver = new SparseLUSolver();
+
+  /**
+   * 求解複數方程組 Ax = b
+   * @returns 解向量 x，若矩陣奇異則回傳 null
+   */
+  solve(A: Complex[][] | ComplexSparseMatrixBuilder, b: Complex[]): Complex[] | null {
+    const rhs: number[] = [];
+    for (const c of b) rhs.push(c.re, c.im);
+
+    const x = this.solver.solve(complexToRealSparse(A), rhs);
+    if (!x) return null;
+    return b.map((_, i) => complex(x[2 * i]!, x[2 * i + 1]!));
+  }
+
+  /**
+   * 捨棄快取的符號分解
+   */
+  reset(): void {
+    this.solver.reset();
+  }
+}
+
 // ============================================
 // 除錯工具
 // ============================================
@@ -0,0 +1,249 @@
+/**
+ * ControlledSourceModel.ts - 相依 (受控) 電源：VCVS / VCCS / CCVS / CCCS
+ *
+ * 端點順序 (同 componentDefinitions)：
+ *   VCVS / VCCS：0 out+、1 out-、2 ctrl+、3 ctrl-
+ *   CCVS / CCCS：0 out+、1 out-，控制電流為 controllingComponentId 所指元件的支路電流
+ *
+ * 模型說明 (增益 = value，對應 SPICE E / G / H / F 元件)：
+ *   VCVS：V(out+) - V(out-) = μ · (V(ctrl+) - V(ctrl-))
+ *   VCCS：I = g_m · (V(ctrl+) - V(ctrl-))，由 out+ 經元件流向 out-
+ *   CCVS：V(out+) - V(out-) = r_m · i_ctrl
+ *   CCCS：I = β · i_ctrl，由 out+ 經元件流向 out-
+ *
+ * 控制電流 i_ctrl 為控制元件的額外電流變數 (方向為其 port[0] → port[1])，
+ * 因此控制元件必須為電壓源類元件或電感。VCVS / CCVS 的輸出視為電壓源 (額外電流變數)。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { nodeVoltage } from './StampUtils';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, subtract, scale, type Complex } from './Complex';
+import type { DeviceModel } from './DeviceModel';
+
+/**
+ * 可作為 CCVS / CCCS 控制元件的類型 (具有額外電流變數)
+ */
+const CURRENT_CONTROLLING_TYPES: ReadonlySet<string> = new Set([
+  'dc_source',
+  'battery',
+  'ac_source',
+  'inductor',
+  'relay',
+  'dc_motor',
+  'vcvs',
+  'ccvs',
+]);
+
+/**
+ * 是否為受控電源
+ */
+export function isControlledSource(type: string): boolean {
+  return type === 'vcvs' || type === 'vccs' || type === 'ccvs' || type === 'cccs';
+}
+
+/**
+ * 是否為電流控制的受控電源 (CCVS / CCCS)
+ */
+export function isCurrentControlledSource(type: string): boolean {
+  return type === 'ccvs' || type === 'cccs';
+}
+
+/**
+ * 輸出是否為電壓源 (VCVS / CCVS，需要額外電流變數)
+ */
+export function isControlledVoltageSource(type: string): boolean {
+  return type === 'vcvs' || type === 'ccvs';
+}
+
+/**
+ * 元件是否可作為 CCVS / CCCS 的控制元件
+ */
+export function isCurrentControllingType(type: string): boolean {
+  return CURRENT_CONTROLLING_TYPES.has(type);
+}
+
+/**
+ * 檢查 CCVS / CCCS 的控制元件設定
+ * @returns 錯誤訊息，設定正確時回傳 null
+ */
+export function validateControlledSources(components: CircuitComponent[]): string | null {
+  const componentMap = new Map(components.map(c => [c.id, c]));
+
+  for (const comp of components) {
+    if (!isCurrentControlledSource(comp.type)) continue;
+
+    const name = comp.label || comp.id;
+    const controller = comp.controllingComponentId
+      ? componentMap.get(comp.controllingComponentId)
+      : undefined;
+
+    if (!controller || controller.id === comp.id) {
+      return `受控源 ${name} 未指定控制電流的元件`;
+    }
+    if (!isCurrentControllingType(controller.type)) {
+      return `受控源 ${name} 的控制元件 ${controller.label || controller.id} 必須為電壓源或電感`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 取得輸出與控制端點
+ */
+function getControlledSourceNodes(stamp: ComponentStamp): {
+  outP: number;
+  outN: number;
+  ctrlP: number;
+  ctrlN: number;
+} {
+  const [ctrlP, ctrlN] = stamp.controlNodeIndices ?? [-1, -1];
+  return { outP: stamp.node1Index, outN: stamp.node2Index, ctrlP, ctrlN };
+}
+
+/**
+ * 以共用的矩陣加法加入受控源印記 (實數 / 複數矩陣共用)
+ */
+function stampControlledSourceEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  const { type, value: gain, currentVarIndex, controlCurrentVarIndex } = stamp;
+  const { outP, outN, ctrlP, ctrlN } = getControlledSourceNodes(stamp);
+  const ctrlRow = controlCurrentVarIndex !== undefined ? nodeCount + controlCurrentVarIndex : -1;
+
+  if (isControlledVoltageSource(type)) {
+    if (currentVarIndex === undefined) return;
+    const row = nodeCount + currentVarIndex;
+
+    // KCL：支路電流由 out+ 經元件流向 out-
+    if (outP >= 0) {
+      add(outP, row, 1);
+      add(row, outP, 1);
+    }
+    if (outN >= 0) {
+      add(outN, row, -1);
+      add(row, outN, -1);
+    }
+
+    if (type === 'vcvs') {
+      // V(out+) - V(out-) - μ·(V(ctrl+) - V(ctrl-)) = 0
+      if (ctrlP >= 0) add(row, ctrlP, -gain);
+      if (ctrlN >= 0) add(row, ctrlN, gain);
+    } else if (ctrlRow >= 0) {
+      // V(out+) - V(out-) - r_m·i_ctrl = 0
+      add(row, ctrlRow, -gain);
+    }
+    return;
+  }
+
+  if (type === 'vccs') {
+    // 電流 g_m·(V(ctrl+) - V(ctrl-)) 由 out+ 流向 out-
+    if (outP >= 0 && ctrlP >= 0) add(outP, ctrlP, gain);
+    if (outP >= 0 && ctrlN >= 0) add(outP, ctrlN, -gain);
+    if (outN >= 0 && ctrlP >= 0) add(outN, ctrlP, -gain);
+    if (outN >= 0 && ctrlN >= 0) add(outN, ctrlN, gain);
+    return;
+  }
+
+  // CCCS：電流 β·i_ctrl 由 out+ 流向 out-
+  if (ctrlRow < 0) return;
+  if (outP >= 0) add(outP, ctrlRow, gain);
+  if (outN >= 0) add(outN, ctrlRow, -gain);
+}
+
+/**
+ * 加入受控源印記 (DC / 瞬態)
+ */
+export function stampControlledSource(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  stampControlledSourceEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount);
+  if (isControlledVoltageSource(stamp.type) && stamp.currentVarIndex !== undefined) {
+    I[nodeCount + stamp.currentVarIndex] = 0;
+  }
+}
+
+/**
+ * 加入受控源印記 (AC 掃頻，增益為實數)
+ */
+export function stampControlledSourceAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  stampControlledSourceEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, nodeCount);
+  if (isControlledVoltageSource(stamp.type) && stamp.currentVarIndex !== undefined) {
+    I[nodeCount + stamp.currentVarIndex] = complex(0, 0);
+  }
+}
+
+/**
+ * 受控源支路電流 (由 out+ 經元件流向 out- 為正)
+ */
+export function getControlledSourceCurrent(
+  x: number[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): number {
+  const { type, value: gain, currentVarIndex, controlCurrentVarIndex } = stamp;
+
+  if (isControlledVoltageSource(type)) {
+    return currentVarIndex !== undefined ? (x[nodeCount + currentVarIndex] ?? 0) : 0;
+  }
+  if (type === 'vccs') {
+    const { ctrlP, ctrlN } = getControlledSourceNodes(stamp);
+    return gain * (nodeVoltage(x, ctrlP) - nodeVoltage(x, ctrlN));
+  }
+  return controlCurrentVarIndex !== undefined ? gain * (x[nodeCount + controlCurrentVarIndex] ?? 0) : 0;
+}
+
+/**
+ * 受控源支路電流相量 (由 out+ 經元件流向 out- 為正)
+ */
+export function getControlledSourceCurrentAC(
+  x: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): Complex {
+  const { type, value: gain, currentVarIndex, controlCurrentVarIndex } = stamp;
+  const zero = complex(0, 0);
+
+  if (isControlledVoltageSource(type)) {
+    return currentVarIndex !== undefined ? (x[nodeCount + currentVarIndex] ?? zero) : zero;
+  }
+  if (type === 'vccs') {
+    const { ctrlP, ctrlN } = getControlledSourceNodes(stamp);
+    const vc = subtract(ctrlP >= 0 ? x[ctrlP]! : zero, ctrlN >= 0 ? x[ctrlN]! : zero);
+    return scale(vc, gain);
+  }
+  return controlCurrentVarIndex !== undefined
+    ? scale(x[nodeCount + controlCurrentVarIndex] ?? zero, gain)
+    : zero;
+}
+
+/**
+ * 受控源元件模型 (VCVS / VCCS / CCVS / CCCS)
+ */
+export const controlledSourceDevice: DeviceModel = {
+  stampDC(G, I, stamp, ctx) {
+    stampControlledSource(G, I, stamp, ctx.nodeCount);
+  },
+  stampAC(G, I, stamp, ctx) {
+    stampControlledSourceAC(G, I, stamp, ctx.nodeCount);
+  },
+  current(x, stamp, ctx, currents) {
+    currents.set(stamp.componentId, getControlledSourceCurrent(x, stamp, ctx.nodeCount));
+  },
+  currentAC(x, stamp, ctx, currents) {
+    currents.set(stamp.componentId, getControlledSourceCurrentAC(x, stamp, ctx.nodeCount));
+  },
+};
@@ -0,0 +1,218 @@
+/**
+ * DeviceModel.ts - 元件模型介面
+ *
+ * 每種元件以一個 DeviceModel 描述其在各分析中的行為，求解器僅負責組裝矩陣、迭代與時間步進：
+ *   stampDC / stampTransient / stampAC：DC 印記、瞬態伴隨模型印記、AC 複數印記
+ *   iterate：非線性迭代中依本輪解更新工作點 / 工作區
+ *   current / currentAC：由解向量提取支路電流
+ *   updateState：瞬態時間步完成後更新動態狀態 (電容電壓、電感電流、荷電狀態…)
+ *   linearize：由 DC 工作點決定 AC 小訊號分析所需的狀態
+ *   nextBreakpoint：發布下一個波形斷點，瞬態求解器會恰好落在斷點上並重新起始積分
+ * 元件模型以元件類型註冊於 DeviceRegistry。
+ */
+
+import type { ComponentState, ComponentStamp, IntegrationMethod } from './SimulationTypes';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, subtract, type Complex } from './Complex';
+
+/**
+ * DC / 瞬態分析的元件模型上下文
+ */
+export interface DeviceContext {
+  /** 分析類型 */
+  analysis: 'dc' | 'transient';
+  /** 節點數 (額外電流變數列 = nodeCount + currentVarIndex) */
+  nodeCount: number;
+  /** 目前時間 (秒，DC 分析為 0) */
+  time: number;
+  /** 時間步長 (秒，DC 分析為 0) */
+  dt: number;
+  /** 上一個時間步的步長 (秒)，非等間隔時供 Gear-2 計算係數 */
+  previousDt: number;
+  /** 本時間步是否恰好落在斷點上 (波形不連續處，電源取左極限) */
+  atBreakpoint: boolean;
+  /** 電容 / 電感伴隨模型的數值積分法 */
+  integrationMethod: IntegrationMethod;
+  /** 元件狀態 (非線性工作點、動態元件狀態)，瞬態分析跨時間步保留 */
+  state: ComponentState;
+  /**
+   * 已切換過的雙穩態元件 (繼電器、555、比較器)
+   * 每輪最多切換一次，避免自保持 / 蜂鳴電路或門檻附近來回振盪；DC 為整次分析，瞬態為單一時間步
+   */
+  toggled: Set<string>;
+}
+
+/**
+ * AC 掃頻分析的元件模型上下文
+ */
+export interface ACDeviceContext {
+  /** 節點數 */
+  nodeCount: number;
+  /** 角頻率 (rad/s) */
+  omega: number;
+  /** 由 DC 工作點線性化的元件狀態 */
+  state: ComponentState;
+}
+
+/**
+ * DC 工作點 (供 AC 小訊號線性化)
+ */
+export interface DCOperatingPoint {
+  /** 依 AC 電路圖節點索引排列的節點電壓 */
+  x: number[];
+  /** 支路電流 (元件ID → 電流值 A) */
+  branchCurrents: Map<string, number>;
+}
+
+/**
+ * 元件模型
+ * 未提供的方法表示該元件在對應分析中沒有貢獻 (如電流源於 AC 分析開路)
+ */
+export interface DeviceModel {
+  /**
+   * 設定分析開始時的元件狀態 (DC 的工作點初始猜測或瞬態的初始條件)
+   */
+  initialize?(stamp: ComponentStamp, ctx: DeviceContext): void;
+
+  /**
+   * 加入 DC 印記
+   */
+  stampDC(G: SparseMatrixBuilder, I: number[], stamp: ComponentStamp, ctx: DeviceContext): void;
+
+  /**
+   * 加入瞬態伴隨模型印記 (未提供時使用 DC 印記)
+   */
+  stampTransient?(G: SparseMatrixBuilder, I: number[], stamp: ComponentStamp, ctx: DeviceContext): void;
+
+  /**
+   * 加入 AC 小訊號複數印記
+   */
+  stampAC?(G: ComplexSparseMatrixBuilder, I: Complex[], stamp: ComponentStamp, ctx: ACDeviceContext): void;
+
+  /**
+   * 非線性迭代：依本輪解更新工作點 / 工作區
+   * @returns 是否尚未收斂 (需以新狀態重新組裝矩陣)
+   */
+  iterate?(x: number[], stamp: ComponentStamp, ctx: DeviceContext): boolean;
+
+  /**
+   * 由解向量提取支路電流 (+ → -)，寫入 currents (可包含衍生鍵值)
+   */
+  current?(x: number[], stamp: ComponentStamp, ctx: DeviceContext, currents: Map<string, number>): void;
+
+  /**
+   * 由解向量提取支路電流相量，寫入 currents (可包含衍生鍵值)
+   */
+  currentAC?(x: Complex[], stamp: ComponentStamp, ctx: ACDeviceContext, currents: Map<string, Complex>): void;
+
+  /**
+   * 瞬態時間步完成後更新動態狀態
+   * @param currents 本時間步的支路電流
+   */
+  updateState?(x: number[], stamp: ComponentStamp, ctx: DeviceContext, currents: Map<string, number>): void;
+
+  /**
+   * 由 DC 工作點設定 AC 小訊號分析所需的狀態 (提供此方法的元件會使 AC 分析先求 DC 工作點)
+   */
+  linearize?(stamp: ComponentStamp, dc: DCOperatingPoint, state: ComponentState): void;
+
+  /**
+   * DC 消耗功率 (W)，供設計規則檢查
+   */
+  dissipation?(x: number[], stamp: ComponentStamp, ctx: DeviceContext): number;
+
+  /**
+   * time 之後的下一個斷點 (波形不連續或斜率轉折的時間，秒)，沒有時回傳 undefined
+   */
+  nextBreakpoint?(stamp: ComponentStamp, time: number): number | undefined;
+}
+
+/**
+ * 建立空的元件狀態
+ */
+export function createComponentState(): ComponentState {
+  return {
+    capacitorVoltages: new Map(),
+    inductorCurrents: new Map(),
+    capacitorCurrents: new Map(),
+    inductorVoltages: new Map(),
+    previousCapacitorVoltages: new Map(),
+    previousInductorCurrents: new Map(),
+    opampOutputVoltages: new Map(),
+    batteryStateOfCharge: new Map(),
+    relayEnergized: new Map(),
+    fuseHeat: new Map(),
+    fuseBlownAt: new Map(),
+    lampTemperature: new Map(),
+    timer555Latched: new Map(),
+    comparatorHigh: new Map(),
+    regulatorRegion: new Map(),
+    motorSpeed: new Map(),
+    previousMotorSpeed: new Map(),
+    diodeVoltages: new Map(),
+    opampRegions: new Map(),
+    bjtOperatingPoints: new Map(),
+    mosfetOperatingPoints: new Map(),
+  };
+}
+
+/**
+ * 複製元件狀態 (自適應步長拒絕時間步時還原用)
+ */
+export function cloneComponentState(state: ComponentState): ComponentState {
+  const entries = Object.entries(state).map(([key, map]) => [key, new Map(map as Map<string, unknown>)]);
+  return Object.fromEntries(entries) as ComponentState;
+}
+
+/**
+ * 由解向量取得節點電壓的函數 (接地為 0V)
+ */
+export function voltageReader(x: number[]): (node: number) => number {
+  return node => (node >= 0 ? (x[node] ?? 0) : 0);
+}
+
+/**
+ * 二端元件的端電壓 V(node1) - V(node2)
+ */
+export function getVoltageDrop(x: number[], stamp: ComponentStamp): number {
+  const v1 = stamp.node1Index >= 0 ? (x[stamp.node1Index] ?? 0) : 0;
+  const v2 = stamp.node2Index >= 0 ? (x[stamp.node2Index] ?? 0) : 0;
+  return v1 - v2;
+}
+
+/**
+ * 由複數解向量取得節點電壓相量的函數 (接地為 0)
+ */
+export function voltageReaderAC(x: Complex[]): (node: number) => Complex {
+  return node => (node >= 0 ? (x[node] ?? complex(0, 0)) : complex(0, 0));
+}
+
+/**
+ * 二端元件的端電壓相量 V(node1) - V(node2)
+ */
+export function getVoltageDropAC(x: Complex[], stamp: ComponentStamp): Complex {
+  const voltageAt = voltageReaderAC(x);
+  return subtract(voltageAt(stamp.node1Index), voltageAt(stamp.node2Index));
+}
+
+/**
+ * 額外電流變數的值 (未配置時回傳 undefined)
+ */
+export function getBranchVariable<T>(x: T[], stamp: ComponentStamp, nodeCount: number): T | undefined {
+  return stamp.currentVarIndex !== undefined ? x[nodeCount + stamp.currentVarIndex] : undefined;
+}
+
+/**
+ * 以額外電流變數作為支路電流的元件 (電壓源、電感、運放輸出…) 共用的電流提取
+ */
+export const branchVariableCurrent: Pick<DeviceModel, 'current' | 'currentAC'> = {
+  current(x, stamp, ctx, currents) {
+    const current = getBranchVariable(x, stamp, ctx.nodeCount);
+    if (current !== undefined) currents.set(stamp.componentId, current);
+  },
+  currentAC(x, stamp, ctx, currents) {
+    const current = getBranchVariable(x, stamp, ctx.nodeCount);
+    if (current !== undefined) currents.set(stamp.componentId, current);
+  },
+};
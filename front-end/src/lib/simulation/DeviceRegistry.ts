@@ -0,0 +1,206 @@
+/**
+ * DeviceRegistry.ts - 元件模型註冊表
+ *
+ * 以元件類型對應 DeviceModel，DC / 瞬態 / 串流瞬態 / AC 掃頻求解器皆透過本模組組裝矩陣、
+ * 迭代非線性工作點並提取支路電流。新增元件只需實作 DeviceModel 並於此註冊。
+ * 未註冊的類型 (接地、電位器已由 CircuitGraph 展開為電阻) 不產生印記。
+ */
+
+import type { ComponentType } from '@/types/circuit';
+import type { ComponentState, ComponentStamp } from './SimulationTypes';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import type { Complex } from './Complex';
+import type { ACDeviceContext, DCOperatingPoint, DeviceContext, DeviceModel } from './DeviceModel';
+import { ammeterDevice, capacitorDevice, inductorDevice, resistorDevice, voltmeterDevice } from './PassiveModel';
+import { acCurrentSourceDevice, acSourceDevice, currentSourceDevice, dcSourceDevice } from './SourceModel';
+import { controlledSourceDevice } from './ControlledSourceModel';
+import { transformerDevice } from './TransformerModel';
+import { batteryDevice } from './BatteryModel';
+import { relayDevice } from './RelayModel';
+import { motorDevice } from './MotorModel';
+import { switchDevice } from './SwitchModel';
+import { fuseDevice } from './FuseModel';
+import { lampDevice } from './LampModel';
+import { timer555Device } from './Timer555Model';
+import { comparatorDevice } from './ComparatorModel';
+import { regulatorDevice } from './RegulatorModel';
+import { opampDevice } from './OpAmpModel';
+import { diodeDevice } from './DiodeModel';
+import { bjtDevice } from './BJTModel';
+import { mosfetDevice } from './MOSFETModel';
+import { logicGateDevice } from './LogicGateModel';
+
+const deviceModels = new Map<ComponentType, DeviceModel>();
+
+/**
+ * 註冊元件模型 (同類型重複註冊時以後者取代)
+ */
+export function registerDeviceModel(types: ComponentType | ComponentType[], model: DeviceModel): void {
+  for (const type of Array.isArray(types) ? types : [types]) {
+    deviceModels.set(type, model);
+  }
+}
+
+/**
+ * 取得元件類型的模型 (未註冊時回傳 undefined)
+ */
+export function getDeviceModel(type: string): DeviceModel | undefined {
+  return deviceModels.get(type as ComponentType);
+}
+
+registerDeviceModel(['resistor', 'thermistor', 'ldr'], resistorDevice);
+registerDeviceModel('capacitor', capacitorDevice);
+registerDeviceModel('inductor', inductorDevice);
+registerDeviceModel('ammeter', ammeterDevice);
+registerDeviceModel('voltmeter', voltmeterDevice);
+registerDeviceModel('dc_source', dcSourceDevice);
+registerDeviceModel('ac_source', acSourceDevice);
+registerDeviceModel('current_source', currentSourceDevice);
+registerDeviceModel('ac_current_source', acCurrentSourceDevice);
+registerDeviceModel(['vcvs', 'vccs', 'ccvs', 'cccs'], controlledSourceDevice);
+registerDeviceModel('transformer', transformerDevice);
+registerDeviceModel('battery', batteryDevice);
+registerDeviceModel('relay', relayDevice);
+registerDeviceModel('dc_motor', motorDevice);
+registerDeviceModel(['switch', 'switch_spdt', 'switch_dpdt', 'push_button_no', 'push_button_nc'], switchDevice);
+registerDeviceModel('fuse', fuseDevice);
+registerDeviceModel('lamp', lampDevice);
+registerDeviceModel('timer555', timer555Device);
+registerDeviceModel(['comparator', 'schmitt_trigger'], comparatorDevice);
+registerDeviceModel('regulator', regulatorDevice);
+registerDeviceModel('opamp', opampDevice);
+registerDeviceModel(['diode', 'led', 'zener'], diodeDevice);
+registerDeviceModel(['transistor_npn', 'transistor_pnp'], bjtDevice);
+registerDeviceModel(['nmos', 'pmos'], mosfetDevice);
+registerDeviceModel(['logic_and', 'logic_or'], logicGateDevice);
+
+// ============================================
+// 求解器共用的驅動函數
+// ============================================
+
+/**
+ * 設定分析開始時的元件狀態
+ */
+export function initializeDevices(stamps: ComponentStamp[], ctx: DeviceContext): void {
+  for (const stamp of stamps) {
+    getDeviceModel(stamp.type)?.initialize?.(stamp, ctx);
+  }
+}
+
+/**
+ * 加入所有元件的 DC / 瞬態印記 (瞬態分析優先使用伴隨模型)
+ */
+export function stampDevices(G: SparseMatrixBuilder, I: number[], stamps: ComponentStamp[], ctx: DeviceContext): void {
+  for (const stamp of stamps) {
+    const model = getDeviceModel(stamp.type);
+    if (!model) continue;
+    if (ctx.analysis === 'transient' && model.stampTransient) {
+      model.stampTransient(G, I, stamp, ctx);
+    } else {
+      model.stampDC(G, I, stamp, ctx);
+    }
+  }
+}
+
+/**
+ * 加入所有元件的 AC 小訊號印記
+ */
+export function stampDevicesAC(G: ComplexSparseMatrixBuilder, I: Complex[], stamps: ComponentStamp[], ctx: ACDeviceContext): void {
+  for (const stamp of stamps) {
+    getDeviceModel(stamp.type)?.stampAC?.(G, I, stamp, ctx);
+  }
+}
+
+/**
+ * 依本輪解更新所有非線性元件的工作點
+ * @returns 是否有元件尚未收斂 (需重新組裝矩陣)
+ */
+export function iterateDevices(x: number[], stamps: ComponentStamp[], ctx: DeviceContext): boolean {
+  let changed = false;
+  for (const stamp of stamps) {
+    // 每個元件都需更新工作點，不可短路求值
+    if (getDeviceModel(stamp.type)?.iterate?.(x, stamp, ctx)) changed = true;
+  }
+  return changed;
+}
+
+/**
+ * 提取支路電流
+ */
+export function extractDeviceCurrents(x: number[], stamps: ComponentStamp[], ctx: DeviceContext): Map<string, number> {
+  const currents = new Map<string, number>();
+  for (const stamp of stamps) {
+    getDeviceModel(stamp.type)?.current?.(x, stamp, ctx, currents);
+  }
+  return currents;
+}
+
+/**
+ * 提取支路電流相量
+ */
+export function extractDeviceCurrentsAC(
+  x: Complex[],
+  stamps: ComponentStamp[],
+  ctx: ACDeviceContext
+): Map<string, Complex> {
+  const currents = new Map<string, Complex>();
+  for (const stamp of stamps) {
+    getDeviceModel(stamp.type)?.currentAC?.(x, stamp, ctx, currents);
+  }
+  return currents;
+}
+
+/**
+ * 瞬態時間步完成後更新所有動態元件的狀態
+ */
+export function updateDeviceStates(
+  x: number[],
+  stamps: ComponentStamp[],
+  ctx: DeviceContext,
+  currents: Map<string, number>
+): void {
+  for (const stamp of stamps) {
+    getDeviceModel(stamp.type)?.updateState?.(x, stamp, ctx, currents);
+  }
+}
+
+/**
+ * AC 分析是否需要先求 DC 工作點 (含需線性化的非線性元件)
+ */
+export function needsOperatingPoint(stamps: ComponentStamp[]): boolean {
+  return stamps.some(stamp => getDeviceModel(stamp.type)?.linearize !== undefined);
+}
+
+/**
+ * 由 DC 工作點設定 AC 小訊號分析所需的元件狀態
+ */
+export function linearizeDevices(stamps: ComponentStamp[], dc: DCOperatingPoint, state: ComponentState): void {
+  for (const stamp of stamps) {
+    getDeviceModel(stamp.type)?.linearize?.(stamp, dc, state);
+  }
+}
+
+/**
+ * 所有元件在 time 之後最近的斷點 (沒有時回傳 Infinity)
+ */
+export function getNextBreakpoint(stamps: ComponentStamp[], time: number): number {
+  let next = Infinity;
+  for (const stamp of stamps) {
+    const breakpoint = getDeviceModel(stamp.type)?.nextBreakpoint?.(stamp, time);
+    if (breakpoint !== undefined && breakpoint < next) next = breakpoint;
+  }
+  return next;
+}
+
+/**
+ * 提取元件 DC 消耗功率 (供設計規則檢查)
+ */
+export function extractDeviceDissipation(x: number[], stamps: ComponentStamp[], ctx: DeviceContext): Map<string, number> {
+  const power = new Map<string, number>();
+  for (const stamp of stamps) {
+    const dissipation = getDeviceModel(stamp.type)?.dissipation;
+    if (dissipation) power.set(stamp.componentId, dissipation(x, stamp, ctx));
+  }
+  return power;
+}
@@ -9,6 +9,7 @@
  */
 
 import type { CircuitComponent, Wire } from '@/types/circuit';
+import { applyHysteresis } from './ComparatorModel';
 
 /**
  * 邏輯電平定義
@@ -43,6 +44,8 @@ export interface DigitalLogicOptions {
   vLow: number;
   /** 電壓門檻 (高於此值視為 HIGH，預設 2.5V) */
   threshold: number;
+  /** 輸入遲滯寬度 (V，預設 0)：上一電平為 LOW 時需 ≥ threshold + h/2 才轉 HIGH，為 HIGH 時需 < threshold - h/2 才轉 LOW */
+  hysteresis: number;
   /** 傳播延遲 (奈秒，預設 0 表示立即) */
   propagationDelay: number;
 }
@@ -54,6 +57,7 @@ export const DEFAULT_DIGITAL_OPTIONS: DigitalLogicOptions = {
   vHigh: 5.0,      // 5V = HIGH
   vLow: 0.0,       // 0V = LOW
   threshold: 2.5,  // 2.5V 門檻
+  hysteresis: 0,   // 無遲滯 (單一門檻)
   propagationDelay: 0,
 };
 
@@ -88,11 +92,20 @@ export interface DigitalSimulationResult {
  */
 export class DigitalLogicSimulator {
   private options: DigitalLogicOptions;
+  /** 各邏輯閘輸入上一次的邏輯電平 ("gateId:端口名稱" → 電平)，遲滯判定用 */
+  private previousInputs = new Map<string, LogicLevel>();
 
   constructor(options: Partial<DigitalLogicOptions> = {}) {
     this.options = { ...DEFAULT_DIGITAL_OPTIONS, ...options };
   }
 
+  /**
+   * 清除輸入遲滯歷史 (清空或載入電路時呼叫)
+   */
+  public reset(): void {
+    this.previousInputs.clear();
+  }
+
   /**
    * 判斷元件是否為邏輯閘
    */
@@ -109,6 +122,19 @@ export class DigitalLogicSimulator {
     return LogicLevel.LOW;
   }
 
+  /**
+   * 將電壓轉換為邏輯電平 (具遲滯)：門檻依上一個電平選擇，避免雜訊在門檻附近造成抖動
+   * @param previous 上一個邏輯電平 (UNKNOWN 時同 voltageToLogic)
+   */
+  public voltageToLogicWithHysteresis(voltage: number | undefined, previous: LogicLevel): LogicLevel {
+    if (voltage === undefined) return LogicLevel.UNKNOWN;
+    if (previous === LogicLevel.UNKNOWN) return this.voltageToLogic(voltage);
+
+    const { threshold, hysteresis } = this.options;
+    const high = applyHysteresis(voltage, previous === LogicLevel.HIGH, threshold - hysteresis / 2, threshold + hysteresis / 2);
+    return high ? LogicLevel.HIGH : LogicLevel.LOW;
+  }
+
   /**
    * 將邏輯電平轉換為電壓
    */
@@ -244,6 +270,14 @@ export class DigitalLogicSimulator {
     // 找出所有邏輯閘
     const logicGates = components.filter(c => DigitalLogicSimulator.isLogicGate(c.type));
 
+    // 移除已刪除邏輯閘的輸入歷史
+    const gateIds = new Set(logicGates.map(g => g.id));
+    for (const key of this.previousInputs.keys()) {
+      if (!gateIds.has(key.slice(0, key.lastIndexOf(':')))) {
+        this.previousInputs.delete(key);
+      }
+    }
+
     if (logicGates.length === 0) {
       return {
         gateStates,
@@ -275,6 +309,16 @@ export class DigitalLogicSimulator {
       return portNodeVoltages.get(portKey);
     };
 
+    /**
+     * 將輸入電壓轉為邏輯電平，並記錄供下次模擬的遲滯判定使用
+     */
+    const toInputLogic = (gateId: string, portName: string, voltage: number): LogicLevel => {
+      const key = `${gateId}:${portName}`;
+      const level = this.voltageToLogicWithHysteresis(voltage, this.previousInputs.get(key) ?? LogicLevel.UNKNOWN);
+      this.previousInputs.set(key, level);
+      return level;
+    };
+
     // 評估每個邏輯閘
     for (const gate of logicGates) {
       let inputA: LogicLevel;
@@ -285,7 +329,7 @@ export class DigitalLogicSimulator {
       const voltageA = getInputVoltage(gate.id, 'A');
       if (voltageA !== undefined) {
         // 使用連接節點的電壓轉換為邏輯電平
-        inputA = this.voltageToLogic(voltageA);
+        inputA = toInputLogic(gate.id, 'A', voltageA);
       } else if (gate.logicInputA !== undefined) {
         // 沒有連接，使用手動設定的邏輯輸入值
         inputA = this.boolToLogic(gate.logicInputA);
@@ -298,7 +342,7 @@ export class DigitalLogicSimulator {
       if (!isNotGate) {
         const voltageB = getInputVoltage(gate.id, 'B');
         if (voltageB !== undefined) {
-          inputB = this.voltageToLogic(voltageB);
+          inputB = toInputLogic(gate.id, 'B', voltageB);
         } else if (gate.logicInputB !== undefined) {
           inputB = this.boolToLogic(gate.logicInputB);
         } else {
@@ -0,0 +1,338 @@
+/**
+ * DiodeModel.ts - 二極體 / LED Shockley 模型
+ *
+ * 端點順序：0 anode、1 cathode
+ *
+ * 模型說明：
+ *   I_D = I_S · (exp(V_D / (n·V_T)) - 1) + GMIN · V_D
+ *   V(anode) - V(cathode) = V_D + R_S · I_D
+ *
+ * 以支路電流 i 為額外變數 (沿用 currentVarIndex)，串聯電阻 R_S 不需內部節點：
+ *   在工作點 V_D0 線性化 i = I_D0 + g_d · (V_D - V_D0)，V_D = V(a) - V(k) - R_S · i
+ *   → (1 + g_d·R_S) · i - g_d · (V(a) - V(k)) = I_D0 - g_d · V_D0
+ *
+ * Newton-Raphson 每輪以 pnjlim 限制 V_D 的變化量並檢查收斂。
+ * LED 的 V_f (LED_VF_DEFAULT / vfOverride) 換算為參考電流下等效的 I_S。
+ *
+ * 稽納二極體另加反向崩潰分支 (R_z 作為串聯電阻)：
+ *   I_BD = -I_ZT · exp(-(V_D + V_BJ) / (n·V_T))，V_BJ = V_z - R_z · I_ZT
+ *   使反向電流為 I_ZT 時端電壓恰為 -V_z；崩潰區以鏡射的 pnjlim 限制 V_D。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { LED_VF_DEFAULT, type LEDColor } from './SimulationTypes';
+import { nodeVoltage } from './StampUtils';
+import { branchVariableCurrent, getVoltageDrop, type DeviceModel } from './DeviceModel';
+import {
+  GMIN,
+  criticalVoltage,
+  junctionConverged,
+  junctionCurrent,
+  limitJunctionVoltage,
+} from './SemiconductorUtils';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { DIODE_DEFAULTS, LED_DEFAULTS, ZENER_DEFAULTS } from '@/config/componentDefinitions';
+
+/**
+ * Shockley 二極體模型參數
+ */
+export interface DiodeModelParams {
+  /** 飽和電流 I_S (A) */
+  saturationCurrent: number;
+  /** 發射係數 n */
+  emissionCoefficient: number;
+  /** 串聯電阻 R_S (Ω) */
+  seriesResistance: number;
+}
+
+/**
+ * 由「參考電流下的順向電壓」換算 Shockley 參數
+ * I_S = I_ref / (exp((V_f - R_S·I_ref) / (n·V_T)) - 1)
+ */
+export function diodeParamsFromForwardVoltage(
+  forwardVoltage: number,
+  referenceCurrent: number,
+  emissionCoefficient: number,
+  seriesResistance: number,
+  thermalVoltage: number = DIODE_DEFAULTS.thermalVoltage
+): DiodeModelParams {
+  const junctionVoltage = Math.max(forwardVoltage - seriesResistance * referenceCurrent, 0.05);
+  const saturationCurrent =
+    referenceCurrent / Math.expm1(junctionVoltage / (emissionCoefficient * thermalVoltage));
+  return { saturationCurrent, emissionCoefficient, seriesResistance };
+}
+
+/**
+ * 各顏色 LED 的等效 Shockley 參數 (V_f 定義於 LED 參考電流)
+ */
+export const LED_MODEL_PARAMS: Record<LEDColor, DiodeModelParams> = Object.fromEntries(
+  (Object.keys(LED_VF_DEFAULT) as LEDColor[]).map(color => [
+    color,
+    diodeParamsFromForwardVoltage(
+      LED_VF_DEFAULT[color],
+      LED_DEFAULTS.referenceCurrent,
+      LED_DEFAULTS.emissionCoefficient,
+      LED_DEFAULTS.seriesResistance
+    ),
+  ])
+) as Record<LEDColor, DiodeModelParams>;
+
+/**
+ * 是否為二極體類元件
+ */
+export function isDiode(type: string): boolean {
+  return type === 'diode' || type === 'led' || type === 'zener';
+}
+
+/**
+ * 取得元件的 Shockley 參數
+ * 優先順序：元件明確設定的 I_S / n / R_S > LED 顏色對照表 > 由 V_f 換算
+ * @param forwardVoltage 順向電壓 (LED 已套用 vfOverride > ledColor > value 的優先順序)
+ */
+export function getDiodeModelParams(
+  comp: CircuitComponent,
+  forwardVoltage: number
+): DiodeModelParams {
+  const defaults =
+    comp.type === 'led' ? LED_DEFAULTS : comp.type === 'zener' ? ZENER_DEFAULTS : DIODE_DEFAULTS;
+  const emissionCoefficient = comp.emissionCoefficient ?? defaults.emissionCoefficient;
+  const seriesResistance =
+    comp.type === 'zener'
+      ? (comp.zenerResistance ?? ZENER_DEFAULTS.zenerResistance)
+      : (comp.seriesResistance ?? (comp.type === 'led' ? LED_DEFAULTS : DIODE_DEFAULTS).seriesResistance);
+
+  let derived: DiodeModelParams;
+  const usesColorTable =
+    comp.type === 'led' &&
+    comp.vfOverride === undefined &&
+    comp.ledColor !== undefined &&
+    comp.emissionCoefficient === undefined &&
+    comp.seriesResistance === undefined;
+  if (usesColorTable) {
+    derived = LED_MODEL_PARAMS[comp.ledColor as LEDColor];
+  } else {
+    derived = diodeParamsFromForwardVoltage(
+      forwardVoltage,
+      defaults.referenceCurrent,
+      emissionCoefficient,
+      seriesResistance
+    );
+  }
+
+  return {
+    saturationCurrent: comp.saturationCurrent ?? derived.saturationCurrent,
+    emissionCoefficient: derived.emissionCoefficient,
+    seriesResistance: derived.seriesResistance,
+  };
+}
+
+/**
+ * 從印記取得參數 (缺少時使用一般二極體預設)
+ */
+function getStampParams(stamp: ComponentStamp): DiodeModelParams & {
+  thermalVoltage: number;
+  breakdownJunctionVoltage?: number;
+} {
+  const emissionCoefficient = stamp.emissionCoefficient ?? DIODE_DEFAULTS.emissionCoefficient;
+  const seriesResistance = stamp.seriesResistance ?? DIODE_DEFAULTS.seriesResistance;
+  const saturationCurrent =
+    stamp.saturationCurrent ??
+    diodeParamsFromForwardVoltage(
+      stamp.value,
+      DIODE_DEFAULTS.referenceCurrent,
+      emissionCoefficient,
+      seriesResistance
+    ).saturationCurrent;
+  return {
+    saturationCurrent,
+    emissionCoefficient,
+    seriesResistance,
+    thermalVoltage: stamp.thermalVoltage ?? DIODE_DEFAULTS.thermalVoltage,
+    breakdownJunctionVoltage:
+      stamp.breakdownVoltage !== undefined
+        ? stamp.breakdownVoltage - seriesResistance * ZENER_DEFAULTS.testCurrent
+        : undefined,
+  };
+}
+
+/**
+ * 在接面電壓 V_D 計算電流與微分電導 (含 GMIN)
+ */
+function linearizeDiode(stamp: ComponentStamp, vd: number): { current: number; conductance: number } {
+  const { saturationCurrent, emissionCoefficient, thermalVoltage, breakdownJunctionVoltage } =
+    getStampParams(stamp);
+  const junction = junctionCurrent(vd, saturationCurrent, thermalVoltage, emissionCoefficient);
+  let current = junction.current + GMIN * vd;
+  let conductance = junction.conductance + GMIN;
+
+  // 稽納反向崩潰分支：junctionCurrent 回傳 I_ZT·(exp - 1)，補回 I_ZT 即為 I_ZT·exp
+  if (breakdownJunctionVoltage !== undefined) {
+    const breakdown = junctionCurrent(
+      -(vd + breakdownJunctionVoltage),
+      ZENER_DEFAULTS.testCurrent,
+      thermalVoltage,
+      emissionCoefficient
+    );
+    current -= breakdown.current + ZENER_DEFAULTS.testCurrent;
+    conductance += breakdown.conductance;
+  }
+
+  return { current, conductance };
+}
+
+/**
+ * 初始接面電壓：取臨界電壓 (假設導通)
+ */
+export function initialDiodeVoltage(stamp: ComponentStamp): number {
+  const { saturationCurrent, emissionCoefficient, thermalVoltage } = getStampParams(stamp);
+  return criticalVoltage(saturationCurrent, emissionCoefficient * thermalVoltage);
+}
+
+/**
+ * 加入二極體線性化印記 (DC / 瞬態 Newton-Raphson 迭代)
+ * @param vd 目前工作點的接面電壓
+ */
+export function stampDiode(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  vd: number
+): void {
+  const { node1Index: anode, node2Index: cathode, currentVarIndex } = stamp;
+  if (currentVarIndex === undefined) return;
+  const row = nodeCount + currentVarIndex;
+  const { seriesResistance } = getStampParams(stamp);
+  const { current, conductance } = linearizeDiode(stamp, vd);
+
+  // KCL：支路電流由陽極流向陰極
+  if (anode >= 0) {
+    G.add(anode, row, 1);
+    G.add(row, anode, -conductance);
+  }
+  if (cathode >= 0) {
+    G.add(cathode, row, -1);
+    G.add(row, cathode, conductance);
+  }
+  G.add(row, row, 1 + conductance * seriesResistance);
+  I[row] = current - conductance * vd;
+}
+
+/**
+ * 依本輪解更新接面電壓 (經 pnjlim 限制) 並判斷是否收斂
+ */
+export function updateDiodeOperatingPoint(
+  x: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  vd: number
+): { vd: number; converged: boolean } {
+  const { saturationCurrent, emissionCoefficient, seriesResistance, thermalVoltage, breakdownJunctionVoltage } =
+    getStampParams(stamp);
+  const nVt = emissionCoefficient * thermalVoltage;
+  const vdRaw = getDiodeJunctionVoltage(x, stamp, nodeCount, seriesResistance);
+
+  let vdNew: number;
+  if (breakdownJunctionVoltage !== undefined && vdRaw < Math.min(0, -breakdownJunctionVoltage + 10 * nVt)) {
+    // 崩潰區：以 -(V_D + V_BJ) 鏡射後套用 pnjlim
+    const vCritBreakdown = criticalVoltage(ZENER_DEFAULTS.testCurrent, nVt);
+    vdNew =
+      -limitJunctionVoltage(
+        -(vdRaw + breakdownJunctionVoltage),
+        -(vd + breakdownJunctionVoltage),
+        nVt,
+        vCritBreakdown
+      ) - breakdownJunctionVoltage;
+  } else {
+    vdNew = limitJunctionVoltage(vdRaw, vd, nVt, criticalVoltage(saturationCurrent, nVt));
+  }
+
+  return {
+    vd: vdNew,
+    // 崩潰區鏡射運算可能有捨入誤差，以容差判斷是否被限制
+    converged: junctionConverged(vdNew, vdRaw) && junctionConverged(vdNew, vd),
+  };
+}
+
+/**
+ * 由解向量求接面電壓 V_D = V(a) - V(k) - R_S · i
+ */
+function getDiodeJunctionVoltage(
+  x: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  seriesResistance: number
+): number {
+  const current = stamp.currentVarIndex !== undefined ? (x[nodeCount + stamp.currentVarIndex] ?? 0) : 0;
+  return nodeVoltage(x, stamp.node1Index) - nodeVoltage(x, stamp.node2Index) - seriesResistance * current;
+}
+
+/**
+ * 由端電壓與電流求工作點 (用於 AC 分析取 DC 偏壓點)
+ */
+export function getDiodeOperatingPoint(
+  stamp: ComponentStamp,
+  terminalVoltage: number,
+  current: number
+): number {
+  return terminalVoltage - getStampParams(stamp).seriesResistance * current;
+}
+
+/**
+ * 加入二極體小訊號印記 (AC 掃頻)：動態電導 g_d 串聯 R_S
+ * @param vd DC 工作點的接面電壓
+ */
+export function stampDiodeAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  vd: number
+): void {
+  const { node1Index: anode, node2Index: cathode, currentVarIndex } = stamp;
+  if (currentVarIndex === undefined) return;
+  const row = nodeCount + currentVarIndex;
+  const { seriesResistance } = getStampParams(stamp);
+  const { conductance } = linearizeDiode(stamp, vd);
+
+  if (anode >= 0) {
+    G.add(anode, row, complex(1, 0));
+    G.add(row, anode, complex(-conductance, 0));
+  }
+  if (cathode >= 0) {
+    G.add(cathode, row, complex(-1, 0));
+    G.add(row, cathode, complex(conductance, 0));
+  }
+  G.add(row, row, complex(1 + conductance * seriesResistance, 0));
+  I[row] = complex(0, 0);
+}
+
+/**
+ * 二極體 / LED / 稽納元件模型：接面電壓跨迭代 / 時間步保留，作為下一輪 Newton-Raphson 的工作點
+ */
+export const diodeDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.diodeVoltages.set(stamp.componentId, initialDiodeVoltage(stamp));
+  },
+  stampDC(G, I, stamp, ctx) {
+    const vd = ctx.state.diodeVoltages.get(stamp.componentId) ?? initialDiodeVoltage(stamp);
+    stampDiode(G, I, stamp, ctx.nodeCount, vd);
+  },
+  stampAC(G, I, stamp, ctx) {
+    stampDiodeAC(G, I, stamp, ctx.nodeCount, ctx.state.diodeVoltages.get(stamp.componentId) ?? 0);
+  },
+  iterate(x, stamp, ctx) {
+    const vd = ctx.state.diodeVoltages.get(stamp.componentId) ?? initialDiodeVoltage(stamp);
+    const update = updateDiodeOperatingPoint(x, stamp, ctx.nodeCount, vd);
+    ctx.state.diodeVoltages.set(stamp.componentId, update.vd);
+    return !update.converged;
+  },
+  ...branchVariableCurrent,
+  linearize(stamp, dc, state) {
+    const current = dc.branchCurrents.get(stamp.componentId) ?? 0;
+    state.diodeVoltages.set(stamp.componentId, getDiodeOperatingPoint(stamp, getVoltageDrop(dc.x, stamp), current));
+  },
+};
@@ -0,0 +1,140 @@
+/**
+ * FuseModel.ts - 保險絲 (I²t 熔斷，熔斷後維持開路)
+ *
+ * 端點順序 (同 componentDefinitions)：0 端點 1、1 端點 2
+ *
+ * 未熔斷時為熔絲冷態電阻，熔斷後為開路電阻 (FUSE_DEFAULTS)。
+ * value 為額定電流 I_r；熔絲累積超過額定電流部分的焦耳熱：
+ *   H(t + dt) = H(t) + max(0, i² - I_r²)·dt
+ * H 達到熔斷能量 I²t 時熔斷，之後維持開路直到模擬重置 (不會自行復原)。
+ * 熔斷狀態於每個時間步求解後更新，下一時間步起以開路組裝矩陣。
+ * DC 與 AC 掃頻分析不涉及時間，保險絲一律視為未熔斷。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { FUSE_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, scale } from './Complex';
+import { getVoltageDrop, getVoltageDropAC, type DeviceModel } from './DeviceModel';
+
+/**
+ * 保險絲模型參數
+ */
+export interface FuseParams {
+  /** 額定電流 (A) */
+  ratedCurrent: number;
+  /** 熔斷能量 I²t (A²s) */
+  meltingI2t: number;
+}
+
+/**
+ * 是否為保險絲
+ */
+export function isFuse(type: string): boolean {
+  return type === 'fuse';
+}
+
+/**
+ * 由元件屬性取得保險絲參數 (未設定時取預設值)
+ */
+export function getFuseParams(comp: CircuitComponent): FuseParams {
+  return {
+    ratedCurrent: comp.value && comp.value > 0 ? comp.value : FUSE_DEFAULTS.ratedCurrent,
+    meltingI2t: comp.meltingI2t && comp.meltingI2t > 0 ? comp.meltingI2t : FUSE_DEFAULTS.meltingI2t,
+  };
+}
+
+/**
+ * 保險絲目前的電阻 (Ω)
+ */
+function getFuseResistance(blown: boolean): number {
+  return blown ? FUSE_DEFAULTS.openResistance : FUSE_DEFAULTS.resistance;
+}
+
+/**
+ * 以共用的矩陣加法加入保險絲電導 (實數 / 複數矩陣共用)
+ */
+function stampFuseEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  blown: boolean
+): void {
+  const { node1Index: n1, node2Index: n2 } = stamp;
+  const g = 1 / getFuseResistance(blown);
+  if (n1 >= 0) add(n1, n1, g);
+  if (n2 >= 0) add(n2, n2, g);
+  if (n1 >= 0 && n2 >= 0) {
+    add(n1, n2, -g);
+    add(n2, n1, -g);
+  }
+}
+
+/**
+ * 加入保險絲印記 (DC / 瞬態)
+ * @param blown 是否已熔斷 (DC 分析為 false)
+ */
+export function stampFuse(G: SparseMatrixBuilder, stamp: ComponentStamp, blown: boolean): void {
+  stampFuseEntries((row, col, value) => G.add(row, col, value), stamp, blown);
+}
+
+/**
+ * 加入保險絲印記 (AC 掃頻)：視為未熔斷的熔絲電阻
+ */
+export function stampFuseAC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp): void {
+  stampFuseEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, false);
+}
+
+/**
+ * 由端電壓計算保險絲電流 (端點 1 → 端點 2)
+ */
+export function getFuseCurrent(voltageDrop: number, blown: boolean): number {
+  return voltageDrop / getFuseResistance(blown);
+}
+
+/**
+ * 以本時間步的電流累積超額 I²t
+ * @param heat 目前累積值 (未記錄時為 0)
+ * @param current 保險絲電流 (A)
+ * @param dt 時間步長 (s)
+ */
+export function updateFuseHeat(stamp: ComponentStamp, heat: number | undefined, current: number, dt: number): number {
+  const ratedCurrent = stamp.value > 0 ? stamp.value : FUSE_DEFAULTS.ratedCurrent;
+  const excess = current * current - ratedCurrent * ratedCurrent;
+  return (heat ?? 0) + Math.max(0, excess) * dt;
+}
+
+/**
+ * 累積熱量是否已達熔斷能量
+ */
+export function isFuseMelted(stamp: ComponentStamp, heat: number): boolean {
+  return heat >= (stamp.meltingI2t ?? FUSE_DEFAULTS.meltingI2t);
+}
+
+/**
+ * 保險絲元件模型：瞬態分析累積超額 I²t，熔斷後維持開路 (DC / AC 分析視為未熔斷)
+ */
+export const fuseDevice: DeviceModel = {
+  stampDC(G, _I, stamp, ctx) {
+    stampFuse(G, stamp, ctx.state.fuseBlownAt.has(stamp.componentId));
+  },
+  stampAC(G, _I, stamp) {
+    stampFuseAC(G, stamp);
+  },
+  current(x, stamp, ctx, currents) {
+    currents.set(stamp.componentId, getFuseCurrent(getVoltageDrop(x, stamp), ctx.state.fuseBlownAt.has(stamp.componentId)));
+  },
+  currentAC(x, stamp, _ctx, currents) {
+    currents.set(stamp.componentId, scale(getVoltageDropAC(x, stamp), 1 / getFuseResistance(false)));
+  },
+  updateState(_x, stamp, ctx, currents) {
+    if (ctx.state.fuseBlownAt.has(stamp.componentId)) return;
+    // 達熔斷能量時記錄熔斷時間 (下一時間步起開路)
+    const heat = updateFuseHeat(stamp, ctx.state.fuseHeat.get(stamp.componentId), currents.get(stamp.componentId) ?? 0, ctx.dt);
+    ctx.state.fuseHeat.set(stamp.componentId, heat);
+    if (isFuseMelted(stamp, heat)) {
+      ctx.state.fuseBlownAt.set(stamp.componentId, ctx.time);
+    }
+  },
+};
@@ -0,0 +1,241 @@
+/**
+ * LampModel.ts - 白熾燈泡 (燈絲電阻隨消耗功率經熱時間常數上升)
+ *
+ * 端點順序 (同 componentDefinitions)：0 端點 1、1 端點 2
+ *
+ * value 為額定功率 P_r，額定電壓 V_r 下的熱態電阻 R_hot = V_r² / P_r，
+ * 冷態電阻 R_cold = R_hot · coldResistanceRatio (LAMP_DEFAULTS)。
+ * 燈絲溫度以正規化值 θ 表示 (0 = 室溫，1 = 額定功率下的穩態溫度)：
+ *   τ·dθ/dt = P / P_r - θ
+ *   R(θ) = R_cold + (R_hot - R_cold)·√θ
+ * √θ 近似鎢絲電阻隨功率緩升的特性，使電流驅動時穩態仍有唯一解。
+ *
+ * 瞬態分析自冷態開始 (產生開機湧浪電流)，每個時間步以上一步的 θ 組裝電阻，
+ * 求解後以 Backward Euler 更新 θ；DC 分析迭代求穩態 θ = P / P_r。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { LAMP_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, scale } from './Complex';
+import { getVoltageDrop, getVoltageDropAC, type DeviceModel } from './DeviceModel';
+
+/**
+ * 燈泡模型參數
+ */
+export interface LampParams {
+  /** 額定功率 (W) */
+  ratedPower: number;
+  /** 額定電壓 (V) */
+  ratedVoltage: number;
+  /** 燈絲熱時間常數 (s) */
+  thermalTimeConstant: number;
+}
+
+/** DC 穩態迭代的溫度收斂容許誤差 (正規化溫度) */
+const TEMPERATURE_TOLERANCE = 1e-6;
+
+/**
+ * 是否為燈泡
+ */
+export function isLamp(type: string): boolean {
+  return type === 'lamp';
+}
+
+/**
+ * 由元件屬性取得燈泡參數 (未設定時取預設值)
+ */
+export function getLampParams(comp: CircuitComponent): LampParams {
+  return {
+    ratedPower: comp.value && comp.value > 0 ? comp.value : LAMP_DEFAULTS.ratedPower,
+    ratedVoltage: comp.ratedVoltage && comp.ratedVoltage > 0 ? comp.ratedVoltage : LAMP_DEFAULTS.ratedVoltage,
+    thermalTimeConstant: comp.thermalTimeConstant && comp.thermalTimeConstant > 0
+      ? comp.thermalTimeConstant
+      : LAMP_DEFAULTS.thermalTimeConstant,
+  };
+}
+
+/**
+ * 由印記取得燈泡參數 (value 為額定功率)
+ */
+function getStampLampParams(stamp: ComponentStamp): LampParams {
+  return {
+    ratedPower: stamp.value > 0 ? stamp.value : LAMP_DEFAULTS.ratedPower,
+    ratedVoltage: stamp.ratedVoltage ?? LAMP_DEFAULTS.ratedVoltage,
+    thermalTimeConstant: stamp.thermalTimeConstant ?? LAMP_DEFAULTS.thermalTimeConstant,
+  };
+}
+
+/**
+ * 熱態電阻 R_hot = V_r² / P_r (Ω)
+ */
+export function getLampHotResistance(params: LampParams): number {
+  return (params.ratedVoltage * params.ratedVoltage) / params.ratedPower;
+}
+
+/**
+ * 冷態電阻 R_cold (Ω)
+ */
+export function getLampColdResistance(params: LampParams): number {
+  return getLampHotResistance(params) * LAMP_DEFAULTS.coldResistanceRatio;
+}
+
+/**
+ * 燈絲溫度 θ 下的電阻 R(θ) (Ω)
+ */
+function getLampResistanceAt(params: LampParams, temperature: number): number {
+  const cold = getLampColdResistance(params);
+  const hot = getLampHotResistance(params);
+  return cold + (hot - cold) * Math.sqrt(Math.max(0, temperature));
+}
+
+/**
+ * 印記在燈絲溫度 θ 下的電阻 (Ω)
+ */
+export function getLampResistance(stamp: ComponentStamp, temperature: number): number {
+  return getLampResistanceAt(getStampLampParams(stamp), temperature);
+}
+
+/**
+ * 以共用的矩陣加法加入燈絲電導 (實數 / 複數矩陣共用)
+ */
+function stampLampEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  temperature: number
+): void {
+  const { node1Index: n1, node2Index: n2 } = stamp;
+  const g = 1 / getLampResistance(stamp, temperature);
+  if (n1 >= 0) add(n1, n1, g);
+  if (n2 >= 0) add(n2, n2, g);
+  if (n1 >= 0 && n2 >= 0) {
+    add(n1, n2, -g);
+    add(n2, n1, -g);
+  }
+}
+
+/**
+ * 加入燈泡印記 (DC / 瞬態)
+ * @param temperature 燈絲正規化溫度 θ
+ */
+export function stampLamp(G: SparseMatrixBuilder, stamp: ComponentStamp, temperature: number): void {
+  stampLampEntries((row, col, value) => G.add(row, col, value), stamp, temperature);
+}
+
+/**
+ * 加入燈泡印記 (AC 掃頻)：燈絲溫度遠慢於訊號，維持工作點電阻
+ */
+export function stampLampAC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp, temperature: number): void {
+  stampLampEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, temperature);
+}
+
+/**
+ * 由端電壓計算燈泡電流 (端點 1 → 端點 2)
+ */
+export function getLampCurrent(stamp: ComponentStamp, voltageDrop: number, temperature: number): number {
+  return voltageDrop / getLampResistance(stamp, temperature);
+}
+
+/**
+ * 由端電壓計算燈絲消耗功率 P = V² / R(θ) (W)
+ */
+export function getLampPower(stamp: ComponentStamp, voltageDrop: number, temperature: number): number {
+  return (voltageDrop * voltageDrop) / getLampResistance(stamp, temperature);
+}
+
+/**
+ * 以本時間步的消耗功率更新燈絲溫度 (Backward Euler)
+ *   θ(t + dt) = (θ(t) + (dt/τ)·P/P_r) / (1 + dt/τ)
+ * @param temperature 目前溫度 (未記錄時為冷態 0)
+ * @param power 燈絲消耗功率 (W)
+ * @param dt 時間步長 (s)
+ */
+export function updateLampTemperature(
+  stamp: ComponentStamp,
+  temperature: number | undefined,
+  power: number,
+  dt: number
+): number {
+  const params = getStampLampParams(stamp);
+  const ratio = dt / params.thermalTimeConstant;
+  return ((temperature ?? 0) + ratio * (power / params.ratedPower)) / (1 + ratio);
+}
+
+/**
+ * DC 穩態迭代：以本輪功率求目標溫度 P / P_r，取與目前溫度的平均 (阻尼避免振盪)
+ */
+export function updateLampOperatingPoint(
+  stamp: ComponentStamp,
+  temperature: number,
+  power: number
+): { temperature: number; converged: boolean } {
+  const target = power / getStampLampParams(stamp).ratedPower;
+  return {
+    temperature: (temperature + target) / 2,
+    converged: Math.abs(target - temperature) < TEMPERATURE_TOLERANCE,
+  };
+}
+
+/**
+ * 由燈泡電流反推穩態消耗功率 (W)，供 AC 工作點與畫布發光亮度使用
+ * 穩態 θ = P / P_r 代入 R(θ)，令 u = √R 得 u² - b·u - R_cold = 0，b = (R_hot - R_cold)·|I| / √P_r
+ */
+export function getLampSteadyPower(params: LampParams, current: number): number {
+  const cold = getLampColdResistance(params);
+  const hot = getLampHotResistance(params);
+  const b = ((hot - cold) * Math.abs(current)) / Math.sqrt(params.ratedPower);
+  const u = (b + Math.sqrt(b * b + 4 * cold)) / 2;
+  return current * current * u * u;
+}
+
+/**
+ * 由燈泡電流反推穩態燈絲溫度 θ = P / P_r (AC 分析取 DC 工作點用)
+ */
+export function getLampSteadyTemperature(stamp: ComponentStamp, current: number): number {
+  const params = getStampLampParams(stamp);
+  return getLampSteadyPower(params, current) / params.ratedPower;
+}
+
+/**
+ * 燈泡元件模型
+ * DC 分析迭代至穩態燈絲溫度 (初始猜測為額定穩態)；瞬態分析自冷態開始，每步依消耗功率升降
+ */
+export const lampDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.lampTemperature.set(stamp.componentId, ctx.analysis === 'dc' ? 1 : 0);
+  },
+  stampDC(G, _I, stamp, ctx) {
+    stampLamp(G, stamp, ctx.state.lampTemperature.get(stamp.componentId) ?? 0);
+  },
+  stampAC(G, _I, stamp, ctx) {
+    stampLampAC(G, stamp, ctx.state.lampTemperature.get(stamp.componentId) ?? 0);
+  },
+  iterate(x, stamp, ctx) {
+    // 瞬態分析的燈絲溫度僅於時間步之間更新
+    if (ctx.analysis !== 'dc') return false;
+    const temperature = ctx.state.lampTemperature.get(stamp.componentId) ?? 1;
+    const update = updateLampOperatingPoint(stamp, temperature, getLampPower(stamp, getVoltageDrop(x, stamp), temperature));
+    if (update.converged) return false;
+    ctx.state.lampTemperature.set(stamp.componentId, update.temperature);
+    return true;
+  },
+  current(x, stamp, ctx, currents) {
+    const temperature = ctx.state.lampTemperature.get(stamp.componentId) ?? 0;
+    currents.set(stamp.componentId, getLampCurrent(stamp, getVoltageDrop(x, stamp), temperature));
+  },
+  currentAC(x, stamp, ctx, currents) {
+    const resistance = getLampResistance(stamp, ctx.state.lampTemperature.get(stamp.componentId) ?? 0);
+    currents.set(stamp.componentId, scale(getVoltageDropAC(x, stamp), 1 / resistance));
+  },
+  updateState(x, stamp, ctx) {
+    const temperature = ctx.state.lampTemperature.get(stamp.componentId) ?? 0;
+    const power = getLampPower(stamp, getVoltageDrop(x, stamp), temperature);
+    ctx.state.lampTemperature.set(stamp.componentId, updateLampTemperature(stamp, temperature, power, ctx.dt));
+  },
+  linearize(stamp, dc, state) {
+    // 燈絲溫度遠慢於訊號，維持 DC 工作點的穩態值
+    state.lampTemperature.set(stamp.componentId, getLampSteadyTemperature(stamp, dc.branchCurrents.get(stamp.componentId) ?? 0));
+  },
+};
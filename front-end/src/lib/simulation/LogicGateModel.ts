@@ -0,0 +1,50 @@
+/**
+ * LogicGateModel.ts - 邏輯閘類比介面模型
+ *
+ * 邏輯運算由 DigitalLogicSimulator 完成並寫入印記的 logicOutputVoltage (HIGH = 5V, LOW = 0V)，
+ * 類比求解器僅處理電氣介面：
+ * - 輸出端口 Y 視為對地電壓源，支路電流為額外變數
+ * - 輸入端口 (node1Index, node2Index) 對地 1TΩ，避免浮接節點造成矩陣奇異
+ * - AC 掃頻：輸出電平為定值，小訊號下輸出短路至地
+ */
+
+import type { ComponentStamp } from './SimulationTypes';
+import { stampAdmittanceAC, stampConductance, stampVoltageSource, stampVoltageSourceAC } from './StampUtils';
+import { complex } from './Complex';
+import { branchVariableCurrent, type DeviceModel } from './DeviceModel';
+
+/** 輸入端口對地電阻 */
+const INPUT_RESISTANCE = 1e12;
+
+/**
+ * 輸入端口節點 (未接線者略過)
+ */
+function getInputNodes(stamp: ComponentStamp): number[] {
+  return [stamp.node1Index, stamp.node2Index].filter(n => n >= 0);
+}
+
+/**
+ * 邏輯閘元件模型
+ */
+export const logicGateDevice: DeviceModel = {
+  stampDC(G, I, stamp, ctx) {
+    const { outputNodeIndex, currentVarIndex } = stamp;
+    if (outputNodeIndex !== undefined && currentVarIndex !== undefined) {
+      const voltage = stamp.logicOutputVoltage ?? 0;
+      stampVoltageSource(G, I, outputNodeIndex, -1, voltage, ctx.nodeCount + currentVarIndex);
+    }
+    for (const n of getInputNodes(stamp)) {
+      stampConductance(G, n, -1, 1 / INPUT_RESISTANCE);
+    }
+  },
+  stampAC(G, I, stamp, ctx) {
+    const { outputNodeIndex, currentVarIndex } = stamp;
+    if (outputNodeIndex !== undefined && currentVarIndex !== undefined) {
+      stampVoltageSourceAC(G, I, outputNodeIndex, -1, complex(0, 0), ctx.nodeCount + currentVarIndex);
+    }
+    for (const n of getInputNodes(stamp)) {
+      stampAdmittanceAC(G, n, -1, complex(1 / INPUT_RESISTANCE, 0));
+    }
+  },
+  ...branchVariableCurrent,
+};
@@ -0,0 +1,331 @@
+/**
+ * MOSFETModel.ts - 增強型 MOSFET Shichman-Hodges (level 1) 模型
+ *
+ * 端點順序 (同 componentDefinitions)：0 gate、1 drain、2 source
+ *
+ * 模型說明 (以 NMOS 極性表示，PMOS 將電壓與電流取反)：
+ *   β = K_p · W/L，V_ov = V_GS - V_th
+ *   截止區 (V_ov ≤ 0)：I_D = 0
+ *   線性區 (V_DS < V_ov)：I_D = β · (V_ov·V_DS - V_DS²/2) · (1 + λ·V_DS)
+ *   飽和區 (V_DS ≥ V_ov)：I_D = β/2 · V_ov² · (1 + λ·V_DS)
+ *   閘極不取電流；V_DS < 0 時汲源極對調 (元件對稱)
+ *
+ * DC / 瞬態以 Newton-Raphson 求解：每次迭代在目前工作點線性化 (g_m、g_ds)，
+ * V_GS 經 fetlim、V_DS 經 limvds 限制避免發散。AC 掃頻使用 DC 工作點的 g_m、g_ds。
+ */
+
+import type { ComponentStamp } from './SimulationTypes';
+import { nodeVoltage, stampConductance } from './StampUtils';
+import {
+  GMIN,
+  junctionConverged,
+  limitDrainSourceVoltage,
+  limitFETVoltage,
+} from './SemiconductorUtils';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { MOSFET_DEFAULTS } from '@/config/componentDefinitions';
+import type { DeviceModel } from './DeviceModel';
+
+/**
+ * MOSFET 工作點 (以元件本身極性表示)
+ */
+export interface MOSFETOperatingPoint {
+  /** 閘源極電壓 (V) */
+  vgs: number;
+  /** 汲源極電壓 (V) */
+  vds: number;
+}
+
+/**
+ * 工作點線性化結果
+ */
+interface MOSFETLinearization {
+  /** 汲極電流 (元件極性，由汲極流向源極為正) */
+  id: number;
+  /** ∂I_D/∂V_GS (即 g_m) */
+  gm: number;
+  /** ∂I_D/∂V_DS (即 g_ds) */
+  gds: number;
+}
+
+/**
+ * 取得模型參數
+ */
+function getMOSFETParams(stamp: ComponentStamp): {
+  vth: number;
+  beta: number;
+  lambda: number;
+} {
+  const kp = stamp.transconductance ?? MOSFET_DEFAULTS.transconductance;
+  const ratio = stamp.widthLengthRatio ?? MOSFET_DEFAULTS.widthLengthRatio;
+  return {
+    vth: stamp.thresholdVoltage ?? MOSFET_DEFAULTS.thresholdVoltage,
+    beta: kp * ratio,
+    lambda: stamp.channelLengthModulation ?? MOSFET_DEFAULTS.channelLengthModulation,
+  };
+}
+
+/**
+ * 取得 MOSFET 各端點節點索引
+ */
+function getMOSFETNodes(stamp: ComponentStamp): { gate: number; drain: number; source: number } {
+  const nodes = stamp.nodeIndices ?? [];
+  return {
+    gate: nodes[0] ?? -1,
+    drain: nodes[1] ?? -1,
+    source: nodes[2] ?? -1,
+  };
+}
+
+/**
+ * 元件極性：NMOS = +1，PMOS = -1
+ */
+function getPolarity(stamp: ComponentStamp): number {
+  return stamp.type === 'pmos' ? -1 : 1;
+}
+
+/**
+ * 是否為 MOSFET 元件類型
+ */
+export function isMOSFET(type: string): boolean {
+  return type === 'nmos' || type === 'pmos';
+}
+
+/**
+ * 初始工作點：V_GS 取臨界電壓、V_DS 為 0
+ */
+export function initialMOSFETOperatingPoint(stamp: ComponentStamp): MOSFETOperatingPoint {
+  return { vgs: getMOSFETParams(stamp).vth, vds: 0 };
+}
+
+/**
+ * 正向模式 (V_DS ≥ 0) 的平方律電流與偏微分
+ */
+function squareLaw(
+  vgs: number,
+  vds: number,
+  vth: number,
+  beta: number,
+  lambda: number
+): MOSFETLinearization {
+  const vov = vgs - vth;
+  if (vov <= 0) {
+    return { id: 0, gm: 0, gds: 0 };
+  }
+
+  const clm = 1 + lambda * vds;
+  if (vds < vov) {
+    // 線性區
+    const core = vov * vds - (vds * vds) / 2;
+    return {
+      id: beta * core * clm,
+      gm: beta * vds * clm,
+      gds: beta * ((vov - vds) * clm + core * lambda),
+    };
+  }
+
+  // 飽和區
+  return {
+    id: (beta / 2) * vov * vov * clm,
+    gm: beta * vov * clm,
+    gds: (beta / 2) * vov * vov * lambda,
+  };
+}
+
+/**
+ * 在工作點計算汲極電流與偏微分 (V_DS < 0 時汲源極對調)
+ */
+function linearizeMOSFET(stamp: ComponentStamp, op: MOSFETOperatingPoint): MOSFETLinearization {
+  const { vth, beta, lambda } = getMOSFETParams(stamp);
+  if (op.vds >= 0) {
+    return squareLaw(op.vgs, op.vds, vth, beta, lambda);
+  }
+
+  // 反向模式：以 V_GD、-V_DS 計算後取反
+  // I_D = -f(V_GS - V_DS, -V_DS) → ∂/∂V_GS = -g_m'，∂/∂V_DS = g_m' + g_ds'
+  const reverse = squareLaw(op.vgs - op.vds, -op.vds, vth, beta, lambda);
+  return {
+    id: -reverse.id,
+    gm: -reverse.gm,
+    gds: reverse.gm + reverse.gds,
+  };
+}
+
+/**
+ * 將 Jacobian 轉換為節點電壓的電導矩陣並逐項加入
+ * 流入汲極電流 p·I_D 對節點電壓的偏微分 (p² = 1)：
+ *   ∂/∂V_G = g_m、∂/∂V_D = g_ds、∂/∂V_S = -(g_m + g_ds)；源極列取反
+ */
+function stampJacobian(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  lin: MOSFETLinearization
+): void {
+  const { gate, drain, source } = getMOSFETNodes(stamp);
+  const rows: { node: number; sign: number }[] = [
+    { node: drain, sign: 1 },
+    { node: source, sign: -1 },
+  ];
+
+  for (const { node, sign } of rows) {
+    if (node < 0) continue;
+    if (gate >= 0) add(node, gate, sign * lin.gm);
+    if (drain >= 0) add(node, drain, sign * lin.gds);
+    if (source >= 0) add(node, source, -sign * (lin.gm + lin.gds));
+  }
+}
+
+/**
+ * 加入 MOSFET 線性化印記 (DC / 瞬態 Newton-Raphson 迭代)
+ */
+export function stampMOSFET(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  op: MOSFETOperatingPoint
+): void {
+  const { gate, drain, source } = getMOSFETNodes(stamp);
+  const polarity = getPolarity(stamp);
+  const lin = linearizeMOSFET(stamp, op);
+
+  stampJacobian((row, col, value) => G.add(row, col, value), stamp, lin);
+
+  // 等效電流源：I_eq = I_D(op) - g_m·V_GS - g_ds·V_DS，流入端點的電流需乘上極性
+  const idEq = polarity * (lin.id - lin.gm * op.vgs - lin.gds * op.vds);
+  if (drain >= 0) I[drain]! -= idEq;
+  if (source >= 0) I[source]! += idEq;
+
+  // 閘極與通道並聯 GMIN，避免截止或閘極浮接時矩陣奇異
+  stampConductance(G, gate, source, GMIN);
+  stampConductance(G, drain, source, GMIN);
+}
+
+/**
+ * 依本輪解更新工作點 (經 fetlim / limvds 限制) 並判斷是否收斂
+ */
+export function updateMOSFETOperatingPoint(
+  x: number[],
+  stamp: ComponentStamp,
+  op: MOSFETOperatingPoint
+): { op: MOSFETOperatingPoint; converged: boolean } {
+  const { vth } = getMOSFETParams(stamp);
+  const raw = getMOSFETOperatingPoint(x, stamp);
+
+  let vgs: number;
+  let vds: number;
+  if (op.vds >= 0) {
+    // 正向模式：限制 V_GS，再限制 V_DS
+    vgs = limitFETVoltage(raw.vgs, op.vgs, vth);
+    vds = limitDrainSourceVoltage(vgs - (raw.vgs - raw.vds), op.vds);
+  } else {
+    // 反向模式：限制 V_GD，再以 -V_DS 限制
+    const vgd = limitFETVoltage(raw.vgs - raw.vds, op.vgs - op.vds, vth);
+    vds = -limitDrainSourceVoltage(-(raw.vgs - vgd), -op.vds);
+    vgs = vgd + vds;
+  }
+
+  // 未被限制 (與原始解一致) 且與上一輪工作點一致才算收斂
+  const converged =
+    junctionConverged(vgs, raw.vgs) &&
+    junctionConverged(vds, raw.vds) &&
+    junctionConverged(vgs, op.vgs) &&
+    junctionConverged(vds, op.vds);
+
+  return { op: { vgs, vds }, converged };
+}
+
+/**
+ * 由節點電壓直接求工作點 (不做限制，用於 AC 分析取 DC 偏壓點)
+ */
+export function getMOSFETOperatingPoint(x: number[], stamp: ComponentStamp): MOSFETOperatingPoint {
+  const { gate, drain, source } = getMOSFETNodes(stamp);
+  const polarity = getPolarity(stamp);
+  const vs = nodeVoltage(x, source);
+  return {
+    vgs: polarity * (nodeVoltage(x, gate) - vs),
+    vds: polarity * (nodeVoltage(x, drain) - vs),
+  };
+}
+
+/**
+ * 汲極電流 (流入汲極為正；PMOS 導通時為負)
+ */
+export function getMOSFETDrainCurrent(stamp: ComponentStamp, op: MOSFETOperatingPoint): number {
+  return getPolarity(stamp) * linearizeMOSFET(stamp, op).id;
+}
+
+/**
+ * 加入 MOSFET 小訊號印記 (AC 掃頻)：g_m 壓控電流源與 g_ds 輸出電導
+ * @param op DC 工作點
+ */
+export function stampMOSFETAC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp, op: MOSFETOperatingPoint): void {
+  const { gate, drain, source } = getMOSFETNodes(stamp);
+  const lin = linearizeMOSFET(stamp, op);
+
+  stampJacobian((row, col, value) => G.add(row, col, complex(value, 0)), stamp, lin);
+
+  for (const [n1, n2] of [[gate, source], [drain, source]] as const) {
+    if (n1 >= 0) G.add(n1, n1, complex(GMIN, 0));
+    if (n2 >= 0) G.add(n2, n2, complex(GMIN, 0));
+    if (n1 >= 0 && n2 >= 0) {
+      G.add(n1, n2, complex(-GMIN, 0));
+      G.add(n2, n1, complex(-GMIN, 0));
+    }
+  }
+}
+
+/**
+ * 小訊號汲極電流相量 i_d = g_m·v_gs + g_ds·v_ds (流入汲極為正)
+ */
+export function getMOSFETDrainCurrentAC(
+  x: Complex[],
+  stamp: ComponentStamp,
+  op: MOSFETOperatingPoint
+): Complex {
+  const { gate, drain, source } = getMOSFETNodes(stamp);
+  const lin = linearizeMOSFET(stamp, op);
+  const zero = complex(0, 0);
+  const vg = gate >= 0 ? x[gate]! : zero;
+  const vd = drain >= 0 ? x[drain]! : zero;
+  const vs = source >= 0 ? x[source]! : zero;
+  // p² = 1：流入汲極小訊號電流與極性無關
+  return complex(
+    lin.gm * (vg.re - vs.re) + lin.gds * (vd.re - vs.re),
+    lin.gm * (vg.im - vs.im) + lin.gds * (vd.im - vs.im)
+  );
+}
+
+/**
+ * MOSFET 元件模型：工作點跨迭代 / 時間步保留，支路電流回報汲極電流
+ */
+export const mosfetDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.mosfetOperatingPoints.set(stamp.componentId, initialMOSFETOperatingPoint(stamp));
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampMOSFET(G, I, stamp, ctx.state.mosfetOperatingPoints.get(stamp.componentId) ?? initialMOSFETOperatingPoint(stamp));
+  },
+  stampAC(G, _I, stamp, ctx) {
+    const op = ctx.state.mosfetOperatingPoints.get(stamp.componentId);
+    if (op) stampMOSFETAC(G, stamp, op);
+  },
+  iterate(x, stamp, ctx) {
+    const op = ctx.state.mosfetOperatingPoints.get(stamp.componentId) ?? initialMOSFETOperatingPoint(stamp);
+    const update = updateMOSFETOperatingPoint(x, stamp, op);
+    ctx.state.mosfetOperatingPoints.set(stamp.componentId, update.op);
+    return !update.converged;
+  },
+  current(_x, stamp, ctx, currents) {
+    const op = ctx.state.mosfetOperatingPoints.get(stamp.componentId);
+    if (op) currents.set(stamp.componentId, getMOSFETDrainCurrent(stamp, op));
+  },
+  currentAC(x, stamp, ctx, currents) {
+    const op = ctx.state.mosfetOperatingPoints.get(stamp.componentId);
+    if (op) currents.set(stamp.componentId, getMOSFETDrainCurrentAC(x, stamp, op));
+  },
+  linearize(stamp, dc, state) {
+    state.mosfetOperatingPoints.set(stamp.componentId, getMOSFETOperatingPoint(dc.x, stamp));
+  },
+};
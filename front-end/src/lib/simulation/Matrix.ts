@@ -76,6 +76,461 @@ export function gaussianElimination(A: number[][], b: number[]): number[] | null
   return x;
 }
 
+// ============================================
+// 稀疏矩陣與稀疏 LU 分解
+// ============================================
+
+/** 奇異判斷門檻 (同高斯消去法) */
+const SINGULAR_TOLERANCE = 1e-12;
+
+/** Markowitz 門檻主元：候選主元的絕對值需達該行最大值的此比例 */
+const MARKOWITZ_THRESHOLD = 0.1;
+
+/** 重用符號分解時，主元相對於該列最大值的下限，低於此值即重新排序 */
+const REUSE_PIVOT_THRESHOLD = 1e-10;
+
+/**
+ * CSR (列壓縮) 稀疏方陣
+ */
+export interface SparseMatrix {
+  /** 矩陣維度 */
+  n: number;
+  /** 各列起點 (長度 n + 1) */
+  rowPtr: Int32Array;
+  /** 非零元素的行索引 (各列內遞增) */
+  colIndex: Int32Array;
+  /** 非零元素值 */
+  values: Float64Array;
+}
+
+/**
+ * 符號分解：Markowitz 主元順序與 L / U 的填入結構
+ * 置換後矩陣 (PAQ)[i][j] = A[rowOrder[i]][colOrder[j]] = L·U，L / U 皆以置換後索引儲存
+ * 只要新矩陣的非零結構落在此結構內即可重用，省去排序與填入分析
+ */
+export interface SparseLUSymbolic {
+  n: number;
+  /** 第 k 個主元所在的原始列 */
+  rowOrder: Int32Array;
+  /** 第 k 個主元所在的原始行 */
+  colOrder: Int32Array;
+  /** 原始行 → 置換後行位置 */
+  colPosition: Int32Array;
+  /** L 的嚴格下三角結構 (CSR，單位對角不儲存) */
+  lRowPtr: Int32Array;
+  lColIndex: Int32Array;
+  /** U 的上三角結構 (CSR，各列第一個元素為對角) */
+  uRowPtr: Int32Array;
+  uColIndex: Int32Array;
+}
+
+/**
+ * 數值分解結果 (數值陣列與符號分解的結構一一對應)
+ */
+export interface SparseLUFactorization {
+  symbolic: SparseLUSymbolic;
+  lValues: Float64Array;
+  uValues: Float64Array;
+}
+
+/**
+ * 稀疏矩陣建構器 (MNA 印記累加用)
+ * 各列以 行 → 值 表累加印記，配置與建構成本只與非零元素數相關，不必建立 n x n 稠密陣列
+ */
+export class SparseMatrixBuilder {
+  /** 矩陣維度 */
+  readonly n: number;
+  private readonly rows: Map<number, number>[];
+
+  constructor(n: number) {
+    this.n = n;
+    this.rows = Array.from({ length: n }, () => new Map<number, number>());
+  }
+
+  /**
+   * 累加 A[row][col] += value
+   */
+  add(row: number, col: number, value: number): void {
+    const entries = this.rows[row]!;
+    entries.set(col, (entries.get(col) ?? 0) + value);
+  }
+
+  /**
+   * 讀取 A[row][col] (未印記的元素為 0)
+   */
+  get(row: number, col: number): number {
+    return this.rows[row]!.get(col) ?? 0;
+  }
+
+  /**
+   * 已印記的元素數
+   */
+  getEntryCount(): number {
+    return this.rows.reduce((count, entries) => count + entries.size, 0);
+  }
+
+  /**
+   * 轉為 CSR 稀疏矩陣 (各列行索引遞增，捨棄相消為零的元素)
+   */
+  toCSR(): SparseMatrix {
+    const n = this.n;
+    const rowPtr = new Int32Array(n + 1);
+    const colIndex: number[] = [];
+    const values: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const cols = [...this.rows[i]!.keys()].sort((a, b) => a - b);
+      for (const j of cols) {
+        const v = this.rows[i]!.get(j)!;
+        if (v === 0) continue;
+        colIndex.push(j);
+        values.push(v);
+      }
+      rowPtr[i + 1] = colIndex.length;
+    }
+    return { n, rowPtr, colIndex: Int32Array.from(colIndex), values: Float64Array.from(values) };
+  }
+}
+
+/**
+ * 由稠密矩陣建立 CSR 稀疏矩陣 (捨棄零元素)
+ */
+export function sparseFromDense(A: number[][]): SparseMatrix {
+  const n = A.length;
+  const rowPtr = new Int32Array(n + 1);
+  let nnz = 0;
+  for (let i = 0; i < n; i++) {
+    const row = A[i]!;
+    for (let j = 0; j < n; j++) {
+      if (row[j] !== 0) nnz++;
+    }
+    rowPtr[i + 1] = nnz;
+  }
+
+  const colIndex = new Int32Array(nnz);
+  const values = new Float64Array(nnz);
+  let p = 0;
+  for (let i = 0; i < n; i++) {
+    const row = A[i]!;
+    for (let j = 0; j < n; j++) {
+      const v = row[j]!;
+      if (v !== 0) {
+        colIndex[p] = j;
+        values[p++] = v;
+      }
+    }
+  }
+  return { n, rowPtr, colIndex, values };
+}
+
+/**
+ * 稀疏矩陣與向量相乘 y = A·x
+ */
+export function sparseMultiply(A: SparseMatrix, x: ArrayLike<number>): number[] {
+  const y = createVector(A.n);
+  for (let i = 0; i < A.n; i++) {
+    let sum = 0;
+    for (let p = A.rowPtr[i]!; p < A.rowPtr[i + 1]!; p++) {
+      sum += A.values[p]! * x[A.colIndex[p]!]!;
+    }
+    y[i] = sum;
+  }
+  return y;
+}
+
+/**
+ * Markowitz 主元排序
+ * 每一步在各行滿足門檻 (|a| ≥ MARKOWITZ_THRESHOLD·行最大值) 的候選中，
+ * 選 Markowitz 成本 (列非零數 - 1)·(行非零數 - 1) 最小者，同成本取絕對值較大者，
+ * 並以右看消去更新剩餘子矩陣 (含填入)
+ * @returns 主元順序，若某行已無可用主元 (奇異) 則回傳 null
+ */
+function markowitzOrdering(A: SparseMatrix): { rowOrder: Int32Array; colOrder: Int32Array } | null {
+  const n = A.n;
+  const rows: Map<number, number>[] = [];
+  const cols: Set<number>[] = Array.from({ length: n }, () => new Set<number>());
+  for (let i = 0; i < n; i++) {
+    const row = new Map<number, number>();
+    for (let p = A.rowPtr[i]!; p < A.rowPtr[i + 1]!; p++) {
+      const j = A.colIndex[p]!;
+      row.set(j, A.values[p]!);
+      cols[j]!.add(i);
+    }
+    rows.push(row);
+  }
+
+  const colActive = new Uint8Array(n).fill(1);
+  const rowOrder = new Int32Array(n);
+  const colOrder = new Int32Array(n);
+
+  for (let k = 0; k < n; k++) {
+    let pivotRow = -1;
+    let pivotCol = -1;
+    let bestCost = Infinity;
+    let bestMagnitude = 0;
+
+    for (let c = 0; c < n && bestCost > 0; c++) {
+      if (!colActive[c]) continue;
+      const colRows = cols[c]!;
+      let colMax = 0;
+      for (const r of colRows) {
+        colMax = Math.max(colMax, Math.abs(rows[r]!.get(c)!));
+      }
+      // 整行皆為 (數值) 零：矩陣奇異
+      if (colMax < SINGULAR_TOLERANCE) return null;
+
+      const colCost = colRows.size - 1;
+      for (const r of colRows) {
+        const magnitude = Math.abs(rows[r]!.get(c)!);
+        if (magnitude < MARKOWITZ_THRESHOLD * colMax) continue;
+        const cost = (rows[r]!.size - 1) * colCost;
+        if (cost < bestCost || (cost === bestCost && magnitude > bestMagnitude)) {
+          pivotRow = r;
+          pivotCol = c;
+          bestCost = cost;
+          bestMagnitude = magnitude;
+        }
+      }
+    }
+
+    rowOrder[k] = pivotRow;
+    colOrder[k] = pivotCol;
+    colActive[pivotCol] = 0;
+
+    // 右看消去：pivotCol 行的其餘列減去主元列的倍數
+    const pivotEntries = rows[pivotRow]!;
+    const pivot = pivotEntries.get(pivotCol)!;
+    for (const j of pivotEntries.keys()) {
+      cols[j]!.delete(pivotRow);
+    }
+    for (const i of cols[pivotCol]!) {
+      const row = rows[i]!;
+      const factor = row.get(pivotCol)! / pivot;
+      row.delete(pivotCol);
+      for (const [j, v] of pivotEntries) {
+        if (j === pivotCol) continue;
+        const existing = row.get(j);
+        if (existing === undefined) {
+          row.set(j, -factor * v);
+          cols[j]!.add(i);
+        } else {
+          row.set(j, existing - factor * v);
+        }
+      }
+    }
+    cols[pivotCol]!.clear();
+  }
+
+  return { rowOrder, colOrder };
+}
+
+/**
+ * 符號分解：以 Markowitz 排序決定主元順序，再推導置換後矩陣的 L / U 填入結構
+ * @returns 符號分解，若矩陣奇異則回傳 null
+ */
+export function sparseLUSymbolic(A: SparseMatrix): SparseLUSymbolic | null {
+  const ordering = markowitzOrdering(A);
+  if (!ordering) return null;
+
+  const n = A.n;
+  const { rowOrder, colOrder } = ordering;
+  const colPosition = new Int32Array(n);
+  for (let k = 0; k < n; k++) {
+    colPosition[colOrder[k]!] = k;
+  }
+
+  // 逐列推導結構：第 i 列的結構為 A 的結構加上所有 k < i 且 (i, k) 非零之 U 第 k 列的結構
+  const mark = new Int32Array(n).fill(-1);
+  const lRowPtr = new Int32Array(n + 1);
+  const uRowPtr = new Int32Array(n + 1);
+  const lCols: number[] = [];
+  const uCols: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const r = rowOrder[i]!;
+    let minCol = i;
+    for (let p = A.rowPtr[r]!; p < A.rowPtr[r + 1]!; p++) {
+      const j = colPosition[A.colIndex[p]!]!;
+      mark[j] = i;
+      minCol = Math.min(minCol, j);
+    }
+    // 主元位置必定在結構內 (結構性零主元於數值分解時判為奇異)
+    mark[i] = i;
+
+    // 依遞增順序處理 k < i，消去引入的填入也會在之後被掃到
+    for (let k = minCol; k < i; k++) {
+      if (mark[k] !== i) continue;
+      lCols.push(k);
+      for (const j of uCols[k]!) {
+        mark[j] = i;
+      }
+    }
+    lRowPtr[i + 1] = lCols.length;
+
+    const rowU: number[] = [];
+    for (let j = i; j < n; j++) {
+      if (mark[j] === i) rowU.push(j);
+    }
+    uCols.push(rowU);
+    uRowPtr[i + 1] = uRowPtr[i]! + rowU.length;
+  }
+
+  const uColIndex = new Int32Array(uRowPtr[n]!);
+  let p = 0;
+  for (const rowU of uCols) {
+    for (const j of rowU) uColIndex[p++] = j;
+  }
+
+  return {
+    n,
+    rowOrder,
+    colOrder,
+    colPosition,
+    lRowPtr,
+    lColIndex: Int32Array.from(lCols),
+    uRowPtr,
+    uColIndex,
+  };
+}
+
+/**
+ * 數值分解：依符號分解的主元順序與結構計算 L / U (逐列左看消去)
+ * @param pivotThreshold 主元相對於該列最大值的下限 (0 表示僅檢查奇異)
+ * @returns 分解結果；矩陣結構超出符號分解、主元過小或奇異時回傳 null
+ */
+export function sparseLUNumeric(
+  A: SparseMatrix,
+  symbolic: SparseLUSymbolic,
+  pivotThreshold = 0
+): SparseLUFactorization | null {
+  const n = A.n;
+  if (n !== symbolic.n) return null;
+
+  const { rowOrder, colPosition, lRowPtr, lColIndex, uRowPtr, uColIndex } = symbolic;
+  const lValues = new Float64Array(lColIndex.length);
+  const uValues = new Float64Array(uColIndex.length);
+  const work = new Float64Array(n);
+  const mark = new Int32Array(n).fill(-1);
+
+  for (let i = 0; i < n; i++) {
+    for (let p = lRowPtr[i]!; p < lRowPtr[i + 1]!; p++) {
+      work[lColIndex[p]!] = 0;
+      mark[lColIndex[p]!] = i;
+    }
+    for (let p = uRowPtr[i]!; p < uRowPtr[i + 1]!; p++) {
+      work[uColIndex[p]!] = 0;
+      mark[uColIndex[p]!] = i;
+    }
+
+    const r = rowOrder[i]!;
+    for (let p = A.rowPtr[r]!; p < A.rowPtr[r + 1]!; p++) {
+      const j = colPosition[A.colIndex[p]!]!;
+      // 非零元素落在符號結構之外：需重新做符號分解
+      if (mark[j] !== i) return null;
+      work[j] = work[j]! + A.values[p]!;
+    }
+
+    for (let p = lRowPtr[i]!; p < lRowPtr[i + 1]!; p++) {
+      const k = lColIndex[p]!;
+      const factor = work[k]! / uValues[uRowPtr[k]!]!;
+      lValues[p] = factor;
+      if (factor === 0) continue;
+      for (let q = uRowPtr[k]! + 1; q < uRowPtr[k + 1]!; q++) {
+        const j = uColIndex[q]!;
+        work[j] = work[j]! - factor * uValues[q]!;
+      }
+    }
+
+    let rowMax = 0;
+    for (let p = uRowPtr[i]!; p < uRowPtr[i + 1]!; p++) {
+      const v = work[uColIndex[p]!]!;
+      uValues[p] = v;
+      rowMax = Math.max(rowMax, Math.abs(v));
+    }
+
+    const pivot = Math.abs(uValues[uRowPtr[i]!]!);
+    if (pivot < SINGULAR_TOLERANCE || pivot < pivotThreshold * rowMax) return null;
+  }
+
+  return { symbolic, lValues, uValues };
+}
+
+/**
+ * 以 LU 分解求解 Ax = b (前向替代 Ly = Pb，回代 Uz = y，x = Qz)
+ */
+export function sparseLUSolve(lu: SparseLUFactorization, b: ArrayLike<number>): number[] {
+  const { n, rowOrder, colOrder, lRowPtr, lColIndex, uRowPtr, uColIndex } = lu.symbolic;
+  const { lValues, uValues } = lu;
+
+  // 前向替代 (L 對角為 1)
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[rowOrder[i]!]!;
+    for (let p = lRowPtr[i]!; p < lRowPtr[i + 1]!; p++) {
+      sum -= lValues[p]! * y[lColIndex[p]!]!;
+    }
+    y[i] = sum;
+  }
+
+  // 回代
+  const x = createVector(n);
+  for (let i = n - 1; i >= 0; i--) {
+    const diag = uRowPtr[i]!;
+    let sum = y[i]!;
+    for (let p = diag + 1; p < uRowPtr[i + 1]!; p++) {
+      sum -= uValues[p]! * y[uColIndex[p]!]!;
+    }
+    y[i] = sum / uValues[diag]!;
+    x[colOrder[i]!] = y[i]!;
+  }
+
+  return x;
+}
+
+/**
+ * 重用符號分解的稀疏 LU 求解器
+ * 瞬態的各時間步與非線性迭代中矩陣結構大多不變，僅數值改變：
+ * 先以既有的主元順序直接做數值分解，結構改變或主元過小時才重新做 Markowitz 排序
+ */
+export class SparseLUSolver {
+  private symbolic: SparseLUSymbolic | null = null;
+  private symbolicCount = 0;
+
+  /**
+   * 求解 Ax = b
+   * @returns 解向量 x，若矩陣奇異則回傳 null
+   */
+  solve(A: number[][] | SparseMatrix | SparseMatrixBuilder, b: number[]): number[] | null {
+    const sparse = Array.isArray(A) ? sparseFromDense(A) : A instanceof SparseMatrixBuilder ? A.toCSR() : A;
+
+    let lu = this.symbolic ? sparseLUNumeric(sparse, this.symbolic, REUSE_PIVOT_THRESHOLD) : null;
+    if (!lu) {
+      const symbolic = sparseLUSymbolic(sparse);
+      lu = symbolic ? sparseLUNumeric(sparse, symbolic) : null;
+      if (!lu) {
+        console.warn('Matrix is singular or nearly singular');
+        return null;
+      }
+      this.symbolic = symbolic;
+      this.symbolicCount++;
+    }
+
+    return sparseLUSolve(lu, b);
+  }
+
+  /**
+   * 已執行的符號分解次數
+   */
+  getSymbolicCount(): number {
+    return this.symbolicCount;
+  }
+
+  /**
+   * 捨棄快取的符號分解 (電路拓撲改變時)
+   */
+  reset(): void {
+    this.symbolic = null;
+  }
+}
+
 /**
  * 列印矩陣（用於除錯）
  */
@@ -0,0 +1,317 @@
+/**
+ * MotorModel.ts - 永磁直流馬達 (電樞電路 + 轉子機械方程式)
+ *
+ * 端點順序 (同 componentDefinitions)：0 +、1 -
+ *
+ * 電樞：電阻 R (value) 串聯電感 L 與反電動勢 k·ω，以一個額外電流變數 i (+ → -) 表示
+ *   v+ - v- = R·i + L·di/dt + k·ω
+ * 轉子：J·dω/dt = k·i - B·ω - T_load (電磁轉矩 T = k·i，T_load 為阻礙正轉的恆定負載轉矩)
+ *
+ * 兩方程式以同一個步長與積分法聯立 (Backward Euler 時 D = J/dt + B)：
+ *   ω = (J/dt·ω' + k·i - T_load) / D
+ *   代入電樞方程式：v+ - v- - (R + L/dt + k²/D)·i = -(L/dt)·i' + k·(J/dt·ω' - T_load) / D
+ * 梯形法 / Gear-2 以 InductiveIntegration 係數同時離散 di/dt 與 dω/dt：
+ *   D = αJ/dt + B，H = (J/dt)·(β·ω' - γ·ω'') + δ·(k·i' - B·ω' - T_load)，ω = (k·i - T_load + H) / D
+ *   v+ - v- - (R + αL/dt + k²/D)·i = -(L/dt)·(β·i' - γ·i'') - δ·v_L' + k·(H - T_load) / D
+ * 機械狀態因此與電氣狀態在同一個矩陣中隱式求解，轉速於求解後由電流回推。
+ *   DC (穩態)：ω = (k·i - T_load) / B，v+ - v- - (R + k²/B)·i = -k·T_load / B
+ *   AC (小訊號)：Z = R + jΩL + k² / (B + jΩJ)
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentState, ComponentStamp } from './SimulationTypes';
+import { MOTOR_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, divide, type Complex } from './Complex';
+import { branchVariableCurrent, getVoltageDrop, type DeviceModel } from './DeviceModel';
+import {
+  getInductiveHistory,
+  getInductiveIntegration,
+  recordInductiveHistory,
+  type InductiveHistory,
+  type InductiveIntegration,
+} from './PassiveModel';
+
+/**
+ * 直流馬達模型參數
+ */
+export interface MotorParams {
+  /** 電樞電阻 R_a (Ω) */
+  armatureResistance: number;
+  /** 電樞電感 L_a (H) */
+  armatureInductance: number;
+  /** 反電動勢常數 k (V·s/rad)，亦為轉矩常數 (N·m/A) */
+  backEmfConstant: number;
+  /** 轉動慣量 J (kg·m²) */
+  inertia: number;
+  /** 黏滯摩擦係數 B (N·m·s/rad)，須大於 0 以使穩態轉速有定義 */
+  friction: number;
+  /** 恆定負載轉矩 T_load (N·m)，阻礙正轉 */
+  loadTorque: number;
+}
+
+/**
+ * 是否為直流馬達
+ */
+export function isMotor(type: string): boolean {
+  return type === 'dc_motor';
+}
+
+/**
+ * 轉速探針使用的衍生鍵值
+ */
+export function getMotorSpeedKey(componentId: string): string {
+  return `${componentId}:speed`;
+}
+
+/**
+ * 轉矩探針使用的衍生鍵值
+ */
+export function getMotorTorqueKey(componentId: string): string {
+  return `${componentId}:torque`;
+}
+
+/**
+ * 由元件屬性取得馬達參數 (未設定時取預設值)
+ */
+export function getMotorParams(comp: CircuitComponent): MotorParams {
+  return {
+    armatureResistance: comp.value && comp.value > 0 ? comp.value : MOTOR_DEFAULTS.armatureResistance,
+    armatureInductance: Math.max(0, comp.armatureInductance ?? MOTOR_DEFAULTS.armatureInductance),
+    backEmfConstant: comp.backEmfConstant !== undefined && comp.backEmfConstant >= 0
+      ? comp.backEmfConstant
+      : MOTOR_DEFAULTS.backEmfConstant,
+    inertia: comp.inertia && comp.inertia > 0 ? comp.inertia : MOTOR_DEFAULTS.inertia,
+    friction: comp.friction && comp.friction > 0 ? comp.friction : MOTOR_DEFAULTS.friction,
+    loadTorque: comp.loadTorque ?? MOTOR_DEFAULTS.loadTorque,
+  };
+}
+
+/**
+ * 由印記取得馬達參數 (value 為電樞電阻)
+ */
+function getStampMotorParams(stamp: ComponentStamp): MotorParams {
+  return {
+    armatureResistance: stamp.value,
+    armatureInductance: stamp.armatureInductance ?? MOTOR_DEFAULTS.armatureInductance,
+    backEmfConstant: stamp.backEmfConstant ?? MOTOR_DEFAULTS.backEmfConstant,
+    inertia: stamp.inertia ?? MOTOR_DEFAULTS.inertia,
+    friction: stamp.friction ?? MOTOR_DEFAULTS.friction,
+    loadTorque: stamp.loadTorque ?? MOTOR_DEFAULTS.loadTorque,
+  };
+}
+
+/**
+ * 取得電樞電流變數列 (-1 表示未配置)
+ */
+function getMotorRow(stamp: ComponentStamp, nodeCount: number): number {
+  return stamp.currentVarIndex !== undefined ? nodeCount + stamp.currentVarIndex : -1;
+}
+
+/**
+ * 以共用的矩陣加法加入電樞 KCL 與端電壓項 (實數 / 複數矩陣共用)
+ * 電樞阻抗項由呼叫端依分析類型補上
+ */
+function stampMotorEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  const row = getMotorRow(stamp, nodeCount);
+  if (row < 0) return;
+
+  const { node1Index: plus, node2Index: minus } = stamp;
+  // KCL：電樞電流由 + 流向 -
+  if (plus >= 0) add(plus, row, 1);
+  if (minus >= 0) add(minus, row, -1);
+  // 電樞端電壓 v+ - v-
+  if (plus >= 0) add(row, plus, 1);
+  if (minus >= 0) add(row, minus, -1);
+}
+
+/**
+ * 加入馬達印記 (DC)：轉子已達穩態，反電動勢併入等效電阻 k²/B
+ */
+export function stampMotor(G: SparseMatrixBuilder, I: number[], stamp: ComponentStamp, nodeCount: number): void {
+  stampMotorEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount);
+  const row = getMotorRow(stamp, nodeCount);
+  if (row < 0) return;
+
+  const params = getStampMotorParams(stamp);
+  const k = params.backEmfConstant;
+  G.add(row, row, -(params.armatureResistance + (k * k) / params.friction));
+  I[row] = (-k * params.loadTorque) / params.friction;
+}
+
+/**
+ * 馬達上一時間步的歷史：電樞 (電感類歷史) 與轉子轉速
+ */
+export interface MotorHistory extends InductiveHistory {
+  /** 上一時間步的轉速 ω' (rad/s) */
+  speed: number;
+  /** 前兩個時間步的轉速 ω'' (rad/s)，Gear-2 使用 */
+  previousSpeed: number;
+}
+
+/**
+ * 轉子方程式的離散：ω = (k·i - T_load + history) / damping
+ */
+function getRotorCompanion(
+  params: MotorParams,
+  dt: number,
+  previous: MotorHistory,
+  integration: InductiveIntegration
+): { damping: number; history: number } {
+  const { alpha, beta, gamma, delta } = integration;
+  const { inertia, friction, backEmfConstant: k, loadTorque } = params;
+  return {
+    damping: (alpha * inertia) / dt + friction,
+    history:
+      (inertia / dt) * (beta * previous.speed - gamma * previous.previousSpeed) +
+      delta * (k * previous.current - friction * previous.speed - loadTorque),
+  };
+}
+
+/**
+ * 加入馬達的伴隨模型 (瞬態)：電樞電感與轉子慣量以同一步長與積分法聯立
+ * @param previous 上一時間步的電樞歷史與轉速
+ */
+export function stampMotorTransient(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  dt: number,
+  previous: MotorHistory,
+  integration: InductiveIntegration
+): void {
+  stampMotorEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount);
+  const row = getMotorRow(stamp, nodeCount);
+  if (row < 0) return;
+
+  const params = getStampMotorParams(stamp);
+  const k = params.backEmfConstant;
+  const L = params.armatureInductance;
+  const { alpha, beta, gamma, delta } = integration;
+  const rotor = getRotorCompanion(params, dt, previous, integration);
+  G.add(row, row, -(params.armatureResistance + (alpha * L) / dt + (k * k) / rotor.damping));
+  I[row] =
+    -(L / dt) * (beta * previous.current - gamma * previous.previousCurrent) -
+    delta * previous.voltage +
+    (k * (rotor.history - params.loadTorque)) / rotor.damping;
+}
+
+/**
+ * 加入馬達印記 (AC 掃頻)：Z = R + jΩL + k² / (B + jΩJ)，負載轉矩為定值不產生小訊號
+ */
+export function stampMotorAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  omega: number
+): void {
+  stampMotorEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, nodeCount);
+  const row = getMotorRow(stamp, nodeCount);
+  if (row < 0) return;
+
+  const params = getStampMotorParams(stamp);
+  const k = params.backEmfConstant;
+  const backEmf = divide(complex(k * k, 0), complex(params.friction, omega * params.inertia));
+  G.add(row, row, complex(-params.armatureResistance - backEmf.re, -omega * params.armatureInductance - backEmf.im));
+  I[row] = complex(0, 0);
+}
+
+/**
+ * 由解向量取得電樞電流 (+ → -)
+ */
+export function getMotorCurrent(x: number[], stamp: ComponentStamp, nodeCount: number): number {
+  const row = getMotorRow(stamp, nodeCount);
+  return row >= 0 ? (x[row] ?? 0) : 0;
+}
+
+/**
+ * 電磁轉矩 T = k·i (N·m)
+ */
+export function getMotorTorque(stamp: ComponentStamp, current: number): number {
+  return getStampMotorParams(stamp).backEmfConstant * current;
+}
+
+/**
+ * 以本時間步的電樞電流積分轉子方程式，回傳新的轉速 (積分法與電樞印記一致)
+ * @param previous 上一時間步的電樞歷史與轉速
+ */
+export function updateMotorSpeed(
+  stamp: ComponentStamp,
+  previous: MotorHistory,
+  current: number,
+  dt: number,
+  integration: InductiveIntegration
+): number {
+  const params = getStampMotorParams(stamp);
+  const rotor = getRotorCompanion(params, dt, previous, integration);
+  return (params.backEmfConstant * current - params.loadTorque + rotor.history) / rotor.damping;
+}
+
+/**
+ * 取得馬達上一時間步的歷史
+ */
+function getMotorHistory(state: ComponentState, componentId: string): MotorHistory {
+  return {
+    ...getInductiveHistory(state, componentId),
+    speed: state.motorSpeed.get(componentId) ?? 0,
+    previousSpeed: state.previousMotorSpeed.get(componentId) ?? 0,
+  };
+}
+
+/**
+ * DC 穩態轉速 ω = (k·i - T_load) / B (rad/s)
+ */
+export function getMotorSteadySpeed(stamp: ComponentStamp, current: number): number {
+  const params = getStampMotorParams(stamp);
+  return (params.backEmfConstant * current - params.loadTorque) / params.friction;
+}
+
+/**
+ * 直流馬達元件模型：瞬態分析以電樞電流積分轉子方程式
+ */
+export const motorDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    // 自靜止開始，電樞電流為 0
+    ctx.state.inductorCurrents.set(stamp.componentId, 0);
+    ctx.state.motorSpeed.set(stamp.componentId, 0);
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampMotor(G, I, stamp, ctx.nodeCount);
+  },
+  stampTransient(G, I, stamp, ctx) {
+    stampMotorTransient(
+      G,
+      I,
+      stamp,
+      ctx.nodeCount,
+      ctx.dt,
+      getMotorHistory(ctx.state, stamp.componentId),
+      getInductiveIntegration(ctx, stamp.componentId)
+    );
+  },
+  stampAC(G, I, stamp, ctx) {
+    stampMotorAC(G, I, stamp, ctx.nodeCount, ctx.omega);
+  },
+  ...branchVariableCurrent,
+  updateState(x, stamp, ctx, currents) {
+    const { componentId } = stamp;
+    const { state } = ctx;
+    const current = currents.get(componentId) ?? 0;
+    const previous = getMotorHistory(state, componentId);
+    // 積分係數須於記錄本步歷史前取得，與本步印記一致
+    const speed = updateMotorSpeed(stamp, previous, current, ctx.dt, getInductiveIntegration(ctx, componentId));
+    state.previousMotorSpeed.set(componentId, previous.speed);
+    state.motorSpeed.set(componentId, speed);
+    // 電感端電壓 = 端電壓 - R·i - k·ω
+    const { armatureResistance, backEmfConstant } = getStampMotorParams(stamp);
+    const inductorVoltage = getVoltageDrop(x, stamp) - armatureResistance * current - backEmfConstant * speed;
+    recordInductiveHistory(state, componentId, current, inductorVoltage);
+  },
+};
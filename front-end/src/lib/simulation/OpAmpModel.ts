@@ -0,0 +1,286 @@
+/**
+ * OpAmpModel.ts - 運算放大器模型
+ *
+ * 端點順序 (同 componentDefinitions)：0 '+'、1 '-'、2 'out'、3 'V+'、4 'V-'
+ *
+ * 模型說明：
+ * - 線性區：輸出為對地電壓控制電壓源 V(out) = A_OL · (V(+) - V(-))
+ *   理想運放以極大增益 (OPAMP_IDEAL_GAIN) 近似 nullor，避免無負回授時矩陣奇異
+ * - 飽和區：輸出固定為 V+ / V- 電源腳電壓 (僅限該電源腳有接線時)
+ * - 迴轉率 (瞬態)：每步輸出變化量不超過 SR · dt
+ * - AC 掃頻：單極點滾降 A(jω) = A_OL / (1 + jω/ωp)，ωp = 2π·GBW / A_OL
+ * - 輸入與電源腳對地 1TΩ，避免浮接節點造成矩陣奇異
+ */
+
+import type { ComponentStamp } from './SimulationTypes';
+import { nodeVoltage, stampConductance } from './StampUtils';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, divide, type Complex } from './Complex';
+import { OPAMP_DEFAULTS } from '@/config/componentDefinitions';
+import { branchVariableCurrent, type DeviceContext, type DeviceModel } from './DeviceModel';
+
+/**
+ * 運放工作區
+ */
+export type OpAmpRegion =
+  | 'linear'
+  | 'saturated_high'
+  | 'saturated_low'
+  | 'slewing_up'
+  | 'slewing_down';
+
+/**
+ * 瞬態分析時的迴轉率上下文
+ */
+export interface OpAmpSlewContext {
+  /** 上一時間步的輸出電壓 (V) */
+  previousOutput: number;
+  /** 時間步長 (秒) */
+  dt: number;
+}
+
+/** 理想運放使用的等效開迴路增益 */
+export const OPAMP_IDEAL_GAIN = 1e8;
+
+/** 輸入 / 電源腳對地阻抗 (Ω) */
+const OPAMP_INPUT_RESISTANCE = 1e12;
+
+/** 工作區判斷容差 (V) */
+const REGION_TOLERANCE = 1e-6;
+
+/**
+ * 取得運放各端點節點索引
+ */
+function getOpAmpNodes(stamp: ComponentStamp): {
+  inP: number;
+  inN: number;
+  out: number;
+  railHigh: number;
+  railLow: number;
+} {
+  const nodes = stamp.nodeIndices ?? [];
+  return {
+    inP: nodes[0] ?? -1,
+    inN: nodes[1] ?? -1,
+    out: nodes[2] ?? -1,
+    railHigh: nodes[3] ?? -1,
+    railLow: nodes[4] ?? -1,
+  };
+}
+
+/**
+ * 取得有效的開迴路增益
+ */
+export function getOpAmpGain(stamp: ComponentStamp): number {
+  if (stamp.opampIdeal) return OPAMP_IDEAL_GAIN;
+  return stamp.openLoopGain ?? OPAMP_DEFAULTS.openLoopGain;
+}
+
+/**
+ * 取得運放輸出節點索引
+ */
+export function getOpAmpOutputIndex(stamp: ComponentStamp): number {
+  return getOpAmpNodes(stamp).out;
+}
+
+/**
+ * 加入運放印記 (DC / 瞬態)
+ * @param region 目前工作區
+ * @param slew 迴轉率上下文 (僅瞬態分析)
+ */
+export function stampOpAmp(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  region: OpAmpRegion,
+  slew?: OpAmpSlewContext
+): void {
+  const { inP, inN, out, railHigh, railLow } = getOpAmpNodes(stamp);
+
+  for (const n of [inP, inN, railHigh, railLow]) {
+    if (n >= 0) stampConductance(G, n, -1, 1 / OPAMP_INPUT_RESISTANCE);
+  }
+
+  if (stamp.currentVarIndex === undefined) return;
+  const row = nodeCount + stamp.currentVarIndex;
+
+  // 輸出視為對地電壓源：輸出電流為額外變數
+  if (out >= 0) {
+    G.add(out, row, 1);
+    G.add(row, out, 1);
+  }
+
+  const slewStep = (stamp.slewRate ?? 0) * (slew?.dt ?? 0);
+
+  switch (region) {
+    case 'saturated_high':
+      // V(out) - V(V+) = 0
+      if (railHigh >= 0) G.add(row, railHigh, -1);
+      I[row] = 0;
+      break;
+
+    case 'saturated_low':
+      // V(out) - V(V-) = 0
+      if (railLow >= 0) G.add(row, railLow, -1);
+      I[row] = 0;
+      break;
+
+    case 'slewing_up':
+      I[row] = (slew?.previousOutput ?? 0) + slewStep;
+      break;
+
+    case 'slewing_down':
+      I[row] = (slew?.previousOutput ?? 0) - slewStep;
+      break;
+
+    default: {
+      // V(out) - A·V(+) + A·V(-) = 0
+      const gain = getOpAmpGain(stamp);
+      if (inP >= 0) G.add(row, inP, -gain);
+      if (inN >= 0) G.add(row, inN, gain);
+      I[row] = 0;
+      break;
+    }
+  }
+}
+
+/**
+ * 單一時間步內輸出可變化的最大電壓 (DC 分析或未設定迴轉率時不限制)
+ */
+function getSlewStep(stamp: ComponentStamp, slew?: OpAmpSlewContext): number {
+  if (stamp.slewRate === undefined || stamp.slewRate <= 0 || !slew) return Infinity;
+  return stamp.slewRate * slew.dt;
+}
+
+/**
+ * 根據本輪解判斷運放應處的工作區
+ * @returns 新的工作區 (與輸入相同表示已收斂)
+ */
+export function updateOpAmpRegion(
+  x: number[],
+  stamp: ComponentStamp,
+  region: OpAmpRegion,
+  slew?: OpAmpSlewContext
+): OpAmpRegion {
+  const { inP, inN, out, railHigh, railLow } = getOpAmpNodes(stamp);
+  const [highConnected, lowConnected] = stamp.opampRailConnected ?? [false, false];
+
+  const vOut = nodeVoltage(x, out);
+  const vHigh = nodeVoltage(x, railHigh);
+  const vLow = nodeVoltage(x, railLow);
+  // 線性模型在目前輸入下「想要」輸出的電壓
+  const desired = getOpAmpGain(stamp) * (nodeVoltage(x, inP) - nodeVoltage(x, inN));
+
+  const slewStep = getSlewStep(stamp, slew);
+  const previous = slew?.previousOutput ?? 0;
+
+  switch (region) {
+    case 'linear':
+      if (highConnected && vOut > vHigh + REGION_TOLERANCE) return 'saturated_high';
+      if (lowConnected && vOut < vLow - REGION_TOLERANCE) return 'saturated_low';
+      if (vOut - previous > slewStep + REGION_TOLERANCE) return 'slewing_up';
+      if (previous - vOut > slewStep + REGION_TOLERANCE) return 'slewing_down';
+      return 'linear';
+
+    case 'saturated_high':
+      if (desired < vHigh - REGION_TOLERANCE) return 'linear';
+      if (vHigh - previous > slewStep + REGION_TOLERANCE) return 'slewing_up';
+      return region;
+
+    case 'saturated_low':
+      if (desired > vLow + REGION_TOLERANCE) return 'linear';
+      if (previous - vLow > slewStep + REGION_TOLERANCE) return 'slewing_down';
+      return region;
+
+    case 'slewing_up': {
+      const clamp = previous + slewStep;
+      if (highConnected && clamp > vHigh + REGION_TOLERANCE) return 'saturated_high';
+      if (desired < clamp - REGION_TOLERANCE) return 'linear';
+      return region;
+    }
+
+    case 'slewing_down': {
+      const clamp = previous - slewStep;
+      if (lowConnected && clamp < vLow - REGION_TOLERANCE) return 'saturated_low';
+      if (desired > clamp + REGION_TOLERANCE) return 'linear';
+      return region;
+    }
+  }
+}
+
+/**
+ * 加入運放 AC 小訊號印記 (單極點開迴路增益)
+ */
+export function stampOpAmpAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  omega: number
+): void {
+  const { inP, inN, out, railHigh, railLow } = getOpAmpNodes(stamp);
+
+  for (const n of [inP, inN, railHigh, railLow]) {
+    if (n >= 0) G.add(n, n, complex(1 / OPAMP_INPUT_RESISTANCE, 0));
+  }
+
+  if (stamp.currentVarIndex === undefined) return;
+  const row = nodeCount + stamp.currentVarIndex;
+
+  if (out >= 0) {
+    G.add(out, row, complex(1, 0));
+    G.add(row, out, complex(1, 0));
+  }
+
+  const gainDC = getOpAmpGain(stamp);
+  let gain = complex(gainDC, 0);
+  if (stamp.gainBandwidth !== undefined && stamp.gainBandwidth > 0) {
+    // A(jω) = A_OL / (1 + jω/ωp)
+    const omegaPole = (2 * Math.PI * stamp.gainBandwidth) / gainDC;
+    gain = divide(complex(gainDC, 0), complex(1, omega / omegaPole));
+  }
+
+  if (inP >= 0) G.add(row, inP, complex(-gain.re, -gain.im));
+  if (inN >= 0) G.add(row, inN, gain);
+  I[row] = complex(0, 0);
+}
+
+/**
+ * 瞬態分析時取上一時間步輸出作為迴轉率上下文 (DC 分析不考慮迴轉率)
+ */
+function getSlewContext(stamp: ComponentStamp, ctx: DeviceContext): OpAmpSlewContext | undefined {
+  if (ctx.analysis !== 'transient') return undefined;
+  return { previousOutput: ctx.state.opampOutputVoltages.get(stamp.componentId) ?? 0, dt: ctx.dt };
+}
+
+/**
+ * 運放元件模型：工作區跨迭代 / 時間步保留，支路電流為流入輸出端的電流
+ */
+export const opampDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.opampRegions.set(stamp.componentId, 'linear');
+    ctx.state.opampOutputVoltages.set(stamp.componentId, 0);
+  },
+  stampDC(G, I, stamp, ctx) {
+    const region = ctx.state.opampRegions.get(stamp.componentId) ?? 'linear';
+    stampOpAmp(G, I, stamp, ctx.nodeCount, region, getSlewContext(stamp, ctx));
+  },
+  stampAC(G, I, stamp, ctx) {
+    // 小訊號線性模型 (不考慮電源軌飽和)，GBW 決定開迴路增益滾降
+    stampOpAmpAC(G, I, stamp, ctx.nodeCount, ctx.omega);
+  },
+  iterate(x, stamp, ctx) {
+    const region = ctx.state.opampRegions.get(stamp.componentId) ?? 'linear';
+    const nextRegion = updateOpAmpRegion(x, stamp, region, getSlewContext(stamp, ctx));
+    if (nextRegion === region) return false;
+    ctx.state.opampRegions.set(stamp.componentId, nextRegion);
+    return true;
+  },
+  ...branchVariableCurrent,
+  updateState(x, stamp, ctx) {
+    // 記錄輸出電壓 (迴轉率限制用)
+    ctx.state.opampOutputVoltages.set(stamp.componentId, nodeVoltage(x, getOpAmpOutputIndex(stamp)));
+  },
+};
@@ -0,0 +1,265 @@
+/**
+ * PassiveModel.ts - 被動元件與量測儀表模型
+ *
+ * 電阻 (含熱敏 / 光敏電阻，電阻值已於 CircuitGraph 依模擬環境換算)、電容、電感、電流表與電壓表
+ *
+ * 各分析的行為：
+ * - DC：電容視為開路 (1TΩ)，電感視為短路 (0V 電壓源，支路電流為額外變數)
+ * - 瞬態：依積分法建立伴隨模型 (第一個時間步尚無歷史，一律使用 Backward Euler)
+ *     電容 i = G_eq · v - I_eq
+ *       Backward Euler  G_eq = C/dt     I_eq = G_eq · v(t-dt)
+ *       梯形法          G_eq = 2C/dt    I_eq = G_eq · v(t-dt) + i(t-dt)
+ *       Gear-2          G_eq = 3C/2dt   I_eq = (C/dt) · (2v(t-dt) - v(t-2dt)/2)  (等步長)
+ *     電感 v - R_eq · i = V_eq
+ *       Backward Euler  R_eq = L/dt     V_eq = -R_eq · i(t-dt)
+ *       梯形法          R_eq = 2L/dt    V_eq = -R_eq · i(t-dt) - v(t-dt)
+ *       Gear-2          R_eq = 3L/2dt   V_eq = -(L/dt) · (2i(t-dt) - i(t-2dt)/2)  (等步長)
+ *     非等間隔時 Gear-2 係數依步長比 ρ = dt / dt_prev 調整 (見 getGear2Coefficients)
+ *     變壓器繞組、繼電器線圈與馬達電樞經 getInductiveIntegration 共用電感的積分係數
+ * - AC 掃頻：電容 Y = jωC，電感 V = jωL · I
+ * - 電流表為 1mΩ 小電阻、電壓表為 1TΩ 大電阻
+ */
+
+import { stampAdmittanceAC, stampConductance, stampVoltageSource, stampVoltageSourceAC } from './StampUtils';
+import { admittanceCapacitor, complex, multiply, scale } from './Complex';
+import {
+  branchVariableCurrent,
+  getVoltageDrop,
+  getVoltageDropAC,
+  type DeviceContext,
+  type DeviceModel,
+} from './DeviceModel';
+import type { ComponentState, ComponentStamp } from './SimulationTypes';
+
+/** 視為開路的電阻 (DC 電容、電壓表) */
+const OPEN_RESISTANCE = 1e12;
+
+/** 電流表內阻 */
+const AMMETER_RESISTANCE = 0.001;
+
+/**
+ * 固定電阻值的二端元件模型
+ * @param getResistance 由印記取得電阻值 (非正值時不加入印記)
+ */
+function createResistiveDevice(getResistance: (value: number) => number): DeviceModel {
+  return {
+    stampDC(G, _I, stamp) {
+      const resistance = getResistance(stamp.value);
+      if (resistance <= 0) return;
+      stampConductance(G, stamp.node1Index, stamp.node2Index, 1 / resistance);
+    },
+    stampAC(G, _I, stamp) {
+      const resistance = getResistance(stamp.value);
+      if (resistance <= 0) return;
+      stampAdmittanceAC(G, stamp.node1Index, stamp.node2Index, complex(1 / resistance, 0));
+    },
+    current(x, stamp, _ctx, currents) {
+      currents.set(stamp.componentId, getVoltageDrop(x, stamp) / getResistance(stamp.value));
+    },
+    currentAC(x, stamp, _ctx, currents) {
+      currents.set(stamp.componentId, scale(getVoltageDropAC(x, stamp), 1 / getResistance(stamp.value)));
+    },
+  };
+}
+
+/**
+ * 電阻 / 熱敏電阻 / 光敏電阻元件模型
+ */
+export const resistorDevice = createResistiveDevice(value => value);
+
+/**
+ * 電流表元件模型 (近似短路)
+ */
+export const ammeterDevice = createResistiveDevice(() => AMMETER_RESISTANCE);
+
+/**
+ * 電壓表元件模型 (近似開路)
+ */
+export const voltmeterDevice = createResistiveDevice(() => OPEN_RESISTANCE);
+
+/**
+ * 非等間隔 Gear-2 (BDF2) 係數：dx/dt ≈ (a0·x(t) - a1·x(t-dt) + a2·x(t-dt-dt_prev)) / dt
+ * 等步長 (ρ = 1) 時為 3/2、2、1/2
+ */
+function getGear2Coefficients(ctx: DeviceContext): { a0: number; a1: number; a2: number } {
+  const rho = ctx.previousDt > 0 ? ctx.dt / ctx.previousDt : 1;
+  return { a0: (1 + 2 * rho) / (1 + rho), a1: 1 + rho, a2: (rho * rho) / (1 + rho) };
+}
+
+/**
+ * 於斷點 (電源跳變、開關切換) 重新起始積分：捨棄跨越不連續處的歷史，下一步以 Backward Euler 起步
+ */
+export function restartIntegration(state: ComponentState): void {
+  state.capacitorCurrents.clear();
+  state.inductorVoltages.clear();
+  state.previousCapacitorVoltages.clear();
+  state.previousInductorCurrents.clear();
+  state.previousMotorSpeed.clear();
+}
+
+/**
+ * 電容伴隨模型 i = G_eq · v - I_eq
+ */
+function getCapacitorCompanion(stamp: ComponentStamp, ctx: DeviceContext): { Geq: number; Ieq: number } {
+  const { componentId, value: C } = stamp;
+  const { dt, state } = ctx;
+  const vPrev = state.capacitorVoltages.get(componentId) ?? 0;
+
+  if (ctx.integrationMethod === 'trapezoidal' && state.capacitorCurrents.has(componentId)) {
+    const Geq = (2 * C) / dt;
+    return { Geq, Ieq: Geq * vPrev + state.capacitorCurrents.get(componentId)! };
+  }
+  if (ctx.integrationMethod === 'gear2' && state.previousCapacitorVoltages.has(componentId)) {
+    const vPrev2 = state.previousCapacitorVoltages.get(componentId)!;
+    const { a0, a1, a2 } = getGear2Coefficients(ctx);
+    return { Geq: (a0 * C) / dt, Ieq: (C / dt) * (a1 * vPrev - a2 * vPrev2) };
+  }
+  const Geq = C / dt;
+  return { Geq, Ieq: Geq * vPrev };
+}
+
+/**
+ * 電感類元件 (電感、耦合繞組、繼電器線圈、馬達電樞) 的積分係數
+ *   di/dt ≈ (α·i(t) - β·i(t-dt) + γ·i(t-2dt)) / dt - δ·di/dt(t-dt)
+ *   Backward Euler α = β = 1；梯形法 α = β = 2、δ = 1；Gear-2 α、β、γ = a0、a1、a2
+ */
+export interface InductiveIntegration {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  delta: number;
+}
+
+/**
+ * 依積分法與 key 的歷史 (inductorVoltages / previousInductorCurrents) 取得積分係數，尚無歷史時以 Backward Euler 起步
+ */
+export function getInductiveIntegration(ctx: DeviceContext, key: string): InductiveIntegration {
+  const { state } = ctx;
+  if (ctx.integrationMethod === 'trapezoidal' && state.inductorVoltages.has(key)) {
+    return { alpha: 2, beta: 2, gamma: 0, delta: 1 };
+  }
+  if (ctx.integrationMethod === 'gear2' && state.previousInductorCurrents.has(key)) {
+    const { a0, a1, a2 } = getGear2Coefficients(ctx);
+    return { alpha: a0, beta: a1, gamma: a2, delta: 0 };
+  }
+  return { alpha: 1, beta: 1, gamma: 0, delta: 0 };
+}
+
+/**
+ * 電感類元件上一時間步的歷史
+ */
+export interface InductiveHistory {
+  /** 上一時間步的電流 i(t-dt) */
+  current: number;
+  /** 前兩個時間步的電流 i(t-2dt)，Gear-2 使用 */
+  previousCurrent: number;
+  /** 上一時間步的電感端電壓 L·di/dt，梯形法使用 */
+  voltage: number;
+}
+
+/**
+ * 取得 key 的電感類歷史 (未記錄時為 0)
+ */
+export function getInductiveHistory(state: ComponentState, key: string): InductiveHistory {
+  return {
+    current: state.inductorCurrents.get(key) ?? 0,
+    previousCurrent: state.previousInductorCurrents.get(key) ?? 0,
+    voltage: state.inductorVoltages.get(key) ?? 0,
+  };
+}
+
+/**
+ * 時間步完成後記錄電感類元件的歷史 (電流、前一步電流與電感端電壓)
+ * @param voltage 電感本身的端電壓 L·di/dt (不含串聯電阻等壓降)
+ */
+export function recordInductiveHistory(state: ComponentState, key: string, current: number, voltage: number): void {
+  state.previousInductorCurrents.set(key, state.inductorCurrents.get(key) ?? 0);
+  state.inductorCurrents.set(key, current);
+  state.inductorVoltages.set(key, voltage);
+}
+
+/**
+ * 電感伴隨模型 v - R_eq · i = V_eq
+ */
+function getInductorCompanion(stamp: ComponentStamp, ctx: DeviceContext): { Req: number; Veq: number } {
+  const { componentId, value: L } = stamp;
+  const { current, previousCurrent, voltage } = getInductiveHistory(ctx.state, componentId);
+  const { alpha, beta, gamma, delta } = getInductiveIntegration(ctx, componentId);
+  return {
+    Req: (alpha * L) / ctx.dt,
+    Veq: -(L / ctx.dt) * (beta * current - gamma * previousCurrent) - delta * voltage,
+  };
+}
+
+/**
+ * 電容元件模型：瞬態分析記錄端電壓 (與積分法所需的歷史) 作為下一步的伴隨模型電流源
+ */
+export const capacitorDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.capacitorVoltages.set(stamp.componentId, 0);
+  },
+  stampDC(G, _I, stamp) {
+    stampConductance(G, stamp.node1Index, stamp.node2Index, 1 / OPEN_RESISTANCE);
+  },
+  stampTransient(G, I, stamp, ctx) {
+    const { node1Index: n1, node2Index: n2 } = stamp;
+    const { Geq, Ieq } = getCapacitorCompanion(stamp, ctx);
+    stampConductance(G, n1, n2, Geq);
+    // 等效電流源 (從 node2 經元件流向 node1)
+    if (n1 >= 0) I[n1]! += Ieq;
+    if (n2 >= 0) I[n2]! -= Ieq;
+  },
+  stampAC(G, _I, stamp, ctx) {
+    stampAdmittanceAC(G, stamp.node1Index, stamp.node2Index, admittanceCapacitor(stamp.value, ctx.omega));
+  },
+  current(x, stamp, ctx, currents) {
+    const vc = getVoltageDrop(x, stamp);
+    if (ctx.analysis === 'dc') {
+      currents.set(stamp.componentId, vc / OPEN_RESISTANCE);
+      return;
+    }
+    // i = C · dV/dt，以伴隨模型的差分近似
+    const { Geq, Ieq } = getCapacitorCompanion(stamp, ctx);
+    currents.set(stamp.componentId, Geq * vc - Ieq);
+  },
+  currentAC(x, stamp, ctx, currents) {
+    currents.set(stamp.componentId, multiply(admittanceCapacitor(stamp.value, ctx.omega), getVoltageDropAC(x, stamp)));
+  },
+  updateState(x, stamp, ctx, currents) {
+    const { componentId } = stamp;
+    const { state } = ctx;
+    state.previousCapacitorVoltages.set(componentId, state.capacitorVoltages.get(componentId) ?? 0);
+    state.capacitorVoltages.set(componentId, getVoltageDrop(x, stamp));
+    state.capacitorCurrents.set(componentId, currents.get(componentId) ?? 0);
+  },
+};
+
+/**
+ * 電感元件模型：支路電流為額外變數，瞬態分析記錄電流 (與積分法所需的歷史) 作為下一步的伴隨模型電壓源
+ */
+export const inductorDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.inductorCurrents.set(stamp.componentId, 0);
+  },
+  stampDC(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    stampVoltageSource(G, I, stamp.node1Index, stamp.node2Index, 0, ctx.nodeCount + stamp.currentVarIndex);
+  },
+  stampTransient(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    const row = ctx.nodeCount + stamp.currentVarIndex;
+    const { Req, Veq } = getInductorCompanion(stamp, ctx);
+    stampVoltageSource(G, I, stamp.node1Index, stamp.node2Index, Veq, row);
+    G.add(row, row, -Req);
+  },
+  stampAC(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    const row = ctx.nodeCount + stamp.currentVarIndex;
+    stampVoltageSourceAC(G, I, stamp.node1Index, stamp.node2Index, complex(0, 0), row);
+    G.add(row, row, complex(0, -ctx.omega * stamp.value));
+  },
+  ...branchVariableCurrent,
+  updateState(x, stamp, ctx, currents) {
+    recordInductiveHistory(ctx.state, stamp.componentId, currents.get(stamp.componentId) ?? 0, getVoltageDrop(x, stamp));
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * PotentiometerModel.ts - 三端電位器 (可變電阻)
+ *
+ * 端點順序 (同 componentDefinitions)：0 端點 1、1 滑臂 (wiper)、2 端點 2
+ *
+ * 由 CircuitGraph 展開為兩個電阻印記 (value = 總電阻 R，α = 滑臂位置 0 ~ 1)：
+ *   上段 (端點 1 → 滑臂)：R·α，沿用元件 ID
+ *   下段 (滑臂 → 端點 2)：R·(1 - α)，ID 為 getPotentiometerLowerId()
+ * α = 0 表示滑臂位於端點 1；每段至少保留端點接觸電阻，避免 0Ω 印記。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { POTENTIOMETER_DEFAULTS } from '@/config/componentDefinitions';
+
+/**
+ * 是否為電位器
+ */
+export function isPotentiometer(type: string): boolean {
+  return type === 'potentiometer';
+}
+
+/**
+ * 下段電阻在印記與支路電流表中的 ID (上段使用元件 ID)
+ */
+export function getPotentiometerLowerId(componentId: string): string {
+  return `${componentId}:lower`;
+}
+
+/**
+ * 取得滑臂位置 (限制於 0 ~ 1)
+ */
+export function getWiperPosition(comp: CircuitComponent): number {
+  return Math.min(1, Math.max(0, comp.wiperPosition ?? POTENTIOMETER_DEFAULTS.wiperPosition));
+}
+
+/**
+ * 計算上、下兩段電阻 (Ω)
+ */
+export function getPotentiometerSegments(comp: CircuitComponent): [number, number] {
+  const total = comp.value ?? POTENTIOMETER_DEFAULTS.resistance;
+  const alpha = getWiperPosition(comp);
+  const minimum = POTENTIOMETER_DEFAULTS.endResistance;
+  return [Math.max(minimum, total * alpha), Math.max(minimum, total * (1 - alpha))];
+}
+
+/**
+ * 依元件目前的滑臂位置就地更新已展開的電阻印記 (串流模擬調整旋鈕用)
+ * @returns 是否找到對應的印記
+ */
+export function retunePotentiometerStamps(stamps: ComponentStamp[], comp: CircuitComponent): boolean {
+  const [upper, lower] = getPotentiometerSegments(comp);
+  const lowerId = getPotentiometerLowerId(comp.id);
+  let found = false;
+
+  for (const stamp of stamps) {
+    if (stamp.componentId === comp.id) {
+      stamp.value = upper;
+      found = true;
+    } else if (stamp.componentId === lowerId) {
+      stamp.value = lower;
+      found = true;
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,311 @@
+/**
+ * RegulatorModel.ts - 三端線性穩壓器 (78xx / LDO 行為模型)
+ *
+ * 端點順序 (同 componentDefinitions)：0 in、1 gnd、2 out
+ *
+ * value 為輸出電壓 V_set (相對 gnd 腳)。以 a = V_in - V_gnd、o = V_out - V_gnd，
+ * 輸出級 (g = 1 / outputResistance) 依工作區提供輸出電流 I (由 in 流經穩壓器至 out)：
+ *   regulating    ：I = g·(V_set - o)              (穩壓)
+ *   dropout       ：I = g·(a - V_drop - o)         (輸入餘裕不足，輸出跟隨輸入)
+ *   current_limit ：I = I_lim                       (限流)
+ *   off           ：I = 0                           (輸入低於輸出或輸出被外部拉高，不灌入電流)
+ * 電壓模式 (穩壓 / 壓降) 由輸入餘裕決定：V_set ≤ a - V_drop 時穩壓，否則壓降；
+ * 電壓模式電流超過 I_lim 時限流，為負時 off；限流 / 截止的條件不再成立時回到電壓模式。
+ * 求解器於非線性迭代中依本輪解重新選擇工作區，直到工作區不再改變 (同運放工作區)。
+ * 靜態電流 I_q 由 in 流至 gnd (off 時忽略)；in、out 各經 leakageResistance 接 gnd，
+ * 避免輸入浮接或輸出截止時矩陣奇異。
+ *
+ * 消耗功率 P = (V_in - V_out)·I + (V_in - V_gnd)·I_q，供 REG-001 規則檢查。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { REGULATOR_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { voltageReader, voltageReaderAC, type DeviceModel } from './DeviceModel';
+
+/**
+ * 穩壓器工作區
+ */
+export type RegulatorRegion = 'regulating' | 'dropout' | 'current_limit' | 'off';
+
+/**
+ * 穩壓器模型參數
+ */
+export interface RegulatorParams {
+  /** 輸出電壓 V_set (V) */
+  outputVoltage: number;
+  /** 壓降電壓 V_drop (V)，輸入需高於 V_set + V_drop 才能穩壓 */
+  dropoutVoltage: number;
+  /** 限流 I_lim (A) */
+  currentLimit: number;
+  /** 靜態電流 I_q (A) */
+  quiescentCurrent: number;
+}
+
+/** 工作區判斷容差 (A) */
+const REGION_TOLERANCE = 1e-6;
+
+/**
+ * 是否為穩壓器
+ */
+export function isRegulator(type: string): boolean {
+  return type === 'regulator';
+}
+
+/**
+ * 由元件屬性取得穩壓器參數 (未設定時取預設值)
+ */
+export function getRegulatorParams(comp: CircuitComponent): RegulatorParams {
+  return {
+    outputVoltage: comp.value !== undefined && comp.value >= 0 ? comp.value : REGULATOR_DEFAULTS.outputVoltage,
+    dropoutVoltage: comp.dropoutVoltage !== undefined && comp.dropoutVoltage >= 0
+      ? comp.dropoutVoltage
+      : REGULATOR_DEFAULTS.dropoutVoltage,
+    currentLimit: comp.currentLimit && comp.currentLimit > 0 ? comp.currentLimit : REGULATOR_DEFAULTS.currentLimit,
+    quiescentCurrent: comp.quiescentCurrent !== undefined && comp.quiescentCurrent >= 0
+      ? comp.quiescentCurrent
+      : REGULATOR_DEFAULTS.quiescentCurrent,
+  };
+}
+
+/**
+ * 由印記取得穩壓器參數 (value 為輸出電壓)
+ */
+function getStampRegulatorParams(stamp: ComponentStamp): RegulatorParams {
+  return {
+    outputVoltage: stamp.value,
+    dropoutVoltage: stamp.dropoutVoltage ?? REGULATOR_DEFAULTS.dropoutVoltage,
+    currentLimit: stamp.currentLimit ?? REGULATOR_DEFAULTS.currentLimit,
+    quiescentCurrent: stamp.quiescentCurrent ?? REGULATOR_DEFAULTS.quiescentCurrent,
+  };
+}
+
+/**
+ * 取得各端點的節點索引
+ */
+function getRegulatorNodes(stamp: ComponentStamp): { input: number; gnd: number; out: number } {
+  const nodeIndices = stamp.nodeIndices ?? [];
+  return {
+    input: nodeIndices[0] ?? stamp.node1Index,
+    gnd: nodeIndices[1] ?? stamp.node2Index,
+    out: nodeIndices[2] ?? -1,
+  };
+}
+
+/**
+ * 以共用的矩陣加法加入漏電導與輸出級的電壓相依項 (實數 / 複數矩陣共用)
+ * 輸出電流 I 由 in 流出、流入 out：out 列加上 -∂I/∂v，in 列加上 +∂I/∂v
+ */
+function stampRegulatorEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  region: RegulatorRegion
+): void {
+  const { input, gnd, out } = getRegulatorNodes(stamp);
+  const conductance = (a: number, b: number, g: number): void => {
+    if (a >= 0) add(a, a, g);
+    if (b >= 0) add(b, b, g);
+    if (a >= 0 && b >= 0) {
+      add(a, b, -g);
+      add(b, a, -g);
+    }
+  };
+
+  const gLeak = 1 / REGULATOR_DEFAULTS.leakageResistance;
+  conductance(input, gnd, gLeak);
+  conductance(out, gnd, gLeak);
+
+  const gOut = 1 / REGULATOR_DEFAULTS.outputResistance;
+  if (region === 'regulating') {
+    // I = g·(V_gnd - V_out) + g·V_set：受 gnd-out 電壓控制的電流源 (in → out)
+    if (out >= 0) {
+      add(out, out, gOut);
+      if (gnd >= 0) add(out, gnd, -gOut);
+    }
+    if (input >= 0) {
+      if (gnd >= 0) add(input, gnd, gOut);
+      if (out >= 0) add(input, out, -gOut);
+    }
+  } else if (region === 'dropout') {
+    // I = g·(V_in - V_out) - g·V_drop：in-out 間的電導
+    conductance(input, out, gOut);
+  }
+}
+
+/**
+ * 加入穩壓器印記 (DC / 瞬態)
+ * @param region 目前工作區
+ */
+export function stampRegulator(G: SparseMatrixBuilder, I: number[], stamp: ComponentStamp, region: RegulatorRegion): void {
+  stampRegulatorEntries((row, col, value) => G.add(row, col, value), stamp, region);
+
+  const { input, gnd, out } = getRegulatorNodes(stamp);
+  const params = getStampRegulatorParams(stamp);
+  const gOut = 1 / REGULATOR_DEFAULTS.outputResistance;
+
+  // 輸出電流的定值部分 (由 in 流至 out)
+  let sourceCurrent = 0;
+  if (region === 'regulating') sourceCurrent = gOut * params.outputVoltage;
+  if (region === 'dropout') sourceCurrent = -gOut * params.dropoutVoltage;
+  if (region === 'current_limit') sourceCurrent = params.currentLimit;
+  if (out >= 0) I[out]! += sourceCurrent;
+  if (input >= 0) I[input]! -= sourceCurrent;
+
+  // 靜態電流 (由 in 流至 gnd)
+  if (region !== 'off') {
+    if (input >= 0) I[input]! -= params.quiescentCurrent;
+    if (gnd >= 0) I[gnd]! += params.quiescentCurrent;
+  }
+}
+
+/**
+ * 加入穩壓器印記 (AC 掃頻)：維持 DC 工作點的工作區，V_set / V_drop / I_lim / I_q 為定值不產生小訊號
+ */
+export function stampRegulatorAC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp, region: RegulatorRegion): void {
+  stampRegulatorEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, region);
+}
+
+/**
+ * 各工作區在目前端電壓下所提供的輸出電流 (A)
+ */
+function getCandidateCurrents(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => number
+): Record<Exclude<RegulatorRegion, 'off'>, number> {
+  const { input, gnd, out } = getRegulatorNodes(stamp);
+  const params = getStampRegulatorParams(stamp);
+  const gOut = 1 / REGULATOR_DEFAULTS.outputResistance;
+  const vGnd = voltageAt(gnd);
+  const headroom = voltageAt(input) - vGnd;
+  const vOut = voltageAt(out) - vGnd;
+  return {
+    regulating: gOut * (params.outputVoltage - vOut),
+    dropout: gOut * (headroom - params.dropoutVoltage - vOut),
+    current_limit: params.currentLimit,
+  };
+}
+
+/**
+ * 根據本輪解判斷穩壓器應處的工作區
+ * 先依輸入餘裕決定電壓模式 (穩壓 / 壓降)，再以該模式的輸出電流判斷是否限流或截止
+ * @param voltageAt 由節點索引取得電壓 (接地為 0)
+ * @returns 新的工作區 (與輸入相同表示已收斂)
+ */
+export function updateRegulatorRegion(
+  stamp: ComponentStamp,
+  region: RegulatorRegion,
+  voltageAt: (node: number) => number
+): RegulatorRegion {
+  const { input, gnd } = getRegulatorNodes(stamp);
+  const params = getStampRegulatorParams(stamp);
+  const headroom = voltageAt(input) - voltageAt(gnd);
+  const voltageRegion = params.outputVoltage <= headroom - params.dropoutVoltage ? 'regulating' : 'dropout';
+  const current = getCandidateCurrents(stamp, voltageAt)[voltageRegion];
+
+  // 限流 / 截止的離開條件一律先回到電壓模式，再由電壓模式的電流判斷下一步
+  // (輸出電阻極小，以限流或截止時的輸出電壓估算電壓模式電流會大幅過衝)
+  switch (region) {
+    case 'current_limit':
+      return current < params.currentLimit - REGION_TOLERANCE ? voltageRegion : region;
+
+    case 'off':
+      return current > REGION_TOLERANCE ? voltageRegion : region;
+
+    default:
+      // 穩壓 / 壓降互換時輸出電壓尚未反映新模式，先切換再判斷電流
+      if (region !== voltageRegion) return voltageRegion;
+      if (current > params.currentLimit + REGION_TOLERANCE) return 'current_limit';
+      if (current < -REGION_TOLERANCE) return 'off';
+      return region;
+  }
+}
+
+/**
+ * 由節點電壓計算 out 端流出至外部電路的電流 (不含漏電流)
+ */
+export function getRegulatorOutputCurrent(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => number,
+  region: RegulatorRegion
+): number {
+  if (region === 'off') return 0;
+  return getCandidateCurrents(stamp, voltageAt)[region];
+}
+
+/**
+ * 由節點電壓相量計算 out 端的輸出電流相量
+ */
+export function getRegulatorOutputCurrentAC(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => Complex,
+  region: RegulatorRegion
+): Complex {
+  const { input, gnd, out } = getRegulatorNodes(stamp);
+  const gOut = 1 / REGULATOR_DEFAULTS.outputResistance;
+  const vOut = voltageAt(out);
+  if (region === 'regulating') {
+    const vGnd = voltageAt(gnd);
+    return complex((vGnd.re - vOut.re) * gOut, (vGnd.im - vOut.im) * gOut);
+  }
+  if (region === 'dropout') {
+    const vIn = voltageAt(input);
+    return complex((vIn.re - vOut.re) * gOut, (vIn.im - vOut.im) * gOut);
+  }
+  return complex(0, 0);
+}
+
+/**
+ * 穩壓器消耗功率 P = (V_in - V_out)·I + (V_in - V_gnd)·I_q (W)
+ */
+export function getRegulatorDissipation(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => number,
+  region: RegulatorRegion
+): number {
+  if (region === 'off') return 0;
+  const { input, gnd, out } = getRegulatorNodes(stamp);
+  const vIn = voltageAt(input);
+  const current = getRegulatorOutputCurrent(stamp, voltageAt, region);
+  return (vIn - voltageAt(out)) * current + (vIn - voltageAt(gnd)) * getStampRegulatorParams(stamp).quiescentCurrent;
+}
+
+/**
+ * 穩壓器元件模型：工作區跨迭代 / 時間步保留 (初始為穩壓區)
+ */
+export const regulatorDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.regulatorRegion.set(stamp.componentId, 'regulating');
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampRegulator(G, I, stamp, ctx.state.regulatorRegion.get(stamp.componentId) ?? 'regulating');
+  },
+  stampAC(G, _I, stamp, ctx) {
+    // 穩壓區輸出對輸入漣波為零 (理想漣波抑制)
+    stampRegulatorAC(G, stamp, ctx.state.regulatorRegion.get(stamp.componentId) ?? 'regulating');
+  },
+  iterate(x, stamp, ctx) {
+    const region = ctx.state.regulatorRegion.get(stamp.componentId) ?? 'regulating';
+    const nextRegion = updateRegulatorRegion(stamp, region, voltageReader(x));
+    if (nextRegion === region) return false;
+    ctx.state.regulatorRegion.set(stamp.componentId, nextRegion);
+    return true;
+  },
+  current(x, stamp, ctx, currents) {
+    const region = ctx.state.regulatorRegion.get(stamp.componentId) ?? 'regulating';
+    currents.set(stamp.componentId, getRegulatorOutputCurrent(stamp, voltageReader(x), region));
+  },
+  currentAC(x, stamp, ctx, currents) {
+    const region = ctx.state.regulatorRegion.get(stamp.componentId) ?? 'regulating';
+    currents.set(stamp.componentId, getRegulatorOutputCurrentAC(stamp, voltageReaderAC(x), region));
+  },
+  linearize(stamp, dc, state) {
+    // 工作區由端電壓唯一決定
+    state.regulatorRegion.set(stamp.componentId, updateRegulatorRegion(stamp, 'regulating', voltageReader(dc.x)));
+  },
+  dissipation(x, stamp, ctx) {
+    return getRegulatorDissipation(stamp, voltageReader(x), ctx.state.regulatorRegion.get(stamp.componentId) ?? 'regulating');
+  },
+};
@@ -0,0 +1,253 @@
+/**
+ * RelayModel.ts - 電磁繼電器 (線圈 + SPDT 接點)
+ *
+ * 端點順序 (同 componentDefinitions)：
+ *   0 c1、1 c2 (線圈)、2 com (共點)、3 no (常開)、4 nc (常閉)
+ *
+ * 線圈：電阻 R (value) 串聯電感 L，以一個額外電流變數 i (c1 → c2) 表示
+ *   DC：  v_c1 - v_c2 - R·i = 0
+ *   瞬態 (Backward Euler)：v_c1 - v_c2 - (R + L/dt)·i = -(L/dt)·i'
+ *     梯形法 / Gear-2 依 InductiveIntegration 係數：v_c1 - v_c2 - (R + αL/dt)·i = -(L/dt)·(β·i' - γ·i'') - δ·v_L'
+ *   AC：  V_c1 - V_c2 - (R + jωL)·I = 0
+ *
+ * 接點：依線圈吸合狀態，com-no / com-nc 以接觸電阻或開路電阻表示
+ *   未吸合：|i| ≥ 吸合電流 (pull-in) 時吸合
+ *   已吸合：|i| < 釋放電流 (drop-out) 時釋放 (pull-in > drop-out 形成遲滯)
+ * 吸合狀態由求解器於非線性迭代中更新，改變時重新組裝矩陣。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { RELAY_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { branchVariableCurrent, getVoltageDrop, type DeviceModel } from './DeviceModel';
+import {
+  getInductiveHistory,
+  getInductiveIntegration,
+  recordInductiveHistory,
+  type InductiveHistory,
+  type InductiveIntegration,
+} from './PassiveModel';
+
+/**
+ * 繼電器模型參數
+ */
+export interface RelayParams {
+  /** 線圈電阻 (Ω) */
+  coilResistance: number;
+  /** 線圈電感 (H) */
+  coilInductance: number;
+  /** 吸合電流 (A) */
+  pullInCurrent: number;
+  /** 釋放電流 (A)，不大於吸合電流 */
+  dropOutCurrent: number;
+}
+
+/**
+ * 是否為繼電器
+ */
+export function isRelay(type: string): boolean {
+  return type === 'relay';
+}
+
+/**
+ * 由元件屬性取得繼電器參數 (未設定時取預設值)
+ */
+export function getRelayParams(comp: CircuitComponent): RelayParams {
+  const pullInCurrent = comp.pullInCurrent ?? RELAY_DEFAULTS.pullInCurrent;
+  return {
+    coilResistance: comp.value && comp.value > 0 ? comp.value : RELAY_DEFAULTS.coilResistance,
+    coilInductance: Math.max(0, comp.coilInductance ?? RELAY_DEFAULTS.coilInductance),
+    pullInCurrent,
+    dropOutCurrent: Math.min(pullInCurrent, comp.dropOutCurrent ?? RELAY_DEFAULTS.dropOutCurrent),
+  };
+}
+
+/**
+ * 取得線圈、接點端點與線圈電流變數列
+ */
+function getRelayNodes(stamp: ComponentStamp, nodeCount: number): {
+  c1: number;
+  c2: number;
+  com: number;
+  no: number;
+  nc: number;
+  row: number;
+} {
+  const nodeIndices = stamp.nodeIndices ?? [];
+  return {
+    c1: stamp.node1Index,
+    c2: stamp.node2Index,
+    com: nodeIndices[2] ?? -1,
+    no: nodeIndices[3] ?? -1,
+    nc: nodeIndices[4] ?? -1,
+    row: stamp.currentVarIndex !== undefined ? nodeCount + stamp.currentVarIndex : -1,
+  };
+}
+
+/**
+ * 以共用的矩陣加法加入線圈 KCL / 端電壓項與接點電導 (實數 / 複數矩陣共用)
+ * 線圈阻抗項由呼叫端依分析類型補上
+ */
+function stampRelayEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  nodeCount: number,
+  energized: boolean
+): void {
+  const { c1, c2, com, no, nc, row } = getRelayNodes(stamp, nodeCount);
+
+  if (row >= 0) {
+    // KCL：線圈電流由 c1 流向 c2
+    if (c1 >= 0) add(c1, row, 1);
+    if (c2 >= 0) add(c2, row, -1);
+    // 線圈端電壓 v_c1 - v_c2
+    if (c1 >= 0) add(row, c1, 1);
+    if (c2 >= 0) add(row, c2, -1);
+  }
+
+  // 接點：吸合時 com-no 導通，否則 com-nc 導通
+  const gClosed = 1 / RELAY_DEFAULTS.contactResistance;
+  const gOpen = 1 / RELAY_DEFAULTS.openResistance;
+  const contact = (n: number, g: number): void => {
+    if (com >= 0) add(com, com, g);
+    if (n >= 0) add(n, n, g);
+    if (com >= 0 && n >= 0) {
+      add(com, n, -g);
+      add(n, com, -g);
+    }
+  };
+  contact(no, energized ? gClosed : gOpen);
+  contact(nc, energized ? gOpen : gClosed);
+}
+
+/**
+ * 加入繼電器印記 (DC)：線圈僅剩電阻
+ */
+export function stampRelay(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  energized: boolean
+): void {
+  stampRelayEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount, energized);
+  const { row } = getRelayNodes(stamp, nodeCount);
+  if (row < 0) return;
+
+  G.add(row, row, -stamp.value);
+  I[row] = 0;
+}
+
+/**
+ * 加入繼電器的伴隨模型 (瞬態)：線圈電感套用與電感相同的積分法
+ * @param previous 線圈上一時間步的歷史
+ */
+export function stampRelayTransient(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  dt: number,
+  previous: InductiveHistory,
+  integration: InductiveIntegration,
+  energized: boolean
+): void {
+  stampRelayEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount, energized);
+  const { row } = getRelayNodes(stamp, nodeCount);
+  if (row < 0) return;
+
+  const L = stamp.coilInductance ?? RELAY_DEFAULTS.coilInductance;
+  const { alpha, beta, gamma, delta } = integration;
+  G.add(row, row, -(stamp.value + (alpha * L) / dt));
+  I[row] = -(L / dt) * (beta * previous.current - gamma * previous.previousCurrent) - delta * previous.voltage;
+}
+
+/**
+ * 加入繼電器印記 (AC 掃頻)：線圈阻抗 R + jωL，接點維持 DC 工作點的狀態
+ */
+export function stampRelayAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  omega: number,
+  energized: boolean
+): void {
+  stampRelayEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, nodeCount, energized);
+  const { row } = getRelayNodes(stamp, nodeCount);
+  if (row < 0) return;
+
+  const L = stamp.coilInductance ?? RELAY_DEFAULTS.coilInductance;
+  G.add(row, row, complex(-stamp.value, -omega * L));
+  I[row] = complex(0, 0);
+}
+
+/**
+ * 由解向量取得線圈電流 (c1 → c2)
+ */
+export function getRelayCoilCurrent(x: number[], stamp: ComponentStamp, nodeCount: number): number {
+  const { row } = getRelayNodes(stamp, nodeCount);
+  return row >= 0 ? (x[row] ?? 0) : 0;
+}
+
+/**
+ * 依線圈電流與遲滯門檻決定下一個吸合狀態
+ */
+export function updateRelayState(stamp: ComponentStamp, energized: boolean, coilCurrent: number): boolean {
+  const magnitude = Math.abs(coilCurrent);
+  if (energized) {
+    return magnitude >= (stamp.dropOutCurrent ?? RELAY_DEFAULTS.dropOutCurrent);
+  }
+  return magnitude >= (stamp.pullInCurrent ?? RELAY_DEFAULTS.pullInCurrent);
+}
+
+/**
+ * 繼電器元件模型：線圈電流越過吸合 / 釋放門檻時切換接點 (每輪最多切換一次)
+ */
+export const relayDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    // 初始為釋放狀態，線圈電流為 0
+    ctx.state.inductorCurrents.set(stamp.componentId, 0);
+    ctx.state.relayEnergized.set(stamp.componentId, false);
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampRelay(G, I, stamp, ctx.nodeCount, ctx.state.relayEnergized.get(stamp.componentId) ?? false);
+  },
+  stampTransient(G, I, stamp, ctx) {
+    stampRelayTransient(
+      G,
+      I,
+      stamp,
+      ctx.nodeCount,
+      ctx.dt,
+      getInductiveHistory(ctx.state, stamp.componentId),
+      getInductiveIntegration(ctx, stamp.componentId),
+      ctx.state.relayEnergized.get(stamp.componentId) ?? false
+    );
+  },
+  stampAC(G, I, stamp, ctx) {
+    stampRelayAC(G, I, stamp, ctx.nodeCount, ctx.omega, ctx.state.relayEnergized.get(stamp.componentId) ?? false);
+  },
+  iterate(x, stamp, ctx) {
+    if (ctx.toggled.has(stamp.componentId)) return false;
+    const energized = ctx.state.relayEnergized.get(stamp.componentId) ?? false;
+    const next = updateRelayState(stamp, energized, getRelayCoilCurrent(x, stamp, ctx.nodeCount));
+    if (next === energized) return false;
+    ctx.state.relayEnergized.set(stamp.componentId, next);
+    ctx.toggled.add(stamp.componentId);
+    return true;
+  },
+  ...branchVariableCurrent,
+  updateState(x, stamp, ctx, currents) {
+    // 電感端電壓 = 線圈端電壓 - R·i
+    const current = currents.get(stamp.componentId) ?? 0;
+    recordInductiveHistory(ctx.state, stamp.componentId, current, getVoltageDrop(x, stamp) - stamp.value * current);
+  },
+  linearize(stamp, dc, state) {
+    // 接點維持 DC 工作點的吸合狀態
+    state.relayEnergized.set(stamp.componentId, updateRelayState(stamp, false, dc.branchCurrents.get(stamp.componentId) ?? 0));
+  },
+};
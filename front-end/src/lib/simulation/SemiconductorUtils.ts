@@ -0,0 +1,137 @@
+/**
+ * SemiconductorUtils.ts - 半導體元件共用工具
+ * 提供 Newton-Raphson 求解半導體元件時所需的接面電流、電壓限制 (pnjlim / fetlim / limvds) 與收斂判斷
+ */
+
+/** 接面並聯最小電導 (S)，避免接面截止時矩陣奇異 */
+export const GMIN = 1e-12;
+
+/** 接面電壓收斂：絕對容差 (V) */
+const JUNCTION_ABSTOL = 1e-9;
+
+/** 接面電壓收斂：相對容差 */
+const JUNCTION_RELTOL = 1e-6;
+
+/** 指數參數上限，超過後以切線外插避免溢位 */
+const MAX_EXP_ARG = 80;
+
+/**
+ * 接面臨界電壓 V_crit = V_T · ln(V_T / (√2 · I_S))
+ * 超過此電壓後電流變化劇烈，需要限制每次迭代的電壓變化量
+ */
+export function criticalVoltage(saturationCurrent: number, thermalVoltage: number): number {
+  return thermalVoltage * Math.log(thermalVoltage / (Math.SQRT2 * saturationCurrent));
+}
+
+/**
+ * 接面電壓限制 (SPICE pnjlim)
+ * 以對數壓縮新電壓的增量，避免指數項在迭代中爆衝
+ * @param vNew 本次迭代算出的接面電壓
+ * @param vOld 上次迭代使用的接面電壓
+ * @returns 限制後的接面電壓
+ */
+export function limitJunctionVoltage(
+  vNew: number,
+  vOld: number,
+  thermalVoltage: number,
+  vCrit: number
+): number {
+  if (vNew > vCrit && Math.abs(vNew - vOld) > 2 * thermalVoltage) {
+    if (vOld > 0) {
+      const arg = 1 + (vNew - vOld) / thermalVoltage;
+      return arg > 0 ? vOld + thermalVoltage * Math.log(arg) : vCrit;
+    }
+    return thermalVoltage * Math.log(vNew / thermalVoltage);
+  }
+  return vNew;
+}
+
+/**
+ * MOSFET 閘源極電壓限制 (SPICE fetlim)
+ * 依上次迭代位於截止 / 臨界附近 / 強導通區，限制 V_GS 的變化量
+ * @param vNew 本次迭代算出的 V_GS
+ * @param vOld 上次迭代使用的 V_GS
+ * @param vth 臨界電壓
+ * @returns 限制後的 V_GS
+ */
+export function limitFETVoltage(vNew: number, vOld: number, vth: number): number {
+  const stepHigh = Math.abs(2 * (vOld - vth)) + 2;
+  const stepLow = Math.abs(vOld - vth) + 1;
+  const vStrongOn = vth + 3.5;
+  const delta = vNew - vOld;
+
+  if (vOld >= vth) {
+    if (vOld >= vStrongOn) {
+      if (delta <= 0) {
+        // 由強導通往截止方向
+        if (vNew >= vStrongOn) {
+          return -delta > stepLow ? vOld - stepLow : vNew;
+        }
+        return Math.max(vNew, vth + 2);
+      }
+      return delta >= stepHigh ? vOld + stepHigh : vNew;
+    }
+    // 臨界附近
+    return delta <= 0 ? Math.max(vNew, vth - 0.5) : Math.min(vNew, vth + 4);
+  }
+
+  // 截止
+  if (delta <= 0) {
+    return -delta > stepHigh ? vOld - stepHigh : vNew;
+  }
+  const vTurnOn = vth + 0.5;
+  if (vNew <= vTurnOn) {
+    return delta > stepLow ? vOld + stepLow : vNew;
+  }
+  return vTurnOn;
+}
+
+/**
+ * MOSFET 汲源極電壓限制 (SPICE limvds)
+ */
+export function limitDrainSourceVoltage(vNew: number, vOld: number): number {
+  if (vOld >= 3.5) {
+    if (vNew > vOld) return Math.min(vNew, 3 * vOld + 2);
+    if (vNew < 3.5) return Math.max(vNew, 2);
+    return vNew;
+  }
+  return vNew > vOld ? Math.min(vNew, 4) : Math.max(vNew, -0.5);
+}
+
+/**
+ * 判斷接面電壓是否收斂
+ */
+export function junctionConverged(vNew: number, vOld: number): boolean {
+  const tolerance = JUNCTION_ABSTOL + JUNCTION_RELTOL * Math.max(Math.abs(vNew), Math.abs(vOld));
+  return Math.abs(vNew - vOld) <= tolerance;
+}
+
+/**
+ * Shockley 接面電流 I = I_S · (exp(V / (n·V_T)) - 1) 及其微分電導
+ * @param emissionCoefficient 發射係數 n (BJT 為 1)
+ */
+export function junctionCurrent(
+  voltage: number,
+  saturationCurrent: number,
+  thermalVoltage: number,
+  emissionCoefficient: number = 1
+): { current: number; conductance: number } {
+  const nVt = emissionCoefficient * thermalVoltage;
+  const arg = voltage / nVt;
+
+  if (arg > MAX_EXP_ARG) {
+    // 超過上限以切線外插
+    const expMax = Math.exp(MAX_EXP_ARG);
+    const conductance = (saturationCurrent * expMax) / nVt;
+    return {
+      current: saturationCurrent * (expMax - 1) + conductance * (voltage - MAX_EXP_ARG * nVt),
+      conductance,
+    };
+  }
+
+  const expArg = Math.exp(arg);
+  return {
+    current: saturationCurrent * (expArg - 1),
+    conductance: (saturationCurrent * expArg) / nVt,
+  };
+}
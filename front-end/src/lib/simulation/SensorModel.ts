@@ -0,0 +1,119 @@
+/**
+ * SensorModel.ts - 環境感測電阻 (NTC / PTC 熱敏電阻、光敏電阻 LDR)
+ *
+ * 端點順序 (同 resistor)：0 端點 1、1 端點 2
+ *
+ * 電阻值僅取決於模擬環境 (SimulationEnvironment)，於 CircuitGraph 建立印記時換算，
+ * 之後各求解器皆視為一般電阻：
+ *   NTC：R = R_0 · exp(β·(1/T - 1/T_0))，溫度越高電阻越低
+ *   PTC：R = R_0 · exp(-β·(1/T - 1/T_0))，以相同 β 表示正溫度係數
+ *   LDR：R = R_ref · (E / E_ref)^(-γ)，上限為全暗電阻
+ * T、T_0 為絕對溫度 (K)，E 為光照度 (lux)。value 為參考條件下的電阻 R_0 / R_ref。
+ */
+
+import type { CircuitComponent, ThermistorType } from '@/types/circuit';
+import type { ComponentStamp, SimulationEnvironment } from './SimulationTypes';
+import { LDR_DEFAULTS, THERMISTOR_DEFAULTS } from '@/config/componentDefinitions';
+
+/** 攝氏轉絕對溫度的偏移量 */
+const KELVIN_OFFSET = 273.15;
+
+/**
+ * 熱敏電阻模型參數
+ */
+export interface ThermistorParams {
+  /** 參考溫度下的電阻 R_0 (Ω) */
+  resistance: number;
+  /** β 常數 (K) */
+  beta: number;
+  /** NTC 或 PTC */
+  type: ThermistorType;
+}
+
+/**
+ * 光敏電阻模型參數
+ */
+export interface LDRParams {
+  /** 參考光照度下的電阻 R_ref (Ω) */
+  resistance: number;
+  /** log R 對 log lux 的斜率 γ */
+  gamma: number;
+}
+
+/**
+ * 是否為環境感測電阻 (熱敏電阻或光敏電阻)
+ */
+export function isEnvironmentSensor(type: string): boolean {
+  return type === 'thermistor' || type === 'ldr';
+}
+
+/**
+ * 由元件屬性取得熱敏電阻參數 (未設定時取預設值)
+ */
+export function getThermistorParams(comp: CircuitComponent): ThermistorParams {
+  return {
+    resistance: comp.value && comp.value > 0 ? comp.value : THERMISTOR_DEFAULTS.resistance,
+    beta: comp.thermistorBeta && comp.thermistorBeta > 0 ? comp.thermistorBeta : THERMISTOR_DEFAULTS.beta,
+    type: comp.thermistorType ?? THERMISTOR_DEFAULTS.type,
+  };
+}
+
+/**
+ * 由元件屬性取得光敏電阻參數 (未設定時取預設值)
+ */
+export function getLDRParams(comp: CircuitComponent): LDRParams {
+  return {
+    resistance: comp.value && comp.value > 0 ? comp.value : LDR_DEFAULTS.resistance,
+    gamma: comp.ldrGamma && comp.ldrGamma > 0 ? comp.ldrGamma : LDR_DEFAULTS.gamma,
+  };
+}
+
+/**
+ * 熱敏電阻在環境溫度下的電阻 (Ω)
+ * @param ambientTemperature 環境溫度 (°C)
+ */
+export function getThermistorResistance(params: ThermistorParams, ambientTemperature: number): number {
+  const t = ambientTemperature + KELVIN_OFFSET;
+  const t0 = THERMISTOR_DEFAULTS.referenceTemperature + KELVIN_OFFSET;
+  const sign = params.type === 'ptc' ? -1 : 1;
+  return params.resistance * Math.exp(sign * params.beta * (1 / t - 1 / t0));
+}
+
+/**
+ * 光敏電阻在環境光照度下的電阻 (Ω)，全暗 (≤ 0 lux) 時為全暗電阻
+ * @param lightLevel 光照度 (lux)
+ */
+export function getLDRResistance(params: LDRParams, lightLevel: number): number {
+  if (lightLevel <= 0) return LDR_DEFAULTS.darkResistance;
+  const resistance = params.resistance * Math.pow(lightLevel / LDR_DEFAULTS.referenceLightLevel, -params.gamma);
+  return Math.min(resistance, LDR_DEFAULTS.darkResistance);
+}
+
+/**
+ * 感測元件在模擬環境下的電阻 (Ω)
+ */
+export function getSensorResistance(comp: CircuitComponent, environment: SimulationEnvironment): number {
+  return comp.type === 'ldr'
+    ? getLDRResistance(getLDRParams(comp), environment.lightLevel)
+    : getThermistorResistance(getThermistorParams(comp), environment.ambientTemperature);
+}
+
+/**
+ * 依新的模擬環境就地更新感測元件印記的電阻 (串流模擬中調整環境用)
+ * @returns 是否有任何感測元件印記被更新
+ */
+export function retuneSensorStamps(
+  stamps: ComponentStamp[],
+  components: CircuitComponent[],
+  environment: SimulationEnvironment
+): boolean {
+  let retuned = false;
+  for (const stamp of stamps) {
+    if (!isEnvironmentSensor(stamp.type)) continue;
+    const comp = components.find(c => c.id === stamp.componentId);
+    if (!comp) continue;
+    stamp.value = getSensorResistance(comp, environment);
+    retuned = true;
+  }
+  return retuned;
+}
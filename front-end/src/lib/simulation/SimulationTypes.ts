@@ -2,7 +2,11 @@
  * SimulationTypes.ts - 模擬相關的類型定義
  */
 
-import type { WaveformType } from '@/types/circuit';
+import type { PulseParams, PwlPoint, WaveformType } from '@/types/circuit';
+import type { RegulatorRegion } from './RegulatorModel';
+import type { OpAmpRegion } from './OpAmpModel';
+import type { BJTOperatingPoint } from './BJTModel';
+import type { MOSFETOperatingPoint } from './MOSFETModel';
 
 // ========== LED-001 規範常數 (Circuit Design Rule Specification v1.1) ==========
 /**
@@ -36,6 +40,8 @@ export interface DCSimulationResult {
   nodeVoltages: Map<string, number>;
   /** 支路電流 (元件ID → 電流值 A) */
   branchCurrents: Map<string, number>;
+  /** 元件消耗功率 (元件ID → W)，目前僅記錄穩壓器，供 REG-001 規則使用 */
+  dissipatedPower?: Map<string, number>;
   /** CDRS v1 rule violations (pre-simulation checks) */
   ruleViolations?: CircuitRuleViolation[];
   /** 是否成功 */
@@ -62,6 +68,16 @@ export interface CircuitRuleEngineOptions {
   rMinOhms?: number;
 }
 
+/**
+ * 模擬環境 (熱敏電阻、光敏電阻等感測元件依此換算電阻)
+ */
+export interface SimulationEnvironment {
+  /** 環境溫度 (°C) */
+  ambientTemperature: number;
+  /** 環境光照度 (lux) */
+  lightLevel: number;
+}
+
 /**
  * 電路節點
  */
@@ -98,16 +114,124 @@ export interface ComponentStamp {
   phase?: number;
   /** AC 源波形類型 */
   waveformType?: WaveformType;
+  /** PULSE 波形參數 */
+  pulse?: PulseParams;
+  /** PWL 波形轉折點 */
+  pwlPoints?: PwlPoint[];
   /** 開關狀態 (true = 閉合/導通, false = 開啟/斷開) */
   switchClosed?: boolean;
+  /** 保險絲熔斷能量 I²t (A²s)，value 為額定電流 */
+  meltingI2t?: number;
+  /** 燈泡額定電壓 (V)，value 為額定功率 */
+  ratedVoltage?: number;
+  /** 燈絲熱時間常數 (s) */
+  thermalTimeConstant?: number;
+  /** SPDT / DPDT 切換位置 (0 = COM-A, 1 = COM-B) */
+  switchThrow?: number;
+  /** 按鈕開關是否按下 */
+  buttonPressed?: boolean;
   /** 邏輯閘輸出電壓 (用於邏輯閘類型) */
   logicOutputVoltage?: number;
   /** 邏輯閘輸出節點索引 (Y 端口，用於邏輯閘類型) */
   outputNodeIndex?: number;
+  /** 各端點的節點索引，依元件 ports 順序 (-1 表示接地，多端點元件使用) */
+  nodeIndices?: number[];
+  /** 運放：是否使用理想模型 */
+  opampIdeal?: boolean;
+  /** 運放：開迴路增益 A_OL (V/V) */
+  openLoopGain?: number;
+  /** 運放：增益頻寬積 (Hz)，未設定則 AC 分析不滾降 */
+  gainBandwidth?: number;
+  /** 運放：迴轉率 (V/s)，未設定則瞬態分析不限制 */
+  slewRate?: number;
+  /** 運放：V+ / V- 電源腳是否有接線 (未接線的一側不做輸出飽和) */
+  opampRailConnected?: [boolean, boolean];
+  /** BJT：順向電流增益 β_F */
+  betaF?: number;
+  /** BJT：反向電流增益 β_R */
+  betaR?: number;
+  /** BJT / 二極體：飽和電流 I_S (A) */
+  saturationCurrent?: number;
+  /** BJT / 二極體：熱電壓 V_T (V) */
+  thermalVoltage?: number;
+  /** 二極體：發射係數 n */
+  emissionCoefficient?: number;
+  /** 二極體：串聯電阻 R_S (Ω)，稽納二極體為 R_z */
+  seriesResistance?: number;
+  /** 稽納二極體：崩潰電壓 V_z (V，定義於測試電流 I_ZT) */
+  breakdownVoltage?: number;
+  /** MOSFET：臨界電壓 |V_th| (V) */
+  thresholdVoltage?: number;
+  /** MOSFET：製程轉導參數 K_p (A/V²) */
+  transconductance?: number;
+  /** MOSFET：通道長度調變 λ (1/V) */
+  channelLengthModulation?: number;
+  /** MOSFET：通道寬長比 W/L */
+  widthLengthRatio?: number;
+  /** VCVS / VCCS：控制端 ctrl+ / ctrl- 的節點索引 (-1 表示接地) */
+  controlNodeIndices?: [number, number];
+  /** CCVS / CCCS：控制元件的額外電流變數索引 */
+  controlCurrentVarIndex?: number;
+  /** 變壓器：二次側繞組電流變數索引 (一次側使用 currentVarIndex) */
+  secondaryCurrentVarIndex?: number;
+  /** 變壓器：是否使用理想模型 */
+  transformerIdeal?: boolean;
+  /** 變壓器：一次側電感 L1 (H) */
+  primaryInductance?: number;
+  /** 變壓器：二次側電感 L2 (H) */
+  secondaryInductance?: number;
+  /** 變壓器：耦合係數 k */
+  couplingCoefficient?: number;
+  /** 電池：內阻 R_int (Ω) */
+  internalResistance?: number;
+  /** 電池：容量 (Ah) */
+  batteryCapacity?: number;
+  /** 電池：初始荷電狀態 (0 ~ 1) */
+  stateOfCharge?: number;
+  /** 比較器 / 施密特觸發器：輸入量越過此值時判定為高 (V，比較器為 V+ - V-) */
+  upperThreshold?: number;
+  /** 比較器 / 施密特觸發器：輸入量低於此值時判定為低 (V) */
+  lowerThreshold?: number;
+  /** 比較器 / 施密特觸發器：高輸出電平 (V) */
+  outputHigh?: number;
+  /** 比較器 / 施密特觸發器：低輸出電平 (V) */
+  outputLow?: number;
+  /** 比較器 / 施密特觸發器：是否反相輸出 */
+  invertOutput?: boolean;
+  /** 穩壓器：壓降電壓 (V，輸出電壓為 value) */
+  dropoutVoltage?: number;
+  /** 穩壓器：輸出限流 (A) */
+  currentLimit?: number;
+  /** 穩壓器：靜態電流 (A) */
+  quiescentCurrent?: number;
+  /** 直流馬達：電樞電感 (H，電樞電阻為 value) */
+  armatureInductance?: number;
+  /** 直流馬達：反電動勢常數 (V·s/rad) */
+  backEmfConstant?: number;
+  /** 直流馬達：轉動慣量 (kg·m²) */
+  inertia?: number;
+  /** 直流馬達：黏滯摩擦係數 (N·m·s/rad) */
+  friction?: number;
+  /** 直流馬達：恆定負載轉矩 (N·m) */
+  loadTorque?: number;
+  /** 繼電器：線圈電感 (H，線圈電阻為 value) */
+  coilInductance?: number;
+  /** 繼電器：吸合電流 (A) */
+  pullInCurrent?: number;
+  /** 繼電器：釋放電流 (A) */
+  dropOutCurrent?: number;
 }
 
 // ========== 瞬態分析類型定義 ==========
 
+/**
+ * 瞬態分析的數值積分法
+ * - backward-euler：一階、A 穩定且有數值阻尼 (LC 振盪會逐漸衰減)
+ * - trapezoidal：二階、無數值阻尼
+ * - gear2：二階後向差分 (BDF2)，阻尼遠小於 Backward Euler 且不會產生梯形法的數值振鈴
+ */
+export type IntegrationMethod = 'backward-euler' | 'trapezoidal' | 'gear2';
+
 /**
  * 瞬態分析選項
  */
@@ -116,32 +240,94 @@ export interface TransientOptions {
   startTime: number;
   /** 模擬結束時間 (秒) */
   endTime: number;
-  /** 時間步長 (秒)，若未指定則自動計算 */
+  /** 時間步長 (秒)，若未指定則自動計算；啟用自適應步長時為初始步長 */
   timeStep?: number;
-  /** 最大迭代次數 (用於非線性收斂) */
+  /** 最大迭代次數 (用於非線性收斂，預設 20)；自適應步長下未收斂的時間步會被拒絕並縮小步長 */
   maxIterations?: number;
+  /** 電容 / 電感伴隨模型的數值積分法 (預設 Backward Euler) */
+  integrationMethod?: IntegrationMethod;
+  /** 是否依局部截斷誤差 (LTE) 自動調整時間步長 (預設 false，時間點為等間隔) */
+  adaptiveTimeStep?: boolean;
+  /** 自適應步長的下限 (秒)，預設為初始步長的 1/1000 */
+  minTimeStep?: number;
+  /** 自適應步長的上限 (秒)，預設為模擬時間的 1/50 */
+  maxTimeStep?: number;
+  /** LTE 相對容許誤差 (預設 1e-3) */
+  relativeTolerance?: number;
+  /** LTE 絕對容許誤差 (V 或 A，預設 1e-6) */
+  absoluteTolerance?: number;
 }
 
 /**
- * 動態元件狀態 (電容電壓、電感電流)
+ * 元件狀態 (動態元件的電容電壓、電感電流等，以及非線性元件的迭代工作點)
  */
 export interface ComponentState {
   /** 電容元件 ID → 電壓 (V) */
   capacitorVoltages: Map<string, number>;
-  /** 電感元件 ID → 電流 (A) */
+  /** 電感元件 ID → 電流 (A)；變壓器二次側繞組以衍生鍵值記錄 */
   inductorCurrents: Map<string, number>;
+  /** 電容元件 ID → 上一時間步的電流 (A)，梯形法使用 */
+  capacitorCurrents: Map<string, number>;
+  /** 電感元件 ID → 上一時間步的端電壓 (V)，梯形法使用 */
+  inductorVoltages: Map<string, number>;
+  /** 電容元件 ID → 前兩個時間步的電壓 (V)，Gear-2 使用 */
+  previousCapacitorVoltages: Map<string, number>;
+  /** 電感元件 ID → 前兩個時間步的電流 (A)，Gear-2 使用 */
+  previousInductorCurrents: Map<string, number>;
+  /** 運放元件 ID → 上一時間步的輸出電壓 (V)，用於迴轉率限制 */
+  opampOutputVoltages: Map<string, number>;
+  /** 電池元件 ID → 荷電狀態 (0 ~ 1) */
+  batteryStateOfCharge: Map<string, number>;
+  /** 繼電器元件 ID → 接點是否吸合 (線圈電流記錄於 inductorCurrents) */
+  relayEnergized: Map<string, boolean>;
+  /** 保險絲元件 ID → 累積的超額 I²t (A²s) */
+  fuseHeat: Map<string, number>;
+  /** 保險絲元件 ID → 熔斷時間 (秒)；有記錄即為已熔斷 */
+  fuseBlownAt: Map<string, number>;
+  /** 燈泡元件 ID → 燈絲正規化溫度 θ (0 = 冷態，1 = 額定功率穩態) */
+  lampTemperature: Map<string, number>;
+  /** 555 計時器元件 ID → 內部正反器 Q (true = 輸出高電位、放電截止) */
+  timer555Latched: Map<string, boolean>;
+  /** 比較器 / 施密特觸發器元件 ID → 輸入判定狀態 (true = 已越過上門檻，尚未低於下門檻) */
+  comparatorHigh: Map<string, boolean>;
+  /** 穩壓器元件 ID → 工作區 (跨時間步保留，作為下一步的初始猜測) */
+  regulatorRegion: Map<string, RegulatorRegion>;
+  /** 直流馬達元件 ID → 轉子轉速 (rad/s，電樞電流記錄於 inductorCurrents) */
+  motorSpeed: Map<string, number>;
+  /** 直流馬達元件 ID → 前兩個時間步的轉速 (rad/s)，Gear-2 使用 */
+  previousMotorSpeed: Map<string, number>;
+  /** 二極體 / LED 元件 ID → 接面電壓 V_D (Newton-Raphson 工作點) */
+  diodeVoltages: Map<string, number>;
+  /** 運放元件 ID → 工作區 */
+  opampRegions: Map<string, OpAmpRegion>;
+  /** BJT 元件 ID → Newton-Raphson 工作點 */
+  bjtOperatingPoints: Map<string, BJTOperatingPoint>;
+  /** MOSFET 元件 ID → Newton-Raphson 工作點 */
+  mosfetOperatingPoints: Map<string, MOSFETOperatingPoint>;
 }
 
 /**
  * 瞬態分析結果
  */
 export interface TransientSimulationResult {
-  /** 時間點陣列 (秒) */
+  /** 時間點陣列 (秒)，啟用自適應步長時為非等間隔 */
   timePoints: number[];
+  /** 各時間點實際使用的步長 (秒，自上一個時間點起算) */
+  timeSteps: number[];
+  /** 因 LTE 超過容許誤差而被拒絕重算的時間步數 */
+  rejectedSteps: number;
   /** 節點電壓歷史 (節點ID → 電壓陣列) */
   nodeVoltageHistory: Map<string, number[]>;
   /** 支路電流歷史 (元件ID → 電流陣列) */
   branchCurrentHistory: Map<string, number[]>;
+  /** 電池荷電狀態歷史 (元件ID → SoC 陣列，0 ~ 1) */
+  stateOfChargeHistory: Map<string, number[]>;
+  /** 保險絲熔斷事件 (元件ID → 熔斷時間 秒)，未熔斷者不列入 */
+  fuseBlowTimes: Map<string, number>;
+  /** 直流馬達轉速歷史 (元件ID → rad/s 陣列) */
+  motorSpeedHistory: Map<string, number[]>;
+  /** 直流馬達電磁轉矩歷史 (元件ID → N·m 陣列) */
+  motorTorqueHistory: Map<string, number[]>;
   /** 是否成功 */
   success: boolean;
   /** 錯誤訊息 */
@@ -0,0 +1,302 @@
+/**
+ * SourceModel.ts - 獨立電源模型
+ *
+ * 直流電壓源 / 電流源與 AC 電壓源 / 電流源 (正弦、方波、三角波、鋸齒波、PULSE、PWL)
+ *
+ * 各分析的行為：
+ * - DC：直流源為定值；AC 電壓源視為短路 (0V)，AC 電流源視為開路 (0A)
+ * - 瞬態：AC 源取時間 t 的瞬時值；方波、三角波、鋸齒波、PULSE 與 PWL 發布波形斷點，
+ *   求解器落在斷點上時取左極限 (跳變由下一步開始)
+ * - AC 掃頻：AC 源以 value 為振幅、phase 為相位的相量激勵；直流電壓源短路、直流電流源開路
+ *
+ * 電流源的支路電流方向為 + → - (元件內部)，電流自 + 端流出至外部電路，故回報負值
+ */
+
+import type { CircuitComponent, PulseParams, PwlPoint, WaveformType } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { stampCurrentSource, stampVoltageSource, stampVoltageSourceAC } from './StampUtils';
+import { addToVector } from './ComplexMatrix';
+import { complex, fromPolar, negate, type Complex } from './Complex';
+import { AC_SOURCE_DEFAULTS, PULSE_DEFAULTS, PWL_DEFAULTS } from '@/config/componentDefinitions';
+import { branchVariableCurrent, type DeviceContext, type DeviceModel } from './DeviceModel';
+
+/** 落在斷點上時取左極限的時間偏移 (相對於步長) */
+const BREAKPOINT_LEFT_LIMIT = 1e-9;
+
+/**
+ * 波形產生函數
+ * @param t 當前時間 (秒)
+ * @param amplitude 振幅 (峰值)
+ * @param frequency 頻率 (Hz)
+ * @param phase 相位 (rad)
+ * @param waveformType 波形類型
+ * @returns 瞬時電壓值
+ */
+export function generateWaveform(
+  t: number,
+  amplitude: number,
+  frequency: number,
+  phase: number,
+  waveformType: WaveformType
+): number {
+  const omega = 2 * Math.PI * frequency;
+  const theta = omega * t + phase;
+
+  switch (waveformType) {
+    case 'sine':
+      return amplitude * Math.sin(theta);
+
+    case 'square': {
+      // 方波：正半週期為 +amplitude，負半週期為 -amplitude
+      const normalizedPhase = ((theta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      return normalizedPhase < Math.PI ? amplitude : -amplitude;
+    }
+
+    case 'triangle': {
+      // 三角波：線性上升和下降
+      const normalizedPhase = ((theta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      if (normalizedPhase < Math.PI) {
+        // 上升段：0 到 π，從 -amplitude 到 +amplitude
+        return amplitude * (2 * normalizedPhase / Math.PI - 1);
+      } else {
+        // 下降段：π 到 2π，從 +amplitude 到 -amplitude
+        return amplitude * (3 - 2 * normalizedPhase / Math.PI);
+      }
+    }
+
+    case 'sawtooth': {
+      // 鋸齒波：線性上升後瞬間下降
+      const normalizedPhase = ((theta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      return amplitude * (normalizedPhase / Math.PI - 1);
+    }
+
+    default:
+      return amplitude * Math.sin(theta);
+  }
+}
+
+/**
+ * SPICE PULSE 波形 (V1 V2 TD TR TF PW PER)
+ * t < TD 時維持 V1；之後每個週期依序為上升、保持 V2、下降、回到 V1
+ * @param t 當前時間 (秒)
+ * @param params PULSE 參數 (period <= 0 表示單一脈衝)
+ * @returns 瞬時值
+ */
+export function generatePulse(t: number, params: PulseParams): number {
+  const { initialValue: v1, pulsedValue: v2, delay, riseTime, fallTime, pulseWidth, period } = params;
+  if (t < delay) return v1;
+
+  let tt = t - delay;
+  if (period > 0) tt %= period;
+
+  if (tt < riseTime) {
+    return v1 + (v2 - v1) * (tt / riseTime);
+  }
+  tt -= riseTime;
+  if (tt < pulseWidth) return v2;
+  tt -= pulseWidth;
+  if (tt < fallTime) {
+    return v2 + (v1 - v2) * (tt / fallTime);
+  }
+  return v1;
+}
+
+/**
+ * SPICE PWL 波形：轉折點之間線性內插
+ * 第一個轉折點之前維持首值，最後一個轉折點之後維持末值
+ * @param t 當前時間 (秒)
+ * @param points 依時間排序的轉折點
+ * @returns 瞬時值
+ */
+export function generatePWL(t: number, points: PwlPoint[]): number {
+  const first = points[0];
+  if (!first) return 0;
+  if (t <= first.time) return first.value;
+
+  for (let i = 1; i < points.length; i++) {
+    const next = points[i]!;
+    if (t < next.time) {
+      const prev = points[i - 1]!;
+      return prev.value + (next.value - prev.value) * ((t - prev.time) / (next.time - prev.time));
+    }
+  }
+
+  return points[points.length - 1]!.value;
+}
+
+/**
+ * AC 源 (電壓源 / 電流源) 在時間 t 的瞬時值
+ * PULSE / PWL 由各自的參數決定輸出，其餘週期波形以 value 為振幅
+ */
+export function getACSourceValue(stamp: ComponentStamp, t: number): number {
+  if (stamp.waveformType === 'pulse') {
+    return generatePulse(t, stamp.pulse ?? PULSE_DEFAULTS);
+  }
+  if (stamp.waveformType === 'pwl') {
+    return generatePWL(t, stamp.pwlPoints ?? PWL_DEFAULTS);
+  }
+
+  return generateWaveform(
+    t,
+    stamp.value,
+    stamp.frequency ?? AC_SOURCE_DEFAULTS.frequency,
+    stamp.phase ?? AC_SOURCE_DEFAULTS.phase,
+    stamp.waveformType ?? AC_SOURCE_DEFAULTS.waveformType
+  );
+}
+
+/**
+ * PULSE 波形在 time 之後的下一個轉折點 (上升沿 / 下降沿的起點與終點)
+ */
+function getNextPulseBreakpoint(params: PulseParams, time: number): number | undefined {
+  const { delay, riseTime, fallTime, pulseWidth, period } = params;
+  if (time < delay) return delay;
+
+  const offsets = [0, riseTime, riseTime + pulseWidth, riseTime + pulseWidth + fallTime];
+  const cycle = period > 0 ? Math.floor((time - delay) / period) : 0;
+  for (const n of period > 0 ? [cycle, cycle + 1] : [0]) {
+    const start = delay + n * Math.max(period, 0);
+    const next = offsets.map(offset => start + offset).find(t => t > time);
+    if (next !== undefined) return next;
+  }
+  return undefined;
+}
+
+/**
+ * AC 源波形在 time 之後的下一個斷點 (不連續或斜率轉折處)
+ * 方波 / 三角波每半週期、鋸齒波每週期、PULSE 的邊沿起止點與 PWL 轉折點；正弦波沒有斷點
+ * @returns 斷點時間 (秒)，沒有斷點時回傳 undefined
+ */
+export function getNextSourceBreakpoint(stamp: ComponentStamp, time: number): number | undefined {
+  if (stamp.waveformType === 'pulse') {
+    return getNextPulseBreakpoint(stamp.pulse ?? PULSE_DEFAULTS, time);
+  }
+  if (stamp.waveformType === 'pwl') {
+    return (stamp.pwlPoints ?? PWL_DEFAULTS).find(point => point.time > time)?.time;
+  }
+
+  const waveformType = stamp.waveformType ?? AC_SOURCE_DEFAULTS.waveformType;
+  const frequency = stamp.frequency ?? AC_SOURCE_DEFAULTS.frequency;
+  if (waveformType === 'sine' || frequency <= 0) return undefined;
+
+  // 方波 / 三角波於 θ = kπ、鋸齒波於 θ = 2kπ 轉折
+  const omega = 2 * Math.PI * frequency;
+  const phase = stamp.phase ?? AC_SOURCE_DEFAULTS.phase;
+  const interval = waveformType === 'sawtooth' ? 2 * Math.PI : Math.PI;
+  const k = Math.floor((omega * time + phase) / interval) + 1;
+  return (k * interval - phase) / omega;
+}
+
+/**
+ * 瞬態分析中 AC 源的取值時間
+ * 時間步恰好落在斷點時取左極限，即本步區間 (t - dt, t] 內的值
+ */
+function getSourceTime(ctx: DeviceContext): number {
+  return ctx.atBreakpoint ? ctx.time - ctx.dt * BREAKPOINT_LEFT_LIMIT : ctx.time;
+}
+
+/**
+ * 以元件設定補上 AC 源的頻率 / 相位 / 波形資訊 (CircuitGraph 的印記僅含振幅)
+ */
+export function withACSourceInfo(stamps: ComponentStamp[], components: CircuitComponent[]): ComponentStamp[] {
+  const componentMap = new Map(components.map(c => [c.id, c]));
+
+  return stamps.map(stamp => {
+    if (stamp.type === 'ac_source' || stamp.type === 'ac_current_source') {
+      const comp = componentMap.get(stamp.componentId);
+      return {
+        ...stamp,
+        frequency: comp?.frequency ?? AC_SOURCE_DEFAULTS.frequency,
+        phase: comp?.phase ?? AC_SOURCE_DEFAULTS.phase,
+        waveformType: comp?.waveformType ?? AC_SOURCE_DEFAULTS.waveformType,
+        pulse: comp?.pulse,
+        pwlPoints: comp?.pwlPoints,
+      };
+    }
+    return stamp;
+  });
+}
+
+/**
+ * AC 源的相量 value · e^(j·phase)
+ */
+function getACSourcePhasor(stamp: ComponentStamp): Complex {
+  return fromPolar(stamp.value, stamp.phase ?? AC_SOURCE_DEFAULTS.phase);
+}
+
+/**
+ * 直流電壓源元件模型 (AC 分析短路)
+ */
+export const dcSourceDevice: DeviceModel = {
+  stampDC(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    stampVoltageSource(G, I, stamp.node1Index, stamp.node2Index, stamp.value, ctx.nodeCount + stamp.currentVarIndex);
+  },
+  stampAC(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    stampVoltageSourceAC(G, I, stamp.node1Index, stamp.node2Index, complex(0, 0), ctx.nodeCount + stamp.currentVarIndex);
+  },
+  ...branchVariableCurrent,
+};
+
+/**
+ * AC 電壓源元件模型 (DC 分析短路)
+ */
+export const acSourceDevice: DeviceModel = {
+  stampDC(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    stampVoltageSource(G, I, stamp.node1Index, stamp.node2Index, 0, ctx.nodeCount + stamp.currentVarIndex);
+  },
+  stampTransient(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    const voltage = getACSourceValue(stamp, getSourceTime(ctx));
+    stampVoltageSource(G, I, stamp.node1Index, stamp.node2Index, voltage, ctx.nodeCount + stamp.currentVarIndex);
+  },
+  stampAC(G, I, stamp, ctx) {
+    if (stamp.currentVarIndex === undefined) return;
+    const voltage = getACSourcePhasor(stamp);
+    stampVoltageSourceAC(G, I, stamp.node1Index, stamp.node2Index, voltage, ctx.nodeCount + stamp.currentVarIndex);
+  },
+  ...branchVariableCurrent,
+  nextBreakpoint: getNextSourceBreakpoint,
+};
+
+/**
+ * 直流電流源元件模型 (AC 分析開路)
+ */
+export const currentSourceDevice: DeviceModel = {
+  stampDC(_G, I, stamp) {
+    // 電流自 + 端流出至外部電路 (內部由 - 端流向 + 端)
+    stampCurrentSource(I, stamp.node2Index, stamp.node1Index, stamp.value);
+  },
+  current(_x, stamp, _ctx, currents) {
+    currents.set(stamp.componentId, -stamp.value);
+  },
+  currentAC(_x, stamp, _ctx, currents) {
+    currents.set(stamp.componentId, complex(0, 0));
+  },
+};
+
+/**
+ * AC 電流源元件模型 (DC 分析開路)
+ */
+export const acCurrentSourceDevice: DeviceModel = {
+  stampDC() {
+    // DC 分析時視為開路 (0A)
+  },
+  stampTransient(_G, I, stamp, ctx) {
+    stampCurrentSource(I, stamp.node2Index, stamp.node1Index, getACSourceValue(stamp, getSourceTime(ctx)));
+  },
+  stampAC(_G, I, stamp) {
+    const current = getACSourcePhasor(stamp);
+    if (stamp.node1Index >= 0) addToVector(I, stamp.node1Index, current);
+    if (stamp.node2Index >= 0) addToVector(I, stamp.node2Index, negate(current));
+  },
+  current(_x, stamp, ctx, currents) {
+    currents.set(stamp.componentId, ctx.analysis === 'dc' ? 0 : -getACSourceValue(stamp, getSourceTime(ctx)));
+  },
+  currentAC(_x, stamp, _ctx, currents) {
+    currents.set(stamp.componentId, negate(getACSourcePhasor(stamp)));
+  },
+  nextBreakpoint: getNextSourceBreakpoint,
+};
@@ -0,0 +1,118 @@
+/**
+ * StampUtils.ts - MNA 印記共用工具
+ * 提供各元件模型共用的實數 / 複數矩陣印記操作 (節點索引 -1 表示接地)
+ */
+
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+
+/**
+ * 由解向量取得節點電壓 (接地為 0V)
+ */
+export function nodeVoltage(x: number[], index: number): number {
+  return index >= 0 ? (x[index] ?? 0) : 0;
+}
+
+/**
+ * 加入電導印記 (n1 與 n2 之間的電導 g)
+ */
+export function stampConductance(G: SparseMatrixBuilder, n1: number, n2: number, g: number): void {
+  if (n1 >= 0) G.add(n1, n1, g);
+  if (n2 >= 0) G.add(n2, n2, g);
+  if (n1 >= 0 && n2 >= 0) {
+    G.add(n1, n2, -g);
+    G.add(n2, n1, -g);
+  }
+}
+
+/**
+ * 加入獨立電流源印記
+ * 電流從 nFrom 經電流源內部流向 nTo (即流出 nFrom 節點、注入 nTo 節點)
+ */
+export function stampCurrentSource(I: number[], nFrom: number, nTo: number, current: number): void {
+  if (nFrom >= 0) I[nFrom]! -= current;
+  if (nTo >= 0) I[nTo]! += current;
+}
+
+/**
+ * 是否為獨立電流源 (DC / AC)
+ */
+export function isCurrentSource(type: string): boolean {
+  return type === 'current_source' || type === 'ac_current_source';
+}
+
+/**
+ * 加入電壓控制電流源印記 (VCCS)
+ * 電流 gm·(V(cP) - V(cN)) 從 outP 經元件流向 outN
+ */
+export function stampTransconductance(
+  G: SparseMatrixBuilder,
+  outP: number,
+  outN: number,
+  cP: number,
+  cN: number,
+  gm: number
+): void {
+  if (outP >= 0 && cP >= 0) G.add(outP, cP, gm);
+  if (outP >= 0 && cN >= 0) G.add(outP, cN, -gm);
+  if (outN >= 0 && cP >= 0) G.add(outN, cP, -gm);
+  if (outN >= 0 && cN >= 0) G.add(outN, cN, gm);
+}
+
+/**
+ * 加入電壓源印記：V(n1) - V(n2) = voltage，支路電流為第 row 個變數
+ */
+export function stampVoltageSource(
+  G: SparseMatrixBuilder,
+  I: number[],
+  n1: number,
+  n2: number,
+  voltage: number,
+  row: number
+): void {
+  if (n1 >= 0) {
+    G.add(row, n1, 1);
+    G.add(n1, row, 1);
+  }
+  if (n2 >= 0) {
+    G.add(row, n2, -1);
+    G.add(n2, row, -1);
+  }
+  I[row] = voltage;
+}
+
+/**
+ * 加入導納印記 (複數版本，n1 與 n2 之間的導納 y)
+ */
+export function stampAdmittanceAC(G: ComplexSparseMatrixBuilder, n1: number, n2: number, y: Complex): void {
+  if (n1 >= 0) G.add(n1, n1, y);
+  if (n2 >= 0) G.add(n2, n2, y);
+  if (n1 >= 0 && n2 >= 0) {
+    const negY = complex(-y.re, -y.im);
+    G.add(n1, n2, negY);
+    G.add(n2, n1, negY);
+  }
+}
+
+/**
+ * 加入電壓源印記 (複數版本)：V(n1) - V(n2) = voltage，支路電流為第 row 個變數
+ */
+export function stampVoltageSourceAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  n1: number,
+  n2: number,
+  voltage: Complex,
+  row: number
+): void {
+  if (n1 >= 0) {
+    G.add(row, n1, complex(1, 0));
+    G.add(n1, row, complex(1, 0));
+  }
+  if (n2 >= 0) {
+    G.add(row, n2, complex(-1, 0));
+    G.add(n2, row, complex(-1, 0));
+  }
+  I[row] = voltage;
+}
@@ -1,18 +1,38 @@
 /**
  * StreamingTransientSolver.ts - 串流式瞬態分析求解器
  * 支援即時逐步計算，適合動畫顯示
- * 使用 Backward Euler 積分方法
+ * 積分法由 integrationMethod 選擇 Backward Euler (預設) / 梯形法 / Gear-2，
+ * 斷點與開關切換後重新以 Backward Euler 起步 (伴隨模型見 PassiveModel.ts)
  */
 
-import type { CircuitComponent, Wire, WaveformType } from '@/types/circuit';
+import type { CircuitComponent, Wire } from '@/types/circuit';
 import type {
   ComponentState,
   ComponentStamp,
+  IntegrationMethod,
+  SimulationEnvironment,
 } from './SimulationTypes';
 import { CircuitGraph } from './CircuitGraph';
-import { createMatrix, createVector, gaussianElimination } from './Matrix';
+import { createVector, SparseLUSolver, SparseMatrixBuilder } from './Matrix';
 import { AC_SOURCE_DEFAULTS } from '@/config/componentDefinitions';
-import { generateWaveform } from './TransientSolver';
+import { isCurrentSource } from './StampUtils';
+import { validateControlledSources } from './ControlledSourceModel';
+import { isBattery } from './BatteryModel';
+import { getMotorTorque, isMotor } from './MotorModel';
+import { getSwitchContacts, isPushButton, isSwitch, isThrowSwitch, retuneSwitchStamps } from './SwitchModel';
+import { retuneSensorStamps } from './SensorModel';
+import { retunePotentiometerStamps } from './PotentiometerModel';
+import { withACSourceInfo } from './SourceModel';
+import { restartIntegration } from './PassiveModel';
+import { createComponentState, type DeviceContext } from './DeviceModel';
+import {
+  extractDeviceCurrents,
+  getNextBreakpoint,
+  initializeDevices,
+  iterateDevices,
+  stampDevices,
+  updateDeviceStates,
+} from './DeviceRegistry';
 
 /**
  * 串流模擬點
@@ -24,6 +44,16 @@ export interface StreamingPoint {
   nodeVoltages: Map<string, number>;
   /** 支路電流 (元件ID → 電流值 A) */
   branchCurrents: Map<string, number>;
+  /** 電池荷電狀態 (元件ID → SoC 0 ~ 1，此時間點求解所用的值) */
+  stateOfCharge: Map<string, number>;
+  /** 繼電器吸合狀態 (元件ID → 是否吸合，此時間點求解後的狀態) */
+  relayEnergized: Map<string, boolean>;
+  /** 保險絲熔斷時間 (元件ID → 秒)，僅列出此時間點求解時已熔斷者 */
+  fuseBlownAt: Map<string, number>;
+  /** 馬達轉速 (元件ID → rad/s，與此時間點電樞電流聯立求得) */
+  motorSpeed: Map<string, number>;
+  /** 馬達電磁轉矩 (元件ID → N·m) */
+  motorTorque: Map<string, number>;
 }
 
 /**
@@ -34,6 +64,8 @@ export interface StreamingOptions {
   timeStep?: number;
   /** 最大迭代次數 (用於非線性收斂) */
   maxIterations?: number;
+  /** 電容 / 電感伴隨模型的數值積分法 (預設 Backward Euler) */
+  integrationMethod?: IntegrationMethod;
 }
 
 /**
@@ -57,9 +89,12 @@ interface SolverState {
   nodeCount: number;
   vsCount: number;
   dt: number;
+  /** 每個時間步的非線性迭代上限 (達到上限時沿用最後一次迭代結果，維持即時推進) */
+  maxIterations: number;
+  integrationMethod: IntegrationMethod;
   componentState: ComponentState;
-  diodeStates: Map<string, boolean>;
-  components: CircuitComponent[];
+  /** 稀疏線性求解器 (跨批次的各時間步與非線性迭代重用符號分解) */
+  linearSolver: SparseLUSolver;
 }
 
 /**
@@ -68,7 +103,12 @@ interface SolverState {
  */
 export class StreamingTransientSolver {
   private state: SolverState | null = null;
+  /** 下一個格點時間 (每步前進 dt) */
   private currentTime: number = 0;
+  /** 上一個已求解的時間點 (含落在格點之間的斷點) */
+  private previousTime: number = 0;
+  /** 上一個時間步的步長 */
+  private previousDt: number = 0;
   private initialized: boolean = false;
 
   /**
@@ -76,12 +116,14 @@ export class StreamingTransientSolver {
    * @param components 電路元件列表
    * @param wires 導線列表
    * @param options 選項
+   * @param environment 模擬環境 (環境溫度、光照度)
    * @returns 初始化結果
    */
   public initialize(
     components: CircuitComponent[],
     wires: Wire[],
-    options: StreamingOptions = {}
+    options: StreamingOptions = {},
+    environment?: SimulationEnvironment
   ): InitializeResult {
     // 驗證電路
     const validation = this.validateCircuit(components, wires);
@@ -96,7 +138,7 @@ export class StreamingTransientSolver {
 
     // 建立電路圖
     const graph = new CircuitGraph();
-    graph.build(components, wires);
+    graph.build(components, wires, environment);
 
     const nodeCount = graph.getNodeCount();
     const vsCount = graph.getVoltageSourceCount();
@@ -111,12 +153,12 @@ export class StreamingTransientSolver {
     }
 
     // 檢查是否有 AC 源
-    const hasAC = components.some(c => c.type === 'ac_source');
+    const hasAC = components.some(c => c.type === 'ac_source' || c.type === 'ac_current_source');
 
     // 找出最高頻率的 AC 源來決定時間步長
     let maxFrequency = AC_SOURCE_DEFAULTS.frequency;
     for (const comp of components) {
-      if (comp.type === 'ac_source') {
+      if (comp.type === 'ac_source' || comp.type === 'ac_current_source') {
         const freq = comp.frequency ?? AC_SOURCE_DEFAULTS.frequency;
         if (freq > maxFrequency) maxFrequency = freq;
       }
@@ -138,30 +180,10 @@ export class StreamingTransientSolver {
 
     // 取得並增強 stamps
     const stamps = graph.getStamps();
-    const enhancedStamps = this.enhanceStampsWithACInfo(stamps, components);
+    const enhancedStamps = withACSourceInfo(stamps, components);
 
-    // 初始化動態元件狀態 (電容電壓、電感電流)
-    const componentState: ComponentState = {
-      capacitorVoltages: new Map(),
-      inductorCurrents: new Map(),
-    };
-
-    // 設定初始條件 (假設所有初始值為 0)
-    for (const comp of components) {
-      if (comp.type === 'capacitor') {
-        componentState.capacitorVoltages.set(comp.id, 0);
-      } else if (comp.type === 'inductor') {
-        componentState.inductorCurrents.set(comp.id, 0);
-      }
-    }
-
-    // 二極體狀態
-    const diodeStates = new Map<string, boolean>();
-    for (const stamp of enhancedStamps) {
-      if (stamp.type === 'diode' || stamp.type === 'led') {
-        diodeStates.set(stamp.componentId, false);
-      }
-    }
+    // 元件狀態 (電容電壓、電感電流、非線性元件工作點…)，跨時間步保留
+    const componentState = createComponentState();
 
     // 儲存狀態
     this.state = {
@@ -170,12 +192,16 @@ export class StreamingTransientSolver {
       nodeCount,
       vsCount,
       dt,
+      maxIterations: options.maxIterations ?? 20,
+      integrationMethod: options.integrationMethod ?? 'backward-euler',
       componentState,
-      diodeStates,
-      components,
+      linearSolver: new SparseLUSolver(),
     };
 
-    this.currentTime = 0;
+    // 設定初始條件 (假設所有初始值為 0，電池取初始荷電狀態)
+    this.resetTime();
+    initializeDevices(enhancedStamps, this.createContext(0));
+
     this.initialized = true;
 
     return {
@@ -196,37 +222,58 @@ export class StreamingTransientSolver {
     }
 
     const points: StreamingPoint[] = [];
-    const { stamps, nodeCount, vsCount, dt, componentState, diodeStates, graph } = this.state;
+    const { stamps, dt, componentState } = this.state;
+    // 與斷點的距離小於此值時視為重合 (吸收時間累加的浮點誤差)
+    const breakpointTolerance = dt * 1e-6;
 
     for (let i = 0; i < batchSize; i++) {
+      // 下一個斷點早於 (或重合於) 下一個格點時，本步恰好落在斷點上；
+      // 起點 t = 0 與暫態分析相同，不視為斷點
+      const breakpoint = getNextBreakpoint(stamps, Math.max(this.previousTime, 0) + breakpointTolerance);
+      const atBreakpoint = breakpoint <= this.currentTime + breakpointTolerance;
+      const time = atBreakpoint ? breakpoint : this.currentTime;
+      // 格點之間維持精確的 dt
+      const step = Math.abs(time - this.previousTime - dt) <= breakpointTolerance ? dt : time - this.previousTime;
+
       // 在此時間點求解
-      const result = this.solveAtTime(
-        this.currentTime,
-        dt,
-        stamps,
-        nodeCount,
-        vsCount,
-        componentState,
-        diodeStates,
-        graph
-      );
+      const ctx = this.createContext(time, step, atBreakpoint);
+      const result = this.solveAtTime(ctx);
 
       if (!result.success) {
         // 求解失敗，返回已計算的點
         break;
       }
 
-      points.push({
-        time: this.currentTime,
+      const point: StreamingPoint = {
+        time,
         nodeVoltages: result.nodeVoltages,
         branchCurrents: result.branchCurrents,
-      });
+        stateOfCharge: new Map(componentState.batteryStateOfCharge),
+        relayEnergized: new Map(componentState.relayEnergized),
+        fuseBlownAt: new Map(componentState.fuseBlownAt),
+        motorSpeed: new Map(),
+        motorTorque: new Map(),
+      };
 
       // 更新動態元件狀態
-      this.updateComponentState(componentState, result.nodeVoltages, result.branchCurrents, stamps);
+      updateDeviceStates(result.x, stamps, ctx, result.branchCurrents);
+
+      // 馬達轉速於狀態更新時由本時間步的電樞電流求得
+      for (const stamp of stamps) {
+        if (!isMotor(stamp.type)) continue;
+        const current = result.branchCurrents.get(stamp.componentId) ?? 0;
+        point.motorSpeed.set(stamp.componentId, componentState.motorSpeed.get(stamp.componentId) ?? 0);
+        point.motorTorque.set(stamp.componentId, getMotorTorque(stamp, current));
+      }
+      points.push(point);
+
+      // 於斷點重新起始積分
+      if (atBreakpoint) restartIntegration(componentState);
 
-      // 推進時間
-      this.currentTime += dt;
+      // 推進時間 (落在格點之前的斷點不消耗格點)
+      if (time >= this.currentTime - breakpointTolerance) this.currentTime += dt;
+      this.previousDt = step;
+      this.previousTime = time;
     }
 
     return points;
@@ -252,23 +299,46 @@ export class StreamingTransientSolver {
   public reset(): void {
     if (!this.state) return;
 
-    this.currentTime = 0;
+    this.resetTime();
 
-    // 重置動態元件狀態
-    for (const comp of this.state.components) {
-      if (comp.type === 'capacitor') {
-        this.state.componentState.capacitorVoltages.set(comp.id, 0);
-      } else if (comp.type === 'inductor') {
-        this.state.componentState.inductorCurrents.set(comp.id, 0);
-      }
+    // 清除所有元件狀態後重設初始條件
+    // (熔斷的保險絲僅在重置時復原、燈絲回到冷態、非線性元件回到初始工作點)
+    for (const map of Object.values(this.state.componentState) as Map<string, unknown>[]) {
+      map.clear();
     }
+    initializeDevices(this.state.stamps, this.createContext(0));
+  }
 
-    // 重置二極體狀態
-    for (const stamp of this.state.stamps) {
-      if (stamp.type === 'diode' || stamp.type === 'led') {
-        this.state.diodeStates.set(stamp.componentId, false);
-      }
-    }
+  /**
+   * 就地調整電位器滑臂位置 (不重置模擬時間與動態元件狀態)
+   * @returns 是否找到對應的電位器
+   */
+  public retunePotentiometer(component: CircuitComponent): boolean {
+    if (!this.state) return false;
+    return retunePotentiometerStamps(this.state.stamps, component);
+  }
+
+  /**
+   * 就地更新開關類元件的接點狀態 (切換開關、按住 / 放開按鈕)
+   * 不重建電路圖，下一個時間步即以新接點狀態組裝矩陣
+   * @returns 是否找到對應的開關印記
+   */
+  public retuneSwitch(component: CircuitComponent): boolean {
+    if (!this.state) return false;
+    const found = retuneSwitchStamps(this.state.stamps, component);
+    // 切換為不連續事件：以最後一個已求解的時間點為斷點，下一步重新起始積分
+    if (found) restartIntegration(this.state.componentState);
+    return found;
+  }
+
+  /**
+   * 就地更新熱敏 / 光敏電阻在新模擬環境下的電阻 (調整環境溫度、光照度)
+   * 不重建電路圖，下一個時間步即以新電阻組裝矩陣
+   * @returns 是否有感測元件印記被更新
+   */
+  public retuneEnvironment(components: CircuitComponent[], environment: SimulationEnvironment): boolean {
+    if (!this.state) return false;
+    return retuneSensorStamps(this.state.stamps, components, environment);
   }
 
   /**
@@ -290,308 +360,81 @@ export class StreamingTransientSolver {
   // ========== 私有方法 ==========
 
   /**
-   * 增強 stamps 以包含 AC 源資訊
+   * 時間回到 t = 0 (初始條件視為 t = -dt 的狀態)
    */
-  private enhanceStampsWithACInfo(
-    stamps: ComponentStamp[],
-    components: CircuitComponent[]
-  ): ComponentStamp[] {
-    const componentMap = new Map(components.map(c => [c.id, c]));
-
-    return stamps.map(stamp => {
-      if (stamp.type === 'ac_source') {
-        const comp = componentMap.get(stamp.componentId);
-        return {
-          ...stamp,
-          frequency: comp?.frequency ?? AC_SOURCE_DEFAULTS.frequency,
-          phase: comp?.phase ?? AC_SOURCE_DEFAULTS.phase,
-          waveformType: comp?.waveformType ?? AC_SOURCE_DEFAULTS.waveformType,
-        };
-      }
-      return stamp;
-    });
+  private resetTime(): void {
+    const dt = this.state!.dt;
+    this.currentTime = 0;
+    this.previousTime = -dt;
+    this.previousDt = dt;
+  }
+
+  /**
+   * 建立時間 t 的元件模型上下文 (已切換過的繼電器 / 555 / 比較器每個時間步重新計算)
+   * @param dt 本步步長 (預設為固定步長，落在斷點上時較短)
+   */
+  private createContext(time: number, dt: number = this.state!.dt, atBreakpoint: boolean = false): DeviceContext {
+    const { nodeCount, integrationMethod, componentState } = this.state!;
+    return {
+      analysis: 'transient',
+      nodeCount,
+      time,
+      dt,
+      previousDt: this.previousDt,
+      atBreakpoint,
+      integrationMethod,
+      state: componentState,
+      toggled: new Set(),
+    };
   }
 
   /**
    * 在特定時間點求解
    */
   private solveAtTime(
-    t: number,
-    dt: number,
-    stamps: ComponentStamp[],
-    nodeCount: number,
-    vsCount: number,
-    state: ComponentState,
-    diodeStates: Map<string, boolean>,
-    graph: CircuitGraph
-  ): { success: boolean; nodeVoltages: Map<string, number>; branchCurrents: Map<string, number>; error?: string } {
-    const maxIterations = 20;
+    ctx: DeviceContext
+  ):
+    | { success: true; x: number[]; nodeVoltages: Map<string, number>; branchCurrents: Map<string, number> }
+    | { success: false; error: string } {
+    const { stamps, nodeCount, vsCount, graph, linearSolver, maxIterations } = this.state!;
     let iterations = 0;
     let x: number[] | null = null;
 
     while (iterations < maxIterations) {
       const matrixSize = nodeCount + vsCount;
-      const G = createMatrix(matrixSize);
+      const G = new SparseMatrixBuilder(matrixSize);
       const I = createVector(matrixSize);
 
       // 加入元件印記
-      for (const stamp of stamps) {
-        this.addTransientStamp(G, I, stamp, nodeCount, t, dt, state, diodeStates);
-      }
+      stampDevices(G, I, stamps, ctx);
 
       // 求解
-      x = gaussianElimination(G, I);
+      x = linearSolver.solve(G, I);
 
       if (!x) {
-        return {
-          success: false,
-          nodeVoltages: new Map(),
-          branchCurrents: new Map(),
-          error: '矩陣奇異',
-        };
-      }
-
-      // 檢查二極體狀態收斂
-      let stateChanged = false;
-      for (const stamp of stamps) {
-        if (stamp.type === 'diode' || stamp.type === 'led') {
-          const { componentId, node1Index, node2Index, value, currentVarIndex } = stamp;
-          const isCurrentlyOn = diodeStates.get(componentId) || false;
-
-          const v1 = node1Index >= 0 ? x[node1Index]! : 0;
-          const v2 = node2Index >= 0 ? x[node2Index]! : 0;
-          const vDrop = v1 - v2;
-          const forwardVoltage = value;
-
-          if (isCurrentlyOn) {
-            if (currentVarIndex !== undefined) {
-              const current = x[nodeCount + currentVarIndex]!;
-              if (current < -1e-9) {
-                diodeStates.set(componentId, false);
-                stateChanged = true;
-              }
-            }
-          } else {
-            if (vDrop > forwardVoltage) {
-              diodeStates.set(componentId, true);
-              stateChanged = true;
-            }
-          }
-        }
+        return { success: false, error: '矩陣奇異' };
       }
 
-      if (!stateChanged) {
+      // 檢查非線性元件是否收斂 / 工作區是否需要改變
+      if (!iterateDevices(x, stamps, ctx)) {
         break;
       }
       iterations++;
     }
 
     if (!x) {
-      return {
-        success: false,
-        nodeVoltages: new Map(),
-        branchCurrents: new Map(),
-        error: '求解失敗',
-      };
+      return { success: false, error: '求解失敗' };
     }
 
     // 提取結果
-    const nodeVoltages = this.extractNodeVoltages(x, nodeCount, graph);
-    const branchCurrents = this.extractBranchCurrents(x, stamps, nodeCount, dt, state, diodeStates);
-
     return {
       success: true,
-      nodeVoltages,
-      branchCurrents,
+      x,
+      nodeVoltages: this.extractNodeVoltages(x, nodeCount, graph),
+      branchCurrents: extractDeviceCurrents(x, stamps, ctx),
     };
   }
 
-  /**
-   * 加入瞬態分析的元件印記
-   */
-  private addTransientStamp(
-    G: number[][],
-    I: number[],
-    stamp: ComponentStamp,
-    nodeCount: number,
-    t: number,
-    dt: number,
-    state: ComponentState,
-    diodeStates: Map<string, boolean>
-  ): void {
-    const { type, node1Index, node2Index, value, currentVarIndex } = stamp;
-
-    switch (type) {
-      case 'resistor':
-        this.addResistorStamp(G, node1Index, node2Index, value);
-        break;
-
-      case 'dc_source':
-        if (currentVarIndex !== undefined) {
-          this.addVoltageSourceStamp(G, I, node1Index, node2Index, value, nodeCount + currentVarIndex);
-        }
-        break;
-
-      case 'ac_source': {
-        // AC 源：計算當前時間的瞬時電壓
-        if (currentVarIndex !== undefined) {
-          const frequency = stamp.frequency ?? AC_SOURCE_DEFAULTS.frequency;
-          const phase = stamp.phase ?? AC_SOURCE_DEFAULTS.phase;
-          const waveformType = (stamp.waveformType ?? AC_SOURCE_DEFAULTS.waveformType) as WaveformType;
-          const voltage = generateWaveform(t, value, frequency, phase, waveformType);
-          this.addVoltageSourceStamp(G, I, node1Index, node2Index, voltage, nodeCount + currentVarIndex);
-        }
-        break;
-      }
-
-      case 'capacitor': {
-        // 電容的 Backward Euler 伴隨模型
-        const C = value;
-        const Geq = C / dt;
-        const Vc_prev = state.capacitorVoltages.get(stamp.componentId) ?? 0;
-        const Ieq = Geq * Vc_prev;
-
-        // 加入等效電導
-        this.addResistorStamp(G, node1Index, node2Index, 1 / Geq);
-
-        // 加入等效電流源
-        if (node1Index >= 0 && I[node1Index] !== undefined) I[node1Index]! += Ieq;
-        if (node2Index >= 0 && I[node2Index] !== undefined) I[node2Index]! -= Ieq;
-        break;
-      }
-
-      case 'inductor': {
-        // 電感的 Backward Euler 伴隨模型
-        const L = value;
-        const Req = L / dt;
-        const IL_prev = state.inductorCurrents.get(stamp.componentId) ?? 0;
-        const Veq = Req * IL_prev;
-
-        if (currentVarIndex !== undefined) {
-          this.addVoltageSourceWithResistanceStamp(
-            G, I, node1Index, node2Index, Veq, Req, nodeCount + currentVarIndex
-          );
-        }
-        break;
-      }
-
-      case 'diode':
-      case 'led': {
-        const isOn = diodeStates.get(stamp.componentId) ?? false;
-
-        if (isOn) {
-          if (currentVarIndex !== undefined) {
-            const forwardVoltage = value;
-            const rOn = 0.1;
-            this.addVoltageSourceWithResistanceStamp(
-              G, I, node1Index, node2Index, forwardVoltage, rOn, nodeCount + currentVarIndex
-            );
-          }
-        } else {
-          this.addResistorStamp(G, node1Index, node2Index, 1e9);
-          if (currentVarIndex !== undefined) {
-            const idx = nodeCount + currentVarIndex;
-            G[idx]![idx]! = 1;
-            I[idx] = 0;
-          }
-        }
-        break;
-      }
-
-      case 'switch':
-        // 開關根據 switchClosed 屬性決定導通或斷開
-        if (stamp.switchClosed) {
-          this.addResistorStamp(G, node1Index, node2Index, 0.01); // 10mΩ
-        } else {
-          this.addResistorStamp(G, node1Index, node2Index, 1e12); // 1TΩ
-        }
-        break;
-
-      case 'ammeter':
-        this.addResistorStamp(G, node1Index, node2Index, 0.001);
-        break;
-
-      case 'voltmeter':
-        this.addResistorStamp(G, node1Index, node2Index, 1e12);
-        break;
-
-      default:
-        // 處理邏輯閘：輸出端口視為對地電壓源，輸入端口視為高阻抗
-        if (type.startsWith('logic_')) {
-          const { outputNodeIndex, logicOutputVoltage } = stamp;
-          if (outputNodeIndex !== undefined && currentVarIndex !== undefined) {
-            // 邏輯閘輸出視為對地的電壓源
-            // 輸出電壓由 logicOutputVoltage 決定（HIGH = 5V, LOW = 0V）
-            const voltage = logicOutputVoltage ?? 0;
-            this.addVoltageSourceStamp(G, I, outputNodeIndex, -1, voltage, nodeCount + currentVarIndex);
-          }
-          // 邏輯閘輸入端口 (node1Index, node2Index) 視為高阻抗輸入
-          // 添加對地的高阻抗來避免浮動節點
-          if (node1Index >= 0) {
-            this.addResistorStamp(G, node1Index, -1, 1e12); // 輸入 A 對地 1TΩ
-          }
-          if (node2Index >= 0) {
-            this.addResistorStamp(G, node2Index, -1, 1e12); // 輸入 B 對地 1TΩ
-          }
-        }
-        break;
-    }
-  }
-
-  /**
-   * 加入電阻印記
-   */
-  private addResistorStamp(G: number[][], n1: number, n2: number, resistance: number): void {
-    if (resistance <= 0) return;
-    const g = 1 / resistance;
-
-    if (n1 >= 0) G[n1]![n1]! += g;
-    if (n2 >= 0) G[n2]![n2]! += g;
-    if (n1 >= 0 && n2 >= 0) {
-      G[n1]![n2]! -= g;
-      G[n2]![n1]! -= g;
-    }
-  }
-
-  /**
-   * 加入電壓源印記
-   */
-  private addVoltageSourceStamp(
-    G: number[][],
-    I: number[],
-    n1: number,
-    n2: number,
-    voltage: number,
-    currentVarIndex: number
-  ): void {
-    if (n1 >= 0) G[currentVarIndex]![n1]! += 1;
-    if (n2 >= 0) G[currentVarIndex]![n2]! -= 1;
-    if (n1 >= 0) G[n1]![currentVarIndex]! += 1;
-    if (n2 >= 0) G[n2]![currentVarIndex]! -= 1;
-    I[currentVarIndex] = voltage;
-  }
-
-  /**
-   * 加入帶串聯電阻的電壓源印記
-   */
-  private addVoltageSourceWithResistanceStamp(
-    G: number[][],
-    I: number[],
-    n1: number,
-    n2: number,
-    voltage: number,
-    resistance: number,
-    currentVarIndex: number
-  ): void {
-    if (n1 >= 0) G[currentVarIndex]![n1]! += 1;
-    if (n2 >= 0) G[currentVarIndex]![n2]! -= 1;
-    G[currentVarIndex]![currentVarIndex]! -= resistance;
-    I[currentVarIndex] = voltage;
-
-    if (n1 >= 0) G[n1]![currentVarIndex]! += 1;
-    if (n2 >= 0) G[n2]![currentVarIndex]! -= 1;
-  }
-
   /**
    * 提取節點電壓
    */
@@ -612,136 +455,6 @@ export class StreamingTransientSolver {
     return voltages;
   }
 
-  /**
-   * 提取支路電流
-   */
-  private extractBranchCurrents(
-    x: number[],
-    stamps: ComponentStamp[],
-    nodeCount: number,
-    dt: number,
-    state: ComponentState,
-    diodeStates: Map<string, boolean>
-  ): Map<string, number> {
-    const currents = new Map<string, number>();
-    const nodeVoltages = x.slice(0, nodeCount);
-
-    for (const stamp of stamps) {
-      const { componentId, type, node1Index, node2Index, value, currentVarIndex } = stamp;
-
-      switch (type) {
-        case 'resistor':
-        case 'voltmeter': {
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          const resistance = type === 'voltmeter' ? 1e12 : value;
-          currents.set(componentId, (v1 - v2) / resistance);
-          break;
-        }
-
-        case 'capacitor': {
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          const Vc = v1 - v2;
-          const Vc_prev = state.capacitorVoltages.get(componentId) ?? 0;
-          const C = value;
-          currents.set(componentId, C * (Vc - Vc_prev) / dt);
-          break;
-        }
-
-        case 'diode':
-        case 'led': {
-          const isOn = diodeStates?.get(componentId) ?? false;
-          if (isOn && currentVarIndex !== undefined) {
-            currents.set(componentId, x[nodeCount + currentVarIndex]!);
-          } else {
-            const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-            const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-            currents.set(componentId, (v1 - v2) / 1e9);
-          }
-          break;
-        }
-
-        case 'switch': {
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          const resistance = stamp.switchClosed ? 0.01 : 1e12;
-          currents.set(componentId, (v1 - v2) / resistance);
-          break;
-        }
-
-        case 'ammeter': {
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          currents.set(componentId, (v1 - v2) / 0.001);
-          break;
-        }
-
-        case 'dc_source':
-        case 'ac_source':
-        case 'inductor': {
-          if (currentVarIndex !== undefined) {
-            currents.set(componentId, x[nodeCount + currentVarIndex]!);
-          }
-          break;
-        }
-
-        default: {
-          // 處理邏輯閘：輸出電流從電流變數讀取
-          if (type.startsWith('logic_')) {
-            if (currentVarIndex !== undefined) {
-              currents.set(componentId, x[nodeCount + currentVarIndex]!);
-            }
-          }
-          break;
-        }
-      }
-    }
-
-    return currents;
-  }
-
-  /**
-   * 更新動態元件狀態
-   */
-  private updateComponentState(
-    state: ComponentState,
-    nodeVoltages: Map<string, number>,
-    branchCurrents: Map<string, number>,
-    stamps: ComponentStamp[]
-  ): void {
-    for (const stamp of stamps) {
-      if (stamp.type === 'capacitor') {
-        // 更新電容電壓：透過節點電壓差計算
-        const v1 = this.getNodeVoltageByIndex(nodeVoltages, stamp.node1Index);
-        const v2 = this.getNodeVoltageByIndex(nodeVoltages, stamp.node2Index);
-        state.capacitorVoltages.set(stamp.componentId, v1 - v2);
-      } else if (stamp.type === 'inductor') {
-        // 更新電感電流
-        const current = branchCurrents.get(stamp.componentId) ?? 0;
-        state.inductorCurrents.set(stamp.componentId, current);
-      }
-    }
-  }
-
-  /**
-   * 根據節點索引取得電壓
-   */
-  private getNodeVoltageByIndex(nodeVoltages: Map<string, number>, nodeIndex: number): number {
-    if (nodeIndex < 0) return 0; // 接地
-
-    // 從 nodeVoltages map 中查找對應的電壓
-    // 由於 nodeVoltages 是用 nodeId 作為 key，我們需要透過 graph 找到對應的 nodeId
-    if (this.state) {
-      for (const [nodeId, node] of this.state.graph.getNodes()) {
-        if (!node.isGround && this.state.graph.getNodeIndex(nodeId) === nodeIndex) {
-          return nodeVoltages.get(nodeId) ?? 0;
-        }
-      }
-    }
-    return 0;
-  }
-
   /**
    * 驗證電路
    */
@@ -768,12 +481,18 @@ export class StreamingTransientSolver {
     }
 
     const hasPowerSource = components.some(
-      c => c.type === 'dc_source' || c.type === 'ac_source'
+      c => c.type === 'dc_source' || isBattery(c.type) || c.type === 'ac_source' || isCurrentSource(c.type)
     );
     if (!hasPowerSource) {
       return { valid: false, error: '電路缺少電源（DC/AC Source）' };
     }
 
+    // 檢查受控源的控制元件設定
+    const controlledSourceError = validateControlledSources(components);
+    if (controlledSourceError) {
+      return { valid: false, error: controlledSourceError };
+    }
+
     if (wires.length === 0) {
       return { valid: false, error: '電路元件未連接（無導線）' };
     }
@@ -799,7 +518,12 @@ export class StreamingTransientSolver {
       componentMap.set(comp.id, comp);
     }
 
-    const openSwitches = components.filter(c => c.type === 'switch' && !c.switchClosed);
+    // 按鈕與 SPDT / DPDT 可在串流中即時按下 / 切換，其斷開的接點視為可連通；
+    // 否則僅經由未按下按鈕的迴圈永遠無法啟動串流
+    const isLiveSwitchable = (type: string) => isPushButton(type) || isThrowSwitch(type);
+    const openSwitches = components.filter(
+      c => isSwitch(c.type) && !isLiveSwitchable(c.type) && getSwitchContacts(c).some(contact => !contact.closed)
+    );
     if (openSwitches.length === 0) {
       return { valid: true };
     }
@@ -819,10 +543,19 @@ export class StreamingTransientSolver {
     }
 
     for (const comp of components) {
-      // 跳過斷開的開關
-      if (comp.type === 'switch' && !comp.switchClosed) continue;
+      // 開關類元件：僅閉合 (或可即時操作) 的接點兩端連通
+      if (isSwitch(comp.type)) {
+        for (const contact of getSwitchContacts(comp)) {
+          const a = comp.ports[contact.from];
+          const b = comp.ports[contact.to];
+          if (!(contact.closed || isLiveSwitchable(comp.type)) || !a || !b) continue;
+          adjacency.get(`${comp.id}:${a.id}`)?.add(`${comp.id}:${b.id}`);
+          adjacency.get(`${comp.id}:${b.id}`)?.add(`${comp.id}:${a.id}`);
+        }
+        continue;
+      }
       // 跳過電源 - 電流不能直接從正極流到負極（內部）
-      if (comp.type === 'dc_source' || comp.type === 'ac_source') continue;
+      if (comp.type === 'dc_source' || isBattery(comp.type) || comp.type === 'ac_source' || isCurrentSource(comp.type)) continue;
       if (comp.ports.length >= 2) {
         const ports = comp.ports.map(p => `${comp.id}:${p.id}`);
         for (let i = 0; i < ports.length; i++) {
@@ -834,7 +567,9 @@ export class StreamingTransientSolver {
       }
     }
 
-    const powerSources = components.filter(c => c.type === 'dc_source' || c.type === 'ac_source');
+    const powerSources = components.filter(
+      c => c.type === 'dc_source' || isBattery(c.type) || c.type === 'ac_source' || isCurrentSource(c.type)
+    );
     for (const source of powerSources) {
       if (source.ports.length < 2) continue;
       const positivePortKey = `${source.id}:${source.ports[0]!.id}`;
@@ -0,0 +1,230 @@
+/**
+ * SwitchModel.ts - 開關類元件 (SPST 開關、SPDT / DPDT 切換開關、按鈕開關)
+ *
+ * 端點順序 (同 componentDefinitions)：
+ *   switch / push_button_no / push_button_nc：0 端點 1、1 端點 2
+ *   switch_spdt：0 com、1 a、2 b
+ *   switch_dpdt：0 com1、1 a1、2 b1、3 com2、4 a2、5 b2 (兩極連動)
+ *
+ * 每組接點以閉合 / 斷開電阻表示 (SWITCH_DEFAULTS)：
+ *   switch：switchClosed 為 true 時閉合
+ *   switch_spdt / switch_dpdt：switchThrow = 0 時 com-a 閉合，= 1 時 com-b 閉合
+ *   push_button_no：按下 (buttonPressed) 時閉合；push_button_nc：按下時斷開
+ *
+ * 支路電流方向為 com → 接點 (SPST 為端點 1 → 端點 2)，
+ * DPDT 第二極的電流以 getSwitchPoleId() 為 ID 回報。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { SWITCH_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { voltageReader, voltageReaderAC, type DeviceModel } from './DeviceModel';
+
+/**
+ * 決定接點狀態所需的開關屬性 (CircuitComponent 與 ComponentStamp 皆適用)
+ */
+export interface SwitchState {
+  type: string;
+  switchClosed?: boolean;
+  switchThrow?: number;
+  buttonPressed?: boolean;
+}
+
+/**
+ * 一組接點：兩端點索引與是否閉合
+ */
+export interface SwitchContact {
+  /** 共點 (電流流出端) 的端點索引 */
+  from: number;
+  /** 接點 (電流流入端) 的端點索引 */
+  to: number;
+  closed: boolean;
+}
+
+const SWITCH_TYPES: ReadonlySet<string> = new Set([
+  'switch',
+  'switch_spdt',
+  'switch_dpdt',
+  'push_button_no',
+  'push_button_nc',
+]);
+
+/**
+ * 是否為開關類元件
+ */
+export function isSwitch(type: string): boolean {
+  return SWITCH_TYPES.has(type);
+}
+
+/**
+ * 是否為按鈕開關 (僅在滑鼠按住時改變狀態)
+ */
+export function isPushButton(type: string): boolean {
+  return type === 'push_button_no' || type === 'push_button_nc';
+}
+
+/**
+ * 是否為切換開關 (SPDT / DPDT)
+ */
+export function isThrowSwitch(type: string): boolean {
+  return type === 'switch_spdt' || type === 'switch_dpdt';
+}
+
+/**
+ * DPDT 第二極在支路電流表中的 ID (第一極使用元件 ID)
+ */
+export function getSwitchPoleId(componentId: string): string {
+  return `${componentId}:pole2`;
+}
+
+/**
+ * 依開關類型與狀態列出所有接點
+ */
+export function getSwitchContacts(state: SwitchState): SwitchContact[] {
+  const throwB = (state.switchThrow ?? 0) === 1;
+
+  switch (state.type) {
+    case 'switch_spdt':
+      return [
+        { from: 0, to: 1, closed: !throwB },
+        { from: 0, to: 2, closed: throwB },
+      ];
+    case 'switch_dpdt':
+      return [
+        { from: 0, to: 1, closed: !throwB },
+        { from: 0, to: 2, closed: throwB },
+        { from: 3, to: 4, closed: !throwB },
+        { from: 3, to: 5, closed: throwB },
+      ];
+    case 'push_button_no':
+      return [{ from: 0, to: 1, closed: state.buttonPressed ?? false }];
+    case 'push_button_nc':
+      return [{ from: 0, to: 1, closed: !(state.buttonPressed ?? false) }];
+    default:
+      return [{ from: 0, to: 1, closed: state.switchClosed ?? false }];
+  }
+}
+
+/**
+ * 接點電阻 (Ω)
+ */
+function getContactResistance(contact: SwitchContact): number {
+  return contact.closed ? SWITCH_DEFAULTS.closedResistance : SWITCH_DEFAULTS.openResistance;
+}
+
+/**
+ * 取得端點的節點索引 (兩端元件的 nodeIndices 可能未設定)
+ */
+function getPortNode(stamp: ComponentStamp, port: number): number {
+  if (port === 0) return stamp.nodeIndices?.[0] ?? stamp.node1Index;
+  if (port === 1) return stamp.nodeIndices?.[1] ?? stamp.node2Index;
+  return stamp.nodeIndices?.[port] ?? -1;
+}
+
+/**
+ * 以共用的矩陣加法加入所有接點電導 (實數 / 複數矩陣共用)
+ */
+function stampSwitchEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp
+): void {
+  for (const contact of getSwitchContacts(stamp)) {
+    const n1 = getPortNode(stamp, contact.from);
+    const n2 = getPortNode(stamp, contact.to);
+    const g = 1 / getContactResistance(contact);
+    if (n1 >= 0) add(n1, n1, g);
+    if (n2 >= 0) add(n2, n2, g);
+    if (n1 >= 0 && n2 >= 0) {
+      add(n1, n2, -g);
+      add(n2, n1, -g);
+    }
+  }
+}
+
+/**
+ * 加入開關印記 (DC / 瞬態)
+ */
+export function stampSwitch(G: SparseMatrixBuilder, stamp: ComponentStamp): void {
+  stampSwitchEntries((row, col, value) => G.add(row, col, value), stamp);
+}
+
+/**
+ * 加入開關印記 (AC 掃頻)
+ */
+export function stampSwitchAC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp): void {
+  stampSwitchEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp);
+}
+
+/**
+ * 由節點電壓計算各極的支路電流 (com → 接點)
+ * @returns [ID, 電流] 列表：第一極為元件 ID，DPDT 第二極為 getSwitchPoleId()
+ */
+export function getSwitchCurrents(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => number
+): Array<[string, number]> {
+  const poles = new Map<number, number>();
+  for (const contact of getSwitchContacts(stamp)) {
+    const v1 = voltageAt(getPortNode(stamp, contact.from));
+    const v2 = voltageAt(getPortNode(stamp, contact.to));
+    const current = (v1 - v2) / getContactResistance(contact);
+    poles.set(contact.from, (poles.get(contact.from) ?? 0) + current);
+  }
+
+  return [...poles.entries()].map(([from, current]) => [
+    from === 0 ? stamp.componentId : getSwitchPoleId(stamp.componentId),
+    current,
+  ]);
+}
+
+/**
+ * 由節點電壓相量計算各極的支路電流相量
+ * 接點電阻為實數，實部與虛部可分別以 getSwitchCurrents() 計算
+ */
+export function getSwitchCurrentsAC(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => Complex
+): Array<[string, Complex]> {
+  const re = getSwitchCurrents(stamp, node => voltageAt(node).re);
+  const im = getSwitchCurrents(stamp, node => voltageAt(node).im);
+  return re.map(([id, current], i) => [id, complex(current, im[i]![1])]);
+}
+
+/**
+ * 依元件目前的開關狀態就地更新印記 (串流模擬中切換開關 / 按住按鈕用)
+ * @returns 是否找到對應的印記
+ */
+export function retuneSwitchStamps(stamps: ComponentStamp[], comp: CircuitComponent): boolean {
+  const stamp = stamps.find(s => s.componentId === comp.id);
+  if (!stamp) return false;
+
+  stamp.switchClosed = comp.switchClosed ?? false;
+  stamp.switchThrow = comp.switchThrow ?? 0;
+  stamp.buttonPressed = comp.buttonPressed ?? false;
+  return true;
+}
+
+/**
+ * 開關類元件模型 (SPST / SPDT / DPDT / 按鈕)：閉合接點 10mΩ、斷開接點 1TΩ
+ */
+export const switchDevice: DeviceModel = {
+  stampDC(G, _I, stamp) {
+    stampSwitch(G, stamp);
+  },
+  stampAC(G, _I, stamp) {
+    stampSwitchAC(G, stamp);
+  },
+  current(x, stamp, _ctx, currents) {
+    for (const [id, current] of getSwitchCurrents(stamp, voltageReader(x))) {
+      currents.set(id, current);
+    }
+  },
+  currentAC(x, stamp, _ctx, currents) {
+    for (const [id, current] of getSwitchCurrentsAC(stamp, voltageReaderAC(x))) {
+      currents.set(id, current);
+    }
+  },
+};
@@ -0,0 +1,214 @@
+/**
+ * Timer555Model.ts - 555 計時器 (內部分壓、比較器、SR 正反器、放電電晶體)
+ *
+ * 端點順序 (同 componentDefinitions，依 IC 腳位 1 ~ 8)：
+ *   0 GND、1 TRIG、2 OUT、3 RESET、4 CTRL、5 THR、6 DIS、7 VCC
+ *
+ * 內部分壓：VCC-CTRL 為 R、CTRL-GND 為 2R (TIMER555_DEFAULTS)，
+ * 未外接時 CTRL = 2/3 VCC；比較器門檻 (相對 GND 腳)：
+ *   上門檻 V_th = V_CTRL        (THR 比較器，預設 2/3 VCC)
+ *   下門檻 V_tl = V_CTRL / 2    (TRIG 比較器，預設 1/3 VCC)
+ * 正反器 Q 的更新規則 (優先順序由高至低)：
+ *   RESET < resetThreshold → Q = 0
+ *   TRIG < V_tl            → Q = 1
+ *   THR > V_th             → Q = 0
+ *   其餘                    → 維持
+ * 輸出級：Q = 1 時 OUT 經 R_out 接至 (VCC - outputHighDrop)，Q = 0 時 OUT 經 R_out 接至 GND
+ *   (高電位以 VCC-OUT 電導加上定電流 g_out·drop 表示，不需額外電流變數)
+ * 放電：Q = 0 時 DIS-GND 導通 (dischargeResistance)，否則截止
+ * 輸入：TRIG、THR 經 inputResistance 接 GND，RESET 經 inputResistance 接 VCC (空接時不重置)
+ *
+ * Q 由求解器於非線性迭代中更新，改變時重新組裝矩陣；瞬態分析自 Q = 0 開始。
+ */
+
+import type { ComponentStamp } from './SimulationTypes';
+import { TIMER555_DEFAULTS } from '@/config/componentDefinitions';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { voltageReader, voltageReaderAC, type DeviceModel } from './DeviceModel';
+
+/**
+ * 是否為 555 計時器
+ */
+export function isTimer555(type: string): boolean {
+  return type === 'timer555';
+}
+
+/**
+ * 取得各腳位的節點索引
+ */
+function getTimer555Nodes(stamp: ComponentStamp): {
+  gnd: number;
+  trig: number;
+  out: number;
+  reset: number;
+  ctrl: number;
+  thr: number;
+  dis: number;
+  vcc: number;
+} {
+  const nodeIndices = stamp.nodeIndices ?? [];
+  return {
+    gnd: nodeIndices[0] ?? stamp.node1Index,
+    trig: nodeIndices[1] ?? stamp.node2Index,
+    out: nodeIndices[2] ?? -1,
+    reset: nodeIndices[3] ?? -1,
+    ctrl: nodeIndices[4] ?? -1,
+    thr: nodeIndices[5] ?? -1,
+    dis: nodeIndices[6] ?? -1,
+    vcc: nodeIndices[7] ?? -1,
+  };
+}
+
+/**
+ * 以共用的矩陣加法加入分壓、輸入、輸出級與放電電導 (實數 / 複數矩陣共用)
+ */
+function stampTimer555Entries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  latched: boolean
+): void {
+  const { gnd, trig, out, reset, ctrl, thr, dis, vcc } = getTimer555Nodes(stamp);
+  const conductance = (a: number, b: number, g: number): void => {
+    if (a >= 0) add(a, a, g);
+    if (b >= 0) add(b, b, g);
+    if (a >= 0 && b >= 0) {
+      add(a, b, -g);
+      add(b, a, -g);
+    }
+  };
+
+  // 內部分壓 R / 2R
+  const gDivider = 1 / TIMER555_DEFAULTS.dividerResistance;
+  conductance(vcc, ctrl, gDivider);
+  conductance(ctrl, gnd, gDivider / 2);
+
+  // 比較器與重置輸入
+  const gInput = 1 / TIMER555_DEFAULTS.inputResistance;
+  conductance(trig, gnd, gInput);
+  conductance(thr, gnd, gInput);
+  conductance(reset, vcc, gInput);
+
+  // 輸出級：高電位接 VCC 側，低電位接 GND 側
+  const gOut = 1 / TIMER555_DEFAULTS.outputResistance;
+  conductance(out, latched ? vcc : gnd, gOut);
+
+  // 放電電晶體
+  conductance(dis, gnd, 1 / (latched ? TIMER555_DEFAULTS.openResistance : TIMER555_DEFAULTS.dischargeResistance));
+}
+
+/**
+ * 加入 555 計時器印記 (DC / 瞬態)
+ * @param latched 正反器 Q 目前的狀態
+ */
+export function stampTimer555(G: SparseMatrixBuilder, I: number[], stamp: ComponentStamp, latched: boolean): void {
+  stampTimer555Entries((row, col, value) => G.add(row, col, value), stamp, latched);
+  if (!latched) return;
+
+  // 輸出高電位的壓降：定電流 g_out·drop 由 OUT 經內部流回 VCC
+  const { out, vcc } = getTimer555Nodes(stamp);
+  const dropCurrent = TIMER555_DEFAULTS.outputHighDrop / TIMER555_DEFAULTS.outputResistance;
+  if (vcc >= 0) I[vcc]! += dropCurrent;
+  if (out >= 0) I[out]! -= dropCurrent;
+}
+
+/**
+ * 加入 555 計時器印記 (AC 掃頻)：Q 維持 DC 工作點的狀態，輸出壓降為定值不產生小訊號
+ */
+export function stampTimer555AC(G: ComplexSparseMatrixBuilder, stamp: ComponentStamp, latched: boolean): void {
+  stampTimer555Entries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, latched);
+}
+
+/**
+ * 依比較器與重置輸入決定正反器 Q 的下一個狀態
+ * @param voltageAt 由節點索引取得電壓 (接地為 0)
+ */
+export function updateTimer555State(
+  stamp: ComponentStamp,
+  latched: boolean,
+  voltageAt: (node: number) => number
+): boolean {
+  const { gnd, trig, reset, ctrl, thr } = getTimer555Nodes(stamp);
+  const vGnd = voltageAt(gnd);
+  const upperThreshold = voltageAt(ctrl) - vGnd;
+  const lowerThreshold = upperThreshold / 2;
+
+  if (voltageAt(reset) - vGnd < TIMER555_DEFAULTS.resetThreshold) return false;
+  if (voltageAt(trig) - vGnd < lowerThreshold) return true;
+  if (voltageAt(thr) - vGnd > upperThreshold) return false;
+  return latched;
+}
+
+/**
+ * 由 DC 工作點還原正反器狀態 (AC 掃頻用)
+ * 正反器具記憶，無法僅由比較器輸入判斷，改以 OUT 是否高於 VCC 的一半判斷
+ */
+export function getTimer555OperatingState(stamp: ComponentStamp, voltageAt: (node: number) => number): boolean {
+  const { gnd, out, vcc } = getTimer555Nodes(stamp);
+  const vGnd = voltageAt(gnd);
+  return voltageAt(out) - vGnd > (voltageAt(vcc) - vGnd) / 2;
+}
+
+/**
+ * 由節點電壓計算 OUT 腳流出至外部電路的電流 (負值為灌入)
+ */
+export function getTimer555OutputCurrent(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => number,
+  latched: boolean
+): number {
+  const { gnd, out, vcc } = getTimer555Nodes(stamp);
+  const source = latched ? voltageAt(vcc) - TIMER555_DEFAULTS.outputHighDrop : voltageAt(gnd);
+  return (source - voltageAt(out)) / TIMER555_DEFAULTS.outputResistance;
+}
+
+/**
+ * 由節點電壓相量計算 OUT 腳的輸出電流相量 (輸出壓降不含小訊號成分)
+ */
+export function getTimer555OutputCurrentAC(
+  stamp: ComponentStamp,
+  voltageAt: (node: number) => Complex,
+  latched: boolean
+): Complex {
+  const { gnd, out, vcc } = getTimer555Nodes(stamp);
+  const source = voltageAt(latched ? vcc : gnd);
+  const vOut = voltageAt(out);
+  const gOut = 1 / TIMER555_DEFAULTS.outputResistance;
+  return complex((source.re - vOut.re) * gOut, (source.im - vOut.im) * gOut);
+}
+
+/**
+ * 555 計時器元件模型：正反器狀態跨時間步保留 (初始為重置)，每輪最多切換一次
+ */
+export const timer555Device: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.timer555Latched.set(stamp.componentId, false);
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampTimer555(G, I, stamp, ctx.state.timer555Latched.get(stamp.componentId) ?? false);
+  },
+  stampAC(G, _I, stamp, ctx) {
+    stampTimer555AC(G, stamp, ctx.state.timer555Latched.get(stamp.componentId) ?? false);
+  },
+  iterate(x, stamp, ctx) {
+    if (ctx.toggled.has(stamp.componentId)) return false;
+    const latched = ctx.state.timer555Latched.get(stamp.componentId) ?? false;
+    const next = updateTimer555State(stamp, latched, voltageReader(x));
+    if (next === latched) return false;
+    ctx.state.timer555Latched.set(stamp.componentId, next);
+    ctx.toggled.add(stamp.componentId);
+    return true;
+  },
+  current(x, stamp, ctx, currents) {
+    const latched = ctx.state.timer555Latched.get(stamp.componentId) ?? false;
+    currents.set(stamp.componentId, getTimer555OutputCurrent(stamp, voltageReader(x), latched));
+  },
+  currentAC(x, stamp, ctx, currents) {
+    const latched = ctx.state.timer555Latched.get(stamp.componentId) ?? false;
+    currents.set(stamp.componentId, getTimer555OutputCurrentAC(stamp, voltageReaderAC(x), latched));
+  },
+  linearize(stamp, dc, state) {
+    state.timer555Latched.set(stamp.componentId, getTimer555OperatingState(stamp, voltageReader(dc.x)));
+  },
+};
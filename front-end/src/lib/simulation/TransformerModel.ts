@@ -0,0 +1,335 @@
+/**
+ * TransformerModel.ts - 變壓器 (耦合電感 / 理想變壓器)
+ *
+ * 端點順序 (同 componentDefinitions)：
+ *   0 p1 (一次側同名端)、1 p2、2 s1 (二次側同名端)、3 s2
+ *
+ * 繞組電流 i1 / i2 分別為 p1 → p2、s1 → s2 流經繞組的電流 (兩個額外電流變數)。
+ *
+ * 模型說明 (value = 匝數比 n = N1 / N2)：
+ *   非理想 (耦合電感)：
+ *     v1 = L1·di1/dt + M·di2/dt
+ *     v2 = M·di1/dt + L2·di2/dt，M = k·√(L1·L2)
+ *     L2 未設定時取 L1 / n²
+ *     瞬態以磁通鏈 λ1 = L1·i1 + M·i2、λ2 = M·i1 + L2·i2 套用與電感相同的積分法
+ *   理想：
+ *     v1 = n·v2，n·i1 + i2 = 0 (功率守恆，DC 亦可耦合)
+ *
+ * 一、二次側之間沒有電氣連接；二次側兩端各以 GMIN 接地，
+ * 避免二次側電路未接地時 MNA 矩陣奇異。
+ */
+
+import type { CircuitComponent } from '@/types/circuit';
+import type { ComponentStamp } from './SimulationTypes';
+import { TRANSFORMER_DEFAULTS } from '@/config/componentDefinitions';
+import { GMIN } from './SemiconductorUtils';
+import type { SparseMatrixBuilder } from './Matrix';
+import type { ComplexSparseMatrixBuilder } from './ComplexMatrix';
+import { complex, type Complex } from './Complex';
+import { voltageReader, type DeviceModel } from './DeviceModel';
+import { getInductiveIntegration, recordInductiveHistory, type InductiveIntegration } from './PassiveModel';
+
+/**
+ * 變壓器模型參數
+ */
+export interface TransformerParams {
+  /** 匝數比 n = N1 / N2 */
+  turnsRatio: number;
+  /** 一次側電感 L1 (H) */
+  primaryInductance: number;
+  /** 二次側電感 L2 (H) */
+  secondaryInductance: number;
+  /** 耦合係數 k (0 ~ 1) */
+  couplingCoefficient: number;
+  /** 是否為理想變壓器 */
+  ideal: boolean;
+}
+
+/**
+ * 上一時間步的繞組電流 (瞬態伴隨模型用)
+ */
+export interface TransformerCurrents {
+  primary: number;
+  secondary: number;
+}
+
+/**
+ * 是否為變壓器
+ */
+export function isTransformer(type: string): boolean {
+  return type === 'transformer';
+}
+
+/**
+ * 二次側繞組電流在支路電流表中的鍵值 (一次側電流使用元件 ID)
+ */
+export function getTransformerSecondaryKey(componentId: string): string {
+  return `${componentId}:secondary`;
+}
+
+/**
+ * 由元件屬性取得變壓器參數 (未設定時取預設值)
+ */
+export function getTransformerParams(comp: CircuitComponent): TransformerParams {
+  const turnsRatio = comp.value && comp.value > 0 ? comp.value : TRANSFORMER_DEFAULTS.turnsRatio;
+  const primaryInductance = comp.primaryInductance ?? TRANSFORMER_DEFAULTS.primaryInductance;
+  const secondaryInductance = comp.secondaryInductance ?? primaryInductance / (turnsRatio * turnsRatio);
+  const couplingCoefficient = Math.min(
+    1,
+    Math.max(0, comp.couplingCoefficient ?? TRANSFORMER_DEFAULTS.couplingCoefficient)
+  );
+
+  return {
+    turnsRatio,
+    primaryInductance,
+    secondaryInductance,
+    couplingCoefficient,
+    ideal: comp.transformerIdeal ?? false,
+  };
+}
+
+/**
+ * 互感 M = k·√(L1·L2)
+ */
+function mutualInductance(stamp: ComponentStamp): number {
+  const L1 = stamp.primaryInductance ?? TRANSFORMER_DEFAULTS.primaryInductance;
+  const L2 = stamp.secondaryInductance ?? L1;
+  return (stamp.couplingCoefficient ?? TRANSFORMER_DEFAULTS.couplingCoefficient) * Math.sqrt(L1 * L2);
+}
+
+/**
+ * 取得一、二次側端點與電流變數列
+ */
+function getTransformerNodes(stamp: ComponentStamp, nodeCount: number): {
+  p1: number;
+  p2: number;
+  s1: number;
+  s2: number;
+  row1: number;
+  row2: number;
+} {
+  const nodeIndices = stamp.nodeIndices ?? [];
+  return {
+    p1: stamp.node1Index,
+    p2: stamp.node2Index,
+    s1: nodeIndices[2] ?? -1,
+    s2: nodeIndices[3] ?? -1,
+    row1: stamp.currentVarIndex !== undefined ? nodeCount + stamp.currentVarIndex : -1,
+    row2: stamp.secondaryCurrentVarIndex !== undefined ? nodeCount + stamp.secondaryCurrentVarIndex : -1,
+  };
+}
+
+/**
+ * 以共用的矩陣加法加入繞組的 KCL 與理想變壓器關係 (實數 / 複數矩陣共用)
+ * 非理想模型只加入繞組端電壓項，阻抗項由呼叫端依分析類型補上
+ */
+function stampTransformerEntries(
+  add: (row: number, col: number, value: number) => void,
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  const { p1, p2, s1, s2, row1, row2 } = getTransformerNodes(stamp, nodeCount);
+  if (row1 < 0 || row2 < 0) return;
+
+  // KCL：繞組電流由 p1 流向 p2、s1 流向 s2
+  if (p1 >= 0) add(p1, row1, 1);
+  if (p2 >= 0) add(p2, row1, -1);
+  if (s1 >= 0) add(s1, row2, 1);
+  if (s2 >= 0) add(s2, row2, -1);
+
+  // 二次側 GMIN 接地
+  if (s1 >= 0) add(s1, s1, GMIN);
+  if (s2 >= 0) add(s2, s2, GMIN);
+
+  if (stamp.transformerIdeal) {
+    // v1 - n·v2 = 0
+    const n = stamp.value;
+    if (p1 >= 0) add(row1, p1, 1);
+    if (p2 >= 0) add(row1, p2, -1);
+    if (s1 >= 0) add(row1, s1, -n);
+    if (s2 >= 0) add(row1, s2, n);
+    // n·i1 + i2 = 0
+    add(row2, row1, n);
+    add(row2, row2, 1);
+    return;
+  }
+
+  // 繞組端電壓 v1 / v2 (v - Z·i = V_eq)
+  if (p1 >= 0) add(row1, p1, 1);
+  if (p2 >= 0) add(row1, p2, -1);
+  if (s1 >= 0) add(row2, s1, 1);
+  if (s2 >= 0) add(row2, s2, -1);
+}
+
+/**
+ * 加入變壓器印記 (DC)
+ * 非理想變壓器的兩個繞組於 DC 下皆視為短路
+ */
+export function stampTransformer(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): void {
+  stampTransformerEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount);
+  const { row1, row2 } = getTransformerNodes(stamp, nodeCount);
+  if (row1 >= 0) I[row1] = 0;
+  if (row2 >= 0) I[row2] = 0;
+}
+
+/**
+ * 加入變壓器的伴隨模型 (瞬態)，以磁通鏈 λ 套用積分係數 (見 InductiveIntegration)
+ *   v1 - (α/dt)·λ1(i) = -(β·λ1(i') - γ·λ1(i'')) / dt - δ·v1'
+ *   v2 - (α/dt)·λ2(i) = -(β·λ2(i') - γ·λ2(i'')) / dt - δ·v2'
+ * Backward Euler 時即 v1 - (L1/dt)·i1 - (M/dt)·i2 = -(L1·i1' + M·i2') / dt
+ * @param prev 上一時間步的繞組電流
+ * @param prev2 前兩個時間步的繞組電流 (Gear-2)
+ * @param prevVoltages 上一時間步的繞組端電壓 (梯形法，沿用一、二次側的結構)
+ */
+export function stampTransformerTransient(
+  G: SparseMatrixBuilder,
+  I: number[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  dt: number,
+  prev: TransformerCurrents,
+  prev2: TransformerCurrents,
+  prevVoltages: TransformerCurrents,
+  integration: InductiveIntegration
+): void {
+  if (stamp.transformerIdeal) {
+    stampTransformer(G, I, stamp, nodeCount);
+    return;
+  }
+
+  stampTransformerEntries((row, col, value) => G.add(row, col, value), stamp, nodeCount);
+  const { row1, row2 } = getTransformerNodes(stamp, nodeCount);
+  if (row1 < 0 || row2 < 0) return;
+
+  const L1 = stamp.primaryInductance ?? TRANSFORMER_DEFAULTS.primaryInductance;
+  const L2 = stamp.secondaryInductance ?? L1;
+  const M = mutualInductance(stamp);
+
+  const { alpha, beta, gamma, delta } = integration;
+  const flux1 = (i: TransformerCurrents): number => L1 * i.primary + M * i.secondary;
+  const flux2 = (i: TransformerCurrents): number => M * i.primary + L2 * i.secondary;
+
+  G.add(row1, row1, (-alpha * L1) / dt);
+  G.add(row1, row2, (-alpha * M) / dt);
+  G.add(row2, row1, (-alpha * M) / dt);
+  G.add(row2, row2, (-alpha * L2) / dt);
+  I[row1] = -(beta * flux1(prev) - gamma * flux1(prev2)) / dt - delta * prevVoltages.primary;
+  I[row2] = -(beta * flux2(prev) - gamma * flux2(prev2)) / dt - delta * prevVoltages.secondary;
+}
+
+/**
+ * 加入變壓器印記 (AC 掃頻)
+ *   V1 = jωL1·I1 + jωM·I2，V2 = jωM·I1 + jωL2·I2
+ */
+export function stampTransformerAC(
+  G: ComplexSparseMatrixBuilder,
+  I: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number,
+  omega: number
+): void {
+  stampTransformerEntries((row, col, value) => G.add(row, col, complex(value, 0)), stamp, nodeCount);
+  const { row1, row2 } = getTransformerNodes(stamp, nodeCount);
+  if (row1 < 0 || row2 < 0) return;
+
+  I[row1] = complex(0, 0);
+  I[row2] = complex(0, 0);
+  if (stamp.transformerIdeal) return;
+
+  const L1 = stamp.primaryInductance ?? TRANSFORMER_DEFAULTS.primaryInductance;
+  const L2 = stamp.secondaryInductance ?? L1;
+  const M = mutualInductance(stamp);
+
+  G.add(row1, row1, complex(0, -omega * L1));
+  G.add(row1, row2, complex(0, -omega * M));
+  G.add(row2, row1, complex(0, -omega * M));
+  G.add(row2, row2, complex(0, -omega * L2));
+}
+
+/**
+ * 由解向量取得一、二次側繞組電流
+ */
+export function getTransformerCurrents(
+  x: number[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): TransformerCurrents {
+  const { row1, row2 } = getTransformerNodes(stamp, nodeCount);
+  return {
+    primary: row1 >= 0 ? (x[row1] ?? 0) : 0,
+    secondary: row2 >= 0 ? (x[row2] ?? 0) : 0,
+  };
+}
+
+/**
+ * 由解向量取得一、二次側繞組電流相量
+ */
+export function getTransformerCurrentsAC(
+  x: Complex[],
+  stamp: ComponentStamp,
+  nodeCount: number
+): { primary: Complex; secondary: Complex } {
+  const { row1, row2 } = getTransformerNodes(stamp, nodeCount);
+  const zero = complex(0, 0);
+  return {
+    primary: row1 >= 0 ? (x[row1] ?? zero) : zero,
+    secondary: row2 >= 0 ? (x[row2] ?? zero) : zero,
+  };
+}
+
+/**
+ * 變壓器元件模型：元件電流為一次側繞組電流，二次側另以衍生鍵值記錄
+ */
+export const transformerDevice: DeviceModel = {
+  initialize(stamp, ctx) {
+    ctx.state.inductorCurrents.set(stamp.componentId, 0);
+    ctx.state.inductorCurrents.set(getTransformerSecondaryKey(stamp.componentId), 0);
+  },
+  stampDC(G, I, stamp, ctx) {
+    stampTransformer(G, I, stamp, ctx.nodeCount);
+  },
+  stampTransient(G, I, stamp, ctx) {
+    const { state } = ctx;
+    const secondaryKey = getTransformerSecondaryKey(stamp.componentId);
+    const history = (map: Map<string, number>): TransformerCurrents => ({
+      primary: map.get(stamp.componentId) ?? 0,
+      secondary: map.get(secondaryKey) ?? 0,
+    });
+    stampTransformerTransient(
+      G,
+      I,
+      stamp,
+      ctx.nodeCount,
+      ctx.dt,
+      history(state.inductorCurrents),
+      history(state.previousInductorCurrents),
+      history(state.inductorVoltages),
+      getInductiveIntegration(ctx, stamp.componentId)
+    );
+  },
+  stampAC(G, I, stamp, ctx) {
+    stampTransformerAC(G, I, stamp, ctx.nodeCount, ctx.omega);
+  },
+  current(x, stamp, ctx, currents) {
+    const { primary, secondary } = getTransformerCurrents(x, stamp, ctx.nodeCount);
+    currents.set(stamp.componentId, primary);
+    currents.set(getTransformerSecondaryKey(stamp.componentId), secondary);
+  },
+  currentAC(x, stamp, ctx, currents) {
+    const { primary, secondary } = getTransformerCurrentsAC(x, stamp, ctx.nodeCount);
+    currents.set(stamp.componentId, primary);
+    currents.set(getTransformerSecondaryKey(stamp.componentId), secondary);
+  },
+  updateState(x, stamp, ctx, currents) {
+    const secondaryKey = getTransformerSecondaryKey(stamp.componentId);
+    const { p1, p2, s1, s2 } = getTransformerNodes(stamp, ctx.nodeCount);
+    const v = voltageReader(x);
+    recordInductiveHistory(ctx.state, stamp.componentId, currents.get(stamp.componentId) ?? 0, v(p1) - v(p2));
+    recordInductiveHistory(ctx.state, secondaryKey, currents.get(secondaryKey) ?? 0, v(s1) - v(s2));
+  },
+};
@@ -1,77 +1,47 @@
 /**
  * TransientSolver.ts - 瞬態分析求解器
  * 實作時域瞬態分析，支援 AC 電壓源、電容和電感的動態行為
- * 使用 Backward Euler 積分方法
+ * 積分法可選 Backward Euler / 梯形法 / Gear-2，並可依局部截斷誤差 (LTE) 自適應調整步長
  */
 
-import type { CircuitComponent, Wire, WaveformType } from '@/types/circuit';
+import type { CircuitComponent, Wire } from '@/types/circuit';
 import type {
   TransientSimulationResult,
   TransientOptions,
-  ComponentState,
   ComponentStamp,
+  SimulationEnvironment,
 } from './SimulationTypes';
 import { CircuitGraph } from './CircuitGraph';
-import { createMatrix, createVector, gaussianElimination } from './Matrix';
+import { createVector, SparseLUSolver, SparseMatrixBuilder } from './Matrix';
+import { isCurrentSource } from './StampUtils';
+import { validateControlledSources } from './ControlledSourceModel';
+import { getTransformerSecondaryKey, isTransformer } from './TransformerModel';
+import { isBattery } from './BatteryModel';
+import { getMotorTorque, isMotor } from './MotorModel';
+import { getSwitchContacts, isSwitch } from './SwitchModel';
+import { withACSourceInfo } from './SourceModel';
+import { restartIntegration } from './PassiveModel';
+import { cloneComponentState, createComponentState, type DeviceContext } from './DeviceModel';
+import {
+  extractDeviceCurrents,
+  getNextBreakpoint,
+  initializeDevices,
+  iterateDevices,
+  stampDevices,
+  updateDeviceStates,
+} from './DeviceRegistry';
 import { AC_SOURCE_DEFAULTS } from '@/config/componentDefinitions';
 
-/**
- * 波形產生函數
- * @param t 當前時間 (秒)
- * @param amplitude 振幅 (峰值)
- * @param frequency 頻率 (Hz)
- * @param phase 相位 (rad)
- * @param waveformType 波形類型
- * @returns 瞬時電壓值
- */
-export function generateWaveform(
-  t: number,
-  amplitude: number,
-  frequency: number,
-  phase: number,
-  waveformType: WaveformType
-): number {
-  const omega = 2 * Math.PI * frequency;
-  const theta = omega * t + phase;
-
-  switch (waveformType) {
-    case 'sine':
-      return amplitude * Math.sin(theta);
-
-    case 'square': {
-      // 方波：正半週期為 +amplitude，負半週期為 -amplitude
-      const normalizedPhase = ((theta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-      return normalizedPhase < Math.PI ? amplitude : -amplitude;
-    }
-
-    case 'triangle': {
-      // 三角波：線性上升和下降
-      const normalizedPhase = ((theta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-      if (normalizedPhase < Math.PI) {
-        // 上升段：0 到 π，從 -amplitude 到 +amplitude
-        return amplitude * (2 * normalizedPhase / Math.PI - 1);
-      } else {
-        // 下降段：π 到 2π，從 +amplitude 到 -amplitude
-        return amplitude * (3 - 2 * normalizedPhase / Math.PI);
-      }
-    }
-
-    case 'sawtooth': {
-      // 鋸齒波：線性上升後瞬間下降
-      const normalizedPhase = ((theta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-      return amplitude * (normalizedPhase / Math.PI - 1);
-    }
-
-    default:
-      return amplitude * Math.sin(theta);
-  }
-}
+// 波形產生函數已移至 SourceModel，保留於此匯出以維持相容
+export { generateWaveform, generatePulse, generatePWL, getACSourceValue } from './SourceModel';
 
 /**
  * 瞬態分析求解器類
  */
 export class TransientSolver {
   private graph: CircuitGraph;
+  /** 稀疏線性求解器 (於各時間步、重算的步長與非線性迭代間重用符號分解) */
+  private linearSolver = new SparseLUSolver();
 
   constructor() {
     this.graph = new CircuitGraph();
@@ -82,20 +52,28 @@ export class TransientSolver {
    * @param components 電路元件列表
    * @param wires 導線列表
    * @param options 瞬態分析選項
+   * @param environment 模擬環境 (環境溫度、光照度)
    * @returns 瞬態分析結果
    */
   public solve(
     components: CircuitComponent[],
     wires: Wire[],
-    options: Partial<TransientOptions> = {}
+    options: Partial<TransientOptions> = {},
+    environment?: SimulationEnvironment
   ): TransientSimulationResult {
     // 驗證電路
     const validation = this.validateCircuit(components, wires);
     if (!validation.valid) {
       return {
         timePoints: [],
+        timeSteps: [],
+        rejectedSteps: 0,
         nodeVoltageHistory: new Map(),
         branchCurrentHistory: new Map(),
+        stateOfChargeHistory: new Map(),
+        fuseBlowTimes: new Map(),
+        motorSpeedHistory: new Map(),
+        motorTorqueHistory: new Map(),
         success: false,
         error: validation.error,
         options: this.buildOptions(components, options),
@@ -103,7 +81,8 @@ export class TransientSolver {
     }
 
     // 建立電路圖
-    this.graph.build(components, wires);
+    this.graph.build(components, wires, environment);
+    this.linearSolver.reset();
 
     const nodeCount = this.graph.getNodeCount();
     const vsCount = this.graph.getVoltageSourceCount();
@@ -111,8 +90,14 @@ export class TransientSolver {
     if (nodeCount === 0) {
       return {
         timePoints: [],
+        timeSteps: [],
+        rejectedSteps: 0,
         nodeVoltageHistory: new Map(),
         branchCurrentHistory: new Map(),
+        stateOfChargeHistory: new Map(),
+        fuseBlowTimes: new Map(),
+        motorSpeedHistory: new Map(),
+        motorTorqueHistory: new Map(),
         success: false,
         error: '電路中沒有可分析的節點',
         options: this.buildOptions(components, options),
@@ -121,7 +106,7 @@ export class TransientSolver {
 
     // 計算模擬選項
     const fullOptions = this.buildOptions(components, options);
-    const { startTime, endTime, timeStep } = fullOptions;
+    const { startTime, endTime, timeStep, integrationMethod } = fullOptions;
     const dt = timeStep!;
 
     // 初始化結果容器
@@ -138,61 +123,153 @@ export class TransientSolver {
     const stamps = this.graph.getStamps();
     for (const stamp of stamps) {
       branchCurrentHistory.set(stamp.componentId, []);
-    }
-
-    // 初始化動態元件狀態 (電容電壓、電感電流)
-    const state: ComponentState = {
-      capacitorVoltages: new Map(),
-      inductorCurrents: new Map(),
-    };
-
-    // 設定初始條件 (假設所有初始值為 0)
-    for (const comp of components) {
-      if (comp.type === 'capacitor') {
-        state.capacitorVoltages.set(comp.id, 0);
-      } else if (comp.type === 'inductor') {
-        state.inductorCurrents.set(comp.id, 0);
+      if (isTransformer(stamp.type)) {
+        branchCurrentHistory.set(getTransformerSecondaryKey(stamp.componentId), []);
       }
     }
 
     // 增強 stamps 以包含 AC 源的頻率/相位/波形資訊
-    const enhancedStamps = this.enhanceStampsWithACInfo(stamps, components);
+    const enhancedStamps = withACSourceInfo(stamps, components);
+
+    // 元件狀態 (電容電壓、電感電流、非線性元件工作點…)，跨時間步保留
+    const state = createComponentState();
+
+    // 電池荷電狀態歷史
+    const stateOfChargeHistory = new Map<string, number[]>();
+
+    // 馬達轉速、電磁轉矩歷史
+    const motorSpeedHistory = new Map<string, number[]>();
+    const motorTorqueHistory = new Map<string, number[]>();
 
-    // 二極體狀態
-    const diodeStates = new Map<string, boolean>();
     for (const stamp of enhancedStamps) {
-      if (stamp.type === 'diode' || stamp.type === 'led') {
-        diodeStates.set(stamp.componentId, false);
+      if (isBattery(stamp.type)) {
+        stateOfChargeHistory.set(stamp.componentId, []);
+      } else if (isMotor(stamp.type)) {
+        motorSpeedHistory.set(stamp.componentId, []);
+        motorTorqueHistory.set(stamp.componentId, []);
       }
     }
 
-    // 時間步進迴圈
-    for (let t = startTime; t <= endTime; t += dt) {
-      timePoints.push(t);
+    // 設定初始條件 (假設所有初始值為 0，電池取初始荷電狀態)
+    initializeDevices(enhancedStamps, {
+      analysis: 'transient',
+      nodeCount,
+      time: startTime,
+      dt,
+      previousDt: dt,
+      atBreakpoint: false,
+      integrationMethod: integrationMethod!,
+      state,
+      toggled: new Set(),
+    });
 
-      // 在此時間點求解
-      const result = this.solveAtTime(
-        t,
-        dt,
-        enhancedStamps,
+    // 時間步進迴圈
+    // 固定步長：每步遞增 dt
+    // 自適應步長：依 LTE 估計決定下一步長，超過容許誤差時還原元件狀態並以較小步長重算
+    // 兩者皆恰好落在電源發布的斷點上，並於斷點重新起始積分 (Backward Euler 起步、捨棄 LTE 歷史)
+    const adaptive = fullOptions.adaptiveTimeStep!;
+    const minTimeStep = fullOptions.minTimeStep!;
+    const maxTimeStep = fullOptions.maxTimeStep!;
+    const order = integrationMethod === 'backward-euler' ? 1 : 2;
+    const timeSteps: number[] = [];
+    const lteHistory: Array<{ time: number; x: number[] }> = [];
+    let rejectedSteps = 0;
+    let previousTime = startTime - dt;
+    let previousDt = dt;
+    const initialStep = adaptive ? Math.min(Math.max(dt, minTimeStep), maxTimeStep) : dt;
+    let h = initialStep;
+    let t = startTime;
+    let gridTime = startTime;
+    let atBreakpoint = false;
+    // 與斷點的距離小於此值時視為重合 (吸收時間累加的浮點誤差)
+    const breakpointTolerance = dt * 1e-6;
+    // 固定步長下未收斂的時間步仍沿用最後一次迭代結果，僅警告一次
+    let warnedNonConvergence = false;
+
+    while (t <= endTime) {
+      const snapshot = adaptive ? cloneComponentState(state) : null;
+
+      // 在此時間點求解 (本時間步已切換過的繼電器 / 555 / 比較器每步最多切換一次)
+      const ctx: DeviceContext = {
+        analysis: 'transient',
         nodeCount,
-        vsCount,
+        time: t,
+        dt: h,
+        previousDt,
+        atBreakpoint,
+        integrationMethod: integrationMethod!,
         state,
-        diodeStates,
-        components
-      );
+        toggled: new Set(),
+      };
+      const result = this.solveAtTime(ctx, enhancedStamps, vsCount, fullOptions.maxIterations!);
 
       if (!result.success) {
         return {
           timePoints,
+          timeSteps,
+          rejectedSteps,
           nodeVoltageHistory,
           branchCurrentHistory,
+          stateOfChargeHistory,
+          fuseBlowTimes: state.fuseBlownAt,
+          motorSpeedHistory,
+          motorTorqueHistory,
           success: false,
           error: `在 t=${t.toFixed(6)}s 時求解失敗: ${result.error}`,
           options: fullOptions,
         };
       }
 
+      let nextStep = h;
+      if (adaptive && !result.converged) {
+        if (h <= minTimeStep) {
+          return {
+            timePoints,
+            timeSteps,
+            rejectedSteps,
+            nodeVoltageHistory,
+            branchCurrentHistory,
+            stateOfChargeHistory,
+            fuseBlowTimes: state.fuseBlownAt,
+            motorSpeedHistory,
+            motorTorqueHistory,
+            success: false,
+            error: `在 t=${t.toFixed(6)}s 時非線性迭代未收斂 (${fullOptions.maxIterations} 次，步長已達下限 ${minTimeStep}s)`,
+            options: fullOptions,
+          };
+        }
+        // 非線性迭代未收斂：與 LTE 超標相同，還原元件狀態並以較小步長重算
+        Object.assign(state, snapshot);
+        rejectedSteps++;
+        h = Math.max(h * 0.25, minTimeStep);
+        t = timePoints.length > 0 ? previousTime + h : startTime;
+        atBreakpoint = false;
+        continue;
+      }
+      if (!result.converged && !warnedNonConvergence) {
+        console.warn(`瞬態分析在 t=${t.toFixed(6)}s 時非線性迭代未收斂，沿用最後一次迭代結果`);
+        warnedNonConvergence = true;
+      }
+      if (adaptive) {
+        const errorRatio = this.estimateTruncationError(lteHistory, t, result.x, fullOptions);
+        // 步長倍率 h_new = 0.9 · h · (1 / 誤差比)^(1/(p+1))，單步最多放大 2 倍、縮小 4 倍
+        const factor = Math.min(2, Math.max(0.25, 0.9 * Math.pow(errorRatio, -1 / (order + 1))));
+        if (errorRatio > 1 && h > minTimeStep) {
+          // 拒絕本步：還原求解前的元件狀態 (含繼電器 / 比較器切換)，自上一個時間點以較小步長重算
+          // 尚未接受任何時間步時仍於 startTime 以較小步長重算，不可退回 startTime 之前
+          Object.assign(state, snapshot);
+          rejectedSteps++;
+          h = Math.max(h * factor, minTimeStep);
+          t = timePoints.length > 0 ? previousTime + h : startTime;
+          atBreakpoint = false;
+          continue;
+        }
+        nextStep = Math.min(Math.max(h * factor, minTimeStep), maxTimeStep);
+      }
+
+      timePoints.push(t);
+      timeSteps.push(h);
+
       // 儲存節點電壓
       for (const [nodeId, voltage] of result.nodeVoltages) {
         nodeVoltageHistory.get(nodeId)?.push(voltage);
@@ -203,14 +280,65 @@ export class TransientSolver {
         branchCurrentHistory.get(componentId)?.push(current);
       }
 
+      // 儲存電池荷電狀態 (此時間點求解所用的值)
+      for (const [componentId, soc] of state.batteryStateOfCharge) {
+        stateOfChargeHistory.get(componentId)?.push(soc);
+      }
+
       // 更新動態元件狀態
-      this.updateComponentState(state, result.nodeVoltages, result.branchCurrents, enhancedStamps);
+      updateDeviceStates(result.x, enhancedStamps, ctx, result.branchCurrents);
+
+      // 儲存馬達轉速 (與本時間步電樞電流聯立求得) 與電磁轉矩
+      for (const stamp of enhancedStamps) {
+        if (!isMotor(stamp.type)) continue;
+        const current = result.branchCurrents.get(stamp.componentId) ?? 0;
+        motorSpeedHistory.get(stamp.componentId)?.push(state.motorSpeed.get(stamp.componentId) ?? 0);
+        motorTorqueHistory.get(stamp.componentId)?.push(getMotorTorque(stamp, current));
+      }
+
+      previousTime = t;
+      previousDt = h;
+      if (atBreakpoint) restartIntegration(state);
+
+      let candidate: number;
+      if (adaptive) {
+        // LTE 估計需要前 p + 1 個時間點 (不可跨越斷點)
+        if (atBreakpoint) {
+          lteHistory.length = 0;
+          nextStep = Math.min(nextStep, initialStep);
+        }
+        lteHistory.push({ time: t, x: result.x });
+        if (lteHistory.length > order + 1) lteHistory.shift();
+        if (t >= endTime) break;
+
+        // 最後一步落在結束時間，避免留下小於最小步長的尾段
+        candidate = previousTime + nextStep;
+        if (endTime - candidate < minTimeStep) candidate = endTime;
+      } else {
+        // 本點為格點 (或與格點重合的斷點) 時前進到下一個格點
+        if (t >= gridTime - breakpointTolerance) gridTime += dt;
+        candidate = gridTime;
+      }
+
+      // 下一個斷點早於 (或重合於) 預定時間點時，截短本步恰好落在斷點上
+      const breakpoint = getNextBreakpoint(enhancedStamps, previousTime + breakpointTolerance);
+      atBreakpoint = breakpoint <= candidate + breakpointTolerance && breakpoint <= endTime;
+      t = atBreakpoint ? breakpoint : candidate;
+      h = t - previousTime;
+      // 固定步長的格點之間維持精確的 dt
+      if (!adaptive && Math.abs(h - dt) <= breakpointTolerance) h = dt;
     }
 
     return {
       timePoints,
+      timeSteps,
+      rejectedSteps,
       nodeVoltageHistory,
       branchCurrentHistory,
+      stateOfChargeHistory,
+      fuseBlowTimes: state.fuseBlownAt,
+      motorSpeedHistory,
+      motorTorqueHistory,
       success: true,
       options: fullOptions,
     };
@@ -226,7 +354,7 @@ export class TransientSolver {
     // 找出最高頻率的 AC 源來決定時間步長
     let maxFrequency = AC_SOURCE_DEFAULTS.frequency;
     for (const comp of components) {
-      if (comp.type === 'ac_source') {
+      if (comp.type === 'ac_source' || comp.type === 'ac_current_source') {
         const freq = comp.frequency ?? AC_SOURCE_DEFAULTS.frequency;
         if (freq > maxFrequency) maxFrequency = freq;
       }
@@ -237,302 +365,117 @@ export class TransientSolver {
     const defaultEndTime = 3 * period;
     const defaultTimeStep = period / 100;
 
+    const startTime = options.startTime ?? 0;
+    const endTime = options.endTime ?? defaultEndTime;
+    const timeStep = options.timeStep ?? defaultTimeStep;
+
     return {
-      startTime: options.startTime ?? 0,
-      endTime: options.endTime ?? defaultEndTime,
-      timeStep: options.timeStep ?? defaultTimeStep,
+      startTime,
+      endTime,
+      timeStep,
       maxIterations: options.maxIterations ?? 20,
+      integrationMethod: options.integrationMethod ?? 'backward-euler',
+      adaptiveTimeStep: options.adaptiveTimeStep ?? false,
+      minTimeStep: options.minTimeStep ?? timeStep / 1000,
+      maxTimeStep: options.maxTimeStep ?? (endTime - startTime) / 50,
+      relativeTolerance: options.relativeTolerance ?? 1e-3,
+      absoluteTolerance: options.absoluteTolerance ?? 1e-6,
     };
   }
 
   /**
-   * 增強 stamps 以包含 AC 源資訊
+   * 以分差 (divided difference) 估計本步的局部截斷誤差
+   * LTE：Backward Euler h²/2·x''、梯形法 h³/12·x'''、Gear-2 2h³/9·x'''，其中 x^(k) ≈ k!·k 階分差
+   * @param history 先前接受的時間點 (最近的在最後)
+   * @returns 各解變數 LTE 與容許誤差之比的最大值 (≤ 1 可接受)；歷史點不足時回傳 0
    */
-  private enhanceStampsWithACInfo(
-    stamps: ComponentStamp[],
-    components: CircuitComponent[]
-  ): ComponentStamp[] {
-    const componentMap = new Map(components.map(c => [c.id, c]));
-
-    return stamps.map(stamp => {
-      if (stamp.type === 'ac_source') {
-        const comp = componentMap.get(stamp.componentId);
-        return {
-          ...stamp,
-          frequency: comp?.frequency ?? AC_SOURCE_DEFAULTS.frequency,
-          phase: comp?.phase ?? AC_SOURCE_DEFAULTS.phase,
-          waveformType: comp?.waveformType ?? AC_SOURCE_DEFAULTS.waveformType,
-        };
-      }
-      return stamp;
-    });
+  private estimateTruncationError(
+    history: Array<{ time: number; x: number[] }>,
+    time: number,
+    x: number[],
+    options: TransientOptions
+  ): number {
+    const method = options.integrationMethod ?? 'backward-euler';
+    const order = method === 'backward-euler' ? 1 : 2;
+    if (history.length < order + 1) return 0;
+
+    const points = [...history.slice(-(order + 1)), { time, x }];
+    const times = points.map(point => point.time);
+    const previous = points[points.length - 2]!.x;
+    const h = time - times[times.length - 2]!;
+    const coefficient =
+      method === 'backward-euler' ? h * h : method === 'trapezoidal' ? (h * h * h) / 2 : (4 * h * h * h) / 3;
+
+    let ratio = 0;
+    for (let i = 0; i < x.length; i++) {
+      const lte = coefficient * dividedDifference(times, points.map(point => point.x[i] ?? 0));
+      const tolerance =
+        options.absoluteTolerance! + options.relativeTolerance! * Math.max(Math.abs(x[i]!), Math.abs(previous[i] ?? 0));
+      ratio = Math.max(ratio, Math.abs(lte) / tolerance);
+    }
+    return ratio;
   }
 
   /**
    * 在特定時間點求解
+   * @param maxIterations 非線性迭代上限；達到上限仍未收斂時回傳最後一次迭代結果並標記 converged = false
    */
   private solveAtTime(
-    t: number,
-    dt: number,
+    ctx: DeviceContext,
     stamps: ComponentStamp[],
-    nodeCount: number,
     vsCount: number,
-    state: ComponentState,
-    diodeStates: Map<string, boolean>,
-    _components: CircuitComponent[]
-  ): { success: boolean; nodeVoltages: Map<string, number>; branchCurrents: Map<string, number>; error?: string } {
-    const maxIterations = 20;
+    maxIterations: number
+  ):
+    | {
+        success: true;
+        converged: boolean;
+        x: number[];
+        nodeVoltages: Map<string, number>;
+        branchCurrents: Map<string, number>;
+      }
+    | { success: false; error: string } {
+    const { nodeCount } = ctx;
     let iterations = 0;
+    let converged = false;
     let x: number[] | null = null;
 
     while (iterations < maxIterations) {
       const matrixSize = nodeCount + vsCount;
-      const G = createMatrix(matrixSize);
+      const G = new SparseMatrixBuilder(matrixSize);
       const I = createVector(matrixSize);
 
       // 加入元件印記
-      for (const stamp of stamps) {
-        this.addTransientStamp(G, I, stamp, nodeCount, t, dt, state, diodeStates);
-      }
+      stampDevices(G, I, stamps, ctx);
 
       // 求解
-      x = gaussianElimination(G, I);
+      x = this.linearSolver.solve(G, I);
 
       if (!x) {
-        return {
-          success: false,
-          nodeVoltages: new Map(),
-          branchCurrents: new Map(),
-          error: '矩陣奇異',
-        };
-      }
-
-      // 檢查二極體狀態收斂
-      let stateChanged = false;
-      for (const stamp of stamps) {
-        if (stamp.type === 'diode' || stamp.type === 'led') {
-          const { componentId, node1Index, node2Index, value, currentVarIndex } = stamp;
-          const isCurrentlyOn = diodeStates.get(componentId) || false;
-
-          const v1 = node1Index >= 0 ? x[node1Index]! : 0;
-          const v2 = node2Index >= 0 ? x[node2Index]! : 0;
-          const vDrop = v1 - v2;
-          const forwardVoltage = value;
-
-          if (isCurrentlyOn) {
-            if (currentVarIndex !== undefined) {
-              const current = x[nodeCount + currentVarIndex]!;
-              if (current < -1e-9) {
-                diodeStates.set(componentId, false);
-                stateChanged = true;
-              }
-            }
-          } else {
-            if (vDrop > forwardVoltage) {
-              diodeStates.set(componentId, true);
-              stateChanged = true;
-            }
-          }
-        }
+        return { success: false, error: '矩陣奇異' };
       }
 
-      if (!stateChanged) {
+      // 檢查非線性元件是否收斂 / 工作區是否需要改變
+      if (!iterateDevices(x, stamps, ctx)) {
+        converged = true;
         break;
       }
       iterations++;
     }
 
     if (!x) {
-      return {
-        success: false,
-        nodeVoltages: new Map(),
-        branchCurrents: new Map(),
-        error: '求解失敗',
-      };
+      return { success: false, error: '求解失敗' };
     }
 
     // 提取結果
-    const nodeVoltages = this.extractNodeVoltages(x, nodeCount);
-    const branchCurrents = this.extractBranchCurrents(x, stamps, nodeCount, dt, state, diodeStates);
-
     return {
       success: true,
-      nodeVoltages,
-      branchCurrents,
+      converged,
+      x,
+      nodeVoltages: this.extractNodeVoltages(x, nodeCount),
+      branchCurrents: extractDeviceCurrents(x, stamps, ctx),
     };
   }
 
-  /**
-   * 加入瞬態分析的元件印記
-   */
-  private addTransientStamp(
-    G: number[][],
-    I: number[],
-    stamp: ComponentStamp,
-    nodeCount: number,
-    t: number,
-    dt: number,
-    state: ComponentState,
-    diodeStates: Map<string, boolean>
-  ): void {
-    const { type, node1Index, node2Index, value, currentVarIndex } = stamp;
-
-    switch (type) {
-      case 'resistor':
-        this.addResistorStamp(G, node1Index, node2Index, value);
-        break;
-
-      case 'dc_source':
-        if (currentVarIndex !== undefined) {
-          this.addVoltageSourceStamp(G, I, node1Index, node2Index, value, nodeCount + currentVarIndex);
-        }
-        break;
-
-      case 'ac_source': {
-        // AC 源：計算當前時間的瞬時電壓
-        if (currentVarIndex !== undefined) {
-          const frequency = stamp.frequency ?? AC_SOURCE_DEFAULTS.frequency;
-          const phase = stamp.phase ?? AC_SOURCE_DEFAULTS.phase;
-          const waveformType = stamp.waveformType ?? AC_SOURCE_DEFAULTS.waveformType;
-          const voltage = generateWaveform(t, value, frequency, phase, waveformType);
-          this.addVoltageSourceStamp(G, I, node1Index, node2Index, voltage, nodeCount + currentVarIndex);
-        }
-        break;
-      }
-
-      case 'capacitor': {
-        // 電容的 Backward Euler 伴隨模型
-        // G_eq = C / dt
-        // I_eq = G_eq * V_c(t-dt)
-        const C = value;
-        const Geq = C / dt;
-        const Vc_prev = state.capacitorVoltages.get(stamp.componentId) ?? 0;
-        const Ieq = Geq * Vc_prev;
-
-        // 加入等效電導
-        this.addResistorStamp(G, node1Index, node2Index, 1 / Geq);
-
-        // 加入等效電流源 (從 node1 流向 node2)
-        if (node1Index >= 0 && I[node1Index] !== undefined) I[node1Index]! += Ieq;
-        if (node2Index >= 0 && I[node2Index] !== undefined) I[node2Index]! -= Ieq;
-        break;
-      }
-
-      case 'inductor': {
-        // 電感的 Backward Euler 伴隨模型
-        // R_eq = L / dt
-        // V_eq = R_eq * I_L(t-dt)
-        const L = value;
-        const Req = L / dt;
-        const IL_prev = state.inductorCurrents.get(stamp.componentId) ?? 0;
-        const Veq = Req * IL_prev;
-
-        if (currentVarIndex !== undefined) {
-          // 使用電壓源模型：V(n1) - V(n2) - R_eq * i = V_eq
-          // 改寫為：V(n1) - V(n2) = R_eq * i + V_eq
-          this.addVoltageSourceWithResistanceStamp(
-            G, I, node1Index, node2Index, Veq, Req, nodeCount + currentVarIndex
-          );
-        }
-        break;
-      }
-
-      case 'diode':
-      case 'led': {
-        const isOn = diodeStates.get(stamp.componentId) ?? false;
-
-        if (isOn) {
-          if (currentVarIndex !== undefined) {
-            const forwardVoltage = value;
-            const rOn = 0.1;
-            this.addVoltageSourceWithResistanceStamp(
-              G, I, node1Index, node2Index, forwardVoltage, rOn, nodeCount + currentVarIndex
-            );
-          }
-        } else {
-          this.addResistorStamp(G, node1Index, node2Index, 1e9);
-          if (currentVarIndex !== undefined) {
-            const idx = nodeCount + currentVarIndex;
-            G[idx]![idx]! = 1;
-            I[idx] = 0;
-          }
-        }
-        break;
-      }
-
-      case 'switch':
-        // 開關根據 switchClosed 屬性決定導通或斷開
-        if (stamp.switchClosed) {
-          this.addResistorStamp(G, node1Index, node2Index, 0.01); // 10mΩ
-        } else {
-          this.addResistorStamp(G, node1Index, node2Index, 1e12); // 1TΩ
-        }
-        break;
-
-      case 'ammeter':
-        this.addResistorStamp(G, node1Index, node2Index, 0.001);
-        break;
-
-      case 'voltmeter':
-        this.addResistorStamp(G, node1Index, node2Index, 1e12);
-        break;
-    }
-  }
-
-  /**
-   * 加入電阻印記
-   */
-  private addResistorStamp(G: number[][], n1: number, n2: number, resistance: number): void {
-    if (resistance <= 0) return;
-    const g = 1 / resistance;
-
-    if (n1 >= 0) G[n1]![n1]! += g;
-    if (n2 >= 0) G[n2]![n2]! += g;
-    if (n1 >= 0 && n2 >= 0) {
-      G[n1]![n2]! -= g;
-      G[n2]![n1]! -= g;
-    }
-  }
-
-  /**
-   * 加入電壓源印記
-   */
-  private addVoltageSourceStamp(
-    G: number[][],
-    I: number[],
-    n1: number,
-    n2: number,
-    voltage: number,
-    currentVarIndex: number
-  ): void {
-    if (n1 >= 0) G[currentVarIndex]![n1]! += 1;
-    if (n2 >= 0) G[currentVarIndex]![n2]! -= 1;
-    if (n1 >= 0) G[n1]![currentVarIndex]! += 1;
-    if (n2 >= 0) G[n2]![currentVarIndex]! -= 1;
-    I[currentVarIndex] = voltage;
-  }
-
-  /**
-   * 加入帶串聯電阻的電壓源印記
-   */
-  private addVoltageSourceWithResistanceStamp(
-    G: number[][],
-    I: number[],
-    n1: number,
-    n2: number,
-    voltage: number,
-    resistance: number,
-    currentVarIndex: number
-  ): void {
-    if (n1 >= 0) G[currentVarIndex]![n1]! += 1;
-    if (n2 >= 0) G[currentVarIndex]![n2]! -= 1;
-    G[currentVarIndex]![currentVarIndex]! -= resistance;
-    I[currentVarIndex] = voltage;
-
-    if (n1 >= 0) G[n1]![currentVarIndex]! += 1;
-    if (n2 >= 0) G[n2]![currentVarIndex]! -= 1;
-  }
-
   /**
    * 提取節點電壓
    */
@@ -553,123 +496,6 @@ export class TransientSolver {
     return voltages;
   }
 
-  /**
-   * 提取支路電流
-   */
-  private extractBranchCurrents(
-    x: number[],
-    stamps: ComponentStamp[],
-    nodeCount: number,
-    dt: number,
-    state: ComponentState,
-    diodeStates: Map<string, boolean>
-  ): Map<string, number> {
-    const currents = new Map<string, number>();
-    const nodeVoltages = x.slice(0, nodeCount);
-
-    for (const stamp of stamps) {
-      const { componentId, type, node1Index, node2Index, value, currentVarIndex } = stamp;
-
-      switch (type) {
-        case 'resistor':
-        case 'voltmeter': {
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          const resistance = type === 'voltmeter' ? 1e12 : value;
-          currents.set(componentId, (v1 - v2) / resistance);
-          break;
-        }
-
-        case 'capacitor': {
-          // 電容電流: i = C * dV/dt ≈ C * (V - V_prev) / dt
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          const Vc = v1 - v2;
-          const Vc_prev = state.capacitorVoltages.get(componentId) ?? 0;
-          const C = value;
-          currents.set(componentId, C * (Vc - Vc_prev) / dt);
-          break;
-        }
-
-        case 'diode':
-        case 'led': {
-          const isOn = diodeStates?.get(componentId) ?? false;
-          if (isOn && currentVarIndex !== undefined) {
-            currents.set(componentId, x[nodeCount + currentVarIndex]!);
-          } else {
-            const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-            const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-            currents.set(componentId, (v1 - v2) / 1e9);
-          }
-          break;
-        }
-
-        case 'switch': {
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          const resistance = stamp.switchClosed ? 0.01 : 1e12;
-          currents.set(componentId, (v1 - v2) / resistance);
-          break;
-        }
-
-        case 'ammeter': {
-          const v1 = node1Index >= 0 ? (nodeVoltages[node1Index] ?? 0) : 0;
-          const v2 = node2Index >= 0 ? (nodeVoltages[node2Index] ?? 0) : 0;
-          currents.set(componentId, (v1 - v2) / 0.001);
-          break;
-        }
-
-        case 'dc_source':
-        case 'ac_source':
-        case 'inductor': {
-          if (currentVarIndex !== undefined) {
-            currents.set(componentId, x[nodeCount + currentVarIndex]!);
-          }
-          break;
-        }
-      }
-    }
-
-    return currents;
-  }
-
-  /**
-   * 更新動態元件狀態
-   */
-  private updateComponentState(
-    state: ComponentState,
-    nodeVoltages: Map<string, number>,
-    branchCurrents: Map<string, number>,
-    stamps: ComponentStamp[]
-  ): void {
-    for (const stamp of stamps) {
-      if (stamp.type === 'capacitor') {
-        // 更新電容電壓
-        const v1 = this.getNodeVoltage(nodeVoltages, stamp.node1Index);
-        const v2 = this.getNodeVoltage(nodeVoltages, stamp.node2Index);
-        state.capacitorVoltages.set(stamp.componentId, v1 - v2);
-      } else if (stamp.type === 'inductor') {
-        // 更新電感電流
-        const current = branchCurrents.get(stamp.componentId) ?? 0;
-        state.inductorCurrents.set(stamp.componentId, current);
-      }
-    }
-  }
-
-  /**
-   * 根據節點索引取得電壓
-   */
-  private getNodeVoltage(nodeVoltages: Map<string, number>, nodeIndex: number): number {
-    if (nodeIndex < 0) return 0; // 接地
-
-    for (const [nodeId, node] of this.graph.getNodes()) {
-      if (!node.isGround && this.graph.getNodeIndex(nodeId) === nodeIndex) {
-        return nodeVoltages.get(nodeId) ?? 0;
-      }
-    }
-    return 0;
-  }
-
   /**
    * 驗證電路
    */
@@ -696,12 +522,18 @@ export class TransientSolver {
     }
 
     const hasPowerSource = components.some(
-      c => c.type === 'dc_source' || c.type === 'ac_source'
+      c => c.type === 'dc_source' || isBattery(c.type) || c.type === 'ac_source' || isCurrentSource(c.type)
     );
     if (!hasPowerSource) {
       return { valid: false, error: '電路缺少電源（DC/AC Source）' };
     }
 
+    // 檢查受控源的控制元件設定
+    const controlledSourceError = validateControlledSources(components);
+    if (controlledSourceError) {
+      return { valid: false, error: controlledSourceError };
+    }
+
     if (wires.length === 0) {
       return { valid: false, error: '電路元件未連接（無導線）' };
     }
@@ -727,7 +559,9 @@ export class TransientSolver {
       componentMap.set(comp.id, comp);
     }
 
-    const openSwitches = components.filter(c => c.type === 'switch' && !c.switchClosed);
+    const openSwitches = components.filter(
+      c => isSwitch(c.type) && getSwitchContacts(c).some(contact => !contact.closed)
+    );
     if (openSwitches.length === 0) {
       return { valid: true };
     }
@@ -747,10 +581,19 @@ export class TransientSolver {
     }
 
     for (const comp of components) {
-      // 跳過斷開的開關
-      if (comp.type === 'switch' && !comp.switchClosed) continue;
+      // 開關類元件：僅閉合的接點兩端連通
+      if (isSwitch(comp.type)) {
+        for (const contact of getSwitchContacts(comp)) {
+          const a = comp.ports[contact.from];
+          const b = comp.ports[contact.to];
+          if (!contact.closed || !a || !b) continue;
+          adjacency.get(`${comp.id}:${a.id}`)?.add(`${comp.id}:${b.id}`);
+          adjacency.get(`${comp.id}:${b.id}`)?.add(`${comp.id}:${a.id}`);
+        }
+        continue;
+      }
       // 跳過電源 - 電流不能直接從正極流到負極（內部）
-      if (comp.type === 'dc_source' || comp.type === 'ac_source') continue;
+      if (comp.type === 'dc_source' || isBattery(comp.type) || comp.type === 'ac_source' || isCurrentSource(comp.type)) continue;
       if (comp.ports.length >= 2) {
         const ports = comp.ports.map(p => `${comp.id}:${p.id}`);
         for (let i = 0; i < ports.length; i++) {
@@ -762,7 +605,9 @@ export class TransientSolver {
       }
     }
 
-    const powerSources = components.filter(c => c.type === 'dc_source' || c.type === 'ac_source');
+    const powerSources = components.filter(
+      c => c.type === 'dc_source' || isBattery(c.type) || c.type === 'ac_source' || isCurrentSource(c.type)
+    );
     for (const source of powerSources) {
       if (source.ports.length < 2) continue;
       const positivePortKey = `${source.id}:${source.ports[0]!.id}`;
@@ -808,8 +653,22 @@ export class TransientSolver {
 export function runTransientAnalysis(
   components: CircuitComponent[],
   wires: Wire[],
-  options?: Partial<TransientOptions>
+  options?: Partial<TransientOptions>,
+  environment?: SimulationEnvironment
 ): TransientSimulationResult {
   const solver = new TransientSolver();
-  return solver.solve(components, wires, options);
+  return solver.solve(components, wires, options, environment);
+}
+
+/**
+ * 最高階分差 f[t0, t1, ..., tn]
+ */
+function dividedDifference(times: number[], values: number[]): number {
+  const table = [...values];
+  for (let level = 1; level < times.length; level++) {
+    for (let i = times.length - 1; i >= level; i--) {
+      table[i] = (table[i]! - table[i - 1]!) / (times[i]! - times[i - level]!);
+    }
+  }
+  return table[times.length - 1]!;
 }
@@ -0,0 +1,232 @@
+/**
+ * ACSweepSolver.test.ts - AC 掃頻分析求解器測試
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runACSweepAnalysis } from '../ACSweepSolver';
+import { runDCAnalysis } from '../MNASolver';
+import { BJT_DEFAULTS } from '@/config/componentDefinitions';
+import type { CircuitComponent, Wire } from '@/types/circuit';
+import { part, wire } from './circuitFixtures';
+
+describe('runACSweepAnalysis - op-amp', () => {
+  it('rolls off the open-loop gain with a single pole at GBW / A0', () => {
+    // 開迴路：1V 接 V+、V- 接地，輸出接 10kΩ 負載；|A(f)| = A0 / √(1 + (f·A0/GBW)²)
+    const A0 = 1e5;
+    const gbw = 1e6;
+    const components: CircuitComponent[] = [
+      { ...part('vs', 'ac_source', 1, ['+', '-']), frequency: 1000, phase: 0 },
+      { ...part('u1', 'opamp', undefined, ['+', '-', 'out', 'V+', 'V-']), openLoopGain: A0, gainBandwidth: gbw },
+      part('rl', 'resistor', 10000, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vs', 0, 'u1', 0),
+      wire('w2', 'vs', 1, 'gnd1', 0),
+      wire('w3', 'u1', 1, 'gnd1', 0),
+      wire('w4', 'u1', 2, 'rl', 0),
+      wire('w5', 'rl', 1, 'gnd1', 0),
+    ];
+
+    const result = runACSweepAnalysis(components, wires, {
+      startFrequency: 1,
+      endFrequency: 1e6,
+      pointsPerDecade: 2,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.frequencyPoints.length).toBeGreaterThan(10);
+    const pole = gbw / A0;
+    for (const point of result.frequencyPoints) {
+      const gain = point.branchCurrents.get('rl')!;
+      const ratio = point.frequency / pole;
+      expect((gain.magnitude * 10000) / (A0 / Math.sqrt(1 + ratio * ratio))).toBeCloseTo(1, 6);
+      expect(gain.phase).toBeCloseTo(-Math.atan(ratio), 6);
+    }
+  });
+});
+
+describe('runACSweepAnalysis - BJT', () => {
+  it('amplifies with the hybrid-π gain -g_m·R_C around the DC operating point', () => {
+    // 共射極：V_BE = 0.65V (DC) + v_in (AC) 直接驅動基極，R_C = 1kΩ 接 10V
+    // 小訊號 v_c / v_in = -g_m·R_C，g_m = I_C / V_T 取自 DC 工作點
+    const components: CircuitComponent[] = [
+      part('vcc', 'dc_source', 10, ['+', '-']),
+      part('vbb', 'dc_source', 0.65, ['+', '-']),
+      { ...part('vs', 'ac_source', 1, ['+', '-']), frequency: 1000, phase: 0 },
+      part('rc', 'resistor', 1000, ['1', '2']),
+      part('q1', 'transistor_npn', undefined, ['base', 'collector', 'emitter']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vcc', 0, 'rc', 0),
+      wire('w2', 'rc', 1, 'q1', 1),
+      wire('w3', 'q1', 2, 'gnd1', 0),
+      wire('w4', 'vcc', 1, 'gnd1', 0),
+      wire('w5', 'vbb', 0, 'q1', 0),
+      wire('w6', 'vbb', 1, 'vs', 0),
+      wire('w7', 'vs', 1, 'gnd1', 0),
+    ];
+
+    const dc = runDCAnalysis(components, wires);
+    expect(dc.success).toBe(true);
+    const collectorCurrent = dc.branchCurrents.get('rc')!;
+    // 順向主動區：R_C 壓降小於 V_CC
+    expect(collectorCurrent).toBeGreaterThan(1e-4);
+    expect(collectorCurrent * 1000).toBeLessThan(9);
+    const gm = collectorCurrent / BJT_DEFAULTS.thermalVoltage;
+
+    const result = runACSweepAnalysis(components, wires, {
+      startFrequency: 1000,
+      endFrequency: 1000,
+      pointsPerDecade: 1,
+    });
+
+    expect(result.success).toBe(true);
+    // R_C 電流 (V_CC → 集極) 為 -v_c / R_C
+    const current = result.frequencyPoints[0]!.branchCurrents.get('rc')!.complex;
+    const gain = { re: -1000 * current.re, im: -1000 * current.im };
+    expect(gain.re / (-gm * 1000)).toBeCloseTo(1, 3);
+    expect(gain.im).toBeCloseTo(0, 9);
+  });
+});
+
+describe('runACSweepAnalysis - AC current source', () => {
+  it('injects its phasor into a parallel RC', () => {
+    // 10mA∠45° 驅動 R = 100Ω ∥ C = 1µF，於轉角頻率 1/(2πRC)：I_R = I / (1 + j)、I_C = I·j / (1 + j)
+    const components: CircuitComponent[] = [
+      { ...part('is', 'ac_current_source', 0.01, ['+', '-']), frequency: 1000, phase: Math.PI / 4 },
+      part('r1', 'resistor', 100, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'is', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'gnd1', 0),
+      wire('w3', 'is', 0, 'c1', 0),
+      wire('w4', 'c1', 1, 'gnd1', 0),
+      wire('w5', 'is', 1, 'gnd1', 0),
+    ];
+    const corner = 1 / (2 * Math.PI * 100 * 1e-6);
+
+    const result = runACSweepAnalysis(components, wires, {
+      startFrequency: corner,
+      endFrequency: corner,
+      pointsPerDecade: 1,
+    });
+
+    expect(result.success).toBe(true);
+    const { branchCurrents } = result.frequencyPoints[0]!;
+    expect(branchCurrents.get('r1')!.magnitude).toBeCloseTo(0.01 / Math.SQRT2, 9);
+    expect(branchCurrents.get('r1')!.phase).toBeCloseTo(0, 6);
+    expect(branchCurrents.get('c1')!.magnitude).toBeCloseTo(0.01 / Math.SQRT2, 9);
+    expect(branchCurrents.get('c1')!.phase).toBeCloseTo(Math.PI / 2, 6);
+    // 支路電流方向為 + → - (元件內部)，與注入外部電路的電流反相
+    expect(branchCurrents.get('is')!.magnitude).toBeCloseTo(0.01, 9);
+    expect(branchCurrents.get('is')!.phase).toBeCloseTo(-3 * Math.PI / 4, 6);
+  });
+});
+
+describe('runACSweepAnalysis - controlled sources', () => {
+  it('stamps VCVS / VCCS / CCVS / CCCS gains on phasors', () => {
+    // 1V∠30° 經 1kΩ 接地：控制電壓 v_in，控制電流 i_ctrl 為電源支路電流 (+ → -，即 -v_in / 1kΩ)
+    // 各受控源輸出皆接 1kΩ 負載
+    const load = (id: string) => part(id, 'resistor', 1000, ['1', '2']);
+    const components: CircuitComponent[] = [
+      { ...part('vs', 'ac_source', 1, ['+', '-']), frequency: 1000, phase: Math.PI / 6 },
+      load('rs'),
+      part('e1', 'vcvs', 2, ['+', '-', 'c+', 'c-']),
+      part('g1', 'vccs', 1e-3, ['+', '-', 'c+', 'c-']),
+      { ...part('h1', 'ccvs', 500, ['+', '-']), controllingComponentId: 'vs' },
+      { ...part('f1', 'cccs', 3, ['+', '-']), controllingComponentId: 'vs' },
+      load('re'),
+      load('rg'),
+      load('rh'),
+      load('rf'),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vs', 0, 'rs', 0),
+      wire('w2', 'rs', 1, 'gnd1', 0),
+      wire('w3', 'vs', 1, 'gnd1', 0),
+      wire('w4', 'e1', 2, 'vs', 0),
+      wire('w5', 'e1', 3, 'gnd1', 0),
+      wire('w6', 'g1', 2, 'vs', 0),
+      wire('w7', 'g1', 3, 'gnd1', 0),
+    ];
+    // 輸出 + 端接負載、- 端與負載另一端接地
+    for (const [source, resistor] of [['e1', 're'], ['g1', 'rg'], ['h1', 'rh'], ['f1', 'rf']] as const) {
+      wires.push(
+        wire(`w-${source}-out`, source, 0, resistor, 0),
+        wire(`w-${source}-load`, resistor, 1, 'gnd1', 0),
+        wire(`w-${source}-gnd`, source, 1, 'gnd1', 0)
+      );
+    }
+
+    const result = runACSweepAnalysis(components, wires, {
+      startFrequency: 1000,
+      endFrequency: 1000,
+      pointsPerDecade: 1,
+    });
+
+    expect(result.success).toBe(true);
+    const { branchCurrents } = result.frequencyPoints[0]!;
+    const vin = { re: Math.cos(Math.PI / 6), im: Math.sin(Math.PI / 6) };
+    const expectPhasor = (id: string, scale: number) => {
+      const actual = branchCurrents.get(id)!.complex;
+      expect(actual.re).toBeCloseTo(scale * vin.re, 9);
+      expect(actual.im).toBeCloseTo(scale * vin.im, 9);
+    };
+
+    expectPhasor('vs', -1e-3);
+    // VCVS：V = μ·v_in
+    expectPhasor('re', 2 / 1000);
+    // VCCS：g_m·v_in 由 + 端經元件流向 - 端，負載電流反向
+    expectPhasor('rg', -1e-3);
+    // CCVS：V = r_m·i_ctrl
+    expectPhasor('rh', (500 * -1e-3) / 1000);
+    // CCCS：β·i_ctrl 由 + 端經元件流向 - 端
+    expectPhasor('rf', -3 * -1e-3);
+  });
+});
+
+describe('runACSweepAnalysis - transformer', () => {
+  it('couples the windings through the mutual inductance M = k·√(L1·L2)', () => {
+    // 一次側 L1 = 1H 接 1V，二次側 L2 = 40mH 接 1MΩ (近似開路)，k = 0.9
+    // 開路時 V2 / V1 = M / L1 = k·√(L2/L1) = 0.18，一次側僅有激磁電流 V1 / (jωL1)
+    const components: CircuitComponent[] = [
+      { ...part('vs', 'ac_source', 1, ['+', '-']), frequency: 1000, phase: 0 },
+      {
+        ...part('x1', 'transformer', 5, ['p1', 'p2', 's1', 's2']),
+        primaryInductance: 1,
+        secondaryInductance: 0.04,
+        couplingCoefficient: 0.9,
+      },
+      part('rl', 'resistor', 1e6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vs', 0, 'x1', 0),
+      wire('w2', 'vs', 1, 'gnd1', 0),
+      wire('w3', 'x1', 1, 'gnd1', 0),
+      wire('w4', 'x1', 2, 'rl', 0),
+      wire('w5', 'rl', 1, 'gnd1', 0),
+      wire('w6', 'x1', 3, 'gnd1', 0),
+    ];
+
+    const result = runACSweepAnalysis(components, wires, {
+      startFrequency: 1000,
+      endFrequency: 1000,
+      pointsPerDecade: 1,
+    });
+
+    expect(result.success).toBe(true);
+    const { branchCurrents, omega } = result.frequencyPoints[0]!;
+    const secondary = branchCurrents.get('rl')!;
+    expect(secondary.magnitude * 1e6).toBeCloseTo(0.9 * Math.sqrt(0.04 / 1), 5);
+    expect(secondary.phase).toBeCloseTo(0, 3);
+    const primary = branchCurrents.get('x1')!;
+    expect(primary.magnitude * omega).toBeCloseTo(1, 5);
+    expect(primary.phase).toBeCloseTo(-Math.PI / 2, 3);
+  });
+});
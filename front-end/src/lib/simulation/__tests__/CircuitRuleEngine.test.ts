@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { evaluateCircuitDesignRules, evaluateLED001Rule } from '../CircuitRuleEngine';
+import {
+  evaluateCircuitDesignRules,
+  evaluateLED001Rule,
+  evaluateZEN001Rule,
+  evaluateREG001Rule,
+} from '../CircuitRuleEngine';
 import { I_EMIT_MIN } from '../SimulationTypes';
 import type { CircuitComponent, Wire } from '@/types/circuit';
 
@@ -85,6 +90,27 @@ describe('CircuitRuleEngine (CDRS v1)', () => {
     expect(violations.some((v) => v.ruleId === 'PWR-002' && v.severity === 'ERROR')).toBe(true);
   });
 
+  it('PWR-002: should not treat the open throw of an SPDT selector as a short', () => {
+    // 共點在 + 與 - 之間選擇：a、b 不會同時導通
+    const components = [
+      createComponent('v1', 'dc_source', 5, ['+', '-']),
+      { ...createComponent('s1', 'switch_spdt', undefined, ['com', 'a', 'b']), switchThrow: 0 },
+      createComponent('r1', 'resistor', 1000, ['1', '2']),
+      createComponent('gnd', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      createWire('w1', 'v1', 0, 's1', 1),
+      createWire('w2', 'v1', 1, 's1', 2),
+      createWire('w3', 's1', 0, 'r1', 0),
+      createWire('w4', 'r1', 1, 'v1', 1),
+      createWire('w5', 'v1', 1, 'gnd', 0),
+    ];
+
+    const violations = evaluateCircuitDesignRules(components, wires);
+
+    expect(violations.some((v) => v.ruleId === 'PWR-002')).toBe(false);
+  });
+
   it('TOP-002: should error when a source has no return path', () => {
     const components = [
       createComponent('v1', 'dc_source', 5, ['+', '-']),
@@ -97,6 +123,61 @@ describe('CircuitRuleEngine (CDRS v1)', () => {
     expect(violations.some((v) => v.ruleId === 'TOP-002' && v.severity === 'ERROR')).toBe(true);
   });
 
+  it('PWR-003: should error when a current source is in series with an open circuit', () => {
+    const components = [
+      createComponent('i1', 'current_source', 0.01, ['+', '-']),
+      createComponent('r1', 'resistor', 1000, ['1', '2']),
+      createComponent('gnd', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      createWire('w1', 'i1', 0, 'r1', 0),
+      createWire('w2', 'i1', 1, 'gnd', 0),
+    ];
+
+    const violations = evaluateCircuitDesignRules(components, wires);
+
+    expect(violations.some((v) => v.ruleId === 'PWR-003' && v.severity === 'ERROR')).toBe(true);
+  });
+
+  it('PWR-003: should warn when a current source forms a cut-set with an inductor', () => {
+    const components = [
+      createComponent('i1', 'current_source', 0.01, ['+', '-']),
+      createComponent('l1', 'inductor', 10e-3, ['1', '2']),
+      createComponent('r1', 'resistor', 1000, ['1', '2']),
+      createComponent('gnd', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      createWire('w1', 'i1', 0, 'l1', 0),
+      createWire('w2', 'l1', 1, 'r1', 0),
+      createWire('w3', 'r1', 1, 'i1', 1),
+      createWire('w4', 'i1', 1, 'gnd', 0),
+    ];
+
+    const violations = evaluateCircuitDesignRules(components, wires);
+    const pwr003 = violations.filter((v) => v.ruleId === 'PWR-003');
+
+    expect(pwr003).toHaveLength(1);
+    expect(pwr003[0]!.severity).toBe('WARNING');
+    expect(pwr003[0]!.componentIds).toEqual(['i1', 'l1']);
+  });
+
+  it('PWR-003: should pass when a current source drives a resistor', () => {
+    const components = [
+      createComponent('i1', 'current_source', 0.01, ['+', '-']),
+      createComponent('r1', 'resistor', 1000, ['1', '2']),
+      createComponent('gnd', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      createWire('w1', 'i1', 0, 'r1', 0),
+      createWire('w2', 'r1', 1, 'i1', 1),
+      createWire('w3', 'i1', 1, 'gnd', 0),
+    ];
+
+    const violations = evaluateCircuitDesignRules(components, wires);
+
+    expect(violations.some((v) => v.ruleId === 'PWR-003')).toBe(false);
+  });
+
   it('REA-001: should warn when capacitor forms a direct loop with an ideal source', () => {
     const components = [
       createComponent('v1', 'dc_source', 5, ['+', '-']),
@@ -164,6 +245,85 @@ describe('CircuitRuleEngine (CDRS v1)', () => {
 
     expect(violations.some((v) => v.ruleId === 'CUR-001')).toBe(false);
   });
+
+  it('CUR-002: should not warn for a 555 astable with VCC / GND on the supply', () => {
+    const components = [
+      createComponent('v1', 'dc_source', 9, ['+', '-']),
+      createComponent('u1', 'timer555', undefined, ['gnd', 'trig', 'out', 'reset', 'ctrl', 'thr', 'dis', 'vcc']),
+      createComponent('ra', 'resistor', 1000, ['1', '2']),
+      createComponent('rb', 'resistor', 10000, ['1', '2']),
+      createComponent('c1', 'capacitor', 1e-6, ['1', '2']),
+      createComponent('rl', 'resistor', 1000, ['1', '2']),
+      createComponent('gnd', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      createWire('w1', 'v1', 0, 'u1', 7),
+      createWire('w2', 'v1', 1, 'u1', 0),
+      createWire('w3', 'v1', 1, 'gnd', 0),
+      createWire('w4', 'u1', 7, 'u1', 3),
+      createWire('w5', 'u1', 7, 'ra', 0),
+      createWire('w6', 'ra', 1, 'u1', 6),
+      createWire('w7', 'u1', 6, 'rb', 0),
+      createWire('w8', 'rb', 1, 'u1', 5),
+      createWire('w9', 'u1', 5, 'u1', 1),
+      createWire('w10', 'u1', 5, 'c1', 0),
+      createWire('w11', 'c1', 1, 'u1', 0),
+      createWire('w12', 'u1', 2, 'rl', 0),
+      createWire('w13', 'rl', 1, 'u1', 0),
+    ];
+
+    const violations = evaluateCircuitDesignRules(components, wires);
+
+    expect(findRuleIds(violations)).not.toContain('CUR-002');
+  });
+
+  it('CUR-002: should not warn for a CMOS inverter with gates tied to the rails', () => {
+    const components = [
+      createComponent('v1', 'dc_source', 5, ['+', '-']),
+      createComponent('m1', 'nmos', undefined, ['gate', 'drain', 'source']),
+      createComponent('m2', 'pmos', undefined, ['gate', 'drain', 'source']),
+      createComponent('r1', 'resistor', 10000, ['1', '2']),
+      createComponent('r2', 'resistor', 10000, ['1', '2']),
+      createComponent('gnd', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      createWire('w1', 'v1', 1, 'gnd', 0),
+      // NMOS：源極接地、閘極接 VDD，汲極經電阻接 VDD
+      createWire('w2', 'm1', 2, 'v1', 1),
+      createWire('w3', 'm1', 0, 'v1', 0),
+      createWire('w4', 'm1', 1, 'r1', 0),
+      createWire('w5', 'r1', 1, 'v1', 0),
+      // PMOS：源極接 VDD、閘極接地，汲極經電阻接地
+      createWire('w6', 'm2', 2, 'v1', 0),
+      createWire('w7', 'm2', 0, 'v1', 1),
+      createWire('w8', 'm2', 1, 'r2', 0),
+      createWire('w9', 'r2', 1, 'v1', 1),
+    ];
+
+    const violations = evaluateCircuitDesignRules(components, wires);
+
+    expect(findRuleIds(violations)).not.toContain('CUR-002');
+  });
+
+  it('CUR-002: should warn when a MOSFET channel sits directly across the supply', () => {
+    const components = [
+      createComponent('v1', 'dc_source', 5, ['+', '-']),
+      createComponent('m1', 'nmos', undefined, ['gate', 'drain', 'source']),
+      createComponent('r1', 'resistor', 10000, ['1', '2']),
+      createComponent('gnd', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      createWire('w1', 'v1', 1, 'gnd', 0),
+      createWire('w2', 'm1', 1, 'v1', 0),
+      createWire('w3', 'm1', 2, 'v1', 1),
+      createWire('w4', 'm1', 0, 'r1', 0),
+      createWire('w5', 'r1', 1, 'v1', 0),
+    ];
+
+    const violations = evaluateCircuitDesignRules(components, wires);
+
+    expect(findRuleIds(violations)).toContain('CUR-002');
+  });
 });
 
 describe('LED-001 Post-Simulation Rule', () => {
@@ -268,3 +428,76 @@ describe('LED-001 Post-Simulation Rule', () => {
     expect(violations.length).toBe(0);
   });
 });
+
+describe('ZEN-001 Post-Simulation Rule', () => {
+  function createZener(powerRating?: number): CircuitComponent {
+    const zener = createComponent('z1', 'zener', 5.1, ['anode', 'cathode']);
+    zener.label = 'Z1';
+    zener.powerRating = powerRating;
+    return zener;
+  }
+
+  function resultWithCurrent(current: number) {
+    return {
+      success: true,
+      nodeVoltages: new Map<string, number>(),
+      branchCurrents: new Map<string, number>([['z1', current]]),
+    };
+  }
+
+  it('ZEN-001: should warn when breakdown power exceeds the rating', () => {
+    // 5.1V × 200mA = 1.02W > 0.5W
+    const violations = evaluateZEN001Rule([createZener()], resultWithCurrent(-0.2));
+
+    expect(violations.length).toBe(1);
+    expect(violations[0]!.ruleId).toBe('ZEN-001');
+    expect(violations[0]!.severity).toBe('WARNING');
+    expect(violations[0]!.componentIds).toEqual(['z1']);
+  });
+
+  it('ZEN-001: should respect a custom power rating', () => {
+    const violations = evaluateZEN001Rule([createZener(2)], resultWithCurrent(-0.2));
+
+    expect(violations.length).toBe(0);
+  });
+
+  it('ZEN-001: should ignore forward conduction', () => {
+    const violations = evaluateZEN001Rule([createZener()], resultWithCurrent(0.2));
+
+    expect(violations.length).toBe(0);
+  });
+});
+
+describe('REG-001 Post-Simulation Rule', () => {
+  function createRegulator(powerRating?: number): CircuitComponent {
+    const regulator = createComponent('u1', 'regulator', 5, ['in', 'gnd', 'out']);
+    regulator.label = 'U1';
+    regulator.powerRating = powerRating;
+    return regulator;
+  }
+
+  function resultWithPower(power: number) {
+    return {
+      success: true,
+      nodeVoltages: new Map<string, number>(),
+      branchCurrents: new Map<string, number>([['u1', 0.5]]),
+      dissipatedPower: new Map<string, number>([['u1', power]]),
+    };
+  }
+
+  it('REG-001: should warn when dissipation exceeds the rating', () => {
+    // (12V - 5V) × 500mA = 3.5W > 2W
+    const violations = evaluateREG001Rule([createRegulator()], resultWithPower(3.5));
+
+    expect(violations.length).toBe(1);
+    expect(violations[0]!.ruleId).toBe('REG-001');
+    expect(violations[0]!.severity).toBe('WARNING');
+    expect(violations[0]!.componentIds).toEqual(['u1']);
+  });
+
+  it('REG-001: should respect a custom power rating', () => {
+    const violations = evaluateREG001Rule([createRegulator(5)], resultWithPower(3.5));
+
+    expect(violations.length).toBe(0);
+  });
+});
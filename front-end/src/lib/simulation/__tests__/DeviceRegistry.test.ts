@@ -0,0 +1,219 @@
+/**
+ * DeviceRegistry.test.ts - 元件模型註冊表測試
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDeviceModel } from '../DeviceRegistry';
+import { createComponentState, type DeviceContext } from '../DeviceModel';
+import { SparseMatrixBuilder, createVector } from '../Matrix';
+import { GMIN } from '../SemiconductorUtils';
+import type { ComponentStamp } from '../SimulationTypes';
+import { runTransientAnalysis } from '../TransientSolver';
+import { StreamingTransientSolver } from '../StreamingTransientSolver';
+import { runACSweepAnalysis } from '../ACSweepSolver';
+import { componentDefinitions } from '@/config/componentDefinitions';
+import type { CircuitComponent, Wire } from '@/types/circuit';
+import { part, wire } from './circuitFixtures';
+
+// 串聯 RL：R = 100Ω、L = 0.1H (τ = L / R = 1ms)
+const rlCircuit = (source: CircuitComponent) => {
+  const components: CircuitComponent[] = [
+    source,
+    part('r1', 'resistor', 100, ['1', '2']),
+    part('l1', 'inductor', 0.1, ['1', '2']),
+    part('gnd1', 'ground', undefined, ['gnd']),
+  ];
+  const wires: Wire[] = [
+    wire('w1', source.id, 0, 'r1', 0),
+    wire('w2', 'r1', 1, 'l1', 0),
+    wire('w3', 'l1', 1, 'gnd1', 0),
+    wire('w4', source.id, 1, 'gnd1', 0),
+  ];
+  return { components, wires };
+};
+
+// 單一元件印記 (node index -1 表示接地)
+const stampOf = (
+  componentId: string,
+  type: string,
+  value: number,
+  node1Index: number,
+  node2Index: number,
+  extra: Partial<ComponentStamp> = {}
+): ComponentStamp => ({ componentId, type, value, node1Index, node2Index, ...extra });
+
+// 直接呼叫模型方法用的上下文 (預設為 DC 分析)
+const deviceContext = (overrides: Partial<DeviceContext> = {}): DeviceContext => ({
+  analysis: 'dc',
+  nodeCount: 2,
+  time: 0,
+  dt: 0,
+  previousDt: 0,
+  atBreakpoint: false,
+  integrationMethod: 'backward-euler',
+  state: createComponentState(),
+  toggled: new Set(),
+  ...overrides,
+});
+
+describe('DeviceRegistry', () => {
+  it('registers a model for every simulated component type', () => {
+    // 電位器於組裝前展開為兩個電阻，不直接查表
+    const expanded = new Set(['ground', 'potentiometer']);
+    for (const { type } of componentDefinitions.filter(def => !expanded.has(def.type))) {
+      expect(getDeviceModel(type), type).toBeDefined();
+    }
+    // 接地不產生印記
+    expect(getDeviceModel('ground')).toBeUndefined();
+  });
+
+  it('gives the same inductor step response in the transient and streaming solvers', () => {
+    const { components, wires } = rlCircuit(part('v1', 'dc_source', 10, ['+', '-']));
+    const dt = 1e-5;
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 5e-3, timeStep: dt });
+    expect(result.success).toBe(true);
+
+    // i(t) = V/R · (1 - e^(-t/τ))，每個時間點的解對應該步結束時刻
+    const current = result.branchCurrentHistory.get('l1')!;
+    result.timePoints.forEach((t, k) => {
+      const expected = 0.1 * (1 - Math.exp(-(t + dt) / 1e-3));
+      expect(Math.abs(current[k]! - expected)).toBeLessThan(1e-3);
+    });
+
+    const streaming = new StreamingTransientSolver();
+    expect(streaming.initialize(components, wires, { timeStep: dt }).success).toBe(true);
+    const points = streaming.stepBatch(current.length);
+    points.forEach((point, k) => {
+      expect(point.branchCurrents.get('l1')).toBeCloseTo(current[k]!, 12);
+    });
+  });
+
+  it('stamps the inductor impedance jωL in the AC sweep', () => {
+    // 轉角頻率 f = R / (2πL)：|I| = V / (√2·R)，相位落後 45°
+    const source = { ...part('v1', 'ac_source', 10, ['+', '-']), frequency: 60, phase: 0 };
+    const { components, wires } = rlCircuit(source);
+    const corner = 100 / (2 * Math.PI * 0.1);
+    const result = runACSweepAnalysis(components, wires, {
+      startFrequency: corner,
+      endFrequency: corner,
+      pointsPerDecade: 1,
+    });
+
+    expect(result.success).toBe(true);
+    const current = result.frequencyPoints[0]!.branchCurrents.get('l1')!;
+    expect(current.magnitude).toBeCloseTo(10 / (Math.SQRT2 * 100), 6);
+    expect(current.phaseDegrees).toBeCloseTo(-45, 4);
+  });
+});
+
+describe('DeviceRegistry - isolated models', () => {
+  it('stamps a resistor conductance and extracts its current', () => {
+    const model = getDeviceModel('resistor')!;
+    const ctx = deviceContext();
+    const G = new SparseMatrixBuilder(2);
+    const I = createVector(2);
+
+    model.stampDC(G, I, stampOf('r1', 'resistor', 1000, 0, 1), ctx);
+    expect(G.get(0, 0)).toBeCloseTo(1e-3, 15);
+    expect(G.get(1, 1)).toBeCloseTo(1e-3, 15);
+    expect(G.get(0, 1)).toBeCloseTo(-1e-3, 15);
+    expect(G.get(1, 0)).toBeCloseTo(-1e-3, 15);
+    expect(I).toEqual([0, 0]);
+
+    // 接地端不佔矩陣列
+    const grounded = new SparseMatrixBuilder(2);
+    model.stampDC(grounded, I, stampOf('r2', 'resistor', 500, 1, -1), ctx);
+    expect(grounded.getEntryCount()).toBe(1);
+    expect(grounded.get(1, 1)).toBeCloseTo(2e-3, 15);
+
+    const currents = new Map<string, number>();
+    model.current!([5, 2], stampOf('r1', 'resistor', 1000, 0, 1), ctx, currents);
+    expect(currents.get('r1')).toBeCloseTo(3e-3, 15);
+  });
+
+  it('stamps the capacitor companion model for each integration method', () => {
+    const model = getDeviceModel('capacitor')!;
+    const stamp = stampOf('c1', 'capacitor', 1e-6, 0, 1);
+    const ctx = deviceContext({ analysis: 'transient', dt: 1e-6, previousDt: 1e-6 });
+    ctx.state.capacitorVoltages.set('c1', 2);
+
+    // DC 近似開路
+    const dc = new SparseMatrixBuilder(2);
+    model.stampDC(dc, createVector(2), stamp, deviceContext());
+    expect(dc.get(0, 0)).toBeCloseTo(1e-12, 20);
+
+    // Backward Euler：G_eq = C / dt，I_eq = G_eq · v(t-dt)
+    const G = new SparseMatrixBuilder(2);
+    const I = createVector(2);
+    model.stampTransient!(G, I, stamp, ctx);
+    expect(G.get(0, 0)).toBeCloseTo(1, 12);
+    expect(G.get(0, 1)).toBeCloseTo(-1, 12);
+    expect(I[0]).toBeCloseTo(2, 12);
+    expect(I[1]).toBeCloseTo(-2, 12);
+
+    // i = C · (v(t) - v(t-dt)) / dt
+    const x = [3, 0];
+    const currents = new Map<string, number>();
+    model.current!(x, stamp, ctx, currents);
+    expect(currents.get('c1')).toBeCloseTo(1, 12);
+
+    // 梯形法：G_eq = 2C / dt，I_eq = G_eq · v(t-dt) + i(t-dt)
+    model.updateState!(x, stamp, ctx, currents);
+    const trapezoidal = new SparseMatrixBuilder(2);
+    const trapezoidalI = createVector(2);
+    model.stampTransient!(trapezoidal, trapezoidalI, stamp, { ...ctx, integrationMethod: 'trapezoidal' });
+    expect(trapezoidal.get(0, 0)).toBeCloseTo(2, 12);
+    expect(trapezoidalI[0]).toBeCloseTo(2 * 3 + 1, 12);
+
+    // Gear-2 (等步長)：G_eq = 3C / (2dt)，I_eq = C / dt · (2·v(t-dt) - v(t-2dt) / 2)
+    const gear2 = new SparseMatrixBuilder(2);
+    const gear2I = createVector(2);
+    model.stampTransient!(gear2, gear2I, stamp, { ...ctx, integrationMethod: 'gear2' });
+    expect(gear2.get(0, 0)).toBeCloseTo(1.5, 12);
+    expect(gear2I[0]).toBeCloseTo(2 * 3 - 2 / 2, 12);
+  });
+
+  it('linearizes a diode around its operating point and limits the Newton update', () => {
+    const model = getDeviceModel('diode')!;
+    const Is = 1e-14;
+    const nVt = 0.025;
+    const stamp = stampOf('d1', 'diode', 0.7, 0, -1, {
+      currentVarIndex: 0,
+      saturationCurrent: Is,
+      emissionCoefficient: 1,
+      thermalVoltage: nVt,
+      seriesResistance: 0,
+    });
+    // 一個節點 + 一個支路電流變數
+    const ctx = deviceContext({ nodeCount: 1 });
+    model.initialize!(stamp, ctx);
+    ctx.state.diodeVoltages.set('d1', 0.6);
+
+    const G = new SparseMatrixBuilder(2);
+    const I = createVector(2);
+    model.stampDC(G, I, stamp, ctx);
+
+    // 支路方程：-g_d · V(a) + i = I_D - g_d · V_D
+    const g = (Is * Math.exp(0.6 / nVt)) / nVt + GMIN;
+    const id = Is * (Math.exp(0.6 / nVt) - 1) + GMIN * 0.6;
+    expect(G.get(0, 1)).toBe(1);
+    expect(G.get(1, 0) / -g).toBeCloseTo(1, 12);
+    expect(G.get(1, 1)).toBe(1);
+    expect(I[1]! / (id - g * 0.6)).toBeCloseTo(1, 12);
+
+    // 解在工作點上：已收斂，狀態不變
+    expect(model.iterate!([0.6, id], stamp, ctx)).toBe(false);
+    expect(ctx.state.diodeVoltages.get('d1')).toBe(0.6);
+
+    // 順偏大跳躍由 pnjlim 限制，需要再迭代
+    expect(model.iterate!([1.6, id], stamp, ctx)).toBe(true);
+    const limited = ctx.state.diodeVoltages.get('d1')!;
+    expect(limited).toBeGreaterThan(0.6);
+    expect(limited).toBeLessThan(0.8);
+
+    // 支路電流取自額外變數
+    const currents = new Map<string, number>();
+    model.current!([0.65, 2e-3], stamp, ctx, currents);
+    expect(currents.get('d1')).toBe(2e-3);
+  });
+});
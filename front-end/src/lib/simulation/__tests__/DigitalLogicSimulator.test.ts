@@ -113,6 +113,55 @@ describe('DigitalLogicSimulator', () => {
         });
     });
 
+    describe('voltageToLogicWithHysteresis', () => {
+        const hysteresisSimulator = new DigitalLogicSimulator({ hysteresis: 1 });
+
+        it('should keep the previous level inside the hysteresis band', () => {
+            // 門檻 2.5V ± 0.5V：LOW 需 ≥ 3V 才轉 HIGH，HIGH 需 < 2V 才轉 LOW
+            expect(hysteresisSimulator.voltageToLogicWithHysteresis(2.9, LogicLevel.LOW)).toBe(LogicLevel.LOW);
+            expect(hysteresisSimulator.voltageToLogicWithHysteresis(3.0, LogicLevel.LOW)).toBe(LogicLevel.HIGH);
+            expect(hysteresisSimulator.voltageToLogicWithHysteresis(2.1, LogicLevel.HIGH)).toBe(LogicLevel.HIGH);
+            expect(hysteresisSimulator.voltageToLogicWithHysteresis(1.9, LogicLevel.HIGH)).toBe(LogicLevel.LOW);
+        });
+
+        it('should fall back to the single threshold without a previous level', () => {
+            expect(hysteresisSimulator.voltageToLogicWithHysteresis(2.6, LogicLevel.UNKNOWN)).toBe(LogicLevel.HIGH);
+            expect(hysteresisSimulator.voltageToLogicWithHysteresis(undefined, LogicLevel.HIGH)).toBe(LogicLevel.UNKNOWN);
+        });
+
+        it('should not chatter when a gate input hovers around the threshold', () => {
+            const notGate = createLogicGate('not1', 'logic_not');
+            const outputs = [2.4, 2.6, 2.4, 2.6, 3.2, 2.4, 2.6, 1.8].map((voltage) => {
+                const portNodeVoltages = new Map([['not1:not1-p0', voltage]]);
+                return hysteresisSimulator.simulate([notGate], undefined, portNodeVoltages).gateStates.get('not1')!.output;
+            });
+
+            const { HIGH, LOW } = LogicLevel;
+            expect(outputs).toEqual([HIGH, HIGH, HIGH, HIGH, LOW, LOW, LOW, HIGH]);
+        });
+
+        it('should forget the input history of a removed gate', () => {
+            const simulator = new DigitalLogicSimulator({ hysteresis: 1 });
+            const notGate = createLogicGate('not1', 'logic_not');
+            simulator.simulate([notGate], undefined, new Map([['not1:not1-p0', 3.2]]));
+            // 邏輯閘被刪除後再以相同 id 加回：2.4V 應以單一門檻判定為 LOW，而非沿用舊的 HIGH
+            simulator.simulate([], undefined, new Map());
+            const result = simulator.simulate([notGate], undefined, new Map([['not1:not1-p0', 2.4]]));
+
+            expect(result.gateStates.get('not1')!.inputA).toBe(LogicLevel.LOW);
+        });
+
+        it('should clear the input history on reset', () => {
+            const simulator = new DigitalLogicSimulator({ hysteresis: 1 });
+            const notGate = createLogicGate('not1', 'logic_not');
+            simulator.simulate([notGate], undefined, new Map([['not1:not1-p0', 3.2]]));
+            simulator.reset();
+            const result = simulator.simulate([notGate], undefined, new Map([['not1:not1-p0', 2.4]]));
+
+            expect(result.gateStates.get('not1')!.inputA).toBe(LogicLevel.LOW);
+        });
+    });
+
     describe('AND gate simulation with portNodeVoltages', () => {
         it('should output HIGH when both inputs are 5V', () => {
             const andGate = createLogicGate('and1', 'logic_and');
@@ -4,7 +4,17 @@
 
 import { describe, it, expect } from 'vitest';
 import { runDCAnalysis } from '../MNASolver';
-import { gaussianElimination } from '../Matrix';
+import {
+  gaussianElimination,
+  SparseLUSolver,
+  SparseMatrixBuilder,
+  sparseFromDense,
+  sparseMultiply,
+  createMatrix,
+} from '../Matrix';
+import { ComplexSparseLUSolver } from '../ComplexMatrix';
+import { complex } from '../Complex';
+import { getOpenCircuitVoltage } from '../BatteryModel';
 import type { CircuitComponent, Wire } from '@/types/circuit';
 
 describe('Matrix Operations', () => {
@@ -46,6 +56,96 @@ describe('Matrix Operations', () => {
   });
 });
 
+describe('Sparse LU', () => {
+  /**
+   * 建立 n 節點的 RC 梯形網路 MNA 矩陣 (節點 0 接電壓源，帶零對角的電流變數列)
+   */
+  function buildLadder(n: number, g: number): number[][] {
+    const A = createMatrix(n + 1);
+    for (let i = 0; i < n; i++) {
+      A[i]![i]! += g + 1e-3 * (i + 1);
+      if (i + 1 < n) {
+        A[i]![i]! += g;
+        A[i]![i + 1]! -= g;
+        A[i + 1]![i]! -= g;
+      }
+    }
+    A[0]![n]! = 1;
+    A[n]![0]! = 1;
+    return A;
+  }
+
+  it('should match Gaussian elimination on an MNA matrix with a zero diagonal', () => {
+    const A = buildLadder(20, 0.5);
+    const b = Array.from({ length: 21 }, (_, i) => (i === 20 ? 5 : 0.01 * i));
+    const expected = gaussianElimination(A, b)!;
+    const x = new SparseLUSolver().solve(A, b);
+
+    expect(x).not.toBeNull();
+    x!.forEach((v, i) => expect(v).toBeCloseTo(expected[i]!, 9));
+  });
+
+  it('should reuse the symbolic factorization while the pattern is unchanged', () => {
+    const solver = new SparseLUSolver();
+    const b = Array.from({ length: 31 }, (_, i) => (i === 30 ? 1 : 0));
+    for (const g of [0.1, 1, 10, 100]) {
+      const A = buildLadder(30, g);
+      const x = solver.solve(A, b)!;
+      const residual = sparseMultiply(sparseFromDense(A), x);
+      residual.forEach((v, i) => expect(v).toBeCloseTo(b[i]!, 9));
+    }
+    expect(solver.getSymbolicCount()).toBe(1);
+
+    // 新增非零元素 (結構改變) 時重新排序
+    const A = buildLadder(30, 1);
+    A[0]![29]! = -0.2;
+    expect(solver.solve(A, b)).not.toBeNull();
+    expect(solver.getSymbolicCount()).toBe(2);
+  });
+
+  it('should return null for singular matrix', () => {
+    expect(new SparseLUSolver().solve([[1, 2], [2, 4]], [3, 6])).toBeNull();
+  });
+
+  it('should assemble and solve a 2000-node ladder from stamps without a dense matrix', () => {
+    const n = 2000;
+    const A = new SparseMatrixBuilder(n + 1);
+    for (let i = 0; i < n; i++) {
+      A.add(i, i, 1 + 1e-3 * (i + 1));
+      if (i + 1 < n) {
+        A.add(i, i, 1);
+        A.add(i, i + 1, -1);
+        A.add(i + 1, i, -1);
+      }
+    }
+    A.add(0, n, 1);
+    A.add(n, 0, 1);
+    // 對角 n 個、相鄰耦合 2(n - 1) 個、電壓源列 2 個
+    expect(A.getEntryCount()).toBe(3 * n);
+
+    const b = Array.from({ length: n + 1 }, (_, i) => (i === n ? 1 : 0));
+    const x = new SparseLUSolver().solve(A, b)!;
+    expect(x).not.toBeNull();
+    const residual = sparseMultiply(A.toCSR(), x);
+    residual.forEach((v, i) => expect(v).toBeCloseTo(b[i]!, 9));
+  });
+
+  it('should solve complex systems', () => {
+    // (1 + j)x + y = 2 + j, x - jy = 1 - j  →  x = 1, y = 1
+    const A = [
+      [complex(1, 1), complex(1, 0)],
+      [complex(1, 0), complex(0, -1)],
+    ];
+    const x = new ComplexSparseLUSolver().solve(A, [complex(2, 1), complex(1, -1)]);
+
+    expect(x).not.toBeNull();
+    expect(x![0]!.re).toBeCloseTo(1, 9);
+    expect(x![0]!.im).toBeCloseTo(0, 9);
+    expect(x![1]!.re).toBeCloseTo(1, 9);
+    expect(x![1]!.im).toBeCloseTo(0, 9);
+  });
+});
+
 describe('MNASolver', () => {
   /**
    * 建立測試用元件的輔助函數
@@ -391,10 +491,34 @@ describe('MNASolver', () => {
       expect(r1Current).toBeCloseTo(0.005, 5); // 5mA
     });
 
-    it('should analyze circuit with LED (simplified model)', () => {
-      // 電路: DC 5V -> LED (V_f=2.0V) -> R1 100Ω -> GND
-      // LED 使用二極體模型：V_f = 2.0V, R_on = 0.1Ω
-      // 電流 = (5V - 2.0V) / (100Ω + 0.1Ω) ≈ 29.97mA
+    it('should drive a resistor with a DC current source', () => {
+      // 電路: I1 10mA (+ 端流出) -> R1 1kΩ -> GND
+      // 預期: V = I·R = 10V，電阻電流 10mA
+
+      const components = [
+        createComponent('i1', 'current_source', 0.01, [{ name: '+' }, { name: '-' }]),
+        createComponent('r1', 'resistor', 1000),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'i1', 0, 'r1', 0),
+        createWire('w2', 'r1', 1, 'gnd', 0),
+        createWire('w3', 'i1', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      expect(Math.max(...result.nodeVoltages.values())).toBeCloseTo(10, 6);
+      expect(result.branchCurrents.get('r1')).toBeCloseTo(0.01, 9);
+      // 支路電流方向為 + → -，電流源由 + 端流出故為負值
+      expect(result.branchCurrents.get('i1')).toBeCloseTo(-0.01, 9);
+    });
+
+    it('should analyze circuit with LED (Shockley model)', () => {
+      // 電路: DC 5V -> LED (V_f=2.0V @ 20mA) -> R1 100Ω -> GND
+      // 電流約 30mA 時，LED 壓降僅比 V_f 高約 n·V_T·ln(1.5) + R_S·ΔI ≈ 30mV
 
       const components = [
         createComponent('v1', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
@@ -414,7 +538,7 @@ describe('MNASolver', () => {
 
       expect(result.success).toBe(true);
 
-      // 電流 = (5V - 2.0V) / (100Ω + 0.1Ω) ≈ 29.97mA
+      // 電流 ≈ (5V - 2.03V) / 100Ω ≈ 29.7mA
       const ledCurrent = result.branchCurrents.get('led1');
       const r1Current = result.branchCurrents.get('r1');
 
@@ -425,6 +549,950 @@ describe('MNASolver', () => {
     });
   });
 
+  describe('Diode (Shockley)', () => {
+    const DIODE_PORTS = [{ name: 'anode' }, { name: 'cathode' }];
+
+    function buildDiodeCircuit(diode: CircuitComponent, sourceVoltage: number, resistance: number) {
+      const components = [
+        createComponent('v1', 'dc_source', sourceVoltage, [{ name: '+' }, { name: '-' }]),
+        diode,
+        createComponent('r1', 'resistor', resistance),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, diode.id, 0),
+        createWire('w2', diode.id, 1, 'r1', 0),
+        createWire('w3', 'r1', 1, 'gnd', 0),
+        createWire('w4', 'v1', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    }
+
+    it('should follow the exponential I-V curve in forward bias', () => {
+      // 5V -> D1 (I_S = 1e-14, n = 1, R_S = 0) -> 1kΩ -> GND
+      const diode = createComponent('d1', 'diode', 0.7, DIODE_PORTS);
+      diode.saturationCurrent = 1e-14;
+      diode.seriesResistance = 0;
+      const result = buildDiodeCircuit(diode, 5, 1000);
+
+      expect(result.success).toBe(true);
+      const current = result.branchCurrents.get('d1')!;
+      const vd = 5 - current * 1000;
+      // 工作點同時滿足 Shockley 方程式與 KVL
+      expect(vd).toBeGreaterThan(0.6);
+      expect(vd).toBeLessThan(0.7);
+      expect(current).toBeCloseTo(1e-14 * Math.expm1(vd / 0.025852), 6);
+    });
+
+    it('should conduct only the saturation current in reverse bias', () => {
+      // 二極體反接：電流約為 -I_S (加上 GMIN 漏電)
+      const diode = createComponent('d1', 'diode', 0.7, DIODE_PORTS);
+      diode.saturationCurrent = 1e-14;
+      const components = [
+        createComponent('v1', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+        diode,
+        createComponent('r1', 'resistor', 1000),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'r1', 0),
+        createWire('w2', 'r1', 1, 'd1', 1),
+        createWire('w3', 'd1', 0, 'gnd', 0),
+        createWire('w4', 'v1', 1, 'gnd', 0),
+      ];
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      const current = result.branchCurrents.get('d1')!;
+      expect(current).toBeLessThan(0);
+      expect(Math.abs(current)).toBeLessThan(1e-10);
+    });
+
+    it('should derive LED model parameters from the color forward voltage', () => {
+      // 相同電路下，V_f 較低的紅光 LED 電流應大於藍光 LED
+      const red = createComponent('led1', 'led', 2.0, DIODE_PORTS);
+      red.ledColor = 'Red';
+      const blue = createComponent('led1', 'led', 2.0, DIODE_PORTS);
+      blue.ledColor = 'Blue';
+
+      const redResult = buildDiodeCircuit(red, 5, 150);
+      const blueResult = buildDiodeCircuit(blue, 5, 150);
+      expect(redResult.success).toBe(true);
+      expect(blueResult.success).toBe(true);
+
+      const redCurrent = redResult.branchCurrents.get('led1')!;
+      const blueCurrent = blueResult.branchCurrents.get('led1')!;
+      // LED 壓降接近各顏色的 V_f
+      expect(5 - redCurrent * 150).toBeCloseTo(1.8, 1);
+      expect(5 - blueCurrent * 150).toBeCloseTo(3.0, 1);
+      expect(redCurrent).toBeGreaterThan(blueCurrent);
+    });
+  });
+
+  describe('Zener Diode', () => {
+    const ZENER_PORTS = [{ name: 'anode' }, { name: 'cathode' }];
+
+    function buildReverseZenerCircuit(sourceVoltage: number) {
+      // V1 -> 1kΩ -> 稽納陰極，陽極接地 (逆向偏壓)
+      const components = [
+        createComponent('v1', 'dc_source', sourceVoltage, [{ name: '+' }, { name: '-' }]),
+        createComponent('r1', 'resistor', 1000),
+        createComponent('z1', 'zener', 5.1, ZENER_PORTS),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'r1', 0),
+        createWire('w2', 'r1', 1, 'z1', 1),
+        createWire('w3', 'z1', 0, 'gnd', 0),
+        createWire('w4', 'v1', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    }
+
+    it('should regulate near V_z in reverse breakdown', () => {
+      const result = buildReverseZenerCircuit(12);
+
+      expect(result.success).toBe(true);
+      const current = result.branchCurrents.get('z1')!;
+      const vz = 12 + current * 1000;
+      // 電流方向為 anode → cathode，崩潰時為負
+      expect(current).toBeLessThan(0);
+      expect(vz).toBeGreaterThan(5.0);
+      expect(vz).toBeLessThan(5.2);
+    });
+
+    it('should block below the breakdown voltage', () => {
+      const result = buildReverseZenerCircuit(3);
+
+      expect(result.success).toBe(true);
+      expect(Math.abs(result.branchCurrents.get('z1')!)).toBeLessThan(1e-6);
+    });
+
+    it('should conduct like a diode in forward bias', () => {
+      const components = [
+        createComponent('v1', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+        createComponent('z1', 'zener', 5.1, ZENER_PORTS),
+        createComponent('r1', 'resistor', 1000),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'z1', 0),
+        createWire('w2', 'z1', 1, 'r1', 0),
+        createWire('w3', 'r1', 1, 'gnd', 0),
+        createWire('w4', 'v1', 1, 'gnd', 0),
+      ];
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      const vf = 5 - result.branchCurrents.get('z1')! * 1000;
+      expect(vf).toBeGreaterThan(0.5);
+      expect(vf).toBeLessThan(0.8);
+    });
+  });
+
+  describe('Battery', () => {
+    const buildCircuit = (stateOfCharge: number) => {
+      const battery = {
+        ...createComponent('b1', 'battery', 9, [{ name: '+' }, { name: '-' }]),
+        internalResistance: 1,
+        stateOfCharge,
+      };
+      const components = [
+        battery,
+        createComponent('rl', 'resistor', 8),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'b1', 0, 'rl', 0),
+        createWire('w2', 'rl', 1, 'gnd', 0),
+        createWire('w3', 'b1', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    };
+
+    it('should drop the terminal voltage across the internal resistance', () => {
+      // 充飽：OCV = 9V，I = 9 / (1 + 8) = 1A
+      const result = buildCircuit(1);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(1, 9);
+      // 支路電流方向為 + → - (電池內部)，放電為負
+      expect(result.branchCurrents.get('b1')).toBeCloseTo(-1, 9);
+    });
+
+    it('should lower the open-circuit voltage at partial state of charge', () => {
+      const full = buildCircuit(1).branchCurrents.get('rl')!;
+      const half = buildCircuit(0.5).branchCurrents.get('rl')!;
+      const empty = buildCircuit(0).branchCurrents.get('rl')!;
+
+      expect(half).toBeLessThan(full);
+      expect(empty).toBeLessThan(half);
+      expect(half * 9).toBeCloseTo(getOpenCircuitVoltage(9, 0.5), 9);
+    });
+  });
+
+  describe('Lamp', () => {
+    // 電壓源直接驅動 12V 5W 燈泡 (R_hot = 28.8Ω、R_cold = 2.88Ω)
+    const buildCircuit = (voltage: number) => {
+      const components = [
+        createComponent('v1', 'dc_source', voltage, [{ name: '+' }, { name: '-' }]),
+        { ...createComponent('l1', 'lamp', 5), ratedVoltage: 12 },
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'l1', 0),
+        createWire('w2', 'l1', 1, 'gnd', 0),
+        createWire('w3', 'v1', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    };
+
+    it('should draw the rated current at the rated voltage', () => {
+      const result = buildCircuit(12);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('l1')).toBeCloseTo(5 / 12, 5);
+    });
+
+    it('should settle to the hot-filament steady state below the rated voltage', () => {
+      const result = buildCircuit(6);
+
+      expect(result.success).toBe(true);
+      const current = result.branchCurrents.get('l1')!;
+      // 穩態：θ = P / P_r，R = R_cold + (R_hot - R_cold)·√θ
+      const resistance = 2.88 + 25.92 * Math.sqrt((6 * current) / 5);
+      expect(current).toBeCloseTo(6 / resistance, 5);
+      expect(current).toBeGreaterThan(6 / 28.8);
+      expect(current).toBeLessThan(6 / 2.88);
+    });
+  });
+
+  describe('Environment sensors', () => {
+    // 5V 經 10kΩ 上拉電阻驅動感測元件 (分壓器)，回傳感測元件電壓
+    const sensorVoltage = (
+      sensor: CircuitComponent,
+      environment: { ambientTemperature: number; lightLevel: number }
+    ) => {
+      const components = [
+        createComponent('v1', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+        createComponent('r1', 'resistor', 10000),
+        sensor,
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'r1', 0),
+        createWire('w2', 'r1', 1, sensor.id, 0),
+        createWire('w3', sensor.id, 1, 'gnd', 0),
+        createWire('w4', 'v1', 1, 'gnd', 0),
+      ];
+      const result = runDCAnalysis(components, wires, environment);
+      expect(result.success).toBe(true);
+      return 5 - 10000 * result.branchCurrents.get('r1')!;
+    };
+
+    it('should follow the β equation for NTC and PTC thermistors', () => {
+      const ntc = { ...createComponent('th1', 'thermistor', 10000), thermistorBeta: 3950 };
+      const ptc = { ...ntc, thermistorType: 'ptc' as const };
+      const factor = Math.exp(3950 * (1 / 323.15 - 1 / 298.15));
+
+      // 25°C 時為標稱電阻，分壓為一半
+      expect(sensorVoltage(ntc, { ambientTemperature: 25, lightLevel: 100 })).toBeCloseTo(2.5, 6);
+      // 50°C：NTC 電阻下降、PTC 電阻上升
+      const rNtc = 10000 * factor;
+      const rPtc = 10000 / factor;
+      expect(sensorVoltage(ntc, { ambientTemperature: 50, lightLevel: 100 })).toBeCloseTo(5 * rNtc / (10000 + rNtc), 6);
+      expect(sensorVoltage(ptc, { ambientTemperature: 50, lightLevel: 100 })).toBeCloseTo(5 * rPtc / (10000 + rPtc), 6);
+    });
+
+    it('should lower the LDR resistance as the light level rises', () => {
+      const ldr = { ...createComponent('ldr1', 'ldr', 10000), ldrGamma: 0.7 };
+      const bright = 10000 * Math.pow(100, -0.7); // 1000 lux
+
+      expect(sensorVoltage(ldr, { ambientTemperature: 25, lightLevel: 10 })).toBeCloseTo(2.5, 6);
+      expect(sensorVoltage(ldr, { ambientTemperature: 25, lightLevel: 1000 })).toBeCloseTo(5 * bright / (10000 + bright), 6);
+      // 全暗時為全暗電阻 1MΩ
+      expect(sensorVoltage(ldr, { ambientTemperature: 25, lightLevel: 0 })).toBeCloseTo(5 * 1e6 / (10000 + 1e6), 6);
+    });
+  });
+
+  describe('Switch variants', () => {
+    it('should route the SPDT common terminal to the selected throw', () => {
+      // a 接 5V、b 接 2V，共點接 1kΩ 負載；兩電源各有洩放電阻，未選取時仍有迴路
+      const build = (switchThrow: number) => {
+        const components = [
+          createComponent('va', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+          createComponent('vb', 'dc_source', 2, [{ name: '+' }, { name: '-' }]),
+          {
+            ...createComponent('s1', 'switch_spdt', undefined, [{ name: 'com' }, { name: 'a' }, { name: 'b' }]),
+            switchThrow,
+          },
+          createComponent('rl', 'resistor', 1000),
+          createComponent('ra', 'resistor', 10000),
+          createComponent('rb', 'resistor', 10000),
+          createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+        ];
+        const wires = [
+          createWire('w1', 'va', 0, 's1', 1),
+          createWire('w2', 'vb', 0, 's1', 2),
+          createWire('w3', 's1', 0, 'rl', 0),
+          createWire('w4', 'rl', 1, 'gnd', 0),
+          createWire('w5', 'va', 1, 'gnd', 0),
+          createWire('w6', 'vb', 1, 'gnd', 0),
+          createWire('w7', 'va', 0, 'ra', 0),
+          createWire('w8', 'vb', 0, 'rb', 0),
+          createWire('w9', 'ra', 1, 'gnd', 0),
+          createWire('w10', 'rb', 1, 'gnd', 0),
+        ];
+        return runDCAnalysis(components, wires);
+      };
+
+      const throwA = build(0);
+      const throwB = build(1);
+
+      expect(throwA.success).toBe(true);
+      expect(throwA.branchCurrents.get('rl')).toBeCloseTo(5 / 1000.01, 9);
+      // 支路電流方向為 com → 接點，負載電流由接點流向 com
+      expect(throwA.branchCurrents.get('s1')).toBeCloseTo(-5 / 1000.01, 9);
+      expect(throwB.success).toBe(true);
+      expect(throwB.branchCurrents.get('rl')).toBeCloseTo(2 / 1000.01, 9);
+    });
+
+    it('should throw both DPDT poles together', () => {
+      // 兩極共點皆接 5V：A 側 pole1 → r1、pole2 → r2，B 側交換兩負載
+      const build = (switchThrow: number) => {
+        const components = [
+          createComponent('v1', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+          {
+            ...createComponent('s1', 'switch_dpdt', undefined, [
+              { name: 'com1' }, { name: 'a1' }, { name: 'b1' },
+              { name: 'com2' }, { name: 'a2' }, { name: 'b2' },
+            ]),
+            switchThrow,
+          },
+          createComponent('r1', 'resistor', 1000),
+          createComponent('r2', 'resistor', 500),
+          createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+        ];
+        const wires = [
+          createWire('w1', 'v1', 0, 's1', 0),
+          createWire('w2', 'v1', 0, 's1', 3),
+          createWire('w3', 's1', 1, 'r1', 0),
+          createWire('w4', 's1', 4, 'r2', 0),
+          createWire('w5', 'r1', 1, 'gnd', 0),
+          createWire('w6', 'r2', 1, 'gnd', 0),
+          createWire('w7', 'v1', 1, 'gnd', 0),
+          createWire('w8', 's1', 2, 'r2', 0),
+          createWire('w9', 's1', 5, 'r1', 0),
+        ];
+        return runDCAnalysis(components, wires);
+      };
+
+      const throwA = build(0);
+      expect(throwA.success).toBe(true);
+      expect(throwA.branchCurrents.get('s1')).toBeCloseTo(5 / 1000.01, 9);
+      expect(throwA.branchCurrents.get('s1:pole2')).toBeCloseTo(5 / 500.01, 9);
+
+      const throwB = build(1);
+      expect(throwB.success).toBe(true);
+      expect(throwB.branchCurrents.get('s1')).toBeCloseTo(5 / 500.01, 9);
+      expect(throwB.branchCurrents.get('s1:pole2')).toBeCloseTo(5 / 1000.01, 9);
+    });
+
+    it('should close a normally-open push button and open a normally-closed one while pressed', () => {
+      const build = (type: string, buttonPressed: boolean) => {
+        const components = [
+          createComponent('v1', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+          { ...createComponent('pb', type), buttonPressed },
+          createComponent('rl', 'resistor', 1000),
+          createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+        ];
+        const wires = [
+          createWire('w1', 'v1', 0, 'pb', 0),
+          createWire('w2', 'pb', 1, 'rl', 0),
+          createWire('w3', 'rl', 1, 'gnd', 0),
+          createWire('w4', 'v1', 1, 'gnd', 0),
+        ];
+        return runDCAnalysis(components, wires).branchCurrents.get('rl') ?? 0;
+      };
+
+      expect(build('push_button_no', false)).toBeCloseTo(0, 9);
+      expect(build('push_button_no', true)).toBeCloseTo(5 / 1000.01, 9);
+      expect(build('push_button_nc', false)).toBeCloseTo(5 / 1000.01, 9);
+      expect(build('push_button_nc', true)).toBeCloseTo(0, 9);
+    });
+  });
+
+  describe('Relay', () => {
+    const RELAY_PORTS = [{ name: 'c1' }, { name: 'c2' }, { name: 'com' }, { name: 'no' }, { name: 'nc' }];
+
+    // 線圈由 vc 驅動 (100Ω)，接點共點接 5V，NO / NC 各接 1kΩ 到地
+    const buildCircuit = (coilVoltage: number) => {
+      const components = [
+        createComponent('vc', 'dc_source', coilVoltage, [{ name: '+' }, { name: '-' }]),
+        createComponent('v5', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+        createComponent('k1', 'relay', 100, RELAY_PORTS),
+        createComponent('rno', 'resistor', 1000),
+        createComponent('rnc', 'resistor', 1000),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'vc', 0, 'k1', 0),
+        createWire('w2', 'k1', 1, 'gnd', 0),
+        createWire('w3', 'v5', 0, 'k1', 2),
+        createWire('w4', 'k1', 3, 'rno', 0),
+        createWire('w5', 'k1', 4, 'rnc', 0),
+        createWire('w6', 'rno', 1, 'gnd', 0),
+        createWire('w7', 'rnc', 1, 'gnd', 0),
+        createWire('w8', 'vc', 1, 'gnd', 0),
+        createWire('w9', 'v5', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    };
+
+    it('should switch the contacts to NO above the pull-in current', () => {
+      // 12V / 100Ω = 120mA > 35mA
+      const result = buildCircuit(12);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('k1')).toBeCloseTo(0.12, 9);
+      expect(result.branchCurrents.get('rno')).toBeCloseTo(5 / 1000.01, 9);
+      expect(result.branchCurrents.get('rnc')).toBeCloseTo(0, 9);
+    });
+
+    it('should stay released below the pull-in current', () => {
+      // 2V / 100Ω = 20mA：高於釋放電流但未達吸合電流，由釋放狀態起算不吸合
+      const result = buildCircuit(2);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rno')).toBeCloseTo(0, 9);
+      expect(result.branchCurrents.get('rnc')).toBeCloseTo(5 / 1000.01, 9);
+    });
+  });
+
+  describe('DC Motor', () => {
+    // 12V 直接驅動馬達 (R = 2Ω，預設 k = 0.02 V·s/rad、B = 1e-5 N·m·s/rad)
+    const buildCircuit = (loadTorque: number) => {
+      const components = [
+        createComponent('v1', 'dc_source', 12, [{ name: '+' }, { name: '-' }]),
+        { ...createComponent('m1', 'dc_motor', 2, [{ name: '+' }, { name: '-' }]), loadTorque },
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'm1', 0),
+        createWire('w2', 'm1', 1, 'gnd', 0),
+        createWire('w3', 'v1', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    };
+
+    it('should draw only the friction current at the no-load steady speed', () => {
+      // 穩態反電動勢 k·ω 使電樞等效為 R + k²/B = 42Ω
+      const result = buildCircuit(0);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('m1')).toBeCloseTo(12 / 42, 9);
+    });
+
+    it('should draw extra current to balance a load torque', () => {
+      // i = (V + k·T_load / B) / (R + k²/B)
+      const result = buildCircuit(0.05);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('m1')).toBeCloseTo((12 + (0.02 * 0.05) / 1e-5) / 42, 9);
+    });
+  });
+
+  describe('Voltage Regulator', () => {
+    const REGULATOR_PORTS = [{ name: 'in' }, { name: 'gnd' }, { name: 'out' }];
+
+    // vin → 穩壓器 (5V，壓降 2V、限流 1.5A、I_q 5mA) → 負載電阻到地
+    const buildCircuit = (inputVoltage: number, loadResistance: number) => {
+      const components = [
+        createComponent('vin', 'dc_source', inputVoltage, [{ name: '+' }, { name: '-' }]),
+        createComponent('u1', 'regulator', 5, REGULATOR_PORTS),
+        createComponent('rl', 'resistor', loadResistance),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'vin', 0, 'u1', 0),
+        createWire('w2', 'u1', 1, 'gnd', 0),
+        createWire('w3', 'u1', 2, 'rl', 0),
+        createWire('w4', 'rl', 1, 'gnd', 0),
+        createWire('w5', 'vin', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    };
+
+    it('should regulate the output with enough input headroom', () => {
+      const result = buildCircuit(12, 100);
+
+      expect(result.success).toBe(true);
+      // V_out = 5V 扣除輸出電阻 10mΩ 的負載壓降
+      expect(result.branchCurrents.get('rl')! * 100).toBeCloseTo(5, 3);
+      expect(result.branchCurrents.get('u1')).toBeCloseTo(0.05, 5);
+      // P = (12 - 5)·50mA + 12·5mA
+      expect(result.dissipatedPower?.get('u1')).toBeCloseTo(0.41, 3);
+    });
+
+    it('should enter dropout when the input headroom is insufficient', () => {
+      // 6V 輸入僅能輸出 6 - 2 = 4V
+      const result = buildCircuit(6, 100);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')! * 100).toBeCloseTo(4, 3);
+    });
+
+    it('should limit the output current into a heavy load', () => {
+      const result = buildCircuit(12, 1);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('u1')).toBeCloseTo(1.5, 6);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(1.5, 6);
+    });
+
+    it('should not source current without an input voltage', () => {
+      const result = buildCircuit(0, 100);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('u1')).toBe(0);
+      expect(Math.abs(result.branchCurrents.get('rl')!)).toBeLessThan(1e-9);
+    });
+  });
+
+  describe('Potentiometer', () => {
+    it('should split into two segments at the wiper position', () => {
+      // 10V 跨 10kΩ 電位器，滑臂 25% → 上段 2.5kΩ、下段 7.5kΩ，滑臂接 10kΩ 負載
+      const pot = {
+        ...createComponent('p1', 'potentiometer', 10000, [{ name: '1' }, { name: 'w' }, { name: '2' }]),
+        wiperPosition: 0.25,
+      };
+      const components = [
+        createComponent('v1', 'dc_source', 10, [{ name: '+' }, { name: '-' }]),
+        pot,
+        createComponent('rl', 'resistor', 10000),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'p1', 0),
+        createWire('w2', 'p1', 1, 'rl', 0),
+        createWire('w3', 'rl', 1, 'gnd', 0),
+        createWire('w4', 'p1', 2, 'gnd', 0),
+        createWire('w5', 'v1', 1, 'gnd', 0),
+      ];
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      const lower = (7500 * 10000) / (7500 + 10000);
+      const vWiper = (10 * lower) / (2500 + lower);
+      expect(result.branchCurrents.get('p1')).toBeCloseTo((10 - vWiper) / 2500, 9);
+      expect(result.branchCurrents.get('p1:lower')).toBeCloseTo(vWiper / 7500, 9);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(vWiper / 10000, 9);
+    });
+  });
+
+  describe('Transformer', () => {
+    const TRANSFORMER_PORTS = [{ name: 'p1' }, { name: 'p2' }, { name: 's1' }, { name: 's2' }];
+
+    function buildTransformerCircuit(transformer: CircuitComponent, sourceVoltage: number) {
+      // V1 -> 100Ω -> 一次側；二次側接 100Ω 負載，兩側共地
+      const components = [
+        createComponent('v1', 'dc_source', sourceVoltage, [{ name: '+' }, { name: '-' }]),
+        createComponent('r1', 'resistor', 100),
+        transformer,
+        createComponent('rl', 'resistor', 100),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [
+        createWire('w1', 'v1', 0, 'r1', 0),
+        createWire('w2', 'r1', 1, transformer.id, 0),
+        createWire('w3', transformer.id, 1, 'gnd', 0),
+        createWire('w4', transformer.id, 2, 'rl', 0),
+        createWire('w5', 'rl', 1, 'gnd', 0),
+        createWire('w6', transformer.id, 3, 'gnd', 0),
+        createWire('w7', 'v1', 1, 'gnd', 0),
+      ];
+      return runDCAnalysis(components, wires);
+    }
+
+    it('should treat coupled windings as DC shorts', () => {
+      const result = buildTransformerCircuit(createComponent('x1', 'transformer', 10, TRANSFORMER_PORTS), 1);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('x1')).toBeCloseTo(0.01, 9);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(0, 9);
+    });
+
+    it('should couple an ideal transformer by the turns ratio', () => {
+      // n = 2：反射阻抗 n²·100Ω = 400Ω → i1 = 10V / 500Ω = 20mA、v2 = 4V / 2 = 2V
+      const transformer = { ...createComponent('x1', 'transformer', 2, TRANSFORMER_PORTS), transformerIdeal: true };
+      const result = buildTransformerCircuit(transformer, 10);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('x1')).toBeCloseTo(0.02, 6);
+      expect(result.branchCurrents.get('x1:secondary')).toBeCloseTo(-0.04, 6);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(0.04, 6);
+    });
+  });
+
+  describe('Controlled Sources', () => {
+    const VC_PORTS = [{ name: '+' }, { name: '-' }, { name: 'c+' }, { name: 'c-' }];
+    const CC_PORTS = [{ name: '+' }, { name: '-' }];
+
+    /**
+     * 控制側：Vin -> R1 1kΩ -> GND (Vin 支路電流 = -Vin/1kΩ，方向 + → -)
+     * 輸出側：受控源 out+ -> RL -> GND，out- 接地
+     */
+    function buildControlledCircuit(source: CircuitComponent, vin: number, loadResistance: number) {
+      const components = [
+        createComponent('vin', 'dc_source', vin, [{ name: '+' }, { name: '-' }]),
+        createComponent('r1', 'resistor', 1000),
+        createComponent('rl', 'resistor', loadResistance),
+        source,
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vin', 0, 'r1', 0),
+        createWire('w2', 'r1', 1, 'gnd', 0),
+        createWire('w3', 'vin', 1, 'gnd', 0),
+        createWire('w4', 'e1', 0, 'rl', 0),
+        createWire('w5', 'rl', 1, 'gnd', 0),
+        createWire('w6', 'e1', 1, 'gnd', 0),
+      ];
+      if (source.ports.length === 4) {
+        wires.push(createWire('w7', 'e1', 2, 'vin', 0), createWire('w8', 'e1', 3, 'gnd', 0));
+      }
+
+      return runDCAnalysis(components, wires);
+    }
+
+    it('should amplify the control voltage with a VCVS', () => {
+      // V(out) = μ · Vin = 2 · 1V → RL 1kΩ 電流 2mA
+      const result = buildControlledCircuit(createComponent('e1', 'vcvs', 2, VC_PORTS), 1, 1000);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(0.002, 9);
+      expect(result.branchCurrents.get('e1')).toBeCloseTo(-0.002, 9);
+    });
+
+    it('should sink g_m · V_c from the output node with a VCCS', () => {
+      // I = 1mS · 2V = 2mA 由 out+ 流入元件 → V(out) = -2V
+      const result = buildControlledCircuit(createComponent('e1', 'vccs', 1e-3, VC_PORTS), 2, 1000);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('e1')).toBeCloseTo(0.002, 9);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(-0.002, 9);
+    });
+
+    it('should scale the controlling branch current with a CCCS', () => {
+      // i(vin) = -1mA → I = β · i = -10mA (即 10mA 由 out+ 流出) → RL 100Ω 電流 10mA
+      const cccs = { ...createComponent('e1', 'cccs', 10, CC_PORTS), controllingComponentId: 'vin' };
+      const result = buildControlledCircuit(cccs, 1, 100);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(0.01, 9);
+    });
+
+    it('should convert the controlling branch current to voltage with a CCVS', () => {
+      // V(out) = r_m · i(vin) = 1kΩ · (-1mA) = -1V
+      const ccvs = { ...createComponent('e1', 'ccvs', 1000, CC_PORTS), controllingComponentId: 'vin' };
+      const result = buildControlledCircuit(ccvs, 1, 1000);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(-0.001, 9);
+    });
+
+    it('should fail when a current-controlled source has no controlling element', () => {
+      const result = buildControlledCircuit(createComponent('e1', 'cccs', 10, CC_PORTS), 1, 100);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('控制');
+    });
+  });
+
+  describe('Op-Amp', () => {
+    const OPAMP_PORTS = [{ name: '+' }, { name: '-' }, { name: 'out' }, { name: 'V+' }, { name: 'V-' }];
+
+    function createOpAmp(id: string, props: Partial<CircuitComponent> = {}): CircuitComponent {
+      return { ...createComponent(id, 'opamp', undefined, OPAMP_PORTS), ...props };
+    }
+
+    it('should compute inverting amplifier gain with ideal op-amp', () => {
+      // 電路: Vin 1V -> Rin 1kΩ -> (-)，Rf 2kΩ 由 out 接回 (-)，(+) 接地
+      // Vout = -Rf/Rin * Vin = -2V，負載 RL 1kΩ 電流 = -2mA
+
+      const components = [
+        createComponent('vin', 'dc_source', 1, [{ name: '+' }, { name: '-' }]),
+        createComponent('rin', 'resistor', 1000),
+        createComponent('rf', 'resistor', 2000),
+        createComponent('rl', 'resistor', 1000),
+        createOpAmp('u1', { opampIdeal: true }),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vin', 0, 'rin', 0),
+        createWire('w2', 'rin', 1, 'u1', 1),
+        createWire('w3', 'rf', 0, 'u1', 1),
+        createWire('w4', 'rf', 1, 'u1', 2),
+        createWire('w5', 'rl', 0, 'u1', 2),
+        createWire('w6', 'rl', 1, 'gnd', 0),
+        createWire('w7', 'u1', 0, 'gnd', 0),
+        createWire('w8', 'vin', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(-0.002, 6);
+      expect(result.branchCurrents.get('rin')).toBeCloseTo(0.001, 6);
+    });
+
+    it('should include finite open-loop gain error', () => {
+      // 電壓隨耦器 A_OL = 100：Vout = A / (1 + A) * Vin = 100/101 * 1V
+
+      const components = [
+        createComponent('vin', 'dc_source', 1, [{ name: '+' }, { name: '-' }]),
+        createComponent('rl', 'resistor', 1000),
+        createOpAmp('u1', { openLoopGain: 100 }),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vin', 0, 'u1', 0),
+        createWire('w2', 'u1', 2, 'u1', 1),
+        createWire('w3', 'rl', 0, 'u1', 2),
+        createWire('w4', 'rl', 1, 'gnd', 0),
+        createWire('w5', 'vin', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo((100 / 101) / 1000, 8);
+    });
+
+    it('should saturate output at the supply rails', () => {
+      // 非反相放大器增益 11，Vin 1V 理想輸出 11V，但電源軌 ±5V → Vout = 5V
+
+      const components = [
+        createComponent('vin', 'dc_source', 1, [{ name: '+' }, { name: '-' }]),
+        createComponent('vcc', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+        createComponent('vee', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+        createComponent('rg', 'resistor', 1000),
+        createComponent('rf', 'resistor', 10000),
+        createComponent('rl', 'resistor', 1000),
+        createOpAmp('u1', { opampIdeal: true }),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vin', 0, 'u1', 0),
+        createWire('w2', 'rg', 0, 'u1', 1),
+        createWire('w3', 'rg', 1, 'gnd', 0),
+        createWire('w4', 'rf', 0, 'u1', 1),
+        createWire('w5', 'rf', 1, 'u1', 2),
+        createWire('w6', 'rl', 0, 'u1', 2),
+        createWire('w7', 'rl', 1, 'gnd', 0),
+        createWire('w8', 'vcc', 0, 'u1', 3),
+        createWire('w9', 'vcc', 1, 'gnd', 0),
+        createWire('w10', 'vee', 1, 'u1', 4),
+        createWire('w11', 'vee', 0, 'gnd', 0),
+        createWire('w12', 'vin', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('rl')).toBeCloseTo(0.005, 6);
+    });
+  });
+
+  describe('BJT (Ebers-Moll)', () => {
+    const BJT_PORTS = [{ name: 'base' }, { name: 'collector' }, { name: 'emitter' }];
+
+    it('should bias NPN in forward-active region with I_C = β_F · I_B', () => {
+      // 電路: Vcc 10V，Rb 100kΩ 接基極，Rc 500Ω 接集極，射極接地
+
+      const components = [
+        createComponent('vcc', 'dc_source', 10, [{ name: '+' }, { name: '-' }]),
+        createComponent('rb', 'resistor', 100e3),
+        createComponent('rc', 'resistor', 500),
+        createComponent('q1', 'transistor_npn', undefined, BJT_PORTS),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vcc', 0, 'rb', 0),
+        createWire('w2', 'vcc', 0, 'rc', 0),
+        createWire('w3', 'rb', 1, 'q1', 0),
+        createWire('w4', 'rc', 1, 'q1', 1),
+        createWire('w5', 'q1', 2, 'gnd', 0),
+        createWire('w6', 'vcc', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      const ib = result.branchCurrents.get('rb')!;
+      const ic = result.branchCurrents.get('rc')!;
+      // V_BE ≈ 0.65V → I_B ≈ 93μA
+      expect(ib).toBeGreaterThan((10 - 0.8) / 100e3);
+      expect(ib).toBeLessThan((10 - 0.5) / 100e3);
+      expect(ic / ib).toBeCloseTo(100, 1);
+      expect(result.branchCurrents.get('q1')).toBeCloseTo(ic, 9);
+    });
+
+    it('should saturate NPN switch when base is overdriven', () => {
+      // Rb 10kΩ → I_B ≈ 0.93mA，β_F·I_B 遠大於 Rc 可提供的電流 → 飽和，V_CE 很小
+
+      const components = [
+        createComponent('vcc', 'dc_source', 10, [{ name: '+' }, { name: '-' }]),
+        createComponent('rb', 'resistor', 10e3),
+        createComponent('rc', 'resistor', 1000),
+        createComponent('q1', 'transistor_npn', undefined, BJT_PORTS),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vcc', 0, 'rb', 0),
+        createWire('w2', 'vcc', 0, 'rc', 0),
+        createWire('w3', 'rb', 1, 'q1', 0),
+        createWire('w4', 'rc', 1, 'q1', 1),
+        createWire('w5', 'q1', 2, 'gnd', 0),
+        createWire('w6', 'vcc', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      const ic = result.branchCurrents.get('rc')!;
+      // V_CE(sat) < 0.2V → I_C > 9.8mA
+      expect(ic).toBeGreaterThan(0.0098);
+      expect(ic).toBeLessThan(0.01);
+    });
+
+    it('should bias PNP with reversed polarities', () => {
+      // 電路: 射極接 Vcc 10V，Rb 100kΩ 由基極接地，Rc 500Ω 由集極接地
+
+      const components = [
+        createComponent('vcc', 'dc_source', 10, [{ name: '+' }, { name: '-' }]),
+        createComponent('rb', 'resistor', 100e3),
+        createComponent('rc', 'resistor', 500),
+        createComponent('q1', 'transistor_pnp', undefined, BJT_PORTS),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vcc', 0, 'q1', 2),
+        createWire('w2', 'q1', 0, 'rb', 0),
+        createWire('w3', 'rb', 1, 'gnd', 0),
+        createWire('w4', 'q1', 1, 'rc', 0),
+        createWire('w5', 'rc', 1, 'gnd', 0),
+        createWire('w6', 'vcc', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      const ib = result.branchCurrents.get('rb')!;
+      const ic = result.branchCurrents.get('rc')!;
+      expect(ib).toBeGreaterThan(0);
+      expect(ic / ib).toBeCloseTo(100, 1);
+      // 集極電流流出元件 → 流入集極為負
+      expect(result.branchCurrents.get('q1')).toBeCloseTo(-ic, 9);
+    });
+  });
+
+  describe('MOSFET (Shichman-Hodges)', () => {
+    const MOSFET_PORTS = [{ name: 'gate' }, { name: 'drain' }, { name: 'source' }];
+
+    it('should bias NMOS in saturation with channel-length modulation', () => {
+      // V_G = 3V，Rd 1kΩ 接 Vdd 10V，β = K_p·W/L = 1mA/V²，V_th = 1V，λ = 0.02
+      // I_D = β/2 · 2² · (1 + λ·(10 - 1000·I_D)) → I_D = 2.4mA / 1.04
+
+      const components = [
+        createComponent('vdd', 'dc_source', 10, [{ name: '+' }, { name: '-' }]),
+        createComponent('vg', 'dc_source', 3, [{ name: '+' }, { name: '-' }]),
+        createComponent('rd', 'resistor', 1000),
+        createComponent('m1', 'nmos', undefined, MOSFET_PORTS),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+
+      const wires = [
+        createWire('w1', 'vdd', 0, 'rd', 0),
+        createWire('w2', 'rd', 1, 'm1', 1),
+        createWire('w3', 'vg', 0, 'm1', 0),
+        createWire('w4', 'm1', 2, 'gnd', 0),
+        createWire('w5', 'vdd', 1, 'gnd', 0),
+        createWire('w6', 'vg', 1, 'gnd', 0),
+      ];
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      expect(result.branchCurrents.get('m1')).toBeCloseTo(2.4e-3 / 1.04, 8);
+      expect(result.branchCurrents.get('rd')).toBeCloseTo(2.4e-3 / 1.04, 8);
+    });
+
+    it('should switch a CMOS inverter between the rails', () => {
+      // PMOS 源極接 Vdd 5V、NMOS 源極接地，輸出以 1MΩ 負載量測
+      const solveInverter = (vin: number) => {
+        const components = [
+          createComponent('vdd', 'dc_source', 5, [{ name: '+' }, { name: '-' }]),
+          createComponent('vin', 'dc_source', vin, [{ name: '+' }, { name: '-' }]),
+          createComponent('mp', 'pmos', undefined, MOSFET_PORTS),
+          createComponent('mn', 'nmos', undefined, MOSFET_PORTS),
+          createComponent('rl', 'resistor', 1e6),
+          createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+        ];
+
+        const wires = [
+          createWire('w1', 'vdd', 0, 'mp', 2),
+          createWire('w2', 'vin', 0, 'mp', 0),
+          createWire('w3', 'vin', 0, 'mn', 0),
+          createWire('w4', 'mp', 1, 'mn', 1),
+          createWire('w5', 'mn', 1, 'rl', 0),
+          createWire('w6', 'rl', 1, 'gnd', 0),
+          createWire('w7', 'mn', 2, 'gnd', 0),
+          createWire('w8', 'vdd', 1, 'gnd', 0),
+          createWire('w9', 'vin', 1, 'gnd', 0),
+        ];
+
+        const result = runDCAnalysis(components, wires);
+        expect(result.success).toBe(true);
+        return result.branchCurrents.get('rl')! * 1e6;
+      };
+
+      expect(solveInverter(0)).toBeGreaterThan(4.99);
+      expect(solveInverter(5)).toBeLessThan(0.01);
+    });
+  });
+
+  describe('Large circuits', () => {
+    it('should solve a 400-resistor chain (hundreds of nodes)', () => {
+      // 1V 經 400 顆 100Ω 串聯到地：每顆電流 1 / 40kΩ = 25µA
+      const count = 400;
+      const components = [
+        createComponent('v1', 'dc_source', 1, [{ name: '+' }, { name: '-' }]),
+        createComponent('gnd', 'ground', undefined, [{ name: 'gnd' }]),
+      ];
+      const wires = [createWire('wg', 'v1', 1, 'gnd', 0)];
+      for (let k = 0; k < count; k++) {
+        components.push(createComponent(`r${k}`, 'resistor', 100));
+        wires.push(createWire(`w${k}`, k === 0 ? 'v1' : `r${k - 1}`, k === 0 ? 0 : 1, `r${k}`, 0));
+      }
+      wires.push(createWire('wl', `r${count - 1}`, 1, 'gnd', 0));
+
+      const result = runDCAnalysis(components, wires);
+
+      expect(result.success).toBe(true);
+      for (let k = 0; k < count; k++) {
+        expect(Math.abs(result.branchCurrents.get(`r${k}`)!)).toBeCloseTo(25e-6, 12);
+      }
+    });
+  });
+
   describe('Logic Gate Integration', () => {
     it('should treat logic gate output as voltage source', () => {
       // 電路: Logic AND (output HIGH=5V) -> R1 1kΩ -> GND
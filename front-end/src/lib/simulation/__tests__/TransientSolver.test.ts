@@ -3,8 +3,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { generateWaveform, runTransientAnalysis } from '../TransientSolver';
+import { generatePulse, generatePWL, generateWaveform, runTransientAnalysis } from '../TransientSolver';
+import { StreamingTransientSolver } from '../StreamingTransientSolver';
+import type { IntegrationMethod } from '../SimulationTypes';
+import { analyzeSeriesRLC } from '@/utils/rlcCalculations';
 import type { CircuitComponent, Wire } from '@/types/circuit';
+import { part, wire } from './circuitFixtures';
 
 describe('generateWaveform', () => {
   const amplitude = 5;
@@ -62,6 +66,45 @@ describe('generateWaveform', () => {
   });
 });
 
+describe('generatePulse / generatePWL', () => {
+  const pulse = {
+    initialValue: 0,
+    pulsedValue: 5,
+    delay: 1e-3,
+    riseTime: 1e-4,
+    fallTime: 2e-4,
+    pulseWidth: 1e-3,
+    period: 4e-3,
+  };
+
+  it('follows the SPICE PULSE shape and repeats every period', () => {
+    expect(generatePulse(0.5e-3, pulse)).toBe(0); // 延遲中
+    expect(generatePulse(1.05e-3, pulse)).toBeCloseTo(2.5, 9); // 上升沿中點
+    expect(generatePulse(1.5e-3, pulse)).toBe(5); // 保持 V2
+    expect(generatePulse(2.2e-3, pulse)).toBeCloseTo(2.5, 9); // 下降沿中點
+    expect(generatePulse(3e-3, pulse)).toBe(0); // 回到 V1
+    expect(generatePulse(5.5e-3, pulse)).toBe(5); // 下一個週期
+  });
+
+  it('emits a single pulse when period is not positive', () => {
+    expect(generatePulse(5.5e-3, { ...pulse, period: 0 })).toBe(0);
+  });
+
+  it('interpolates PWL points and holds the end values', () => {
+    const points = [
+      { time: 1e-3, value: 1 },
+      { time: 2e-3, value: 3 },
+      { time: 2e-3, value: -1 },
+      { time: 4e-3, value: 0 },
+    ];
+    expect(generatePWL(0, points)).toBe(1);
+    expect(generatePWL(1.5e-3, points)).toBeCloseTo(2, 9);
+    expect(generatePWL(3e-3, points)).toBeCloseTo(-0.5, 9);
+    expect(generatePWL(10e-3, points)).toBe(0);
+    expect(generatePWL(1e-3, [])).toBe(0);
+  });
+});
+
 describe('runTransientAnalysis', () => {
   it('simulates simple RC circuit with AC source', () => {
     const components: CircuitComponent[] = [
@@ -177,3 +220,1147 @@ describe('runTransientAnalysis', () => {
     expect(result.error).toContain('接地');
   });
 });
+
+describe('runTransientAnalysis - op-amp', () => {
+  it('limits voltage follower output by slew rate', () => {
+    // 電壓隨耦器輸入 2V 步階，SR = 1000 V/s、dt = 0.1ms → 每步最多上升 0.1V
+    const opamp = {
+      ...part('u1', 'opamp', undefined, ['+', '-', 'out', 'V+', 'V-']),
+      opampIdeal: true,
+      slewRate: 1000,
+    };
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 2, ['+', '-']),
+      part('rl', 'resistor', 1000, ['1', '2']),
+      opamp,
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'u1', 0),
+      wire('w2', 'u1', 2, 'u1', 1),
+      wire('w3', 'rl', 0, 'u1', 2),
+      wire('w4', 'rl', 1, 'gnd1', 0),
+      wire('w5', 'v1', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 0.003,
+      timeStep: 0.0001,
+    });
+
+    expect(result.success).toBe(true);
+    const loadCurrent = result.branchCurrentHistory.get('rl')!;
+    // 前 20 步為斜坡，之後維持 2V
+    expect(loadCurrent[0]! * 1000).toBeCloseTo(0.1, 6);
+    expect(loadCurrent[9]! * 1000).toBeCloseTo(1.0, 6);
+    expect(loadCurrent[25]! * 1000).toBeCloseTo(2.0, 6);
+  });
+});
+
+describe('runTransientAnalysis - BJT', () => {
+  it('solves NPN bias point with Newton-Raphson at every time step', () => {
+    const components: CircuitComponent[] = [
+      part('vcc', 'dc_source', 10, ['+', '-']),
+      part('rb', 'resistor', 100e3, ['1', '2']),
+      part('rc', 'resistor', 500, ['1', '2']),
+      part('q1', 'transistor_npn', undefined, ['base', 'collector', 'emitter']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vcc', 0, 'rb', 0),
+      wire('w2', 'vcc', 0, 'rc', 0),
+      wire('w3', 'rb', 1, 'q1', 0),
+      wire('w4', 'rc', 1, 'q1', 1),
+      wire('w5', 'q1', 2, 'gnd1', 0),
+      wire('w6', 'vcc', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 0.001,
+      timeStep: 0.0001,
+    });
+
+    expect(result.success).toBe(true);
+    const ib = result.branchCurrentHistory.get('rb')!;
+    const ic = result.branchCurrentHistory.get('rc')!;
+    for (let i = 0; i < ic.length; i++) {
+      expect(ic[i]! / ib[i]!).toBeCloseTo(100, 1);
+    }
+  });
+});
+
+describe('runTransientAnalysis - MOSFET', () => {
+  it('keeps NMOS drain current on the square-law curve at every time step', () => {
+    // V_G = 3V、Rd 1kΩ、Vdd 10V → 飽和區 I_D = 2.4mA / 1.04
+    const components: CircuitComponent[] = [
+      part('vdd', 'dc_source', 10, ['+', '-']),
+      part('vg', 'dc_source', 3, ['+', '-']),
+      part('rd', 'resistor', 1000, ['1', '2']),
+      part('m1', 'nmos', undefined, ['gate', 'drain', 'source']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vdd', 0, 'rd', 0),
+      wire('w2', 'rd', 1, 'm1', 1),
+      wire('w3', 'vg', 0, 'm1', 0),
+      wire('w4', 'm1', 2, 'gnd1', 0),
+      wire('w5', 'vdd', 1, 'gnd1', 0),
+      wire('w6', 'vg', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 0.001,
+      timeStep: 0.0001,
+    });
+
+    expect(result.success).toBe(true);
+    const id = result.branchCurrentHistory.get('m1')!;
+    for (const current of id) {
+      expect(current).toBeCloseTo(2.4e-3 / 1.04, 8);
+    }
+  });
+});
+
+describe('runTransientAnalysis - transformer', () => {
+  it('scales the secondary voltage by sqrt(L2/L1) with unity coupling', () => {
+    // k = 1、L1 = 10H、L2 = 0.1H → v2 = v1 / 10 (每一時間步皆成立)
+    const source = { ...part('v1', 'ac_source', 10, ['+', '-']), frequency: 60, phase: Math.PI / 2 };
+    const transformer = {
+      ...part('x1', 'transformer', 10, ['p1', 'p2', 's1', 's2']),
+      primaryInductance: 10,
+      secondaryInductance: 0.1,
+      couplingCoefficient: 1,
+    };
+    const components: CircuitComponent[] = [
+      source,
+      transformer,
+      part('rl', 'resistor', 100, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'x1', 0),
+      wire('w2', 'v1', 1, 'gnd1', 0),
+      wire('w3', 'x1', 1, 'gnd1', 0),
+      wire('w4', 'x1', 2, 'rl', 0),
+      wire('w5', 'rl', 1, 'gnd1', 0),
+      wire('w6', 'x1', 3, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 1 / 60,
+      timeStep: 1 / 6000,
+    });
+
+    expect(result.success).toBe(true);
+    const load = result.branchCurrentHistory.get('rl')!;
+    const secondary = result.branchCurrentHistory.get('x1:secondary')!;
+    result.timePoints.forEach((t, i) => {
+      const v1 = 10 * Math.sin(2 * Math.PI * 60 * t + Math.PI / 2);
+      expect(load[i]! * 100).toBeCloseTo(v1 / 10, 6);
+      // 負載電流即二次側繞組電流 (方向相反)
+      expect(secondary[i]!).toBeCloseTo(-load[i]!, 9);
+    });
+  });
+});
+
+describe('runTransientAnalysis - PULSE source', () => {
+  it('drives a resistive load with the pulse waveform', () => {
+    // PWM：0 → 5V、週期 1ms、寬度 0.3ms，負載 1kΩ
+    const pulse = {
+      initialValue: 0,
+      pulsedValue: 5,
+      delay: 0,
+      riseTime: 1e-5,
+      fallTime: 1e-5,
+      pulseWidth: 3e-4,
+      period: 1e-3,
+    };
+    const components: CircuitComponent[] = [
+      { ...part('v1', 'ac_source', 1, ['+', '-']), waveformType: 'pulse', pulse },
+      part('r1', 'resistor', 1000, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'gnd1', 0),
+      wire('w3', 'v1', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 2e-3,
+      timeStep: 1e-5,
+    });
+
+    expect(result.success).toBe(true);
+    const current = result.branchCurrentHistory.get('r1')!;
+    result.timePoints.forEach((t, i) => {
+      expect(current[i]!).toBeCloseTo(generatePulse(t, pulse) / 1000, 9);
+    });
+    expect(Math.max(...current)).toBeCloseTo(5e-3, 9);
+  });
+});
+
+describe('runTransientAnalysis - battery', () => {
+  it('depletes the state of charge by the charge drawn from its branch', () => {
+    // 9V、R_int = 1Ω、負載 8Ω、容量 1 mAh (= 3.6 C)
+    const components: CircuitComponent[] = [
+      { ...part('b1', 'battery', 9, ['+', '-']), internalResistance: 1, batteryCapacity: 1e-3, stateOfCharge: 1 },
+      part('rl', 'resistor', 8, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'b1', 0, 'rl', 0),
+      wire('w2', 'rl', 1, 'gnd1', 0),
+      wire('w3', 'b1', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 1,
+      timeStep: 0.01,
+    });
+
+    expect(result.success).toBe(true);
+    const soc = result.stateOfChargeHistory.get('b1')!;
+    const current = result.branchCurrentHistory.get('b1')!;
+    expect(soc.length).toBe(result.timePoints.length);
+    expect(soc[0]).toBe(1);
+
+    // 庫侖計數：每一步 ΔSoC = i·dt / 3.6 C
+    for (let i = 1; i < soc.length; i++) {
+      expect(soc[i]! - soc[i - 1]!).toBeCloseTo((current[i - 1]! * 0.01) / 3.6, 12);
+    }
+    // 開路電壓隨 SoC 下降，負載電流隨之減少
+    expect(soc[soc.length - 1]!).toBeLessThan(0.8);
+    expect(-current[current.length - 1]!).toBeLessThan(-current[0]!);
+  });
+});
+
+describe('runTransientAnalysis - relay', () => {
+  it('pulls in on the coil current rise and releases with hysteresis', () => {
+    // 線圈 100Ω、0.1H (τ = 1ms)，吸合 35mA、釋放 10mA
+    // 驅動：10V 至 3ms → 2V (20mA，介於兩門檻之間) 至 6ms → 0V
+    const pwlPoints = [
+      { time: 0, value: 10 },
+      { time: 3e-3, value: 10 },
+      { time: 3.01e-3, value: 2 },
+      { time: 6e-3, value: 2 },
+      { time: 6.01e-3, value: 0 },
+    ];
+    const components: CircuitComponent[] = [
+      { ...part('vc', 'ac_source', 1, ['+', '-']), waveformType: 'pwl', pwlPoints },
+      part('v5', 'dc_source', 5, ['+', '-']),
+      {
+        ...part('k1', 'relay', 100, ['c1', 'c2', 'com', 'no', 'nc']),
+        coilInductance: 0.1,
+        pullInCurrent: 0.035,
+        dropOutCurrent: 0.01,
+      },
+      part('rno', 'resistor', 1000, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vc', 0, 'k1', 0),
+      wire('w2', 'k1', 1, 'gnd1', 0),
+      wire('w3', 'v5', 0, 'k1', 2),
+      wire('w4', 'k1', 3, 'rno', 0),
+      wire('w5', 'rno', 1, 'gnd1', 0),
+      wire('w6', 'vc', 1, 'gnd1', 0),
+      wire('w7', 'v5', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 8e-3,
+      timeStep: 1e-5,
+    });
+
+    expect(result.success).toBe(true);
+    const load = result.branchCurrentHistory.get('rno')!;
+    const closed = load.map(i => i > 1e-3);
+    const firstClose = result.timePoints[closed.indexOf(true)]!;
+    const lastClosed = result.timePoints[closed.lastIndexOf(true)]!;
+
+    // 吸合：i(t) = 0.1·(1 - e^(-t/τ)) = 35mA → t = -τ·ln(0.65) ≈ 0.43ms
+    expect(firstClose).toBeCloseTo(-1e-3 * Math.log(0.65), 4);
+    // 2V 期間維持吸合；斷電後線圈電流以 τ 衰減至 10mA 才釋放
+    expect(closed.slice(closed.indexOf(true), closed.lastIndexOf(true) + 1).every(Boolean)).toBe(true);
+    const i3 = 0.1 * (1 - Math.exp(-3));
+    const i6 = 0.02 + (i3 - 0.02) * Math.exp(-3);
+    expect(lastClosed).toBeCloseTo(6e-3 + 1e-3 * Math.log(i6 / 0.01), 4);
+    expect(closed[closed.length - 1]).toBe(false);
+  });
+});
+
+describe('runTransientAnalysis - fuse', () => {
+  // 10V 經 1A 保險絲 (I²t = 0.5 A²s、熔絲 0.05Ω) 驅動負載
+  const run = (load: number) => {
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 10, ['+', '-']),
+      { ...part('f1', 'fuse', 1, ['1', '2']), meltingI2t: 0.5 },
+      part('rl', 'resistor', load, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'f1', 0),
+      wire('w2', 'f1', 1, 'rl', 0),
+      wire('w3', 'rl', 1, 'gnd1', 0),
+      wire('w4', 'v1', 1, 'gnd1', 0),
+    ];
+    return runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.05, timeStep: 1e-3 });
+  };
+
+  it('blows once the excess I²t reaches the melting energy and stays open', () => {
+    const result = run(2);
+
+    expect(result.success).toBe(true);
+    const current = result.branchCurrentHistory.get('f1')!;
+    const i = 10 / 2.05;
+    // 每步累積 (i² - 1²)·dt，第 n 步求解後達 0.5 A²s 即熔斷
+    const steps = Math.ceil(0.5 / ((i * i - 1) * 1e-3));
+    const blowTime = result.fuseBlowTimes.get('f1')!;
+    expect(blowTime).toBeCloseTo((steps - 1) * 1e-3, 9);
+
+    const blowIndex = result.timePoints.findIndex(t => t > blowTime);
+    expect(current[blowIndex - 1]).toBeCloseTo(i, 6);
+    for (const value of current.slice(blowIndex)) {
+      expect(Math.abs(value)).toBeLessThan(1e-9);
+    }
+  });
+
+  it('does not heat up at or below the rated current', () => {
+    const result = run(10);
+
+    expect(result.success).toBe(true);
+    expect(result.fuseBlowTimes.has('f1')).toBe(false);
+  });
+});
+
+describe('runTransientAnalysis - lamp', () => {
+  // 12V 直接驅動 12V 5W 燈泡：R_hot = 28.8Ω、R_cold = 2.88Ω、τ = 50ms
+  const run = () => {
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 12, ['+', '-']),
+      { ...part('l1', 'lamp', 5, ['1', '2']), ratedVoltage: 12, thermalTimeConstant: 0.05 },
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'l1', 0),
+      wire('w2', 'l1', 1, 'gnd1', 0),
+      wire('w3', 'v1', 1, 'gnd1', 0),
+    ];
+    return runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.5, timeStep: 1e-3 });
+  };
+
+  it('draws the cold-filament inrush current at switch-on', () => {
+    const result = run();
+
+    expect(result.success).toBe(true);
+    const current = result.branchCurrentHistory.get('l1')!;
+    expect(current[0]).toBeCloseTo(12 / 2.88, 9);
+  });
+
+  it('settles to the rated current as the filament heats up', () => {
+    const result = run();
+
+    expect(result.success).toBe(true);
+    const current = result.branchCurrentHistory.get('l1')!;
+    for (let k = 1; k < current.length; k++) {
+      expect(current[k]!).toBeLessThanOrEqual(current[k - 1]! + 1e-12);
+    }
+    // 10τ 後應已接近額定電流 P / V
+    expect(current[current.length - 1]).toBeCloseTo(5 / 12, 3);
+  });
+});
+
+describe('runTransientAnalysis - 555 timer', () => {
+  const timerPins = ['gnd', 'trig', 'out', 'reset', 'ctrl', 'thr', 'dis', 'vcc'];
+
+  // 輸出高電位的區間 [起點, 終點] (以負載電流判斷)
+  const highIntervals = (timePoints: number[], load: number[]): Array<[number, number]> => {
+    const intervals: Array<[number, number]> = [];
+    let start: number | null = null;
+    load.forEach((i, k) => {
+      if (i > 1e-3 && start === null) start = timePoints[k]!;
+      if (i <= 1e-3 && start !== null) {
+        intervals.push([start, timePoints[k]!]);
+        start = null;
+      }
+    });
+    return intervals;
+  };
+
+  it('oscillates in astable mode between the 1/3 and 2/3 VCC thresholds', () => {
+    // R1 = 1kΩ (VCC-DIS)、R2 = 10kΩ (DIS-THR/TRIG)、C = 1μF，負載 1kΩ
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 9, ['+', '-']),
+      part('u1', 'timer555', undefined, timerPins),
+      part('r1', 'resistor', 1000, ['1', '2']),
+      part('r2', 'resistor', 10000, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('rl', 'resistor', 1000, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'u1', 7),
+      wire('w2', 'u1', 3, 'u1', 7),
+      wire('w3', 'v1', 0, 'r1', 0),
+      wire('w4', 'r1', 1, 'u1', 6),
+      wire('w5', 'u1', 6, 'r2', 0),
+      wire('w6', 'r2', 1, 'u1', 5),
+      wire('w7', 'u1', 5, 'u1', 1),
+      wire('w8', 'u1', 1, 'c1', 0),
+      wire('w9', 'c1', 1, 'gnd1', 0),
+      wire('w10', 'u1', 2, 'rl', 0),
+      wire('w11', 'rl', 1, 'gnd1', 0),
+      wire('w12', 'u1', 0, 'gnd1', 0),
+      wire('w13', 'v1', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.06, timeStep: 1e-5 });
+
+    expect(result.success).toBe(true);
+    const intervals = highIntervals(result.timePoints, result.branchCurrentHistory.get('rl')!);
+    expect(intervals.length).toBeGreaterThanOrEqual(3);
+
+    // 電容於 1/3 ~ 2/3 VCC 之間充放電：t_H = ln2·(R1 + R2)·C、t_L = ln2·R2·C
+    // (放電端 DIS 經 10Ω 導通，仍被 R1 拉高約 0.09V，放電時間略長)
+    const [first, second, third] = intervals;
+    const highTime = second![1] - second![0];
+    const lowTime = third![0] - second![1];
+    expect(highTime).toBeCloseTo(Math.LN2 * 11000 * 1e-6, 4);
+    expect(lowTime / (Math.LN2 * 10000 * 1e-6)).toBeCloseTo(1, 1);
+    // 第一個週期自 0V 充電至 2/3 VCC：t = ln3·(R1 + R2)·C
+    expect(first![0]).toBe(0);
+    expect(first![1]).toBeCloseTo(Math.log(3) * 11000 * 1e-6, 4);
+  });
+
+  it('produces a single 1.1·RC pulse in monostable mode', () => {
+    // R = 10kΩ、C = 1μF；TRIG 平時 9V，於 2ms 拉低 0.2ms
+    const pulse = {
+      initialValue: 9,
+      pulsedValue: 0,
+      delay: 2e-3,
+      riseTime: 1e-6,
+      fallTime: 1e-6,
+      pulseWidth: 2e-4,
+      period: 0,
+    };
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 9, ['+', '-']),
+      { ...part('vt', 'ac_source', 1, ['+', '-']), waveformType: 'pulse', pulse },
+      part('u1', 'timer555', undefined, timerPins),
+      part('r1', 'resistor', 10000, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('rl', 'resistor', 1000, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'u1', 7),
+      wire('w2', 'u1', 3, 'u1', 7),
+      wire('w3', 'v1', 0, 'r1', 0),
+      wire('w4', 'r1', 1, 'u1', 6),
+      wire('w5', 'u1', 6, 'u1', 5),
+      wire('w6', 'u1', 5, 'c1', 0),
+      wire('w7', 'c1', 1, 'gnd1', 0),
+      wire('w8', 'vt', 0, 'u1', 1),
+      wire('w9', 'u1', 2, 'rl', 0),
+      wire('w10', 'rl', 1, 'gnd1', 0),
+      wire('w11', 'u1', 0, 'gnd1', 0),
+      wire('w12', 'v1', 1, 'gnd1', 0),
+      wire('w13', 'vt', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.03, timeStep: 1e-5 });
+
+    expect(result.success).toBe(true);
+    const load = result.branchCurrentHistory.get('rl')!;
+    const intervals = highIntervals(result.timePoints, load);
+    expect(intervals).toHaveLength(1);
+
+    // 輸出高電位 VCC - 1.7V 經 10Ω 輸出電阻驅動 1kΩ 負載
+    expect(Math.max(...load)).toBeCloseTo(7.3 / 1010, 6);
+    // 電容自 0V 充電至 2/3 VCC：t = ln3·RC ≈ 1.1·RC
+    const [start, end] = intervals[0]!;
+    expect(start).toBeCloseTo(2e-3, 4);
+    expect(end - start).toBeCloseTo(Math.log(3) * 10000 * 1e-6, 4);
+  });
+});
+
+describe('runTransientAnalysis - comparator / Schmitt trigger', () => {
+  const countEdges = (current: number[]) =>
+    current.slice(1).filter((i, k) => (i > 1e-3) !== (current[k]! > 1e-3)).length;
+
+  it('switches once on a noisy ramp where a plain comparator chatters', () => {
+    // 0 → 5V 斜坡疊加 ±0.3V 鋸齒雜訊，比較器參考 2.5V (遲滯 20mV)，施密特門檻 3V / 2V
+    const pwlPoints = Array.from({ length: 41 }, (_, k) => ({
+      time: k * 2.5e-4,
+      value: (5 * k) / 40 + (k % 2 === 0 ? -0.3 : 0.3),
+    }));
+    const components: CircuitComponent[] = [
+      { ...part('vin', 'ac_source', 1, ['+', '-']), waveformType: 'pwl', pwlPoints },
+      part('vref', 'dc_source', 2.5, ['+', '-']),
+      { ...part('u1', 'comparator', undefined, ['+', '-', 'out']), hysteresis: 0.02 },
+      { ...part('u2', 'schmitt_trigger', undefined, ['in', 'out']), upperThreshold: 3, lowerThreshold: 2 },
+      part('rl1', 'resistor', 1000, ['1', '2']),
+      part('rl2', 'resistor', 1000, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vin', 0, 'u1', 0),
+      wire('w2', 'vref', 0, 'u1', 1),
+      wire('w3', 'vin', 0, 'u2', 0),
+      wire('w4', 'u1', 2, 'rl1', 0),
+      wire('w5', 'u2', 1, 'rl2', 0),
+      wire('w6', 'rl1', 1, 'gnd1', 0),
+      wire('w7', 'rl2', 1, 'gnd1', 0),
+      wire('w8', 'vin', 1, 'gnd1', 0),
+      wire('w9', 'vref', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.01, timeStep: 1e-5 });
+
+    expect(result.success).toBe(true);
+    expect(countEdges(result.branchCurrentHistory.get('rl1')!)).toBeGreaterThan(1);
+    const schmitt = result.branchCurrentHistory.get('rl2')!;
+    expect(countEdges(schmitt)).toBe(1);
+    // 輸出高電平 5V 經 100Ω 輸出電阻驅動 1kΩ 負載
+    expect(schmitt[schmitt.length - 1]).toBeCloseTo(5 / 1100, 9);
+  });
+
+  it('keeps its state across time steps to form an RC relaxation oscillator', () => {
+    // 反相施密特觸發器 + RC 回授：電容在 2V ~ 3V 間充放電，半週期 = RC·ln(3/2) (R 含 100Ω 輸出電阻)
+    // 輸出電平為內部定值，v1 僅為滿足電路需有電源的檢查
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 5, ['+', '-']),
+      part('rb', 'resistor', 1000, ['1', '2']),
+      {
+        ...part('u1', 'schmitt_trigger', undefined, ['in', 'out']),
+        upperThreshold: 3,
+        lowerThreshold: 2,
+        invertOutput: true,
+      },
+      part('r1', 'resistor', 10000, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'u1', 1, 'r1', 0),
+      wire('w2', 'r1', 1, 'u1', 0),
+      wire('w3', 'u1', 0, 'c1', 0),
+      wire('w4', 'c1', 1, 'gnd1', 0),
+      wire('w5', 'v1', 0, 'rb', 0),
+      wire('w6', 'rb', 1, 'gnd1', 0),
+      wire('w7', 'v1', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.05, timeStep: 1e-5 });
+
+    expect(result.success).toBe(true);
+    // 電阻電流為正表示輸出高電平正在對電容充電
+    const charging = result.branchCurrentHistory.get('r1')!.map(i => i > 0);
+    const edges = result.timePoints.filter((_, k) => k > 0 && charging[k] !== charging[k - 1]);
+    expect(edges.length).toBeGreaterThanOrEqual(6);
+
+    const halfPeriod = 10100 * 1e-6 * Math.log(1.5);
+    for (let k = 2; k < edges.length; k++) {
+      expect((edges[k]! - edges[k - 1]!) / halfPeriod).toBeCloseTo(1, 1);
+    }
+  });
+});
+
+describe('runTransientAnalysis - voltage regulator', () => {
+  it('tracks the input in dropout and regulates once the headroom is sufficient', () => {
+    // 輸入 0 → 12V 斜坡，5V 穩壓器 (壓降 2V) 驅動 100Ω：V_out = clamp(V_in - 2, 0, 5)
+    const components: CircuitComponent[] = [
+      {
+        ...part('vin', 'ac_source', 1, ['+', '-']),
+        waveformType: 'pwl',
+        pwlPoints: [{ time: 0, value: 0 }, { time: 0.01, value: 12 }],
+      },
+      { ...part('u1', 'regulator', 5, ['in', 'gnd', 'out']), dropoutVoltage: 2 },
+      part('rl', 'resistor', 100, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'vin', 0, 'u1', 0),
+      wire('w2', 'u1', 1, 'gnd1', 0),
+      wire('w3', 'u1', 2, 'rl', 0),
+      wire('w4', 'rl', 1, 'gnd1', 0),
+      wire('w5', 'vin', 1, 'gnd1', 0),
+    ];
+
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.01, timeStep: 1e-4 });
+
+    expect(result.success).toBe(true);
+    const load = result.branchCurrentHistory.get('rl')!;
+    result.timePoints.forEach((t, k) => {
+      const expected = Math.min(5, Math.max(0, 1200 * t - 2));
+      expect(load[k]! * 100).toBeCloseTo(expected, 2);
+    });
+  });
+});
+
+describe('runTransientAnalysis - DC motor', () => {
+  // 12V 直接驅動馬達：R = 2Ω、k = 0.02 V·s/rad、J = 1e-5 kg·m²、B = 1e-5 N·m·s/rad
+  const run = (motor: Partial<CircuitComponent>) => {
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 12, ['+', '-']),
+      { ...part('m1', 'dc_motor', 2, ['+', '-']), backEmfConstant: 0.02, inertia: 1e-5, friction: 1e-5, ...motor },
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'm1', 0),
+      wire('w2', 'm1', 1, 'gnd1', 0),
+      wire('w3', 'v1', 1, 'gnd1', 0),
+    ];
+    return runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.5, timeStep: 1e-4 });
+  };
+
+  it('spins up with the electromechanical time constant and settles at the no-load speed', () => {
+    // L = 0：ω(t) = ω_ss·(1 - e^(-t/τ))，ω_ss = kV / (k² + RB)，τ = JR / (k² + RB)
+    const result = run({ armatureInductance: 0 });
+
+    expect(result.success).toBe(true);
+    const speed = result.motorSpeedHistory.get('m1')!;
+    const torque = result.motorTorqueHistory.get('m1')!;
+    const current = result.branchCurrentHistory.get('m1')!;
+    const denominator = 0.02 * 0.02 + 2 * 1e-5;
+    const steadySpeed = (0.02 * 12) / denominator;
+    const tau = (1e-5 * 2) / denominator;
+
+    // 起動瞬間反電動勢近乎為 0，電流接近堵轉電流 V / R
+    expect(current[0]).toBeCloseTo(12 / 2, 0);
+    result.timePoints.forEach((t, k) => {
+      const expected = steadySpeed * (1 - Math.exp(-(t + 1e-4) / tau));
+      expect(Math.abs(speed[k]! - expected)).toBeLessThan(0.01 * steadySpeed);
+      expect(torque[k]).toBeCloseTo(0.02 * current[k]!, 12);
+    });
+    // 穩態：電磁轉矩僅需平衡黏滯摩擦
+    expect(speed[speed.length - 1]).toBeCloseTo(steadySpeed, 1);
+    expect(torque[torque.length - 1]).toBeCloseTo(1e-5 * steadySpeed, 5);
+  });
+
+  it('slows down and draws more current under a load torque', () => {
+    // 穩態：ω = (kV - R·T_load) / (k² + RB)，i = (B·ω + T_load) / k
+    const loadTorque = 0.05;
+    const result = run({ loadTorque });
+
+    expect(result.success).toBe(true);
+    const speed = result.motorSpeedHistory.get('m1')!;
+    const current = result.branchCurrentHistory.get('m1')!;
+    const steadySpeed = (0.02 * 12 - 2 * loadTorque) / (0.02 * 0.02 + 2 * 1e-5);
+    expect(speed[speed.length - 1]).toBeCloseTo(steadySpeed, 1);
+    expect(current[current.length - 1]).toBeCloseTo((1e-5 * steadySpeed + loadTorque) / 0.02, 3);
+  });
+
+  it('integrates the armature and rotor with the selected method', () => {
+    // 電樞 L = 10mH (τ_e = 5ms) 與轉子以相同積分法聯立，與極小步長的 Backward Euler 參考解比較
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 12, ['+', '-']),
+      {
+        ...part('m1', 'dc_motor', 2, ['+', '-']),
+        armatureInductance: 0.01,
+        backEmfConstant: 0.02,
+        inertia: 1e-5,
+        friction: 1e-5,
+      },
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [wire('w1', 'v1', 0, 'm1', 0), wire('w2', 'm1', 1, 'gnd1', 0), wire('w3', 'v1', 1, 'gnd1', 0)];
+    const simulate = (timeStep: number, integrationMethod?: IntegrationMethod) =>
+      runTransientAnalysis(components, wires, { startTime: 0, endTime: 0.02, timeStep, integrationMethod });
+    const referenceSpeed = simulate(1e-6).motorSpeedHistory.get('m1')!;
+    const speedError = (integrationMethod: IntegrationMethod) => {
+      const result = simulate(1e-4, integrationMethod);
+      expect(result.success).toBe(true);
+      // 每個時間點的解對應該步結束時刻：第 k 點對應參考解第 100k + 99 點
+      const speed = result.motorSpeedHistory.get('m1')!.slice(0, Math.floor(referenceSpeed.length / 100));
+      return Math.max(...speed.map((w, k) => Math.abs(w - referenceSpeed[100 * k + 99]!)));
+    };
+
+    const euler = speedError('backward-euler');
+    expect(speedError('trapezoidal')).toBeLessThan(euler / 5);
+    expect(speedError('gear2')).toBeLessThan(euler / 5);
+  });
+});
+
+describe('runTransientAnalysis - integration method', () => {
+  // 1V 步級驅動串聯 RLC：R = 1Ω、L = 1mH、C = 1µF (f₀ ≈ 5kHz、ζ ≈ 0.016)，模擬約 5 個振盪週期
+  const params = { R: 1, L: 1e-3, C: 1e-6 };
+  const dt = 2e-6;
+  const components: CircuitComponent[] = [
+    part('v1', 'dc_source', 1, ['+', '-']),
+    part('r1', 'resistor', params.R, ['1', '2']),
+    part('l1', 'inductor', params.L, ['1', '2']),
+    part('c1', 'capacitor', params.C, ['1', '2']),
+    part('gnd1', 'ground', undefined, ['gnd']),
+  ];
+  const wires: Wire[] = [
+    wire('w1', 'v1', 0, 'r1', 0),
+    wire('w2', 'r1', 1, 'l1', 0),
+    wire('w3', 'l1', 1, 'c1', 0),
+    wire('w4', 'c1', 1, 'gnd1', 0),
+    wire('w5', 'v1', 1, 'gnd1', 0),
+  ];
+
+  // 欠阻尼步級響應 i(t) = V / (L·ω_d) · e^(-ζω₀t) · sin(ω_d·t)
+  const { omega0, dampingRatio } = analyzeSeriesRLC(params);
+  const omegaD = omega0 * Math.sqrt(1 - dampingRatio * dampingRatio);
+  const peak = 1 / (params.L * omegaD);
+  const analyticCurrent = (t: number) => peak * Math.exp(-dampingRatio * omega0 * t) * Math.sin(omegaD * t);
+
+  const maxError = (integrationMethod: IntegrationMethod) => {
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 1e-3, timeStep: dt, integrationMethod });
+    expect(result.success).toBe(true);
+    expect(result.options.integrationMethod).toBe(integrationMethod);
+    const current = result.branchCurrentHistory.get('l1')!;
+    // 每個時間點的解對應該步結束時刻
+    return Math.max(...result.timePoints.map((t, k) => Math.abs(current[k]! - analyticCurrent(t + dt))));
+  };
+
+  it('damps the RLC ringing numerically with Backward Euler', () => {
+    expect(maxError('backward-euler')).toBeGreaterThan(0.2 * peak);
+  });
+
+  it('follows the analytic RLC ringing with the trapezoidal rule', () => {
+    expect(maxError('trapezoidal')).toBeLessThan(0.01 * peak);
+  });
+
+  it('follows the analytic RLC ringing with Gear-2', () => {
+    expect(maxError('gear2')).toBeLessThan(0.05 * peak);
+  });
+
+  it('uses the same companion models in the streaming solver', () => {
+    const transient = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 2e-4,
+      timeStep: dt,
+      integrationMethod: 'gear2',
+    });
+    const streaming = new StreamingTransientSolver();
+    expect(streaming.initialize(components, wires, { timeStep: dt, integrationMethod: 'gear2' }).success).toBe(true);
+
+    const expected = transient.branchCurrentHistory.get('l1')!;
+    streaming.stepBatch(expected.length).forEach((point, k) => {
+      expect(point.branchCurrents.get('l1')).toBeCloseTo(expected[k]!, 12);
+    });
+  });
+
+  it('applies the integration method to transformer windings', () => {
+    // 1V 步級經 R = 1kΩ 驅動 1:1 變壓器 (k = 1、L1 = L2 = 1mH)，二次側接 1µF：
+    // 一次側看到 L ∥ C 的並聯諧振槽，v(t) = V / (R·C·ω_d) · e^(-t/2RC) · sin(ω_d·t)
+    const tank = { R: 1000, L: 1e-3, C: 1e-6 };
+    const tankComponents: CircuitComponent[] = [
+      part('v1', 'dc_source', 1, ['+', '-']),
+      part('r1', 'resistor', tank.R, ['1', '2']),
+      {
+        ...part('x1', 'transformer', 1, ['p1', 'p2', 's1', 's2']),
+        primaryInductance: tank.L,
+        secondaryInductance: tank.L,
+        couplingCoefficient: 1,
+      },
+      part('c1', 'capacitor', tank.C, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const tankWires: Wire[] = [
+      wire('w1', 'v1', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'x1', 0),
+      wire('w3', 'x1', 1, 'gnd1', 0),
+      wire('w4', 'x1', 2, 'c1', 0),
+      wire('w5', 'c1', 1, 'gnd1', 0),
+      wire('w6', 'x1', 3, 'gnd1', 0),
+      wire('w7', 'v1', 1, 'gnd1', 0),
+    ];
+    const decay = 1 / (2 * tank.R * tank.C);
+    const tankOmega = Math.sqrt(1 / (tank.L * tank.C) - decay * decay);
+    const tankPeak = 1 / (tank.R * tank.C * tankOmega);
+
+    const tankError = (integrationMethod: IntegrationMethod) => {
+      const result = runTransientAnalysis(tankComponents, tankWires, {
+        startTime: 0,
+        endTime: 1e-3,
+        timeStep: dt,
+        integrationMethod,
+      });
+      expect(result.success).toBe(true);
+      const current = result.branchCurrentHistory.get('r1')!;
+      return Math.max(
+        ...result.timePoints.map((t, k) => {
+          const v = 1 - tank.R * current[k]!;
+          return Math.abs(v - tankPeak * Math.exp(-decay * (t + dt)) * Math.sin(tankOmega * (t + dt)));
+        })
+      );
+    };
+
+    expect(tankError('backward-euler')).toBeGreaterThan(0.2 * tankPeak);
+    expect(tankError('trapezoidal')).toBeLessThan(0.01 * tankPeak);
+    expect(tankError('gear2')).toBeLessThan(0.05 * tankPeak);
+  });
+});
+
+describe('runTransientAnalysis - adaptive time step', () => {
+  // 串聯 RC：R = 1kΩ、C = 1µF (τ = 1ms)
+  const rcCircuit = (source: CircuitComponent) => {
+    const components: CircuitComponent[] = [
+      source,
+      part('r1', 'resistor', 1000, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', source.id, 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'c1', 0),
+      wire('w3', 'c1', 1, 'gnd1', 0),
+      wire('w4', source.id, 1, 'gnd1', 0),
+    ];
+    return { components, wires };
+  };
+
+  it('lengthens the step along a slow RC tail and keeps the analytic accuracy', () => {
+    const { components, wires } = rcCircuit(part('v1', 'dc_source', 5, ['+', '-']));
+    const dt = 1e-5;
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 20e-3,
+      timeStep: dt,
+      integrationMethod: 'trapezoidal',
+      adaptiveTimeStep: true,
+    });
+
+    expect(result.success).toBe(true);
+    // 固定步長需 2001 點
+    expect(result.timePoints.length).toBeLessThan(200);
+    expect(result.timePoints[result.timePoints.length - 1]).toBe(20e-3);
+    result.timePoints.slice(1).forEach((t, k) => {
+      expect(result.timeSteps[k + 1]).toBeCloseTo(t - result.timePoints[k]!, 15);
+      expect(result.timeSteps[k + 1]).toBeLessThanOrEqual(result.options.maxTimeStep! * (1 + 1e-9));
+    });
+    expect(Math.max(...result.timeSteps)).toBeGreaterThan(10 * dt);
+
+    // i(t) = V/R · e^(-t/τ)，第一步自 t = -dt 起算
+    const current = result.branchCurrentHistory.get('c1')!;
+    result.timePoints.forEach((t, k) => {
+      expect(Math.abs(current[k]! - 5e-3 * Math.exp(-(t + dt) / 1e-3))).toBeLessThan(0.01 * 5e-3);
+    });
+  });
+
+  it('lands on the pulse corners and restarts with a small step', () => {
+    const pulse = {
+      initialValue: 0,
+      pulsedValue: 5,
+      delay: 2e-3,
+      riseTime: 1e-6,
+      fallTime: 1e-6,
+      pulseWidth: 5e-3,
+      period: 20e-3,
+    };
+    const { components, wires } = rcCircuit({ ...part('v1', 'ac_source', 1, ['+', '-']), waveformType: 'pulse', pulse });
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 10e-3,
+      timeStep: 1e-5,
+      integrationMethod: 'gear2',
+      adaptiveTimeStep: true,
+    });
+
+    expect(result.success).toBe(true);
+    // 斷點排程直接落在四個轉角上，不必靠拒絕步長去摸索邊沿
+    const corners = [2e-3, 2e-3 + 1e-6, 7e-3 + 1e-6, 7e-3 + 2e-6];
+    for (const corner of corners) {
+      expect(result.timePoints.some(t => Math.abs(t - corner) < 1e-15)).toBe(true);
+    }
+    const stepsNear = (from: number, to: number) =>
+      result.timeSteps.filter((_, k) => result.timePoints[k]! > from && result.timePoints[k]! < to);
+    // 平坦段以最大步長前進，上升沿之後以初始步長重新起步
+    expect(Math.min(...stepsNear(1e-3, 1.9e-3))).toBeCloseTo(result.options.maxTimeStep!, 12);
+    expect(Math.min(...stepsNear(2.0011e-3, 2.1e-3))).toBeLessThanOrEqual(1e-5 * (1 + 1e-9));
+  });
+
+  it('rejects steps that overshoot the tolerance in a ringing RLC', () => {
+    // 串聯 RLC：ω0 = 1/√(LC) ≈ 31.6 krad/s，欠阻尼振盪
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 1, ['+', '-']),
+      part('r1', 'resistor', 1, ['1', '2']),
+      part('l1', 'inductor', 1e-3, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'l1', 0),
+      wire('w3', 'l1', 1, 'c1', 0),
+      wire('w4', 'c1', 1, 'gnd1', 0),
+      wire('w5', 'v1', 1, 'gnd1', 0),
+    ];
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 1e-3,
+      timeStep: 1e-4,
+      integrationMethod: 'trapezoidal',
+      adaptiveTimeStep: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.rejectedSteps).toBeGreaterThan(0);
+    // 接受的步長遠小於要求的 1e-4 才能追上振盪
+    expect(Math.max(...result.timeSteps.slice(1))).toBeLessThan(1e-4);
+  });
+
+  it('keeps uniform time points when the adaptive step is off', () => {
+    const { components, wires } = rcCircuit(part('v1', 'dc_source', 5, ['+', '-']));
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 1e-3, timeStep: 1e-5 });
+
+    expect(result.rejectedSteps).toBe(0);
+    expect(result.timeSteps.every(step => step === 1e-5)).toBe(true);
+  });
+
+  it('rejects steps whose Newton iteration does not converge and reports it at the minimum step', () => {
+    // 5V 經 1kΩ 驅動二極體 + 並聯 1µF：由 0V 起步，每步都需要多次 Newton 迭代
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 5, ['+', '-']),
+      part('r1', 'resistor', 1000, ['1', '2']),
+      part('d1', 'diode', undefined, ['anode', 'cathode']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'd1', 0),
+      wire('w3', 'd1', 1, 'gnd1', 0),
+      wire('w4', 'r1', 1, 'c1', 0),
+      wire('w5', 'c1', 1, 'gnd1', 0),
+      wire('w6', 'v1', 1, 'gnd1', 0),
+    ];
+    const options = { startTime: 0, endTime: 1e-3, timeStep: 1e-5, adaptiveTimeStep: true };
+
+    expect(runTransientAnalysis(components, wires, options).success).toBe(true);
+
+    const starved = runTransientAnalysis(components, wires, { ...options, maxIterations: 1 });
+    expect(starved.success).toBe(false);
+    expect(starved.error).toContain('未收斂');
+    expect(starved.rejectedSteps).toBeGreaterThan(0);
+
+    // 串流求解器同樣依選項限制迭代次數 (未收斂時沿用最後一次迭代結果以維持即時推進)
+    const diodeCurrent = (maxIterations?: number) => {
+      const streaming = new StreamingTransientSolver();
+      streaming.initialize(components, wires, { timeStep: 1e-5, maxIterations });
+      return streaming.stepBatch(1)[0]!.branchCurrents.get('d1')!;
+    };
+    expect(Math.abs(diodeCurrent(1) - diodeCurrent())).toBeGreaterThan(1e-6);
+  });
+
+  it('retries a rejected first step at startTime instead of stepping back before it', () => {
+    // 50V 經 10Ω 驅動二極體：迭代次數不足時第一步即被拒絕
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 50, ['+', '-']),
+      part('r1', 'resistor', 10, ['1', '2']),
+      part('d1', 'diode', undefined, ['anode', 'cathode']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'd1', 0),
+      wire('w3', 'd1', 1, 'gnd1', 0),
+      wire('w4', 'v1', 1, 'gnd1', 0),
+    ];
+    const options = { startTime: 0, endTime: 1e-3, timeStep: 1e-4, adaptiveTimeStep: true, maxIterations: 3 };
+
+    // 純電阻性：縮小步長無助於收斂，於 startTime 報告失敗
+    const starved = runTransientAnalysis(components, wires, options);
+    expect(starved.success).toBe(false);
+    expect(starved.error).toContain('t=0.000000s');
+    expect(starved.timePoints).toEqual([]);
+
+    // 並聯 10µF：較小步長下電容壓住節點電壓，於 startTime 以較小步長重算後收斂
+    const damped = runTransientAnalysis(
+      [...components, part('c1', 'capacitor', 1e-5, ['1', '2'])],
+      [...wires, wire('w5', 'r1', 1, 'c1', 0), wire('w6', 'c1', 1, 'gnd1', 0)],
+      { ...options, endTime: 5e-3, timeStep: 1e-3, maxIterations: 5 }
+    );
+    expect(damped.success).toBe(true);
+    expect(damped.rejectedSteps).toBeGreaterThan(0);
+    expect(damped.timePoints[0]).toBe(0);
+    expect(damped.timeSteps[0]).toBeLessThan(1e-3);
+    expect(damped.timePoints.every(t => t >= 0)).toBe(true);
+  });
+});
+
+describe('runTransientAnalysis - breakpoints', () => {
+  // 方波 300Hz 驅動串聯 RC (τ = 1ms)，半週期 1/600 s 與 1e-4 的格點不對齊
+  const squareRc = () => {
+    const source = { ...part('v1', 'ac_source', 5, ['+', '-']), waveformType: 'square' as const, frequency: 300, phase: 0 };
+    const components: CircuitComponent[] = [
+      source,
+      part('r1', 'resistor', 1000, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'c1', 0),
+      wire('w3', 'c1', 1, 'gnd1', 0),
+      wire('w4', 'v1', 1, 'gnd1', 0),
+    ];
+    return { components, wires };
+  };
+
+  it('inserts the square-wave edges between fixed grid points', () => {
+    const { components, wires } = squareRc();
+    const dt = 1e-4;
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 5e-3,
+      timeStep: dt,
+      integrationMethod: 'trapezoidal',
+    });
+
+    expect(result.success).toBe(true);
+    const current = result.branchCurrentHistory.get('c1')!;
+    for (const edge of [1 / 600, 2 / 600]) {
+      const k = result.timePoints.findIndex(t => Math.abs(t - edge) < 1e-15);
+      expect(k).toBeGreaterThan(0);
+      // 斷點上取跳變前的值，下一點才反向
+      expect(Math.sign(current[k]!)).toBe(-Math.sign(current[k + 1]!));
+      // 斷點之後回到原本的格點
+      expect(result.timePoints[k + 1]).toBeCloseTo(Math.ceil(edge / dt) * dt, 15);
+    }
+    // 格點之間仍是精確的 dt
+    expect(result.timeSteps.filter(step => step === dt).length).toBeGreaterThan(40);
+  });
+
+  it('lands on the same edges in the streaming solver', () => {
+    const { components, wires } = squareRc();
+    const transient = runTransientAnalysis(components, wires, { startTime: 0, endTime: 5e-3, timeStep: 1e-4 });
+    const streaming = new StreamingTransientSolver();
+    expect(streaming.initialize(components, wires, { timeStep: 1e-4 }).success).toBe(true);
+
+    const points = streaming.stepBatch(transient.timePoints.length);
+    const current = transient.branchCurrentHistory.get('c1')!;
+    points.forEach((point, k) => {
+      expect(point.time).toBeCloseTo(transient.timePoints[k]!, 15);
+      expect(point.branchCurrents.get('c1')).toBeCloseTo(current[k]!, 12);
+    });
+  });
+
+  it('restarts trapezoidal integration when a switch is toggled mid-run', () => {
+    // 5V 經開關與 R1 對 C1 充電，R2 為放電路徑；充電途中打開開關
+    const switchComponent = { ...part('s1', 'switch', undefined, ['1', '2']), switchClosed: true };
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 5, ['+', '-']),
+      switchComponent,
+      part('r1', 'resistor', 1000, ['1', '2']),
+      part('r2', 'resistor', 1000, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 's1', 0),
+      wire('w2', 's1', 1, 'r1', 0),
+      wire('w3', 'r1', 1, 'c1', 0),
+      wire('w4', 'c1', 1, 'gnd1', 0),
+      wire('w5', 'r1', 1, 'r2', 0),
+      wire('w6', 'r2', 1, 'gnd1', 0),
+      wire('w7', 'v1', 1, 'gnd1', 0),
+    ];
+
+    // 於 t = 1ms 打開開關，回傳打開後的各點電容電流
+    const run = (dt: number, steps: number) => {
+      const streaming = new StreamingTransientSolver();
+      expect(streaming.initialize(components, wires, { timeStep: dt, integrationMethod: 'trapezoidal' }).success).toBe(true);
+      streaming.stepBatch(Math.round(1e-3 / dt));
+      expect(streaming.retuneSwitch({ ...switchComponent, switchClosed: false })).toBe(true);
+      return streaming.stepBatch(steps).map(point => point.branchCurrents.get('c1')!);
+    };
+    const coarse = run(1e-4, 4);
+    const reference = run(1e-6, 400);
+
+    // 若沿用切換前的電容電流，梯形法會帶著約 6% 的誤差繼續積分
+    coarse.forEach((current, k) => {
+      const expected = reference[100 * (k + 1) - 1]!;
+      expect(current).toBeLessThan(0);
+      expect(Math.abs(current - expected)).toBeLessThan(0.01 * Math.abs(expected));
+    });
+  });
+});
+
+describe('runTransientAnalysis - large circuits', () => {
+  // 300 節 RC 梯形網路 (每節 R = 100Ω、C = 1µF)：601 個 MNA 未知數
+  const sections = 300;
+  const ladder = () => {
+    const components: CircuitComponent[] = [part('v1', 'dc_source', 1, ['+', '-']), part('gnd1', 'ground', undefined, ['gnd'])];
+    const wires: Wire[] = [wire('wg', 'v1', 1, 'gnd1', 0)];
+    for (let k = 0; k < sections; k++) {
+      components.push(part(`r${k}`, 'resistor', 100, ['1', '2']), part(`c${k}`, 'capacitor', 1e-6, ['1', '2']));
+      wires.push(
+        wire(`wr${k}`, k === 0 ? 'v1' : `r${k - 1}`, k === 0 ? 0 : 1, `r${k}`, 0),
+        wire(`wc${k}`, `r${k}`, 1, `c${k}`, 0),
+        wire(`wcg${k}`, `c${k}`, 1, 'gnd1', 0)
+      );
+    }
+    return { components, wires };
+  };
+
+  it('steps a 300-section RC ladder in both transient solvers', () => {
+    const { components, wires } = ladder();
+    const result = runTransientAnalysis(components, wires, { startTime: 0, endTime: 1e-4, timeStep: 1e-6 });
+
+    expect(result.success).toBe(true);
+    expect(result.timePoints.length).toBe(101);
+    // 電荷守恆：電源送出的電流等於所有電容的充電電流總和
+    const last = result.timePoints.length - 1;
+    let charging = 0;
+    for (let k = 0; k < sections; k++) {
+      charging += result.branchCurrentHistory.get(`c${k}`)![last]!;
+    }
+    expect(Math.abs(result.branchCurrentHistory.get('v1')![last]!)).toBeCloseTo(charging, 9);
+
+    const streaming = new StreamingTransientSolver();
+    expect(streaming.initialize(components, wires, { timeStep: 1e-6 }).success).toBe(true);
+    const points = streaming.stepBatch(result.timePoints.length);
+    expect(points[last]!.branchCurrents.get(`c${sections - 1}`)).toBeCloseTo(
+      result.branchCurrentHistory.get(`c${sections - 1}`)![last]!,
+      12
+    );
+  });
+});
+
+describe('StreamingTransientSolver - push button', () => {
+  it('starts with a released button on the only path and lights the LED while pressed', () => {
+    // 5V 經常開按鈕、330Ω 驅動 LED：放開時迴圈僅能經由按鈕閉合
+    const button = { ...part('pb', 'push_button_no', undefined, ['1', '2']), buttonPressed: false };
+    const components: CircuitComponent[] = [
+      part('v1', 'dc_source', 5, ['+', '-']),
+      button,
+      part('r1', 'resistor', 330, ['1', '2']),
+      part('led1', 'led', undefined, ['anode', 'cathode']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires: Wire[] = [
+      wire('w1', 'v1', 0, 'pb', 0),
+      wire('w2', 'pb', 1, 'r1', 0),
+      wire('w3', 'r1', 1, 'led1', 0),
+      wire('w4', 'led1', 1, 'gnd1', 0),
+      wire('w5', 'v1', 1, 'gnd1', 0),
+    ];
+
+    const streaming = new StreamingTransientSolver();
+    const init = streaming.initialize(components, wires, { timeStep: 1e-4 });
+    expect(init.success).toBe(true);
+    const released = streaming.stepBatch(5);
+    expect(released).toHaveLength(5);
+    expect(Math.abs(released[4]!.branchCurrents.get('led1')!)).toBeLessThan(1e-6);
+
+    expect(streaming.retuneSwitch({ ...button, buttonPressed: true })).toBe(true);
+    const pressed = streaming.stepBatch(5);
+    expect(pressed[4]!.branchCurrents.get('led1')!).toBeGreaterThan(5e-3);
+
+    expect(streaming.retuneSwitch({ ...button, buttonPressed: false })).toBe(true);
+    expect(Math.abs(streaming.stepBatch(5)[4]!.branchCurrents.get('led1')!)).toBeLessThan(1e-6);
+  });
+});
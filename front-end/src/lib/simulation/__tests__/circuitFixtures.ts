@@ -0,0 +1,29 @@
+/**
+ * circuitFixtures.ts - 模擬器測試共用的電路建構輔助函數
+ */
+
+import type { CircuitComponent, Wire } from '@/types/circuit';
+
+/**
+ * 建立測試用元件 (端口 ID 為 `${id}-p${index}`，依 portNames 順序排列)
+ */
+export const part = (id: string, type: CircuitComponent['type'], value: number | undefined, portNames: string[]): CircuitComponent => ({
+  id,
+  type,
+  x: 0, y: 0,
+  rotation: 0,
+  value,
+  ports: portNames.map((name, i) => ({ id: `${id}-p${i}`, name, offsetX: 0, offsetY: 0 })),
+});
+
+/**
+ * 建立連接兩個元件端口的測試用導線
+ */
+export const wire = (id: string, from: string, fromIndex: number, to: string, toIndex: number): Wire => ({
+  id,
+  fromComponentId: from,
+  fromPortId: `${from}-p${fromIndex}`,
+  toComponentId: to,
+  toPortId: `${to}-p${toIndex}`,
+  points: [],
+});
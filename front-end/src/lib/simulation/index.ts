@@ -4,10 +4,34 @@
 
 export * from './SimulationTypes';
 export * from './Matrix';
+export * from './StampUtils';
 export * from './Complex';
 export * from './ComplexMatrix';
 export * from './CircuitGraph';
+export * from './DeviceModel';
+export * from './DeviceRegistry';
+export * from './PassiveModel';
+export * from './SourceModel';
+export * from './LogicGateModel';
 export * from './MNASolver';
+export * from './OpAmpModel';
+export * from './SemiconductorUtils';
+export * from './BJTModel';
+export * from './DiodeModel';
+export * from './MOSFETModel';
+export * from './ControlledSourceModel';
+export * from './TransformerModel';
+export * from './PotentiometerModel';
+export * from './BatteryModel';
+export * from './RelayModel';
+export * from './MotorModel';
+export * from './SwitchModel';
+export * from './FuseModel';
+export * from './LampModel';
+export * from './SensorModel';
+export * from './Timer555Model';
+export * from './RegulatorModel';
+export * from './ComparatorModel';
 export * from './CircuitRuleEngine';
 export * from './TransientSolver';
 export * from './ACSweepSolver';
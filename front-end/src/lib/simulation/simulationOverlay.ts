@@ -253,7 +253,14 @@ function getNodeLabelAnchor(
 
 function isCurrentLabelComponentType(type: CircuitComponent['type']): boolean {
   // Minimal overlay: only show current on the source + resistors.
-  return type === 'dc_source' || type === 'ac_source' || type === 'resistor';
+  return (
+    type === 'dc_source' ||
+    type === 'battery' ||
+    type === 'ac_source' ||
+    type === 'current_source' ||
+    type === 'ac_current_source' ||
+    type === 'resistor'
+  );
 }
 
 function nodeLabelOffset(
@@ -336,7 +343,12 @@ export function buildDCSimulationOverlayLabels(
     if (Math.abs(currentA) < 1e-11) continue;
 
     const { pos, rotation } = getComponentCurrentLabelAnchor(comp);
-    const isSource = comp.type === 'dc_source' || comp.type === 'ac_source';
+    const isSource =
+      comp.type === 'dc_source' ||
+      comp.type === 'battery' ||
+      comp.type === 'ac_source' ||
+      comp.type === 'current_source' ||
+      comp.type === 'ac_current_source';
     labels.push({
       id: `i:${comp.id}`,
       kind: 'componentCurrent',
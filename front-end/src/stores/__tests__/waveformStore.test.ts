@@ -0,0 +1,57 @@
+/**
+ * waveformStore.test.ts - 波形資料管理測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { useWaveformStore } from '../waveformStore';
+import { runTransientAnalysis } from '@/lib/simulation/TransientSolver';
+import { calculateStats } from '@/types/waveform';
+import { part, wire } from '@/lib/simulation/__tests__/circuitFixtures';
+
+describe('waveformStore - loadFromTransientResult', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+  });
+
+  it('keeps the non-uniform time points of an adaptive run', () => {
+    // 5V 對串聯 RC (τ = 1ms) 充電 20ms：自適應步長在尾段拉長
+    const components = [
+      part('v1', 'dc_source', 5, ['+', '-']),
+      part('r1', 'resistor', 1000, ['1', '2']),
+      part('c1', 'capacitor', 1e-6, ['1', '2']),
+      part('gnd1', 'ground', undefined, ['gnd']),
+    ];
+    const wires = [
+      wire('w1', 'v1', 0, 'r1', 0),
+      wire('w2', 'r1', 1, 'c1', 0),
+      wire('w3', 'c1', 1, 'gnd1', 0),
+      wire('w4', 'v1', 1, 'gnd1', 0),
+    ];
+    const result = runTransientAnalysis(components, wires, {
+      startTime: 0,
+      endTime: 20e-3,
+      timeStep: 1e-5,
+      integrationMethod: 'trapezoidal',
+      adaptiveTimeStep: true,
+    });
+    expect(result.success).toBe(true);
+    expect(new Set(result.timeSteps.slice(1).map(step => step.toPrecision(6))).size).toBeGreaterThan(1);
+
+    const store = useWaveformStore();
+    store.loadFromTransientResult(result, new Map([['c1', 'C1']]));
+
+    const trace = store.waveformTraces.find(t => t.label === 'I(C1)')!;
+    expect(trace).toBeDefined();
+    expect(trace.data.map(point => point.time)).toEqual(result.timePoints);
+    expect(trace.data.map(point => point.value)).toEqual(result.branchCurrentHistory.get('c1'));
+    expect(store.timeRange).toEqual({ start: 0, end: 20e-3 });
+
+    // 充電電流平均值 ≈ Q / T = C·V / 20ms：逐點平均會偏重取樣密集的起始段
+    const stats = calculateStats(trace.data);
+    const expected = (1e-6 * 5) / 20e-3;
+    expect(Math.abs(stats.average - expected)).toBeLessThan(0.1 * expected);
+    const perSample = trace.data.reduce((sum, point) => sum + point.value, 0) / trace.data.length;
+    expect(perSample).toBeGreaterThan(2 * stats.average);
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { defineStore } from 'pinia';
-import { ref, computed } from 'vue';
+import { ref, computed, watch } from 'vue';
 import { v4 as uuidv4 } from 'uuid';
 import type {
     CircuitComponent,
@@ -13,13 +13,36 @@ import type {
     ComponentType,
     SimulationData,
 } from '@/types/circuit';
-import { getComponentDefinition, AC_SOURCE_DEFAULTS } from '@/config/componentDefinitions';
+import {
+    getComponentDefinition,
+    AC_SOURCE_DEFAULTS,
+    OPAMP_DEFAULTS,
+    BJT_DEFAULTS,
+    MOSFET_DEFAULTS,
+    ZENER_DEFAULTS,
+    TRANSFORMER_DEFAULTS,
+    POTENTIOMETER_DEFAULTS,
+    BATTERY_DEFAULTS,
+    RELAY_DEFAULTS,
+    MOTOR_DEFAULTS,
+    FUSE_DEFAULTS,
+    LAMP_DEFAULTS,
+    THERMISTOR_DEFAULTS,
+    LDR_DEFAULTS,
+    COMPARATOR_DEFAULTS,
+    SCHMITT_TRIGGER_DEFAULTS,
+    REGULATOR_DEFAULTS,
+    LOGIC_GATE_DEFAULTS,
+} from '@/config/componentDefinitions';
 import {
     evaluateCircuitDesignRules,
+    evaluateZEN001Rule,
+    evaluateREG001Rule,
     runDCAnalysis,
     runTransientAnalysis,
     runACSweepAnalysis,
     DigitalLogicSimulator,
+    isPushButton,
     LogicLevel,
     type CircuitRuleViolation,
     type DCSimulationResult,
@@ -30,6 +53,7 @@ import {
     type DigitalSimulationResult,
 } from '@/lib/simulation';
 import type { AnalysisMode } from '@/types/frequencyAnalysis';
+import { useEnvironmentStore } from './environmentStore';
 
 // ===== Utility Functions =====
 
@@ -45,6 +69,9 @@ function debounce<T extends (...args: unknown[]) => void>(fn: T, ms: number) {
 }
 
 export const useCircuitStore = defineStore('circuit', () => {
+    // 模擬環境 (熱敏 / 光敏電阻依此換算電阻)
+    const environmentStore = useEnvironmentStore();
+
     // ===== State =====
     const components = ref<CircuitComponent[]>([]);
     const wires = ref<Wire[]>([]);
@@ -68,7 +95,7 @@ export const useCircuitStore = defineStore('circuit', () => {
     });
 
     // 數位邏輯模擬器和結果
-    const digitalSimulator = new DigitalLogicSimulator();
+    const digitalSimulator = new DigitalLogicSimulator({ hysteresis: LOGIC_GATE_DEFAULTS.inputHysteresis });
     const digitalResult = ref<DigitalSimulationResult | null>(null);
 
     // 追蹤電壓變化事件（用於波形累積模式）
@@ -186,11 +213,18 @@ export const useCircuitStore = defineStore('circuit', () => {
         // 定義需要垂直放置的元件類型（原本是水平的）
         const horizontalComponents: ComponentType[] = [
             'resistor',
+            'potentiometer',
+            'thermistor',
+            'ldr',
             'capacitor',
             'inductor',
             'diode',
             'led',
             'switch',
+            'push_button_no',
+            'push_button_nc',
+            'fuse',
+            'lamp',
             'ammeter',
             'voltmeter',
         ];
@@ -213,7 +247,7 @@ export const useCircuitStore = defineStore('circuit', () => {
             })),
             selected: false,
             // AC 源預設屬性
-            ...(type === 'ac_source' && {
+            ...((type === 'ac_source' || type === 'ac_current_source') && {
                 frequency: AC_SOURCE_DEFAULTS.frequency,
                 phase: AC_SOURCE_DEFAULTS.phase,
                 waveformType: AC_SOURCE_DEFAULTS.waveformType,
@@ -222,6 +256,104 @@ export const useCircuitStore = defineStore('circuit', () => {
             ...(type === 'switch' && {
                 switchClosed: false,
             }),
+            // 切換開關預設接在 A 側
+            ...((type === 'switch_spdt' || type === 'switch_dpdt') && {
+                switchThrow: 0,
+            }),
+            // 運放預設屬性：非理想 (有限增益、GBW、迴轉率)
+            ...(type === 'opamp' && {
+                opampIdeal: false,
+                openLoopGain: OPAMP_DEFAULTS.openLoopGain,
+                gainBandwidth: OPAMP_DEFAULTS.gainBandwidth,
+                slewRate: OPAMP_DEFAULTS.slewRate,
+            }),
+            // BJT 預設 Ebers-Moll 參數
+            ...((type === 'transistor_npn' || type === 'transistor_pnp') && {
+                betaF: BJT_DEFAULTS.betaF,
+                betaR: BJT_DEFAULTS.betaR,
+                saturationCurrent: BJT_DEFAULTS.saturationCurrent,
+                thermalVoltage: BJT_DEFAULTS.thermalVoltage,
+            }),
+            // 稽納二極體預設 R_z 與額定功率
+            ...(type === 'zener' && {
+                zenerResistance: ZENER_DEFAULTS.zenerResistance,
+                powerRating: ZENER_DEFAULTS.powerRating,
+            }),
+            // 電位器預設滑臂置中
+            ...(type === 'potentiometer' && {
+                wiperPosition: POTENTIOMETER_DEFAULTS.wiperPosition,
+            }),
+            // 熱敏電阻預設 NTC 與 β 常數
+            ...(type === 'thermistor' && {
+                thermistorType: THERMISTOR_DEFAULTS.type,
+                thermistorBeta: THERMISTOR_DEFAULTS.beta,
+            }),
+            // 光敏電阻預設 γ
+            ...(type === 'ldr' && {
+                ldrGamma: LDR_DEFAULTS.gamma,
+            }),
+            // 電池預設內阻、容量，初始為充飽狀態
+            ...(type === 'battery' && {
+                internalResistance: BATTERY_DEFAULTS.internalResistance,
+                batteryCapacity: BATTERY_DEFAULTS.capacity,
+                stateOfCharge: BATTERY_DEFAULTS.stateOfCharge,
+            }),
+            // 保險絲預設熔斷能量
+            ...(type === 'fuse' && {
+                meltingI2t: FUSE_DEFAULTS.meltingI2t,
+            }),
+            // 燈泡預設額定電壓與燈絲熱時間常數
+            ...(type === 'lamp' && {
+                ratedVoltage: LAMP_DEFAULTS.ratedVoltage,
+                thermalTimeConstant: LAMP_DEFAULTS.thermalTimeConstant,
+            }),
+            // 繼電器預設線圈電感與吸合 / 釋放電流
+            ...(type === 'relay' && {
+                coilInductance: RELAY_DEFAULTS.coilInductance,
+                pullInCurrent: RELAY_DEFAULTS.pullInCurrent,
+                dropOutCurrent: RELAY_DEFAULTS.dropOutCurrent,
+            }),
+            // 馬達預設電樞電感、反電動勢常數與機械參數
+            ...(type === 'dc_motor' && {
+                armatureInductance: MOTOR_DEFAULTS.armatureInductance,
+                backEmfConstant: MOTOR_DEFAULTS.backEmfConstant,
+                inertia: MOTOR_DEFAULTS.inertia,
+                friction: MOTOR_DEFAULTS.friction,
+                loadTorque: MOTOR_DEFAULTS.loadTorque,
+            }),
+            // 比較器 / 施密特觸發器預設門檻與輸出電平
+            ...(type === 'comparator' && {
+                hysteresis: COMPARATOR_DEFAULTS.hysteresis,
+            }),
+            ...(type === 'schmitt_trigger' && {
+                upperThreshold: SCHMITT_TRIGGER_DEFAULTS.upperThreshold,
+                lowerThreshold: SCHMITT_TRIGGER_DEFAULTS.lowerThreshold,
+                invertOutput: false,
+            }),
+            ...((type === 'comparator' || type === 'schmitt_trigger') && {
+                outputHigh: COMPARATOR_DEFAULTS.outputHigh,
+                outputLow: COMPARATOR_DEFAULTS.outputLow,
+            }),
+            // 穩壓器預設壓降、限流、靜態電流與額定功率
+            ...(type === 'regulator' && {
+                dropoutVoltage: REGULATOR_DEFAULTS.dropoutVoltage,
+                currentLimit: REGULATOR_DEFAULTS.currentLimit,
+                quiescentCurrent: REGULATOR_DEFAULTS.quiescentCurrent,
+                powerRating: REGULATOR_DEFAULTS.powerRating,
+            }),
+            // 變壓器預設為非理想耦合電感 (L2 由匝數比推得)
+            ...(type === 'transformer' && {
+                transformerIdeal: false,
+                primaryInductance: TRANSFORMER_DEFAULTS.primaryInductance,
+                couplingCoefficient: TRANSFORMER_DEFAULTS.couplingCoefficient,
+            }),
+            // MOSFET 預設 Shichman-Hodges 參數
+            ...((type === 'nmos' || type === 'pmos') && {
+                thresholdVoltage: MOSFET_DEFAULTS.thresholdVoltage,
+                transconductance: MOSFET_DEFAULTS.transconductance,
+                channelLengthModulation: MOSFET_DEFAULTS.channelLengthModulation,
+                widthLengthRatio: MOSFET_DEFAULTS.widthLengthRatio,
+            }),
         };
 
         components.value.push(newComponent);
@@ -264,7 +396,7 @@ export const useCircuitStore = defineStore('circuit', () => {
      * 判斷電路是否需要瞬態分析（含有 AC 源）
      */
     function needsTransientAnalysis(): boolean {
-        return components.value.some(c => c.type === 'ac_source');
+        return components.value.some(c => c.type === 'ac_source' || c.type === 'ac_current_source');
     }
 
     /**
@@ -281,6 +413,12 @@ export const useCircuitStore = defineStore('circuit', () => {
         }
     }, 150);
 
+    // 模擬環境 (溫度、光照度) 變化時，動畫啟用中自動重新模擬
+    watch(
+        () => environmentStore.environment,
+        () => triggerDebouncedSimulation()
+    );
+
     /**
      * 更新元件屬性
      */
@@ -295,7 +433,65 @@ export const useCircuitStore = defineStore('circuit', () => {
             saveState(); // 記錄操作
 
             // 需要觸發重新模擬的屬性
-            const simulationTriggerProps = ['value', 'frequency', 'phase', 'waveformType', 'switchClosed'];
+            const simulationTriggerProps = [
+                'value',
+                'frequency',
+                'phase',
+                'waveformType',
+                'pulse',
+                'pwlPoints',
+                'switchClosed',
+                'switchThrow',
+                'opampIdeal',
+                'openLoopGain',
+                'gainBandwidth',
+                'slewRate',
+                'betaF',
+                'betaR',
+                'saturationCurrent',
+                'thermalVoltage',
+                'emissionCoefficient',
+                'seriesResistance',
+                'ledColor',
+                'thresholdVoltage',
+                'transconductance',
+                'channelLengthModulation',
+                'widthLengthRatio',
+                'controllingComponentId',
+                'zenerResistance',
+                'powerRating',
+                'wiperPosition',
+                'thermistorType',
+                'thermistorBeta',
+                'ldrGamma',
+                'transformerIdeal',
+                'primaryInductance',
+                'secondaryInductance',
+                'couplingCoefficient',
+                'internalResistance',
+                'batteryCapacity',
+                'stateOfCharge',
+                'meltingI2t',
+                'ratedVoltage',
+                'thermalTimeConstant',
+                'coilInductance',
+                'pullInCurrent',
+                'dropOutCurrent',
+                'hysteresis',
+                'upperThreshold',
+                'lowerThreshold',
+                'outputHigh',
+                'outputLow',
+                'invertOutput',
+                'dropoutVoltage',
+                'currentLimit',
+                'quiescentCurrent',
+                'armatureInductance',
+                'backEmfConstant',
+                'inertia',
+                'friction',
+                'loadTorque',
+            ];
 
             // 當這些屬性變化且動畫啟用時，自動重新模擬
             if (simulationTriggerProps.includes(property) && isCurrentAnimating.value) {
@@ -308,6 +504,24 @@ export const useCircuitStore = defineStore('circuit', () => {
         }
     }
 
+    /**
+     * 按下 / 放開按鈕開關 (僅在滑鼠按住期間閉合或斷開，不記錄到復原歷史)
+     */
+    function setButtonPressed(componentId: string, pressed: boolean): void {
+        const component = components.value.find((c) => c.id === componentId);
+        if (!component || !isPushButton(component.type)) return;
+        if ((component.buttonPressed ?? false) === pressed) return;
+
+        component.buttonPressed = pressed;
+        if (isCurrentAnimating.value) {
+            lastValueChange.value = {
+                componentId,
+                timestamp: Date.now(),
+            };
+            triggerDebouncedSimulation();
+        }
+    }
+
     /**
      * 旋轉元件
      */
@@ -396,6 +610,7 @@ export const useCircuitStore = defineStore('circuit', () => {
         selectedComponentId.value = null;
         selectedWireId.value = null;
         simulationData.value = null;
+        digitalSimulator.reset();
         saveState(); // 記錄操作
     }
 
@@ -409,6 +624,7 @@ export const useCircuitStore = defineStore('circuit', () => {
         selectedComponentId.value = null;
         selectedWireId.value = null;
         simulationData.value = null;
+        digitalSimulator.reset();
 
         // 載入新專案時，重置歷史紀錄
         history.value = [];
@@ -505,7 +721,7 @@ export const useCircuitStore = defineStore('circuit', () => {
                 iterations++;
                 
                 // 執行 DC 分析
-                const result = runDCAnalysis(components.value, wires.value);
+                const result = runDCAnalysis(components.value, wires.value, environmentStore.environment);
                 dcResult.value = result;
 
                 if (!result.success) {
@@ -555,6 +771,15 @@ export const useCircuitStore = defineStore('circuit', () => {
                 console.warn(`邏輯閘模擬未收斂（達到最大迭代次數 ${MAX_ITERATIONS}）`);
             }
 
+            // 模擬後規則：稽納二極體 (ZEN-001) 與穩壓器 (REG-001) 額定功率
+            if (dcResult.value) {
+                ruleViolations.value = [
+                    ...ruleViolations.value,
+                    ...evaluateZEN001Rule(components.value, dcResult.value),
+                    ...evaluateREG001Rule(components.value, dcResult.value),
+                ];
+            }
+
             return true;
         } catch (error) {
             simulationError.value = error instanceof Error ? error.message : '模擬執行錯誤';
@@ -611,7 +836,7 @@ export const useCircuitStore = defineStore('circuit', () => {
         }
 
         try {
-            const result = runTransientAnalysis(components.value, wires.value, options);
+            const result = runTransientAnalysis(components.value, wires.value, options, environmentStore.environment);
             transientResult.value = result;
 
             if (result.success) {
@@ -667,6 +892,17 @@ export const useCircuitStore = defineStore('circuit', () => {
             }
         });
 
+        // 為電池建立荷電狀態波形
+        result.stateOfChargeHistory.forEach((socs, componentId) => {
+            const comp = components.value.find(c => c.id === componentId);
+            signals.push({
+                name: `SoC(${comp?.label || 'battery'})`,
+                values: socs.map(soc => soc * 100), // %
+                unit: '%',
+                color: getSignalColor(signals.length),
+            });
+        });
+
         simulationData.value = {
             time: result.timePoints,
             signals,
@@ -728,7 +964,7 @@ export const useCircuitStore = defineStore('circuit', () => {
 
         try {
             const sweepOpts = { ...acSweepOptions.value, ...options };
-            const result = runACSweepAnalysis(components.value, wires.value, sweepOpts);
+            const result = runACSweepAnalysis(components.value, wires.value, sweepOpts, environmentStore.environment);
             acSweepResult.value = result;
 
             if (result.success) {
@@ -1056,6 +1292,7 @@ export const useCircuitStore = defineStore('circuit', () => {
         removeComponent,
         updateComponentPosition,
         updateComponentProperty,
+        setButtonPressed,
         rotateComponent,
         selectComponent,
         addWire,
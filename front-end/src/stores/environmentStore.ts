@@ -0,0 +1,57 @@
+/**
+ * Environment Store - 模擬環境狀態管理 (Pinia)
+ *
+ * 環境溫度與光照度為整個模擬共用的輸入，
+ * 熱敏電阻、光敏電阻依此換算電阻 (見 SensorModel)。
+ */
+
+import { defineStore } from 'pinia';
+import { ref, computed } from 'vue';
+import { ENVIRONMENT_DEFAULTS } from '@/config/componentDefinitions';
+import type { SimulationEnvironment } from '@/lib/simulation';
+
+export const useEnvironmentStore = defineStore('environment', () => {
+    // ===== State =====
+
+    // 環境溫度 (°C)
+    const ambientTemperature = ref(ENVIRONMENT_DEFAULTS.ambientTemperature);
+
+    // 環境光照度 (lux)
+    const lightLevel = ref(ENVIRONMENT_DEFAULTS.lightLevel);
+
+    // ===== Getters =====
+
+    // 傳給求解器的環境快照
+    const environment = computed<SimulationEnvironment>(() => ({
+        ambientTemperature: ambientTemperature.value,
+        lightLevel: lightLevel.value,
+    }));
+
+    // ===== Actions =====
+
+    function setAmbientTemperature(temperature: number): void {
+        // 不低於絕對零度
+        ambientTemperature.value = Math.max(-273.15, temperature);
+    }
+
+    function setLightLevel(lux: number): void {
+        lightLevel.value = Math.max(0, lux);
+    }
+
+    function resetEnvironment(): void {
+        ambientTemperature.value = ENVIRONMENT_DEFAULTS.ambientTemperature;
+        lightLevel.value = ENVIRONMENT_DEFAULTS.lightLevel;
+    }
+
+    return {
+        // State
+        ambientTemperature,
+        lightLevel,
+        // Getters
+        environment,
+        // Actions
+        setAmbientTemperature,
+        setLightLevel,
+        resetEnvironment,
+    };
+});
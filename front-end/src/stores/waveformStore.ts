@@ -274,7 +274,7 @@ export const useWaveformStore = defineStore('waveform', () => {
 
     /**
      * 從瞬態模擬結果載入資料
-     * 專門用於 AC 時域分析結果
+     * 專門用於 AC 時域分析結果；自適應步長的時間點非等間隔，資料點一律帶各自的時間
      */
     function loadFromTransientResult(
         result: TransientSimulationResult,
@@ -304,6 +304,19 @@ export const useWaveformStore = defineStore('waveform', () => {
             updateProbeData(probe.probeId, data);
         });
 
+        // 為每個馬達建立轉速、轉矩探針
+        const motorChannels = [
+            { history: result.motorSpeedHistory, channelId: 'speed', unit: 'rad/s', prefix: 'ω' },
+            { history: result.motorTorqueHistory, channelId: 'torque', unit: 'N·m', prefix: 'T' },
+        ] as const;
+        for (const { history, channelId, unit, prefix } of motorChannels) {
+            history.forEach((values, componentId) => {
+                const label = componentLabels.get(componentId) ?? componentId;
+                const probe = addProbe({ componentId, channelId, unit, label: `${prefix}(${label})` });
+                updateProbeData(probe.probeId, timePoints.map((time, i) => ({ time, value: values[i] ?? 0 })));
+            });
+        }
+
         // 更新時間範圍
         updateTimeRangeFromData();
     }
@@ -438,8 +451,8 @@ export const useWaveformStore = defineStore('waveform', () => {
 
     function generateDefaultLabel(componentId: string, _channelId: string, unit: WaveformUnit): string {
         // _channelId 保留供未來使用（例如多通道元件）
-        const prefix = unit === 'V' ? 'V' : unit === 'A' ? 'I' : 'P';
-        return `${prefix}(${componentId})`;
+        const prefixes: Record<WaveformUnit, string> = { V: 'V', A: 'I', W: 'P', 'rad/s': 'ω', 'N·m': 'T' };
+        return `${prefixes[unit]}(${componentId})`;
     }
 
     /**
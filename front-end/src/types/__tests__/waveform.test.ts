@@ -0,0 +1,40 @@
+/**
+ * waveform.test.ts - 波形統計量測試
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateStats, type WaveformDataPoint } from '../waveform';
+
+describe('calculateStats', () => {
+  it('matches the per-sample average and RMS for uniformly sampled data', () => {
+    const values = [1, -2, 3, 4, -5, 6];
+    const data: WaveformDataPoint[] = values.map((value, i) => ({ time: i * 1e-3, value }));
+    const stats = calculateStats(data);
+
+    expect(stats.min).toBe(-5);
+    expect(stats.max).toBe(6);
+    expect(stats.peakToPeak).toBe(11);
+    expect(stats.average).toBeCloseTo(7 / 6, 12);
+    expect(stats.rms).toBeCloseTo(Math.sqrt(91 / 6), 12);
+  });
+
+  it('weights non-uniform samples by the time each one covers', () => {
+    // 0V 段每 1ms 取樣 (4 點)，10V 段每 4ms 取樣 (2 點，最後一點沿用前一區間)
+    const data: WaveformDataPoint[] = [
+      ...Array.from({ length: 4 }, (_, i) => ({ time: i * 1e-3, value: 0 })),
+      { time: 4e-3, value: 10 },
+      { time: 8e-3, value: 10 },
+    ];
+    const stats = calculateStats(data);
+
+    // 逐點平均為 20 / 6，時間加權為 (10V · 8ms) / 12ms
+    expect(stats.average).toBeCloseTo((10 * 8) / 12, 12);
+    expect(stats.rms).toBeCloseTo(Math.sqrt((100 * 8) / 12), 12);
+  });
+
+  it('handles empty, single-point and coincident data', () => {
+    expect(calculateStats([])).toEqual({ min: 0, max: 0, average: 0, rms: 0, peakToPeak: 0 });
+    expect(calculateStats([{ time: 1, value: -3 }]).rms).toBe(3);
+    expect(calculateStats([{ time: 1, value: 2 }, { time: 1, value: 4 }]).average).toBe(3);
+  });
+});
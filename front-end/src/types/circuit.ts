@@ -5,24 +5,70 @@
 // Component type enumeration
 export type ComponentType =
     | 'resistor'
+    | 'potentiometer'
+    | 'thermistor'
+    | 'ldr'
     | 'capacitor'
     | 'inductor'
+    | 'transformer'
     | 'dc_source'
+    | 'battery'
     | 'ac_source'
+    | 'current_source'
+    | 'ac_current_source'
+    | 'vcvs'
+    | 'vccs'
+    | 'ccvs'
+    | 'cccs'
     | 'ground'
     | 'opamp'
+    | 'comparator'
+    | 'schmitt_trigger'
     | 'diode'
+    | 'zener'
     | 'transistor_npn'
     | 'transistor_pnp'
+    | 'nmos'
+    | 'pmos'
+    | 'timer555'
+    | 'regulator'
     | 'switch'
+    | 'switch_spdt'
+    | 'switch_dpdt'
+    | 'push_button_no'
+    | 'push_button_nc'
+    | 'fuse'
+    | 'relay'
+    | 'dc_motor'
     | 'led'
+    | 'lamp'
     | 'ammeter'
     | 'voltmeter'
     | 'logic_and'
     | 'logic_or';
 
+// Thermistor temperature coefficient sign
+export type ThermistorType = 'ntc' | 'ptc';
+
 // AC Source waveform types
-export type WaveformType = 'sine' | 'square' | 'triangle' | 'sawtooth';
+export type WaveformType = 'sine' | 'square' | 'triangle' | 'sawtooth' | 'pulse' | 'pwl';
+
+// SPICE-style PULSE(V1 V2 TD TR TF PW PER) parameters
+export interface PulseParams {
+    initialValue: number; // V1: value before delay and between pulses
+    pulsedValue: number; // V2: value during the pulse
+    delay: number; // TD: delay before the first rising edge (s)
+    riseTime: number; // TR (s)
+    fallTime: number; // TF (s)
+    pulseWidth: number; // PW: time held at V2 (s)
+    period: number; // PER (s), <= 0 means a single pulse
+}
+
+// SPICE-style PWL time/value pair
+export interface PwlPoint {
+    time: number; // s
+    value: number;
+}
 
 // Port definition
 export interface Port {
@@ -48,16 +94,89 @@ export interface CircuitComponent {
     // LED-specific properties (LED-001 Rule)
     ledColor?: 'Red' | 'Green' | 'Blue' | 'White'; // LED color for V_f lookup
     vfOverride?: number; // User-defined forward voltage (V), takes precedence over ledColor
-    // AC Source-specific properties (for transient analysis)
+    // Diode/LED Shockley model properties (derived from V_f when omitted)
+    emissionCoefficient?: number; // Emission coefficient n
+    seriesResistance?: number; // Series resistance R_s (Ω)
+    // AC Source-specific properties (for transient analysis, shared by ac_current_source)
     frequency?: number; // Frequency in Hz (default: 60Hz)
     phase?: number; // Phase angle in radians (default: 0)
     waveformType?: WaveformType; // Waveform shape (default: 'sine')
+    pulse?: PulseParams; // PULSE waveform parameters (waveformType 'pulse', ignores value/frequency/phase)
+    pwlPoints?: PwlPoint[]; // PWL breakpoints sorted by time (waveformType 'pwl', ignores value/frequency/phase)
     // Logic gate properties (for digital simulation)
     logicInputA?: boolean; // Input A state (HIGH=true, LOW=false)
     logicInputB?: boolean; // Input B state (HIGH=true, LOW=false)
     logicOutput?: boolean; // Output state (computed from inputs)
     // Switch-specific properties
     switchClosed?: boolean; // Switch state (true=closed/conducting, false=open)
+    switchThrow?: number; // SPDT / DPDT throw position (0 = COM-A, 1 = COM-B)
+    buttonPressed?: boolean; // Push button held down with the mouse (runtime, not saved to history)
+    // Op-Amp-specific properties
+    opampIdeal?: boolean; // Ideal op-amp (very large open-loop gain approximating a nullor)
+    openLoopGain?: number; // Open-loop DC gain A_OL (V/V)
+    gainBandwidth?: number; // Gain-bandwidth product GBW (Hz), single-pole roll-off in AC sweep
+    slewRate?: number; // Output slew rate limit (V/s), applied in transient analysis
+    // Comparator / Schmitt trigger properties (output is ground-referenced)
+    hysteresis?: number; // Comparator hysteresis width around V+ = V- (V)
+    upperThreshold?: number; // Schmitt trigger rising-input threshold V_T+ (V)
+    lowerThreshold?: number; // Schmitt trigger falling-input threshold V_T- (V)
+    outputHigh?: number; // Output voltage when the input is judged high (V)
+    outputLow?: number; // Output voltage when the input is judged low (V)
+    invertOutput?: boolean; // Swap the output levels (inverting Schmitt trigger, e.g. 74HC14)
+    // BJT-specific properties (Ebers-Moll model)
+    betaF?: number; // Forward current gain β_F
+    betaR?: number; // Reverse current gain β_R
+    saturationCurrent?: number; // Saturation current I_S (A), also used by diode/LED
+    thermalVoltage?: number; // Thermal voltage V_T (V)
+    // MOSFET-specific properties (Shichman-Hodges level-1 model, magnitudes for both polarities)
+    thresholdVoltage?: number; // Threshold voltage |V_th| (V)
+    transconductance?: number; // Process transconductance K_p = μ·C_ox (A/V²)
+    channelLengthModulation?: number; // Channel-length modulation λ (1/V)
+    widthLengthRatio?: number; // Channel aspect ratio W/L
+    // Zener diode properties (value = breakdown voltage V_z)
+    zenerResistance?: number; // Zener (dynamic) resistance R_z (Ω)
+    powerRating?: number; // Maximum power dissipation (W), checked by ZEN-001 / REG-001
+    // Potentiometer properties (value = total resistance)
+    wiperPosition?: number; // Wiper position 0 ~ 1 (0 = at terminal 1)
+    // Thermistor properties (value = resistance at 25°C)
+    thermistorType?: ThermistorType; // NTC (resistance falls with temperature) or PTC (rises)
+    thermistorBeta?: number; // β constant (K)
+    // LDR properties (value = resistance at 10 lux)
+    ldrGamma?: number; // Slope of log R vs log lux
+    // Transformer properties (value = turns ratio n = N1 / N2)
+    transformerIdeal?: boolean; // Ideal transformer (v1 = n·v2, n·i1 + i2 = 0)
+    primaryInductance?: number; // Primary inductance L1 (H)
+    secondaryInductance?: number; // Secondary inductance L2 (H), defaults to L1 / n²
+    couplingCoefficient?: number; // Coupling coefficient k (0 ~ 1)
+    // Battery properties (value = EMF at full charge)
+    internalResistance?: number; // Series internal resistance R_int (Ω)
+    batteryCapacity?: number; // Capacity (Ah)
+    stateOfCharge?: number; // Initial state of charge 0 ~ 1 at the start of a transient run
+    liveStateOfCharge?: number; // Runtime state of charge during streaming simulation (display only)
+    // Fuse properties (value = rated current)
+    meltingI2t?: number; // Melting energy I²t (A²s) accumulated above the rated current
+    liveFuseBlown?: boolean; // Runtime blown state during streaming simulation (display only)
+    // Lamp properties (value = rated power)
+    ratedVoltage?: number; // Voltage at which the filament dissipates the rated power (V)
+    thermalTimeConstant?: number; // Filament heating / cooling time constant (s)
+    // Voltage regulator properties (value = output voltage)
+    dropoutVoltage?: number; // Minimum input-output headroom needed to regulate (V)
+    currentLimit?: number; // Output current limit (A)
+    quiescentCurrent?: number; // Ground-pin current drawn from the input (A)
+    // Relay properties (value = coil resistance)
+    coilInductance?: number; // Coil inductance (H)
+    pullInCurrent?: number; // Coil current at which the contacts switch to NO (A)
+    dropOutCurrent?: number; // Coil current below which the contacts release to NC (A)
+    liveRelayEnergized?: boolean; // Runtime contact state during streaming simulation (display only)
+    // DC motor properties (value = armature resistance)
+    armatureInductance?: number; // Armature inductance L_a (H)
+    backEmfConstant?: number; // Back-EMF constant k (V·s/rad), equal to the torque constant (N·m/A)
+    inertia?: number; // Rotor and load moment of inertia J (kg·m²)
+    friction?: number; // Viscous friction coefficient B (N·m·s/rad)
+    loadTorque?: number; // Constant load torque opposing forward rotation (N·m)
+    liveMotorSpeed?: number; // Runtime rotor speed during streaming simulation (rad/s, display only)
+    // Controlled source (CCVS / CCCS) properties
+    controllingComponentId?: string; // Component whose branch current controls the source
 }
 
 // Wire connection
@@ -10,10 +10,10 @@
 // ========== 單位類型 ==========
 
 /**
- * 支援的電學量單位
- * 只允許求解器產生的電學量（電壓、電流、功率）
+ * 支援的物理量單位
+ * 只允許求解器產生的物理量（電壓、電流、功率，及馬達的轉速、轉矩）
  */
-export type WaveformUnit = 'V' | 'A' | 'W';
+export type WaveformUnit = 'V' | 'A' | 'W' | 'rad/s' | 'N·m';
 
 /**
  * 單位顯示配置
@@ -51,6 +51,18 @@ export const UNIT_CONFIGS: Record<WaveformUnit, UnitConfig> = {
         axisLabel: 'Power (W)',
         defaultColors: ['#ab47bc', '#ba68c8', '#ce93d8', '#9c27b0', '#e040fb'],
     },
+    'rad/s': {
+        symbol: 'rad/s',
+        name: 'Speed',
+        axisLabel: 'Speed (rad/s)',
+        defaultColors: ['#29b6f6', '#4fc3f7', '#81d4fa', '#03a9f4', '#00b0ff'],
+    },
+    'N·m': {
+        symbol: 'N·m',
+        name: 'Torque',
+        axisLabel: 'Torque (N·m)',
+        defaultColors: ['#ef5350', '#e57373', '#ef9a9a', '#f44336', '#ff5252'],
+    },
 };
 
 // ========== 波形描線資料 ==========
@@ -268,6 +280,8 @@ export function interpolateValue(
 
 /**
  * 計算資料的統計量
+ * 平均值與 RMS 以時間加權：每個資料點代表至下一點為止的區間 (最後一點沿用前一區間)，
+ * 等間隔資料與逐點平均相同，自適應步長的非等間隔資料不會因取樣密度偏重某段波形
  */
 export function calculateStats(data: WaveformDataPoint[]): {
     min: number;
@@ -284,18 +298,31 @@ export function calculateStats(data: WaveformDataPoint[]): {
     let max = -Infinity;
     let sum = 0;
     let sumSq = 0;
+    let totalWeight = 0;
 
-    for (const point of data) {
-        const v = point.value;
+    for (let i = 0; i < data.length; i++) {
+        const v = data[i]!.value;
         if (v < min) min = v;
         if (v > max) max = v;
-        sum += v;
-        sumSq += v * v;
+
+        // 本點至下一點的區間；最後一點沿用前一區間，單一資料點權重為 1
+        const weight = i + 1 < data.length
+            ? data[i + 1]!.time - data[i]!.time
+            : i > 0 ? data[i]!.time - data[i - 1]!.time : 1;
+        sum += v * weight;
+        sumSq += v * v * weight;
+        totalWeight += weight;
+    }
+
+    // 時間不遞增 (全部重合) 的資料退回逐點平均
+    if (!(totalWeight > 0)) {
+        sum = data.reduce((acc, point) => acc + point.value, 0);
+        sumSq = data.reduce((acc, point) => acc + point.value * point.value, 0);
+        totalWeight = data.length;
     }
 
-    const n = data.length;
-    const average = sum / n;
-    const rms = Math.sqrt(sumSq / n);
+    const average = sum / totalWeight;
+    const rms = Math.sqrt(sumSq / totalWeight);
     const peakToPeak = max - min;
 
     return { min, max, average, rms, peakToPeak };
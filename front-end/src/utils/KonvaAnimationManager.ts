@@ -139,7 +139,12 @@ export class KonvaAnimationManager {
         };
 
         const powerSources = components.filter(
-            (c) => c.type === 'dc_source' || c.type === 'ac_source'
+            (c) =>
+                c.type === 'dc_source' ||
+                c.type === 'battery' ||
+                c.type === 'ac_source' ||
+                c.type === 'current_source' ||
+                c.type === 'ac_current_source'
         );
 
         if (powerSources.length === 0) {
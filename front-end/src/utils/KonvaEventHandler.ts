@@ -18,6 +18,7 @@ export interface StageEventCallbacks {
 
 export interface ComponentEventCallbacks {
     onComponentClick?: (component: CircuitComponent, e: Konva.KonvaEventObject<MouseEvent>) => void;
+    onComponentMouseDown?: (component: CircuitComponent, e: Konva.KonvaEventObject<MouseEvent>) => void;
     onComponentDragStart?: (component: CircuitComponent) => void;
     onComponentDragMove?: (component: CircuitComponent) => void;
     onComponentDragEnd?: (component: CircuitComponent) => void;
@@ -94,6 +95,15 @@ export class KonvaEventHandler {
             });
         }
 
+        if (this.componentCallbacks.onComponentMouseDown) {
+            componentGroup.on('mousedown touchstart', (e) => {
+                // 只有按下非端點區域才觸發
+                if ((e.target as Konva.Node).name() !== 'port') {
+                    this.componentCallbacks.onComponentMouseDown?.(component, e as Konva.KonvaEventObject<MouseEvent>);
+                }
+            });
+        }
+
         if (this.componentCallbacks.onComponentDragStart) {
             componentGroup.on('dragstart', () => {
                 this.componentCallbacks.onComponentDragStart?.(component);